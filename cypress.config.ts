@@ -1,12 +1,18 @@
 import { defineConfig } from 'cypress';
+import { createClient } from '@supabase/supabase-js';
+import { execFileSync } from 'child_process';
+import * as crypto from 'crypto';
 import * as dotenv from 'dotenv';
 import * as fs from 'fs';
+import * as http from 'http';
 import * as path from 'path';
 
 dotenv.config();
 
 // Load environment-specific configuration
 const environment = process.env.NODE_ENV || 'development';
+// Server settings (Supabase keys) used by the database and job tasks
+dotenv.config({ path: `.env.${environment}` });
 const configPath = path.join(__dirname, 'cypress', 'config', `${environment}.json`);
 let envConfig = {};
 
@@ -17,6 +23,36 @@ if (fs.existsSync(configPath)) {
   console.warn(`⚠️  No config found for environment: ${environment}, using defaults`);
 }
 
+// Local endpoint the webhook specs subscribe, recording every request it receives
+type ReceivedWebhook = { headers: http.IncomingHttpHeaders; body: string };
+let webhookReceiver: { url: string; status: number; requests: ReceivedWebhook[] } | null = null;
+
+// Event streams opened by the realtime specs, with the events read from each so far
+type StreamEvent = { id: number | null; event: string; data: any };
+const eventStreams = new Map<string, { controller: AbortController; events: StreamEvent[] }>();
+
+// Parse one Server-Sent Events block; comments and the retry hint carry no event
+const parseStreamEvent = (block: string): StreamEvent | null => {
+  const fields = new Map<string, string>();
+  for (const line of block.split('\n')) {
+    const separator = line.indexOf(': ');
+    if (separator > 0) {
+      fields.set(line.slice(0, separator), line.slice(separator + 2));
+    }
+  }
+
+  const event = fields.get('event');
+  if (!event) {
+    return null;
+  }
+
+  return {
+    id: fields.has('id') ? Number(fields.get('id')) : null,
+    event,
+    data: JSON.parse(fields.get('data') ?? '{}'),
+  };
+};
+
 export default defineConfig({
   e2e: {
     // Use new folder structure only
@@ -69,6 +105,110 @@ export default defineConfig({
           // Implementation would go here
           return { success: true, message: 'Database cleaned' };
         },
+        // Rewrite columns of a row directly, e.g. to move a booking's deadline into the past
+        async updateRecord({ table, id, values }: { table: string; id: string; values: Record<string, any> }) {
+          const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+          const { data, error } = await supabase.from(table).update(values).eq('id', id).select().single();
+          if (error) {
+            throw new Error(`Failed to update ${table} ${id}: ${error.message}`);
+          }
+          return data;
+        },
+        // Run one pass of a scheduled job (see src/jobs/runJob.ts) instead of waiting for its schedule, optionally
+        // with some of its settings overridden
+        runJob(job: string | { name: string; env: Record<string, string> }) {
+          const { name, env } = typeof job === 'string' ? { name: job, env: {} } : job;
+          const output = execFileSync('npx', ['tsx', 'src/jobs/runJob.ts', name], {
+            cwd: __dirname,
+            env: { ...process.env, ...env, DISABLE_SCHEDULED_JOBS: 'true' },
+            encoding: 'utf8',
+            timeout: 60000,
+          });
+          return JSON.parse(output.trim().split('\n').pop() || '{}');
+        },
+        // Start the webhook endpoint, or clear what it received, and answer deliveries with the given status; yields its URL
+        startWebhookReceiver(status: number) {
+          if (webhookReceiver) {
+            webhookReceiver.status = status;
+            webhookReceiver.requests = [];
+            return webhookReceiver.url;
+          }
+
+          return new Promise<string>((resolve) => {
+            const server = http.createServer((req, res) => {
+              let body = '';
+              req.on('data', (chunk) => { body += chunk; });
+              req.on('end', () => {
+                webhookReceiver!.requests.push({ headers: req.headers, body });
+                res.writeHead(webhookReceiver!.status, { 'Content-Type': 'text/plain' });
+                res.end(`received ${req.headers['x-webhook-delivery']}`);
+              });
+            });
+
+            server.unref();
+            server.listen(0, '127.0.0.1', () => {
+              const { port } = server.address() as { port: number };
+              webhookReceiver = { url: `http://127.0.0.1:${port}/hooks`, status, requests: [] };
+              resolve(webhookReceiver.url);
+            });
+          });
+        },
+        receivedWebhooks() {
+          return webhookReceiver?.requests ?? [];
+        },
+        // Expected X-Webhook-Signature digest, computed apart from the server's implementation
+        webhookDigest({ secret, timestamp, body }: { secret: string; timestamp: string; body: string }) {
+          return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+        },
+        // Open an event stream, optionally resuming after an event id, and keep reading it in the background; yields
+        // the response status and, when the stream opened, a handle for the tasks below
+        async openEventStream({ url, lastEventId }: { url: string; lastEventId?: number | null }) {
+          const controller = new AbortController();
+          const response = await fetch(url, {
+            headers: lastEventId == null ? {} : { 'Last-Event-ID': String(lastEventId) },
+            signal: controller.signal,
+          });
+
+          if (!response.ok || !response.body) {
+            return { status: response.status, body: await response.json(), handle: null };
+          }
+
+          const handle = crypto.randomUUID();
+          const stream = { controller, events: [] as StreamEvent[] };
+          eventStreams.set(handle, stream);
+
+          const reader = response.body.getReader();
+          const decoder = new TextDecoder();
+          let buffered = '';
+
+          (async () => {
+            for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+              buffered += decoder.decode(chunk.value, { stream: true });
+
+              let end = buffered.indexOf('\n\n');
+              while (end !== -1) {
+                const event = parseStreamEvent(buffered.slice(0, end));
+                if (event) {
+                  stream.events.push(event);
+                }
+                buffered = buffered.slice(end + 2);
+                end = buffered.indexOf('\n\n');
+              }
+            }
+          })().catch(() => {
+            // Aborted by closeEventStream
+          });
+
+          return { status: response.status, body: null, handle };
+        },
+        eventStreamEvents(handle: string) {
+          return eventStreams.get(handle)?.events ?? [];
+        },
+        closeEventStream(handle: string) {
+          eventStreams.get(handle)?.controller.abort();
+          eventStreams.delete(handle);
+          return null;
+        },
         // Performance monitoring
         logPerformanceMetrics(metrics) {
           console.log('📊 Performance metrics:', metrics);
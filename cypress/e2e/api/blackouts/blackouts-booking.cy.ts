@@ -0,0 +1,115 @@
+/// <reference types="cypress" />
+
+import { RentalHelper } from '../../../support/helpers/rentals';
+
+describe('Item Blackouts API - Blocked Dates', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+  const { toDate } = RentalHelper;
+
+  let lenderToken: string;
+  let borrowerToken: string;
+
+  before(() => {
+    RentalHelper.signIn('lender').then((token) => { lenderToken = token; });
+    RentalHelper.signIn('borrower').then((token) => { borrowerToken = token; });
+  });
+
+  const createBlackout = (itemId: string, token: string, body: Record<string, any>) =>
+    cy.request({
+      method: 'POST',
+      url: `${apiBaseUrl}/items/${itemId}/blackouts`,
+      headers: { Authorization: `Bearer ${token}` },
+      body,
+      failOnStatusCode: false
+    });
+
+  const getCalendarDays = (itemId: string, month: string) =>
+    cy.request('GET', `${apiBaseUrl}/items/${itemId}/calendar?month=${month}`).then((response) => {
+      expect(response.status).to.equal(200);
+      return response.body.data.days as Array<{ date: string; status: string }>;
+    });
+
+  const statusOn = (days: Array<{ date: string; status: string }>, date: string) =>
+    days.find((day) => day.date === date)?.status;
+
+  it('should reject bookings over a blackout until the lender removes it', () => {
+    RentalHelper.createItem(lenderToken).then((item) => {
+      createBlackout(item.id, lenderToken, { startDate: toDate(6), endDate: toDate(8), reason: 'Family trip' })
+        .then((response) => {
+          expect(response.status).to.equal(201);
+          const blackout = response.body.data;
+
+          RentalHelper.requestBooking(borrowerToken, item.id, 5, 6).then((rejected) => {
+            expect(rejected.status).to.equal(409);
+            expect(rejected.body.error).to.equal('Item is not available for the selected dates');
+          });
+
+          cy.request('GET', `${apiBaseUrl}/items/${item.id}/availability?start_date=${toDate(7)}&end_date=${toDate(9)}`)
+            .its('body.data').should('equal', false);
+
+          // The days either side stay bookable
+          RentalHelper.requestBooking(borrowerToken, item.id, 3, 5).its('status').should('equal', 201);
+          RentalHelper.requestBooking(borrowerToken, item.id, 9, 10).its('status').should('equal', 201);
+
+          cy.request({
+            method: 'DELETE',
+            url: `${apiBaseUrl}/items/${item.id}/blackouts/${blackout.id}`,
+            headers: { Authorization: `Bearer ${lenderToken}` }
+          }).its('status').should('equal', 200);
+
+          RentalHelper.requestBooking(borrowerToken, item.id, 5, 6).its('status').should('equal', 201);
+        });
+    });
+  });
+
+  it('should block the chosen weekday every week for recurring blackouts', () => {
+    const blockedDate = toDate(10);
+    const weekday = new Date(`${blockedDate}T00:00:00Z`).getUTCDay();
+
+    RentalHelper.createItem(lenderToken).then((item) => {
+      createBlackout(item.id, lenderToken, { startDate: toDate(0), recurringWeekdays: [weekday] })
+        .its('status').should('equal', 201);
+
+      // Any range containing that weekday is unavailable, however far out
+      RentalHelper.requestBooking(borrowerToken, item.id, 9, 11).its('status').should('equal', 409);
+      RentalHelper.requestBooking(borrowerToken, item.id, 17, 17).its('status').should('equal', 409);
+      RentalHelper.requestBooking(borrowerToken, item.id, 11, 13).its('status').should('equal', 201);
+    });
+  });
+
+  it('should show blocked and booked days on the item calendar', () => {
+    const month = toDate(10).slice(0, 7);
+
+    RentalHelper.createItem(lenderToken).then((item) => {
+      createBlackout(item.id, lenderToken, { startDate: toDate(10), endDate: toDate(10) }).its('status').should('equal', 201);
+
+      RentalHelper.createBooking(borrowerToken, item.id, 12, 12).then((booking) => {
+        RentalHelper.updateStatus(booking.id, lenderToken, { status: 'confirmed' }).its('status').should('equal', 200);
+      });
+
+      getCalendarDays(item.id, month).then((days) => {
+        expect(statusOn(days, toDate(10))).to.equal('blocked');
+        if (toDate(12).startsWith(month)) {
+          expect(statusOn(days, toDate(12))).to.equal('booked');
+        }
+        if (toDate(11).startsWith(month)) {
+          expect(statusOn(days, toDate(11))).to.equal('free');
+        }
+      });
+    });
+  });
+
+  it('should only let the owner block dates', () => {
+    RentalHelper.createItem(lenderToken).then((item) => {
+      createBlackout(item.id, borrowerToken, { startDate: toDate(6), endDate: toDate(8) }).then((response) => {
+        expect(response.status).to.equal(403);
+        expect(response.body.error).to.equal('You do not have permission to modify this item');
+      });
+
+      createBlackout(item.id, lenderToken, { startDate: toDate(8), endDate: toDate(6) }).then((response) => {
+        expect(response.status).to.equal(400);
+        expect(response.body).to.have.property('details');
+      });
+    });
+  });
+});
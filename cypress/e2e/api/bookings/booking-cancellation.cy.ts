@@ -0,0 +1,146 @@
+/// <reference types="cypress" />
+
+import { RentalHelper } from '../../../support/helpers/rentals';
+
+describe('Bookings API - Cancellation Policies', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+
+  let lenderToken: string;
+  let borrowerToken: string;
+
+  before(() => {
+    RentalHelper.signIn('lender').then((token) => { lenderToken = token; });
+    RentalHelper.signIn('borrower').then((token) => { borrowerToken = token; });
+  });
+
+  // Lists an item under the policy and books it; the booking is confirmed unless asked to stay pending
+  const bookUnderPolicy = (
+    itemFields: Record<string, any>,
+    startInDays: number,
+    options: { confirm?: boolean } = {}
+  ) =>
+    RentalHelper.createItem(lenderToken, itemFields).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, startInDays, startInDays + 2)
+    ).then((booking) => {
+      if (options.confirm === false) {
+        return booking;
+      }
+
+      return RentalHelper.updateStatus(booking.id, lenderToken, { status: 'confirmed' }).then((response) => {
+        expect(response.status).to.equal(200);
+        return booking;
+      });
+    });
+
+  const cancel = (bookingId: string, token: string) =>
+    RentalHelper.updateStatus(bookingId, token, { status: 'cancelled', reason: 'Plans changed' }).then((response) => {
+      expect(response.status).to.equal(200);
+      expect(response.body.data.bookingStatus).to.equal('cancelled');
+      return response.body.data;
+    });
+
+  const expectRefund = (cancelled: any, refundPercentage: number) => {
+    const breakdown = cancelled.cancellationBreakdown;
+    const totalRent = Number(cancelled.totalRent);
+
+    expect(breakdown.refundPercentage).to.equal(refundPercentage);
+    expect(breakdown.rentRefund).to.equal(Math.round(totalRent * refundPercentage) / 100);
+    expect(breakdown.lenderCompensation).to.equal(Math.round(totalRent * (100 - refundPercentage)) / 100);
+    expect(breakdown.platformFeeRefund).to.equal(refundPercentage === 100 ? Number(cancelled.platformFee) : 0);
+    expect(Number(cancelled.cancellationRefundAmount)).to.equal(breakdown.refundAmount);
+  };
+
+  it('should refund a flexible booking in full up to a day before the start and half after that', () => {
+    bookUnderPolicy({ cancellationPolicy: 'flexible' }, 3).then((booking) => {
+      cancel(booking.id, borrowerToken).then((cancelled) => {
+        expect(cancelled.cancellationBreakdown.policy).to.equal('flexible');
+        expect(cancelled.cancellationBreakdown.cutoffDays).to.equal(1);
+        expectRefund(cancelled, 100);
+      });
+    });
+
+    bookUnderPolicy({ cancellationPolicy: 'flexible' }, 0).then((booking) => {
+      cancel(booking.id, borrowerToken).then((cancelled) => expectRefund(cancelled, 50));
+    });
+  });
+
+  it('should apply the five day cut-off of the moderate policy', () => {
+    bookUnderPolicy({ cancellationPolicy: 'moderate' }, 6).then((booking) => {
+      cancel(booking.id, borrowerToken).then((cancelled) => expectRefund(cancelled, 100));
+    });
+
+    bookUnderPolicy({ cancellationPolicy: 'moderate' }, 3).then((booking) => {
+      cancel(booking.id, borrowerToken).then((cancelled) => {
+        expect(cancelled.cancellationBreakdown.cutoffDays).to.equal(5);
+        expectRefund(cancelled, 50);
+      });
+    });
+  });
+
+  it('should refund half of a strict booking before its fourteen day cut-off and nothing after it', () => {
+    bookUnderPolicy({ cancellationPolicy: 'strict' }, 20).then((booking) => {
+      cancel(booking.id, borrowerToken).then((cancelled) => expectRefund(cancelled, 50));
+    });
+
+    bookUnderPolicy({ cancellationPolicy: 'strict' }, 3).then((booking) => {
+      cancel(booking.id, borrowerToken).then((cancelled) => {
+        expectRefund(cancelled, 0);
+        expect(cancelled.cancellationBreakdown.lenderCompensation).to.equal(Number(cancelled.totalRent));
+      });
+    });
+  });
+
+  it('should use the cut-off chosen by the lender over the policy default', () => {
+    bookUnderPolicy({ cancellationPolicy: 'strict', cancellationCutoffDays: 2 }, 3).then((booking) => {
+      cancel(booking.id, borrowerToken).then((cancelled) => {
+        expect(cancelled.cancellationBreakdown.cutoffDays).to.equal(2);
+        expectRefund(cancelled, 50);
+      });
+    });
+  });
+
+  it('should refund in full when the lender cancels or the request was never confirmed', () => {
+    bookUnderPolicy({ cancellationPolicy: 'strict' }, 3).then((booking) => {
+      cancel(booking.id, lenderToken).then((cancelled) => {
+        expect(cancelled.cancellationBreakdown.cancelledBy).to.equal('lender');
+        expectRefund(cancelled, 100);
+      });
+    });
+
+    bookUnderPolicy({ cancellationPolicy: 'strict' }, 3, { confirm: false }).then((booking) => {
+      cancel(booking.id, borrowerToken).then((cancelled) => {
+        expect(cancelled.cancellationBreakdown.cancelledBy).to.equal('borrower');
+        expectRefund(cancelled, 100);
+      });
+    });
+  });
+
+  it('should refund the computed amount against the captured payment', () => {
+    bookUnderPolicy({ cancellationPolicy: 'moderate' }, 3).then((booking) => {
+      cy.request({
+        method: 'POST',
+        url: `${apiBaseUrl}/payments`,
+        headers: { Authorization: `Bearer ${borrowerToken}` },
+        body: { bookingId: booking.id, paymentMethod: 'card' }
+      }).then((response) =>
+        cy.request('POST', `${apiBaseUrl}/payments/callback/fake`, response.body.data.checkout.simulate.completed)
+      ).its('body.data.paymentStatus').should('equal', 'completed');
+
+      cancel(booking.id, borrowerToken).then((cancelled) => {
+        expectRefund(cancelled, 50);
+
+        RentalHelper.getBooking(booking.id, borrowerToken).then((details) => {
+          const [payment] = details.payments;
+          expect(payment.paymentStatus).to.equal('partially_refunded');
+          expect(Number(payment.refundAmount)).to.equal(cancelled.cancellationBreakdown.refundAmount);
+        });
+      });
+
+      // The refund is issued once; cancelling again is not a valid transition
+      RentalHelper.updateStatus(booking.id, borrowerToken, { status: 'cancelled' }).then((response) => {
+        expect(response.status).to.equal(400);
+        expect(response.body.error).to.equal('Invalid status transition');
+      });
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/// <reference types="cypress" />
+
+import { RentalHelper } from '../../../support/helpers/rentals';
+
+describe('Bookings API - Overlapping Bookings', () => {
+  const conflictError = 'Item is not available for the selected dates';
+
+  let lenderToken: string;
+  let borrowerToken: string;
+
+  before(() => {
+    RentalHelper.signIn('lender').then((token) => { lenderToken = token; });
+    RentalHelper.signIn('borrower').then((token) => { borrowerToken = token; });
+  });
+
+  it('should reject a request overlapping a confirmed booking but allow the days around it', () => {
+    RentalHelper.createItem(lenderToken).then((item) => {
+      RentalHelper.createBooking(borrowerToken, item.id, 5, 7).then((booking) => {
+        RentalHelper.updateStatus(booking.id, lenderToken, { status: 'confirmed' }).its('status').should('equal', 200);
+      });
+
+      // Both ends of a booking are rental days
+      const overlapping: Array<[number, number]> = [[3, 5], [7, 8], [6, 6], [4, 9]];
+      overlapping.forEach(([start, end]) => {
+        RentalHelper.requestBooking(borrowerToken, item.id, start, end).then((response) => {
+          expect(response.status, `days ${start}-${end}`).to.equal(409);
+          expect(response.body.error).to.equal(conflictError);
+        });
+      });
+
+      RentalHelper.requestBooking(borrowerToken, item.id, 2, 4).its('status').should('equal', 201);
+      RentalHelper.requestBooking(borrowerToken, item.id, 8, 9).its('status').should('equal', 201);
+    });
+  });
+
+  it('should let overlapping requests wait but confirm only one of them', () => {
+    RentalHelper.createItem(lenderToken).then((item) => {
+      RentalHelper.createBooking(borrowerToken, item.id, 5, 7).then((first) => {
+        RentalHelper.createBooking(borrowerToken, item.id, 6, 8).then((second) => {
+          RentalHelper.updateStatus(first.id, lenderToken, { status: 'confirmed' }).its('status').should('equal', 200);
+
+          RentalHelper.updateStatus(second.id, lenderToken, { status: 'confirmed' }).then((response) => {
+            expect(response.status).to.equal(409);
+            expect(response.body.error).to.equal(conflictError);
+          });
+
+          RentalHelper.getBooking(second.id, borrowerToken).its('bookingStatus').should('equal', 'pending');
+        });
+      });
+    });
+  });
+
+  it('should free the dates again once the confirmed booking is cancelled', () => {
+    RentalHelper.createItem(lenderToken).then((item) => {
+      RentalHelper.createBooking(borrowerToken, item.id, 5, 7).then((booking) => {
+        RentalHelper.updateStatus(booking.id, lenderToken, { status: 'confirmed' }).its('status').should('equal', 200);
+        RentalHelper.requestBooking(borrowerToken, item.id, 5, 7).its('status').should('equal', 409);
+
+        RentalHelper.updateStatus(booking.id, lenderToken, { status: 'cancelled', reason: 'Item damaged' })
+          .its('status').should('equal', 200);
+      });
+
+      RentalHelper.requestBooking(borrowerToken, item.id, 5, 7).its('status').should('equal', 201);
+    });
+  });
+});
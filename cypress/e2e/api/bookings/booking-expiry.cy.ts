@@ -0,0 +1,77 @@
+/// <reference types="cypress" />
+
+import { RentalHelper } from '../../../support/helpers/rentals';
+
+describe('Bookings API - Pending Request Expiry', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+
+  let lenderToken: string;
+  let borrowerToken: string;
+
+  before(() => {
+    RentalHelper.signIn('lender').then((token) => { lenderToken = token; });
+    RentalHelper.signIn('borrower').then((token) => { borrowerToken = token; });
+  });
+
+  // Pretend the lender's response window closed a minute ago
+  const lapse = (bookingId: string) =>
+    cy.task('updateRecord', {
+      table: 'booking',
+      id: bookingId,
+      values: { expires_at: new Date(Date.now() - 60 * 1000).toISOString() }
+    });
+
+  it('should give a new request a response deadline before its start date', () => {
+    RentalHelper.createItem(lenderToken).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, 10, 12)
+    ).then((booking) => {
+      const expiresAt = new Date(booking.expiresAt).getTime();
+      expect(expiresAt).to.be.greaterThan(Date.now());
+      expect(expiresAt).to.be.lessThan(new Date(`${booking.startDate}T00:00:00Z`).getTime());
+    });
+  });
+
+  it('should cancel a request the lender did not answer in time', () => {
+    RentalHelper.createItem(lenderToken).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, 10, 12)
+    ).then((booking) => {
+      lapse(booking.id);
+      cy.task('runJob', 'pending-booking-expiry').its('handled').should('be.at.least', 1);
+
+      RentalHelper.getBooking(booking.id, borrowerToken).then((expired) => {
+        expect(expired.bookingStatus).to.equal('cancelled');
+        expect(expired.cancellationReason).to.equal('Expired: the lender did not respond in time');
+      });
+
+      // Expired by the system, so no user is recorded against the change
+      cy.request({
+        method: 'GET',
+        url: `${apiBaseUrl}/bookings/${booking.id}/timeline`,
+        headers: { Authorization: `Bearer ${borrowerToken}` }
+      }).then((response) => {
+        const last = response.body.data[response.body.data.length - 1];
+        expect(last.fromStatus).to.equal('pending');
+        expect(last.toStatus).to.equal('cancelled');
+        expect(last.changedBy).to.be.null;
+      });
+
+      // The lender can no longer accept it
+      RentalHelper.updateStatus(booking.id, lenderToken, { status: 'confirmed' }).then((response) => {
+        expect(response.status).to.equal(400);
+        expect(response.body.error).to.equal('Invalid status transition');
+      });
+    });
+  });
+
+  it('should leave requests the lender already confirmed alone', () => {
+    RentalHelper.createItem(lenderToken).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, 10, 12)
+    ).then((booking) => {
+      RentalHelper.updateStatus(booking.id, lenderToken, { status: 'confirmed' }).its('status').should('equal', 200);
+      lapse(booking.id);
+      cy.task('runJob', 'pending-booking-expiry');
+
+      RentalHelper.getBooking(booking.id, borrowerToken).its('bookingStatus').should('equal', 'confirmed');
+    });
+  });
+});
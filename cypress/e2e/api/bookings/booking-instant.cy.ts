@@ -0,0 +1,70 @@
+/// <reference types="cypress" />
+
+import { RentalHelper } from '../../../support/helpers/rentals';
+
+describe('Bookings API - Instant Book', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+
+  let lenderToken: string;
+  let borrowerToken: string;
+  let lenderId: string;
+
+  before(() => {
+    RentalHelper.signIn('lender').then((token) => {
+      lenderToken = token;
+      RentalHelper.getProfile(token).then((profile) => { lenderId = profile.id; });
+    });
+    RentalHelper.signIn('borrower').then((token) => { borrowerToken = token; });
+  });
+
+  it('should confirm a booking straight away when the item allows instant booking', () => {
+    RentalHelper.createItem(lenderToken, { bookingMode: 'instant' }).then((item) => {
+      RentalHelper.requestBooking(borrowerToken, item.id, 3, 5).then((response) => {
+        expect(response.status).to.equal(201);
+        expect(response.body.message).to.equal('Booking confirmed instantly');
+        expect(response.body.data.bookingStatus).to.equal('confirmed');
+
+        // Confirmed on the lender's behalf, so the trail shows the lender and why
+        cy.request({
+          method: 'GET',
+          url: `${apiBaseUrl}/bookings/${response.body.data.id}/timeline`,
+          headers: { Authorization: `Bearer ${borrowerToken}` }
+        }).then((timeline) => {
+          const [requested, confirmed] = timeline.body.data;
+          expect(requested.toStatus).to.equal('pending');
+          expect(confirmed.toStatus).to.equal('confirmed');
+          expect(confirmed.changedBy).to.equal(lenderId);
+          expect(confirmed.reason).to.equal('Confirmed automatically (instant book)');
+        });
+      });
+
+      // The instant confirmation holds the dates like any other confirmed booking
+      RentalHelper.requestBooking(borrowerToken, item.id, 4, 6).then((response) => {
+        expect(response.status).to.equal(409);
+        expect(response.body.error).to.equal('Item is not available for the selected dates');
+      });
+    });
+  });
+
+  it('should leave the request pending when the borrower does not meet the trust score requirement', () => {
+    RentalHelper.getProfile(borrowerToken).then((profile) => {
+      expect(Number(profile.trustScore ?? 0), 'borrower trust score').to.be.lessThan(5);
+    });
+
+    RentalHelper.createItem(lenderToken, { bookingMode: 'instant', instantBookMinTrustScore: 5 }).then((item) =>
+      RentalHelper.requestBooking(borrowerToken, item.id, 3, 5)
+    ).then((response) => {
+      expect(response.status).to.equal(201);
+      expect(response.body.data.bookingStatus).to.equal('pending');
+      expect(response.body.data.expiresAt).to.be.a('string');
+    });
+  });
+
+  it('should keep request-mode items waiting for the lender', () => {
+    RentalHelper.createItem(lenderToken).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, 3, 5)
+    ).then((booking) => {
+      expect(booking.bookingStatus).to.equal('pending');
+    });
+  });
+});
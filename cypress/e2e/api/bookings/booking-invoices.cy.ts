@@ -0,0 +1,116 @@
+/// <reference types="cypress" />
+
+import { RentalHelper } from '../../../support/helpers/rentals';
+
+describe('Bookings API - Invoices', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+
+  let lenderToken: string;
+  let borrowerToken: string;
+  let adminToken: string;
+
+  before(() => {
+    RentalHelper.signIn('lender').then((token) => { lenderToken = token; });
+    RentalHelper.signIn('borrower').then((token) => { borrowerToken = token; });
+    RentalHelper.signIn('admin').then((token) => { adminToken = token; });
+  });
+
+  const getInvoice = (bookingId: string, token: string, format?: string) =>
+    cy.request({
+      method: 'GET',
+      url: `${apiBaseUrl}/bookings/${bookingId}/invoice${format ? `?format=${format}` : ''}`,
+      headers: { Authorization: `Bearer ${token}` },
+      failOnStatusCode: false
+    });
+
+  // Sequence part of INV/<financial year>/<number>
+  const sequenceOf = (invoiceNumber: string) => Number(invoiceNumber.split('/').pop());
+
+  // Books, pays for and completes a rental of a new item
+  const completedRental = (itemFields: Record<string, any> = {}) =>
+    RentalHelper.createItem(lenderToken, itemFields).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, 1, 3)
+    ).then((booking) => {
+      cy.request({
+        method: 'POST',
+        url: `${apiBaseUrl}/payments`,
+        headers: { Authorization: `Bearer ${borrowerToken}` },
+        body: { bookingId: booking.id, paymentMethod: 'card' }
+      }).then((response) =>
+        cy.request('POST', `${apiBaseUrl}/payments/callback/fake`, response.body.data.checkout.simulate.completed)
+      ).its('status').should('equal', 200);
+
+      RentalHelper.startRental(booking.id, lenderToken, borrowerToken);
+      RentalHelper.completeRental(booking.id, lenderToken, borrowerToken);
+
+      return RentalHelper.getBooking(booking.id, borrowerToken);
+    });
+
+  it('should bill the booking charges and the payment made for it', () => {
+    completedRental({ rentPricePerDay: 100, securityAmount: 500 }).then((booking) => {
+      getInvoice(booking.id, borrowerToken).then((response) => {
+        expect(response.status).to.equal(200);
+
+        const invoice = response.body.data;
+        expect(invoice.invoiceNumber).to.match(/^INV\/\d{4}-\d{2}\/\d{6}$/);
+
+        const document = invoice.document;
+        expect(document.invoiceNumber).to.equal(invoice.invoiceNumber);
+        expect(document.bookingId).to.equal(booking.id);
+        expect(document.rentalPeriod).to.deep.equal({ startDate: booking.startDate, endDate: booking.endDate, totalDays: 3 });
+
+        const rent = document.rentalCharges.find((line: any) => line.description === 'Rent');
+        expect(rent).to.include({ quantity: 3, unitPrice: 100, amount: 300 });
+        expect(document.platformCharges).to.deep.include({ description: 'Platform service fee', amount: Number(booking.platformFee) });
+        expect(document.securityDeposit).to.equal(500);
+
+        expect(document.payments).to.have.length(1);
+        expect(document.payments[0].amount).to.equal(Number(booking.payments[0].amount));
+        expect(document.amountPaid).to.equal(Number(booking.payments[0].amount));
+      });
+    });
+  });
+
+  it('should issue the number once and number later invoices after it', () => {
+    completedRental().then((first) => {
+      getInvoice(first.id, borrowerToken).its('body.data.invoiceNumber').then((firstNumber) => {
+        // Asking again, or as the other party, returns the same invoice
+        getInvoice(first.id, borrowerToken).its('body.data.invoiceNumber').should('equal', firstNumber);
+        getInvoice(first.id, lenderToken).its('body.data.invoiceNumber').should('equal', firstNumber);
+
+        completedRental().then((second) => {
+          getInvoice(second.id, lenderToken).its('body.data.invoiceNumber').then((secondNumber) => {
+            expect(sequenceOf(String(secondNumber))).to.be.greaterThan(sequenceOf(String(firstNumber)));
+          });
+        });
+      });
+    });
+  });
+
+  it('should download the invoice as a PDF', () => {
+    completedRental().then((booking) => {
+      getInvoice(booking.id, lenderToken, 'pdf').then((response) => {
+        expect(response.status).to.equal(200);
+        expect(response.headers['content-type']).to.include('application/pdf');
+        expect(response.headers['content-disposition']).to.match(/attachment; filename="INV-\d{4}-\d{2}-\d{6}\.pdf"/);
+        expect(String(response.body).startsWith('%PDF')).to.equal(true);
+      });
+    });
+  });
+
+  it('should only invoice completed rentals and only for their two parties', () => {
+    RentalHelper.createItem(lenderToken).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, 1, 3)
+    ).then((booking) => {
+      getInvoice(booking.id, borrowerToken).then((response) => {
+        expect(response.status).to.equal(400);
+        expect(response.body.error).to.equal('Invoices are available once the rental is completed');
+      });
+
+      getInvoice(booking.id, adminToken).then((response) => {
+        expect(response.status).to.equal(403);
+        expect(response.body.error).to.equal('You are not authorized to view this invoice');
+      });
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/// <reference types="cypress" />
+
+import { RentalHelper } from '../../../support/helpers/rentals';
+
+describe('Bookings API - Late Returns', () => {
+  const { toDate } = RentalHelper;
+
+  let lenderToken: string;
+  let borrowerToken: string;
+
+  before(() => {
+    RentalHelper.signIn('lender').then((token) => { lenderToken = token; });
+    RentalHelper.signIn('borrower').then((token) => { borrowerToken = token; });
+  });
+
+  // An in-progress rental of a new item whose return date was three days ago
+  const overdueRental = (itemFields: Record<string, any>) =>
+    RentalHelper.createItem(lenderToken, { rentPricePerDay: 100, ...itemFields }).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, 0, 1)
+    ).then((booking) => {
+      RentalHelper.startRental(booking.id, lenderToken, borrowerToken);
+      cy.task('updateRecord', { table: 'booking', id: booking.id, values: { start_date: toDate(-4), end_date: toDate(-3) } });
+      return booking;
+    });
+
+  const depositOf = (booking: any) =>
+    Array.isArray(booking.securityDeposit) ? booking.securityDeposit[0] : booking.securityDeposit;
+
+  // Let the claim window of the deposit lapse and run the release job
+  const releaseDeposit = (booking: any) => {
+    cy.task('updateRecord', {
+      table: 'security_deposit',
+      id: depositOf(booking).id,
+      values: { release_due_at: new Date(Date.now() - 60 * 1000).toISOString() }
+    });
+    cy.task('runJob', 'deposit-release');
+  };
+
+  it('should charge every day past the return date without adding it to the booking total', () => {
+    overdueRental({ lateFeePerDay: 30 }).then((booking) => {
+      cy.task('runJob', 'late-return').its('handled').should('be.at.least', 1);
+
+      RentalHelper.getBooking(booking.id, borrowerToken).then((overdue) => {
+        expect(overdue.bookingStatus).to.equal('in_progress');
+        expect(overdue.overdueAt).to.be.a('string');
+        expect(overdue.lateDays).to.equal(3);
+        expect(Number(overdue.lateFee)).to.equal(90);
+        expect(Number(overdue.lateFeeCollected)).to.equal(0);
+        expect(Number(overdue.lateFeeOutstanding)).to.equal(90);
+        expect(Number(overdue.totalAmount)).to.equal(Number(booking.totalAmount));
+
+        // Another run on the same day changes nothing
+        cy.task('runJob', 'late-return');
+        RentalHelper.getBooking(booking.id, borrowerToken).then((again) => {
+          expect(again.lateDays).to.equal(3);
+          expect(again.overdueAt).to.equal(overdue.overdueAt);
+        });
+      });
+    });
+  });
+
+  it('should fall back to the daily rate when the lender set no late fee', () => {
+    overdueRental({}).then((booking) => {
+      cy.task('runJob', 'late-return');
+
+      // LATE_FEE_RATE_PERCENT of the test environment is 100 (see .env.example)
+      RentalHelper.getBooking(booking.id, borrowerToken).its('lateFee').then(Number).should('equal', 300);
+    });
+  });
+
+  it('should keep the late fee from the deposit when it is released', () => {
+    overdueRental({ lateFeePerDay: 30, securityAmount: 500 }).then((booking) => {
+      RentalHelper.completeRental(booking.id, lenderToken, borrowerToken);
+
+      RentalHelper.getBooking(booking.id, borrowerToken).then((completed) => {
+        expect(Number(completed.lateFee)).to.equal(90);
+        releaseDeposit(completed);
+      });
+
+      RentalHelper.getBooking(booking.id, borrowerToken).then((settled) => {
+        expect(Number(settled.lateFeeCollected)).to.equal(90);
+        expect(Number(settled.lateFeeOutstanding)).to.equal(0);
+
+        const deposit = depositOf(settled);
+        expect(deposit.depositStatus).to.equal('deducted');
+        expect(Number(deposit.deductedAmount)).to.equal(90);
+        expect(Number(deposit.refundedAmount)).to.equal(410);
+      });
+    });
+  });
+
+  it('should leave what the deposit cannot cover outstanding', () => {
+    overdueRental({ lateFeePerDay: 30, securityAmount: 50 }).then((booking) => {
+      RentalHelper.completeRental(booking.id, lenderToken, borrowerToken);
+      RentalHelper.getBooking(booking.id, borrowerToken).then((completed) => releaseDeposit(completed));
+
+      RentalHelper.getBooking(booking.id, borrowerToken).then((settled) => {
+        expect(Number(settled.lateFee)).to.equal(90);
+        expect(Number(settled.lateFeeCollected)).to.equal(50);
+        expect(Number(settled.lateFeeOutstanding)).to.equal(40);
+        expect(Number(depositOf(settled).refundedAmount)).to.equal(0);
+      });
+    });
+  });
+});
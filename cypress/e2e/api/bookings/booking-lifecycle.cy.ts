@@ -0,0 +1,129 @@
+/// <reference types="cypress" />
+
+describe('Bookings API - Status Lifecycle', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+
+  const toDate = (daysFromToday: number) => {
+    const date = new Date();
+    date.setDate(date.getDate() + daysFromToday);
+    return date.toISOString().slice(0, 10);
+  };
+
+  let lenderToken: string | undefined;
+  let borrowerToken: string | undefined;
+  let categoryId: string;
+
+  before(() => {
+    // Two accounts from the environment config (cypress/config/<env>.json), one on each side of the booking
+    const { lender, borrower } = Cypress.env('auth').testUsers;
+
+    cy.login({ email: lender.email, password: lender.password }).then((loginResponse) => {
+      lenderToken = loginResponse.data?.access_token || loginResponse.session?.access_token;
+    });
+
+    cy.login({ email: borrower.email, password: borrower.password }).then((loginResponse) => {
+      borrowerToken = loginResponse.data?.access_token || loginResponse.session?.access_token;
+    });
+
+    cy.request('GET', `${apiBaseUrl}/categories`).then((response) => {
+      categoryId = response.body.data[0].id;
+    });
+  });
+
+  const updateStatus = (bookingId: string, token: string | undefined, body: Record<string, string>) =>
+    cy.request({
+      method: 'PUT',
+      url: `${apiBaseUrl}/bookings/${bookingId}/status`,
+      headers: { Authorization: `Bearer ${token}` },
+      body,
+      failOnStatusCode: false
+    });
+
+  const signOffHandover = (bookingId: string, type: 'pickup' | 'return', reporterToken: string | undefined, signerToken: string | undefined) => {
+    cy.request({
+      method: 'POST',
+      url: `${apiBaseUrl}/bookings/${bookingId}/handover/${type}`,
+      headers: { Authorization: `Bearer ${reporterToken}` },
+      body: { condition: 'good', checklist: [{ label: 'Item works', ok: true }] }
+    }).its('status').should('equal', 201);
+
+    cy.request({
+      method: 'PUT',
+      url: `${apiBaseUrl}/bookings/${bookingId}/handover/${type}/sign`,
+      headers: { Authorization: `Bearer ${signerToken}` }
+    }).its('status').should('equal', 200);
+  };
+
+  const getHandoverCode = (bookingId: string, type: 'pickup' | 'return', holderToken: string | undefined) =>
+    cy.request({
+      method: 'GET',
+      url: `${apiBaseUrl}/bookings/${bookingId}/handover/${type}/code`,
+      headers: { Authorization: `Bearer ${holderToken}` }
+    }).then((response) => response.body.data.code as string);
+
+  it('should move a booking from pending through confirmed and in progress to completed', () => {
+    cy.request({
+      method: 'POST',
+      url: `${apiBaseUrl}/items`,
+      headers: { Authorization: `Bearer ${lenderToken}` },
+      body: {
+        title: 'Lifecycle Test Tent',
+        description: 'Four person tent used to test the booking lifecycle',
+        categoryId,
+        condition: 'good',
+        rentPricePerDay: 20.00,
+        addressData: {
+          addressLine: '12 Lifecycle Road',
+          city: 'Bengaluru',
+          state: 'Karnataka',
+          pincode: '560001',
+          latitude: 12.9716,
+          longitude: 77.5946
+        }
+      }
+    }).then((itemResponse) => {
+      expect(itemResponse.status).to.equal(201);
+
+      return cy.request({
+        method: 'POST',
+        url: `${apiBaseUrl}/bookings`,
+        headers: { Authorization: `Bearer ${borrowerToken}` },
+        body: { itemId: itemResponse.body.data.id, startDate: toDate(1), endDate: toDate(3) }
+      });
+    }).then((bookingResponse) => {
+      expect(bookingResponse.status).to.equal(201);
+      expect(bookingResponse.body.data.bookingStatus).to.equal('pending');
+      const bookingId = bookingResponse.body.data.id;
+
+      updateStatus(bookingId, lenderToken, { status: 'confirmed' }).then((response) => {
+        expect(response.status).to.equal(200);
+        expect(response.body.data.bookingStatus).to.equal('confirmed');
+      });
+
+      signOffHandover(bookingId, 'pickup', lenderToken, borrowerToken);
+      getHandoverCode(bookingId, 'pickup', borrowerToken).then((code) => {
+        updateStatus(bookingId, lenderToken, { status: 'inProgress', code }).then((response) => {
+          expect(response.status).to.equal(200);
+          expect(response.body.data.bookingStatus).to.equal('in_progress');
+        });
+      });
+
+      signOffHandover(bookingId, 'return', borrowerToken, lenderToken);
+      getHandoverCode(bookingId, 'return', lenderToken).then((code) => {
+        updateStatus(bookingId, borrowerToken, { status: 'completed', code }).then((response) => {
+          expect(response.status).to.equal(200);
+          expect(response.body.data.bookingStatus).to.equal('completed');
+        });
+      });
+
+      cy.request({
+        method: 'GET',
+        url: `${apiBaseUrl}/bookings/${bookingId}/timeline`,
+        headers: { Authorization: `Bearer ${borrowerToken}` }
+      }).then((response) => {
+        expect(response.body.data.map((entry: any) => entry.toStatus))
+          .to.deep.equal(['pending', 'confirmed', 'in_progress', 'completed']);
+      });
+    });
+  });
+});
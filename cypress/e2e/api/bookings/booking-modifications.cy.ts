@@ -0,0 +1,163 @@
+/// <reference types="cypress" />
+
+import { RentalHelper } from '../../../support/helpers/rentals';
+
+describe('Bookings API - Date Changes', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+  const { toDate } = RentalHelper;
+
+  let lenderToken: string;
+  let borrowerToken: string;
+
+  before(() => {
+    RentalHelper.signIn('lender').then((token) => { lenderToken = token; });
+    RentalHelper.signIn('borrower').then((token) => { borrowerToken = token; });
+  });
+
+  // 300 a day keeps the platform fee (5%) clear of its minimum and maximum
+  const createConfirmedBooking = (itemFields: Record<string, any> = {}) =>
+    RentalHelper.createItem(lenderToken, { rentPricePerDay: 300, ...itemFields }).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, 5, 6)
+    ).then((booking) =>
+      RentalHelper.updateStatus(booking.id, lenderToken, { status: 'confirmed' }).then((response) => {
+        expect(response.status).to.equal(200);
+        return response.body.data;
+      })
+    );
+
+  const proposeDates = (bookingId: string, token: string, startInDays: number, endInDays: number) =>
+    cy.request({
+      method: 'POST',
+      url: `${apiBaseUrl}/bookings/${bookingId}/modifications`,
+      headers: { Authorization: `Bearer ${token}` },
+      body: { startDate: toDate(startInDays), endDate: toDate(endInDays), message: 'Need it a little longer' },
+      failOnStatusCode: false
+    });
+
+  const respond = (bookingId: string, modificationId: string, token: string, accept: boolean) =>
+    cy.request({
+      method: 'PUT',
+      url: `${apiBaseUrl}/bookings/${bookingId}/modifications/${modificationId}`,
+      headers: { Authorization: `Bearer ${token}` },
+      body: { accept, responseNote: accept ? 'Fine by me' : 'Already promised to someone else' },
+      failOnStatusCode: false
+    });
+
+  it('should reprice the booking when the lender accepts new dates and keep the old price on the request', () => {
+    createConfirmedBooking().then((booking) => {
+      expect(Number(booking.totalRent)).to.equal(600);
+      expect(Number(booking.platformFee)).to.equal(30);
+
+      proposeDates(booking.id, borrowerToken, 5, 8).then((response) => {
+        expect(response.status).to.equal(201);
+
+        const modification = response.body.data;
+        expect(modification.modificationStatus).to.equal('pending');
+        expect(Number(modification.previousTotalRent)).to.equal(600);
+        expect(Number(modification.proposedTotalRent)).to.equal(1200);
+        expect(Number(modification.proposedPlatformFee)).to.equal(60);
+
+        // Nothing changes until the lender answers
+        RentalHelper.getBooking(booking.id, borrowerToken).its('totalRent').then(Number).should('equal', 600);
+
+        respond(booking.id, modification.id, lenderToken, true).then((accepted) => {
+          expect(accepted.status).to.equal(200);
+          expect(accepted.body.data.modificationStatus).to.equal('accepted');
+        });
+
+        RentalHelper.getBooking(booking.id, borrowerToken).then((updated) => {
+          expect(updated.startDate).to.equal(toDate(5));
+          expect(updated.endDate).to.equal(toDate(8));
+          expect(Number(updated.totalRent)).to.equal(1200);
+          expect(Number(updated.platformFee)).to.equal(60);
+          expect(updated.priceBreakdown.totalDays).to.equal(4);
+        });
+
+        cy.request({
+          method: 'GET',
+          url: `${apiBaseUrl}/bookings/${booking.id}/modifications`,
+          headers: { Authorization: `Bearer ${lenderToken}` }
+        }).then((history) => {
+          const [entry] = history.body.data;
+          expect(entry.previousStartDate).to.equal(toDate(5));
+          expect(entry.previousEndDate).to.equal(toDate(6));
+          expect(Number(entry.previousTotalRent)).to.equal(600);
+          expect(Number(entry.previousPlatformFee)).to.equal(30);
+        });
+
+        // An answered request cannot be answered again
+        respond(booking.id, modification.id, lenderToken, false).then((again) => {
+          expect(again.status).to.equal(400);
+          expect(again.body.error).to.equal('This modification request has already been answered');
+        });
+      });
+    });
+  });
+
+  it('should leave the booking untouched when the lender declines', () => {
+    createConfirmedBooking().then((booking) => {
+      proposeDates(booking.id, borrowerToken, 7, 9).then((response) => {
+        respond(booking.id, response.body.data.id, lenderToken, false)
+          .its('body.data.modificationStatus').should('equal', 'declined');
+      });
+
+      RentalHelper.getBooking(booking.id, borrowerToken).then((unchanged) => {
+        expect(unchanged.startDate).to.equal(toDate(5));
+        expect(unchanged.endDate).to.equal(toDate(6));
+        expect(Number(unchanged.totalRent)).to.equal(600);
+      });
+    });
+  });
+
+  it('should only let the borrower propose dates and the lender answer', () => {
+    createConfirmedBooking().then((booking) => {
+      proposeDates(booking.id, lenderToken, 5, 8).then((response) => {
+        expect(response.status).to.equal(400);
+        expect(response.body.error).to.equal('Only the borrower can request a date change');
+      });
+
+      proposeDates(booking.id, borrowerToken, 5, 8).then((response) => {
+        respond(booking.id, response.body.data.id, borrowerToken, true).then((answer) => {
+          expect(answer.status).to.equal(400);
+          expect(answer.body.error).to.equal('Only the lender can respond to a modification request');
+        });
+      });
+    });
+  });
+
+  it('should re-check availability and rental limits for the proposed dates', () => {
+    createConfirmedBooking({ maxRentalDays: 3 }).then((booking) => {
+      proposeDates(booking.id, borrowerToken, 5, 8).then((response) => {
+        expect(response.status).to.equal(400);
+        expect(response.body.error).to.equal('Maximum rental period is 3 days');
+      });
+
+      // A second confirmed rental right after this one blocks the extension
+      RentalHelper.createBooking(borrowerToken, booking.itemId, 8, 9).then((next) => {
+        RentalHelper.updateStatus(next.id, lenderToken, { status: 'confirmed' }).its('status').should('equal', 200);
+      });
+
+      proposeDates(booking.id, borrowerToken, 6, 8).then((response) => {
+        expect(response.status).to.equal(409);
+        expect(response.body.error).to.equal('Item is not available for the selected dates');
+      });
+    });
+  });
+
+  it('should move the response deadline of a pending request with its new dates', () => {
+    RentalHelper.createItem(lenderToken).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, 10, 12)
+    ).then((booking) => {
+      // Starting today, the request now lapses at the end of the day instead of a full response window later
+      proposeDates(booking.id, borrowerToken, 0, 1).then((response) => {
+        respond(booking.id, response.body.data.id, lenderToken, true).its('status').should('equal', 200);
+      });
+
+      RentalHelper.getBooking(booking.id, borrowerToken).then((updated) => {
+        expect(updated.bookingStatus).to.equal('pending');
+        expect(new Date(updated.expiresAt).getTime()).to.be.lessThan(new Date(booking.expiresAt).getTime());
+        expect(new Date(updated.expiresAt).getTime()).to.be.greaterThan(Date.now());
+      });
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/// <reference types="cypress" />
+
+import { RentalHelper } from '../../../support/helpers/rentals';
+
+describe('Bookings API - Reminders', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+  const { toDate } = RentalHelper;
+
+  let lenderToken: string;
+  let borrowerToken: string;
+
+  before(() => {
+    RentalHelper.signIn('lender').then((token) => { lenderToken = token; });
+    RentalHelper.signIn('borrower').then((token) => { borrowerToken = token; });
+  });
+
+  const authed = (method: string, path: string, token: string, body?: Record<string, any>) =>
+    cy.request({
+      method,
+      url: `${apiBaseUrl}${path}`,
+      headers: { Authorization: `Bearer ${token}` },
+      ...(body && { body }),
+      failOnStatusCode: false
+    });
+
+  // Runs the reminder job as if it were the given hour or later (REMINDER_SEND_HOUR is 9 in .env.example)
+  const runReminders = (sendHour: number = 0) =>
+    cy.task('runJob', { name: 'booking-reminder', env: { REMINDER_SEND_HOUR: String(sendHour) } });
+
+  // Reminders of one type the user received about a booking
+  const remindersFor = (bookingId: string, token: string, type: string) =>
+    authed('GET', '/notifications?limit=50', token).then((response) =>
+      response.body.data.filter((notification: any) =>
+        notification.bookingId === bookingId && notification.notificationType === type
+      )
+    );
+
+  const confirmedBooking = (startDay: number, endDay: number) =>
+    RentalHelper.createItem(lenderToken).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, startDay, endDay)
+    ).then((booking) => {
+      RentalHelper.updateStatus(booking.id, lenderToken, { status: 'confirmed' }).its('status').should('equal', 200);
+      return booking;
+    });
+
+  it('should remind both parties of tomorrow\'s pickup once, from the send hour on', () => {
+    confirmedBooking(1, 2).then((booking) => {
+      confirmedBooking(3, 4).then((later) => {
+        // 24 is past any hour of the day, so pickup reminders are held back
+        runReminders(24);
+        remindersFor(booking.id, borrowerToken, 'pickupReminder').should('have.length', 0);
+
+        runReminders().its('handled').should('be.at.least', 1);
+        [lenderToken, borrowerToken].forEach((token) => {
+          remindersFor(booking.id, token, 'pickupReminder').then((reminders) => {
+            expect(reminders).to.have.length(1);
+            expect(reminders[0].title).to.equal('Pickup coming up');
+          });
+        });
+
+        // Only bookings within REMINDER_PICKUP_DAYS_BEFORE (1) are due
+        remindersFor(later.id, borrowerToken, 'pickupReminder').should('have.length', 0);
+
+        // Later runs, e.g. after a restart, do not send it again
+        runReminders();
+        remindersFor(booking.id, lenderToken, 'pickupReminder').should('have.length', 1);
+        remindersFor(booking.id, borrowerToken, 'pickupReminder').should('have.length', 1);
+      });
+    });
+  });
+
+  it('should remind both parties on the day the item is due back', () => {
+    RentalHelper.createItem(lenderToken).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, 0, 1)
+    ).then((booking) => {
+      RentalHelper.startRental(booking.id, lenderToken, borrowerToken);
+      runReminders();
+      remindersFor(booking.id, borrowerToken, 'returnReminder').should('have.length', 0);
+
+      cy.task('updateRecord', { table: 'booking', id: booking.id, values: { end_date: toDate(0) } });
+      runReminders();
+      remindersFor(booking.id, lenderToken, 'returnReminder').should('have.length', 1);
+      remindersFor(booking.id, borrowerToken, 'returnReminder').should('have.length', 1);
+    });
+  });
+
+  it('should ask for a rating a while after completion, only from parties who have not rated', () => {
+    RentalHelper.createItem(lenderToken).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, 0, 1)
+    ).then((booking) => {
+      RentalHelper.startRental(booking.id, lenderToken, borrowerToken);
+      RentalHelper.completeRental(booking.id, lenderToken, borrowerToken);
+      authed('POST', `/bookings/${booking.id}/rating`, borrowerToken, { rating: 5 }).its('status').should('equal', 200);
+
+      // REMINDER_RATING_HOURS_AFTER is 2
+      runReminders();
+      remindersFor(booking.id, lenderToken, 'ratingPrompt').should('have.length', 0);
+
+      cy.task('updateRecord', {
+        table: 'booking',
+        id: booking.id,
+        values: { completed_at: new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString() }
+      });
+      runReminders();
+
+      remindersFor(booking.id, lenderToken, 'ratingPrompt').its('0.title').should('equal', 'How did it go?');
+      remindersFor(booking.id, borrowerToken, 'ratingPrompt').should('have.length', 0);
+    });
+  });
+
+  it('should skip users who muted a reminder type', () => {
+    authed('PUT', '/notifications/preferences', borrowerToken, { mutedTypes: ['pickupReminder'] })
+      .its('status').should('equal', 200);
+
+    confirmedBooking(1, 2).then((booking) => {
+      runReminders();
+      remindersFor(booking.id, lenderToken, 'pickupReminder').should('have.length', 1);
+      remindersFor(booking.id, borrowerToken, 'pickupReminder').should('have.length', 0);
+    });
+
+    authed('PUT', '/notifications/preferences', borrowerToken, { mutedTypes: [] }).its('status').should('equal', 200);
+  });
+});
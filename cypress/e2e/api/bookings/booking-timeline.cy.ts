@@ -0,0 +1,101 @@
+/// <reference types="cypress" />
+
+import { RentalHelper } from '../../../support/helpers/rentals';
+
+describe('Bookings API - Status Timeline', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+
+  let lenderToken: string;
+  let borrowerToken: string;
+  let adminToken: string;
+  let lenderId: string;
+  let borrowerId: string;
+
+  before(() => {
+    RentalHelper.signIn('lender').then((token) => {
+      lenderToken = token;
+      RentalHelper.getProfile(token).then((profile) => { lenderId = profile.id; });
+    });
+    RentalHelper.signIn('borrower').then((token) => {
+      borrowerToken = token;
+      RentalHelper.getProfile(token).then((profile) => { borrowerId = profile.id; });
+    });
+    RentalHelper.signIn('admin').then((token) => { adminToken = token; });
+  });
+
+  const getTimeline = (bookingId: string, token: string) =>
+    cy.request({
+      method: 'GET',
+      url: `${apiBaseUrl}/bookings/${bookingId}/timeline`,
+      headers: { Authorization: `Bearer ${token}` },
+      failOnStatusCode: false
+    });
+
+  it('should record who moved the booking, from which status and why', () => {
+    RentalHelper.createItem(lenderToken).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, 4, 6)
+    ).then((booking) => {
+      RentalHelper.updateStatus(booking.id, lenderToken, { status: 'confirmed' }).its('status').should('equal', 200);
+      RentalHelper.updateStatus(booking.id, lenderToken, { status: 'cancelled', reason: 'Tent needs repairs' })
+        .its('status').should('equal', 200);
+
+      getTimeline(booking.id, borrowerToken).then((response) => {
+        expect(response.status).to.equal(200);
+
+        const [requested, confirmed, cancelled] = response.body.data;
+        expect(response.body.data).to.have.length(3);
+
+        expect(requested.fromStatus).to.be.null;
+        expect(requested.toStatus).to.equal('pending');
+        expect(requested.changedBy).to.equal(borrowerId);
+        expect(requested.actor.id).to.equal(borrowerId);
+
+        expect(confirmed.fromStatus).to.equal('pending');
+        expect(confirmed.toStatus).to.equal('confirmed');
+        expect(confirmed.changedBy).to.equal(lenderId);
+
+        expect(cancelled.fromStatus).to.equal('confirmed');
+        expect(cancelled.toStatus).to.equal('cancelled');
+        expect(cancelled.changedBy).to.equal(lenderId);
+        expect(cancelled.reason).to.equal('Tent needs repairs');
+
+        expect(new Date(confirmed.createdAt).getTime())
+          .to.be.at.least(new Date(requested.createdAt).getTime());
+      });
+
+      // The lender sees the same trail
+      getTimeline(booking.id, lenderToken).its('body.data').should('have.length', 3);
+    });
+  });
+
+  it('should not record a transition that was rejected', () => {
+    RentalHelper.createItem(lenderToken).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, 4, 6)
+    ).then((booking) => {
+      // Only the lender can confirm
+      RentalHelper.updateStatus(booking.id, borrowerToken, { status: 'confirmed' }).its('status').should('equal', 400);
+
+      getTimeline(booking.id, borrowerToken).then((response) => {
+        expect(response.body.data.map((entry: any) => entry.toStatus)).to.deep.equal(['pending']);
+      });
+    });
+  });
+
+  it('should let support read the timeline of any booking', () => {
+    RentalHelper.createItem(lenderToken).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, 4, 6)
+    ).then((booking) => {
+      getTimeline(booking.id, adminToken).then((response) => {
+        expect(response.status).to.equal(200);
+        expect(response.body.data[0].toStatus).to.equal('pending');
+      });
+    });
+  });
+
+  it('should return 404 for an unknown booking', () => {
+    getTimeline('00000000-0000-4000-8000-000000000000', borrowerToken).then((response) => {
+      expect(response.status).to.equal(404);
+      expect(response.body.error).to.equal('Booking not found');
+    });
+  });
+});
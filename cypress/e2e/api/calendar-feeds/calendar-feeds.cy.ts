@@ -0,0 +1,137 @@
+/// <reference types="cypress" />
+
+import { RentalHelper } from '../../../support/helpers/rentals';
+
+describe('Calendar Feeds API - iCalendar Feeds', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+  const { toDate } = RentalHelper;
+
+  let lenderToken: string;
+  let borrowerToken: string;
+
+  before(() => {
+    RentalHelper.signIn('lender').then((token) => { lenderToken = token; });
+    RentalHelper.signIn('borrower').then((token) => { borrowerToken = token; });
+  });
+
+  // iCalendar all-day dates are compact (YYYYMMDD)
+  const icalDate = (daysFromToday: number) => toDate(daysFromToday).replace(/-/g, '');
+
+  const getFeedUrl = (path: string, token: string, rotate = false) =>
+    cy.request({
+      method: rotate ? 'POST' : 'GET',
+      url: `${apiBaseUrl}${path}${rotate ? '/rotate' : ''}`,
+      headers: { Authorization: `Bearer ${token}` },
+      failOnStatusCode: false
+    });
+
+  // Feed URLs are public and carry their own token; fetch them through the configured API host
+  const fetchFeed = (url: string) =>
+    cy.request({
+      method: 'GET',
+      url: `${apiBaseUrl}/calendar-feeds/${url.split('/').pop()}`,
+      failOnStatusCode: false
+    });
+
+  const findEvent = (calendar: string, uid: string) =>
+    calendar.split('BEGIN:VEVENT').find((block) => block.includes(`UID:${uid}\r\n`));
+
+  it('should publish confirmed bookings and blackouts of an item without signing in', () => {
+    RentalHelper.createItem(lenderToken).then((item) => {
+      RentalHelper.createBooking(borrowerToken, item.id, 5, 7).then((confirmed) => {
+        RentalHelper.updateStatus(confirmed.id, lenderToken, { status: 'confirmed' }).its('status').should('equal', 200);
+
+        RentalHelper.createBooking(borrowerToken, item.id, 12, 13).then((pending) => {
+          cy.request({
+            method: 'POST',
+            url: `${apiBaseUrl}/items/${item.id}/blackouts`,
+            headers: { Authorization: `Bearer ${lenderToken}` },
+            body: { startDate: toDate(9), endDate: toDate(10), reason: 'Servicing' }
+          }).then((blackout) => {
+            getFeedUrl(`/items/${item.id}/calendar-feed`, lenderToken).then((response) => {
+              expect(response.status).to.equal(200);
+
+              fetchFeed(response.body.data.url).then((feed) => {
+                expect(feed.status).to.equal(200);
+                expect(feed.headers['content-type']).to.include('text/calendar');
+
+                const calendar: string = feed.body;
+                expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).to.equal(true);
+
+                const booked = findEvent(calendar, `booking-${confirmed.id}@p2p`);
+                expect(booked, 'confirmed booking event').to.be.a('string');
+                expect(booked).to.include(`DTSTART;VALUE=DATE:${icalDate(5)}`);
+                // All-day end dates are exclusive
+                expect(booked).to.include(`DTEND;VALUE=DATE:${icalDate(8)}`);
+
+                const blocked = findEvent(calendar, `blackout-${blackout.body.data.id}@p2p`);
+                expect(blocked, 'blackout event').to.be.a('string');
+                expect(blocked).to.include('DESCRIPTION:Servicing');
+
+                // Requests the lender has not accepted do not occupy the item yet
+                expect(findEvent(calendar, `booking-${pending.id}@p2p`)).to.be.undefined;
+              });
+            });
+          });
+        });
+      });
+    });
+  });
+
+  it('should keep the item feed private to its owner', () => {
+    RentalHelper.createItem(lenderToken).then((item) => {
+      getFeedUrl(`/items/${item.id}/calendar-feed`, lenderToken).then((first) => {
+        getFeedUrl(`/items/${item.id}/calendar-feed`, lenderToken).its('body.data.url').should('equal', first.body.data.url);
+      });
+
+      getFeedUrl(`/items/${item.id}/calendar-feed`, borrowerToken).then((response) => {
+        expect(response.status).to.equal(403);
+        expect(response.body.error).to.equal('You do not have permission to access this item calendar');
+      });
+    });
+  });
+
+  it('should stop serving the old URL once the token is rotated', () => {
+    getFeedUrl('/users/me/calendar-feed', borrowerToken).then((current) => {
+      const oldUrl = current.body.data.url;
+      fetchFeed(oldUrl).its('status').should('equal', 200);
+
+      getFeedUrl('/users/me/calendar-feed', borrowerToken, true).then((rotated) => {
+        expect(rotated.status).to.equal(200);
+        expect(rotated.body.message).to.equal('Calendar feed URL rotated successfully');
+        expect(rotated.body.data.url).not.to.equal(oldUrl);
+
+        fetchFeed(oldUrl).then((response) => {
+          expect(response.status).to.equal(404);
+          expect(response.body.error).to.equal('Calendar feed not found');
+        });
+        fetchFeed(rotated.body.data.url).its('status').should('equal', 200);
+      });
+    });
+  });
+
+  it('should list the user\'s own rentals with their booking status', () => {
+    RentalHelper.createItem(lenderToken).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, 5, 6)
+    ).then((booking) => {
+      getFeedUrl('/users/me/calendar-feed', borrowerToken).then((response) => {
+        fetchFeed(response.body.data.url).then((feed) => {
+          const event = findEvent(feed.body, `booking-${booking.id}@p2p`);
+          expect(event, 'borrower booking event').to.be.a('string');
+          expect(event).to.include('SUMMARY:Renting: ');
+          expect(event).to.include('STATUS:TENTATIVE');
+        });
+      });
+
+      // The same rental shows up on the lender's side once confirmed
+      RentalHelper.updateStatus(booking.id, lenderToken, { status: 'confirmed' }).its('status').should('equal', 200);
+      getFeedUrl('/users/me/calendar-feed', lenderToken).then((response) => {
+        fetchFeed(response.body.data.url).then((feed) => {
+          const event = findEvent(feed.body, `booking-${booking.id}@p2p`);
+          expect(event).to.include('SUMMARY:Lending: ');
+          expect(event).to.include('STATUS:CONFIRMED');
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,58 @@
+/// <reference types="cypress" />
+
+describe('Calendar Imports API - Basic Tests', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+  const unknownId = '00000000-0000-4000-8000-000000000000';
+
+  it('should require authentication to list calendar imports', () => {
+    cy.request({
+      method: 'GET',
+      url: `${apiBaseUrl}/items/${unknownId}/calendar-imports`,
+      failOnStatusCode: false
+    }).then((response) => {
+      expect(response.status).to.equal(401);
+      expect(response.body).to.have.property('success', false);
+      cy.log('✅ Unauthenticated calendar import listing rejected');
+    });
+  });
+
+  it('should reject calendar URLs with unsupported schemes', () => {
+    cy.login({
+      email: Cypress.env('TEST_USER_EMAIL'),
+      password: Cypress.env('TEST_USER_PASSWORD')
+    }).then((loginResponse) => {
+      const token = loginResponse.data?.access_token || loginResponse.session?.access_token;
+
+      cy.request({
+        method: 'POST',
+        url: `${apiBaseUrl}/items/${unknownId}/calendar-imports`,
+        headers: { Authorization: `Bearer ${token}` },
+        body: { url: 'file:///etc/passwd' },
+        failOnStatusCode: false
+      }).then((response) => {
+        expect(response.status).to.equal(400);
+        expect(response.body).to.have.property('details');
+      });
+    });
+  });
+
+  it('should return 404 for calendar imports of an unknown item', () => {
+    cy.login({
+      email: Cypress.env('TEST_USER_EMAIL'),
+      password: Cypress.env('TEST_USER_PASSWORD')
+    }).then((loginResponse) => {
+      const token = loginResponse.data?.access_token || loginResponse.session?.access_token;
+
+      cy.request({
+        method: 'POST',
+        url: `${apiBaseUrl}/items/${unknownId}/calendar-imports`,
+        headers: { Authorization: `Bearer ${token}` },
+        body: { url: 'http://127.0.0.1/calendar.ics' },
+        failOnStatusCode: false
+      }).then((response) => {
+        expect(response.status).to.equal(404);
+        expect(response.body.error).to.equal('Item not found');
+      });
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/// <reference types="cypress" />
+
+describe('Cart API - Basic Tests', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+  const unknownId = '00000000-0000-4000-8000-000000000000';
+
+  it('should require authentication to read the cart', () => {
+    cy.request({
+      method: 'GET',
+      url: `${apiBaseUrl}/cart`,
+      failOnStatusCode: false
+    }).then((response) => {
+      expect(response.status).to.equal(401);
+      expect(response.body).to.have.property('success', false);
+      cy.log('✅ Unauthenticated cart access rejected');
+    });
+  });
+
+  it('should return the priced cart for the authenticated user', () => {
+    cy.login({
+      email: Cypress.env('TEST_USER_EMAIL'),
+      password: Cypress.env('TEST_USER_PASSWORD')
+    }).then((loginResponse) => {
+      const token = loginResponse.data?.access_token || loginResponse.session?.access_token;
+
+      cy.request({
+        method: 'GET',
+        url: `${apiBaseUrl}/cart`,
+        headers: { Authorization: `Bearer ${token}` },
+        failOnStatusCode: false
+      }).then((response) => {
+        expect(response.status).to.equal(200);
+        expect(response.body).to.have.property('success', true);
+        expect(response.body.data.items).to.be.an('array');
+        expect(response.body.data).to.have.property('totalAmount');
+      });
+    });
+  });
+
+  it('should reject unknown items and checkouts of unknown cart items', () => {
+    cy.login({
+      email: Cypress.env('TEST_USER_EMAIL'),
+      password: Cypress.env('TEST_USER_PASSWORD')
+    }).then((loginResponse) => {
+      const token = loginResponse.data?.access_token || loginResponse.session?.access_token;
+
+      cy.request({
+        method: 'POST',
+        url: `${apiBaseUrl}/cart/items`,
+        headers: { Authorization: `Bearer ${token}` },
+        body: { itemId: unknownId, startDate: '2030-01-01', endDate: '2030-01-03' },
+        failOnStatusCode: false
+      }).then((response) => {
+        expect(response.status).to.equal(400);
+        expect(response.body.error).to.equal('Item not found or not available');
+      });
+
+      cy.request({
+        method: 'POST',
+        url: `${apiBaseUrl}/cart/checkout`,
+        headers: { Authorization: `Bearer ${token}` },
+        body: { cartItemIds: [unknownId] },
+        failOnStatusCode: false
+      }).then((response) => {
+        expect(response.status).to.equal(400);
+        expect(response.body).to.have.property('success', false);
+      });
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/// <reference types="cypress" />
+
+describe('Security Deposits API - Basic Tests', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+  const unknownId = '00000000-0000-4000-8000-000000000000';
+
+  it('should require authentication to file a deposit claim', () => {
+    cy.request({
+      method: 'POST',
+      url: `${apiBaseUrl}/bookings/${unknownId}/deposit/claim`,
+      body: { amount: 500, reason: 'Lens cap missing and scratch on the body' },
+      failOnStatusCode: false
+    }).then((response) => {
+      expect(response.status).to.equal(401);
+      expect(response.body).to.have.property('success', false);
+      cy.log('✅ Unauthenticated deposit claim rejected');
+    });
+  });
+
+  it('should validate the claim body', () => {
+    cy.login({
+      email: Cypress.env('TEST_USER_EMAIL'),
+      password: Cypress.env('TEST_USER_PASSWORD')
+    }).then((loginResponse) => {
+      const token = loginResponse.data?.access_token || loginResponse.session?.access_token;
+
+      cy.request({
+        method: 'POST',
+        url: `${apiBaseUrl}/bookings/${unknownId}/deposit/claim`,
+        headers: { Authorization: `Bearer ${token}` },
+        body: { amount: -10, reason: '' },
+        failOnStatusCode: false
+      }).then((response) => {
+        expect(response.status).to.equal(400);
+        expect(response.body).to.have.property('success', false);
+        expect(response.body).to.have.property('details');
+      });
+
+      cy.request({
+        method: 'PUT',
+        url: `${apiBaseUrl}/bookings/${unknownId}/deposit/claim`,
+        headers: { Authorization: `Bearer ${token}` },
+        body: { accept: 'yes' },
+        failOnStatusCode: false
+      }).then((response) => {
+        expect(response.status).to.equal(400);
+        expect(response.body).to.have.property('success', false);
+      });
+    });
+  });
+
+  it('should restrict contested claim resolution to admins', () => {
+    cy.login({
+      email: Cypress.env('TEST_USER_EMAIL'),
+      password: Cypress.env('TEST_USER_PASSWORD')
+    }).then((loginResponse) => {
+      const token = loginResponse.data?.access_token || loginResponse.session?.access_token;
+
+      cy.request({
+        method: 'GET',
+        url: `${apiBaseUrl}/disputes/deposit-claims`,
+        headers: { Authorization: `Bearer ${token}` },
+        failOnStatusCode: false
+      }).then((response) => {
+        expect(response.status).to.equal(403);
+        expect(response.body.error).to.equal('Admin access required');
+      });
+
+      cy.request({
+        method: 'PUT',
+        url: `${apiBaseUrl}/disputes/deposit-claims/${unknownId}/resolve`,
+        headers: { Authorization: `Bearer ${token}` },
+        body: { deduction: 100, note: 'Scratch confirmed' },
+        failOnStatusCode: false
+      }).then((response) => {
+        expect(response.status).to.equal(403);
+        expect(response.body.error).to.equal('Admin access required');
+      });
+    });
+  });
+});
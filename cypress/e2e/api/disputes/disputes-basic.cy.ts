@@ -0,0 +1,80 @@
+/// <reference types="cypress" />
+
+describe('Disputes API - Basic Tests', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+  const unknownId = '00000000-0000-4000-8000-000000000000';
+
+  it('should require authentication to raise a dispute', () => {
+    cy.request({
+      method: 'POST',
+      url: `${apiBaseUrl}/bookings/${unknownId}/dispute`,
+      body: { reason: 'The item was returned broken' },
+      failOnStatusCode: false
+    }).then((response) => {
+      expect(response.status).to.equal(401);
+      expect(response.body).to.have.property('success', false);
+      cy.log('✅ Unauthenticated dispute rejected');
+    });
+  });
+
+  it('should return 404 when disputing an unknown booking', () => {
+    cy.login({
+      email: Cypress.env('TEST_USER_EMAIL'),
+      password: Cypress.env('TEST_USER_PASSWORD')
+    }).then((loginResponse) => {
+      const token = loginResponse.data?.access_token || loginResponse.session?.access_token;
+
+      cy.request({
+        method: 'POST',
+        url: `${apiBaseUrl}/bookings/${unknownId}/dispute`,
+        headers: { Authorization: `Bearer ${token}` },
+        body: { reason: 'The item was returned broken' },
+        failOnStatusCode: false
+      }).then((response) => {
+        expect(response.status).to.equal(404);
+        expect(response.body.error).to.equal('Booking not found');
+      });
+    });
+  });
+
+  it('should restrict dispute administration to admins', () => {
+    cy.login({
+      email: Cypress.env('TEST_USER_EMAIL'),
+      password: Cypress.env('TEST_USER_PASSWORD')
+    }).then((loginResponse) => {
+      const token = loginResponse.data?.access_token || loginResponse.session?.access_token;
+
+      cy.request({
+        method: 'GET',
+        url: `${apiBaseUrl}/disputes`,
+        headers: { Authorization: `Bearer ${token}` },
+        failOnStatusCode: false
+      }).then((response) => {
+        expect(response.status).to.equal(403);
+        expect(response.body.error).to.equal('Admin access required');
+      });
+
+      cy.request({
+        method: 'PUT',
+        url: `${apiBaseUrl}/disputes/${unknownId}/resolve`,
+        headers: { Authorization: `Bearer ${token}` },
+        body: { outcome: 'completed', note: 'Photos confirm the damage' },
+        failOnStatusCode: false
+      }).then((response) => {
+        expect(response.status).to.equal(403);
+        expect(response.body.error).to.equal('Admin access required');
+      });
+    });
+  });
+
+  it('should require authentication for dispute administration', () => {
+    cy.request({
+      method: 'GET',
+      url: `${apiBaseUrl}/disputes`,
+      failOnStatusCode: false
+    }).then((response) => {
+      expect(response.status).to.equal(401);
+      expect(response.body).to.have.property('success', false);
+    });
+  });
+});
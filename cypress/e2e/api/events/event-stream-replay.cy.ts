@@ -0,0 +1,153 @@
+/// <reference types="cypress" />
+
+import { RentalHelper } from '../../../support/helpers/rentals';
+
+type StreamEvent = { id: number | null; event: string; data: any };
+
+describe('Event Stream API - Replay', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+
+  let lenderToken: string;
+  let borrowerToken: string;
+
+  before(() => {
+    RentalHelper.signIn('lender').then((token) => { lenderToken = token; });
+    RentalHelper.signIn('borrower').then((token) => { borrowerToken = token; });
+  });
+
+  // Opens a stream in the Cypress process (cy.request would wait for it to end) and yields its handle
+  const openStream = (token: string, lastEventId?: number) =>
+    cy.task<{ status: number; handle: string }>('openEventStream', {
+      url: `${apiBaseUrl}/events/stream?access_token=${token}`,
+      lastEventId: lastEventId ?? null
+    }).then(({ status, handle }) => {
+      expect(status).to.equal(200);
+      return handle;
+    });
+
+  const closeStream = (handle: string) => cy.task('closeEventStream', handle);
+
+  // Polls the stream until a matching event has been read and yields everything read so far
+  const readUntil = (handle: string, matches: (event: StreamEvent) => boolean, attemptsLeft = 20): Cypress.Chainable<StreamEvent[]> =>
+    cy.task<StreamEvent[]>('eventStreamEvents', handle).then((events): any => {
+      if (events.some(matches)) {
+        return events;
+      }
+
+      expect(attemptsLeft, 'polls left waiting for the event').to.be.greaterThan(0);
+      cy.wait(500);
+      return readUntil(handle, matches, attemptsLeft - 1);
+    });
+
+  const isReady = (event: StreamEvent) => event.event === 'ready';
+
+  // Events before the ready marker were replayed rather than pushed live
+  const replayedOf = (events: StreamEvent[]) => events.slice(0, events.findIndex(isReady));
+
+  const sendMessage = (bookingId: string, token: string, text: string) =>
+    cy.request({
+      method: 'GET',
+      url: `${apiBaseUrl}/bookings/${bookingId}/thread`,
+      headers: { Authorization: `Bearer ${token}` }
+    }).then((thread) =>
+      cy.request({
+        method: 'POST',
+        url: `${apiBaseUrl}/messages/threads/${thread.body.data.id}/messages`,
+        headers: { Authorization: `Bearer ${token}` },
+        body: { body: text }
+      })
+    ).its('status').should('equal', 201);
+
+  it('should replay the events missed while disconnected, and only those', () => {
+    openStream(lenderToken).then((handle) => {
+      // A fresh stream has nothing to replay
+      readUntil(handle, isReady).its('0.event').should('equal', 'ready');
+
+      RentalHelper.createItem(lenderToken).then((item) =>
+        RentalHelper.createBooking(borrowerToken, item.id, 3, 4)
+      ).then((booking) => {
+        const isRequest = (event: StreamEvent) =>
+          event.event === 'booking.status_changed' && event.data.bookingId === booking.id;
+
+        readUntil(handle, isRequest).then((events) => {
+          const request = events.find(isRequest)!;
+          expect(request.data.fromStatus).to.equal(null);
+          expect(request.data.toStatus).to.equal('pending');
+          closeStream(handle);
+
+          // While the lender is offline the booking is confirmed from another device and the borrower writes
+          RentalHelper.updateStatus(booking.id, lenderToken, { status: 'confirmed' }).its('status').should('equal', 200);
+          sendMessage(booking.id, borrowerToken, 'Can I pick it up early?');
+
+          openStream(lenderToken, request.id!).then((resumed) => {
+            readUntil(resumed, isReady).then((resumedEvents) => {
+              const replayed = replayedOf(resumedEvents);
+              const ids = replayed.map((event) => event.id!);
+
+              expect(ids.every((id) => id > request.id!)).to.equal(true);
+              expect(ids).to.deep.equal([...ids].sort((a, b) => a - b));
+              expect(resumedEvents.map((event) => event.event)).not.to.include('resync');
+
+              const ofBooking = replayed.filter((event) => event.data.bookingId === booking.id);
+              expect(ofBooking.map((event) => event.event)).to.include.members(['booking.status_changed', 'message.created']);
+              expect(ofBooking.find((event) => event.event === 'booking.status_changed')!.data.toStatus).to.equal('confirmed');
+
+              // The borrower's own notifications are not part of the lender's stream
+              const notificationTypes = replayed
+                .filter((event) => event.event === 'notification.created')
+                .map((event) => event.data.notification.notificationType);
+              expect(notificationTypes).to.include('messageReceived');
+              expect(notificationTypes).not.to.include('bookingConfirmed');
+            });
+
+            closeStream(resumed);
+          });
+        });
+      });
+    });
+  });
+
+  it('should push events live after the replay', () => {
+    openStream(lenderToken).then((handle) => {
+      readUntil(handle, isReady);
+
+      RentalHelper.createItem(lenderToken).then((item) =>
+        RentalHelper.createBooking(borrowerToken, item.id, 3, 4)
+      ).then((booking) => {
+        sendMessage(booking.id, borrowerToken, 'Is it still available?');
+
+        const isMessage = (event: StreamEvent) => event.event === 'message.created' && event.data.bookingId === booking.id;
+
+        readUntil(handle, isMessage).then((events) => {
+          const message = events.find(isMessage)!;
+          expect(message.data.message.body).to.equal('Is it still available?');
+          expect(message.data.createdAt).to.be.a('string');
+        });
+      });
+
+      closeStream(handle);
+    });
+  });
+
+  it('should ask for a resync when the missed events can no longer be replayed', () => {
+    // Older than anything buffered, and newer than any event issued so far
+    [1, Date.now() * 10].forEach((lastEventId) => {
+      openStream(lenderToken, lastEventId).then((handle) => {
+        readUntil(handle, isReady).then((events) => {
+          expect(replayedOf(events).map((event) => event.event)).to.deep.equal(['resync']);
+        });
+
+        closeStream(handle);
+      });
+    });
+  });
+
+  it('should reject a last event ID that is not a number', () => {
+    cy.task<{ status: number; body: any }>('openEventStream', {
+      url: `${apiBaseUrl}/events/stream?access_token=${lenderToken}&lastEventId=not-a-number`
+    }).then(({ status, body }) => {
+      expect(status).to.equal(400);
+      expect(body.error).to.equal('Invalid last event ID');
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/// <reference types="cypress" />
+
+import { RentalHelper } from '../../../support/helpers/rentals';
+
+describe('Handover Codes API - Code Lockout', () => {
+  // HANDOVER_CODE_MAX_ATTEMPTS of the test environment (see .env.example)
+  const maxAttempts = 5;
+
+  let lenderToken: string;
+  let borrowerToken: string;
+
+  before(() => {
+    RentalHelper.signIn('lender').then((token) => { lenderToken = token; });
+    RentalHelper.signIn('borrower').then((token) => { borrowerToken = token; });
+  });
+
+  // A confirmed booking whose pickup report both parties signed, so only the code is missing
+  const readyForPickup = () =>
+    RentalHelper.createItem(lenderToken).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, 1, 2)
+    ).then((booking) => {
+      RentalHelper.updateStatus(booking.id, lenderToken, { status: 'confirmed' }).its('status').should('equal', 200);
+      RentalHelper.signOffHandover(booking.id, 'pickup', lenderToken, borrowerToken);
+      return booking;
+    });
+
+  const wrongCodeFor = (code: string) => String((Number(code) + 1) % 1000000).padStart(6, '0');
+
+  const start = (bookingId: string, code: string) =>
+    RentalHelper.updateStatus(bookingId, lenderToken, { status: 'inProgress', code });
+
+  it('should lock the code after repeated wrong guesses until the borrower opens a new one', () => {
+    readyForPickup().then((booking) => {
+      RentalHelper.getHandoverCode(booking.id, 'pickup', borrowerToken).then((code) => {
+        for (let attempt = 1; attempt < maxAttempts; attempt++) {
+          start(booking.id, wrongCodeFor(code)).then((response) => {
+            expect(response.status).to.equal(400);
+            expect(response.body.error).to.equal('Invalid handover code');
+          });
+        }
+
+        start(booking.id, wrongCodeFor(code)).then((response) => {
+          expect(response.status).to.equal(429);
+          expect(response.body.error).to.equal('Too many wrong handover codes; ask for a new code');
+        });
+
+        // Once locked, even the right code is refused
+        start(booking.id, code).its('status').should('equal', 429);
+        RentalHelper.getBooking(booking.id, lenderToken).its('bookingStatus').should('equal', 'confirmed');
+
+        RentalHelper.getHandoverCode(booking.id, 'pickup', borrowerToken).then((newCode) => {
+          start(booking.id, newCode).then((response) => {
+            expect(response.status).to.equal(200);
+            expect(response.body.data.bookingStatus).to.equal('in_progress');
+          });
+        });
+      });
+    });
+  });
+
+  it('should keep handing out the same code until it is used', () => {
+    readyForPickup().then((booking) => {
+      RentalHelper.getHandoverCode(booking.id, 'pickup', borrowerToken).then((code) => {
+        expect(code).to.match(/^\d{6}$/);
+
+        // A wrong guess below the limit does not replace the code
+        start(booking.id, wrongCodeFor(code)).its('status').should('equal', 400);
+        RentalHelper.getHandoverCode(booking.id, 'pickup', borrowerToken).should('equal', code);
+
+        start(booking.id, code).its('status').should('equal', 200);
+      });
+    });
+  });
+
+  it('should only show the pickup code to the borrower', () => {
+    readyForPickup().then((booking) => {
+      cy.request({
+        method: 'GET',
+        url: `${RentalHelper.apiBaseUrl}/bookings/${booking.id}/handover/pickup/code`,
+        headers: { Authorization: `Bearer ${lenderToken}` },
+        failOnStatusCode: false
+      }).then((response) => {
+        expect(response.status).to.equal(400);
+        expect(response.body.error).to.equal('The pickup code is held by the borrower');
+      });
+    });
+  });
+});
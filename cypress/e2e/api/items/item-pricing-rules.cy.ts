@@ -0,0 +1,126 @@
+/// <reference types="cypress" />
+
+import { RentalHelper } from '../../../support/helpers/rentals';
+
+describe('Items API - Pricing Rules', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+  const { toDate } = RentalHelper;
+
+  let lenderToken: string;
+  let borrowerToken: string;
+
+  before(() => {
+    RentalHelper.signIn('lender').then((token) => { lenderToken = token; });
+    RentalHelper.signIn('borrower').then((token) => { borrowerToken = token; });
+  });
+
+  const addRule = (itemId: string, token: string, body: Record<string, any>) =>
+    cy.request({
+      method: 'POST',
+      url: `${apiBaseUrl}/items/${itemId}/pricing-rules`,
+      headers: { Authorization: `Bearer ${token}` },
+      body,
+      failOnStatusCode: false
+    });
+
+  const getQuote = (itemId: string, startInDays: number, endInDays: number) =>
+    cy.request({
+      method: 'GET',
+      url: `${apiBaseUrl}/items/${itemId}/quote?startDate=${toDate(startInDays)}&endDate=${toDate(endInDays)}`,
+      headers: { Authorization: `Bearer ${borrowerToken}` }
+    }).then((response) => response.body.data.priceBreakdown);
+
+  const lineOf = (breakdown: any, type: string) =>
+    breakdown.lineItems.find((line: any) => line.type === type);
+
+  // Item rules of every type, so no category default applies; 100 a day keeps the numbers readable
+  const createPricedItem = () =>
+    RentalHelper.createItem(lenderToken, { rentPricePerDay: 100 }).then((item) => {
+      addRule(item.id, lenderToken, { ruleType: 'weekend', adjustmentPercent: 20, label: 'Weekend' })
+        .its('status').should('equal', 201);
+      addRule(item.id, lenderToken, { ruleType: 'lengthOfStay', adjustmentPercent: -10, minDays: 7, label: 'Weekly' })
+        .its('status').should('equal', 201);
+      addRule(item.id, lenderToken, {
+        ruleType: 'dateRange',
+        adjustmentPercent: 50,
+        startDate: toDate(20),
+        endDate: toDate(21),
+        label: 'Festival'
+      }).its('status').should('equal', 201);
+
+      return cy.request(`${apiBaseUrl}/items/${item.id}/pricing-rules`).then((response) => {
+        expect(response.body.data.itemRules).to.have.length(3);
+        return item;
+      });
+    });
+
+  it('should add weekend surcharges and then take the weekly discount off the subtotal', () => {
+    createPricedItem().then((item) => {
+      // Any seven days in a row contain exactly one weekend
+      getQuote(item.id, 5, 11).then((breakdown) => {
+        expect(breakdown.totalDays).to.equal(7);
+        expect(lineOf(breakdown, 'base').amount).to.equal(700);
+        expect(lineOf(breakdown, 'weekend')).to.include({ label: 'Weekend', days: 2, amount: 40 });
+        expect(lineOf(breakdown, 'lengthOfStay')).to.include({ label: 'Weekly', amount: -74 });
+        expect(breakdown.totalRent).to.equal(666);
+        expect(breakdown.platformFee).to.equal(33.3);
+      });
+    });
+  });
+
+  it('should charge the date range surcharge instead of the weekend one and skip the weekly discount for short stays', () => {
+    createPricedItem().then((item) => {
+      getQuote(item.id, 20, 21).then((breakdown) => {
+        expect(lineOf(breakdown, 'dateRange')).to.include({ label: 'Festival', days: 2, amount: 100 });
+        expect(lineOf(breakdown, 'weekend')).to.be.undefined;
+        expect(lineOf(breakdown, 'lengthOfStay')).to.be.undefined;
+        expect(breakdown.totalRent).to.equal(300);
+      });
+    });
+  });
+
+  it('should store the same breakdown on the booking', () => {
+    createPricedItem().then((item) => {
+      getQuote(item.id, 5, 11).then((quoted) => {
+        RentalHelper.createBooking(borrowerToken, item.id, 5, 11).then((booking) => {
+          expect(Number(booking.totalRent)).to.equal(quoted.totalRent);
+          expect(Number(booking.platformFee)).to.equal(quoted.platformFee);
+          expect(booking.priceBreakdown.lineItems).to.deep.equal(quoted.lineItems);
+        });
+      });
+    });
+  });
+
+  it('should price at the base rate again once the rules are removed', () => {
+    createPricedItem().then((item) => {
+      cy.request(`${apiBaseUrl}/items/${item.id}/pricing-rules`).then((response) => {
+        response.body.data.itemRules.forEach((rule: any) => {
+          cy.request({
+            method: 'DELETE',
+            url: `${apiBaseUrl}/items/${item.id}/pricing-rules/${rule.id}`,
+            headers: { Authorization: `Bearer ${lenderToken}` }
+          }).its('status').should('equal', 200);
+        });
+      });
+
+      // Category defaults may still apply, but none of the removed item rules do
+      getQuote(item.id, 20, 21).then((breakdown) => {
+        expect(lineOf(breakdown, 'base').amount).to.equal(200);
+        expect(breakdown.lineItems.some((line: any) => ['Weekend', 'Weekly', 'Festival'].includes(line.label))).to.equal(false);
+      });
+    });
+  });
+
+  it('should only let the owner add rules and reject invalid ones', () => {
+    RentalHelper.createItem(lenderToken).then((item) => {
+      addRule(item.id, borrowerToken, { ruleType: 'weekend', adjustmentPercent: 20 }).then((response) => {
+        expect(response.status).to.equal(403);
+        expect(response.body.error).to.equal('You do not have permission to modify this item');
+      });
+
+      // A length-of-stay rule can only be a discount
+      addRule(item.id, lenderToken, { ruleType: 'lengthOfStay', adjustmentPercent: 10, minDays: 7 })
+        .its('status').should('equal', 400);
+    });
+  });
+});
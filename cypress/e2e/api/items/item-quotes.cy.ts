@@ -0,0 +1,119 @@
+/// <reference types="cypress" />
+
+import { RentalHelper } from '../../../support/helpers/rentals';
+
+describe('Items API - Price Quotes', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+  const { toDate } = RentalHelper;
+
+  let lenderToken: string;
+  let borrowerToken: string;
+
+  before(() => {
+    RentalHelper.signIn('lender').then((token) => { lenderToken = token; });
+    RentalHelper.signIn('borrower').then((token) => { borrowerToken = token; });
+  });
+
+  const requestQuote = (itemId: string, token: string, startInDays: number, endInDays: number, deliveryMode = 'none') =>
+    cy.request({
+      method: 'GET',
+      url: `${apiBaseUrl}/items/${itemId}/quote`,
+      qs: { startDate: toDate(startInDays), endDate: toDate(endInDays), deliveryMode },
+      headers: { Authorization: `Bearer ${token}` },
+      failOnStatusCode: false
+    });
+
+  const quoteFor = (itemId: string, startInDays: number, endInDays: number, deliveryMode = 'none') =>
+    requestQuote(itemId, borrowerToken, startInDays, endInDays, deliveryMode).then((response) => {
+      expect(response.status).to.equal(200);
+      return response.body.data;
+    });
+
+  it('should quote everything the booking will charge and hold that price when the booking uses it', () => {
+    RentalHelper.createItem(lenderToken, { rentPricePerDay: 100, securityAmount: 500, deliveryMode: 'both', deliveryFee: 50 })
+      .then((item) => {
+        quoteFor(item.id, 5, 6, 'delivery').then((quote) => {
+          const breakdown = quote.priceBreakdown;
+          expect(quote.id).to.be.a('string');
+          expect(new Date(quote.expiresAt).getTime()).to.be.greaterThan(Date.now());
+          expect(breakdown.securityAmount).to.equal(500);
+          expect(breakdown.deliveryFee).to.equal(50);
+          expect(breakdown.totalAmount).to.equal(
+            breakdown.totalRent + breakdown.platformFee + breakdown.securityAmount + breakdown.deliveryFee
+          );
+
+          // The lender raises the price after the quote was issued
+          cy.request({
+            method: 'POST',
+            url: `${apiBaseUrl}/items/${item.id}/pricing-rules`,
+            headers: { Authorization: `Bearer ${lenderToken}` },
+            body: { ruleType: 'dateRange', adjustmentPercent: 50, startDate: toDate(0), endDate: toDate(30) }
+          }).its('status').should('equal', 201);
+
+          RentalHelper.createBooking(borrowerToken, item.id, 5, 6, { quoteId: quote.id, deliveryMode: 'delivery' })
+            .then((booking) => {
+              expect(Number(booking.totalRent)).to.equal(breakdown.totalRent);
+              expect(Number(booking.totalAmount)).to.equal(breakdown.totalAmount);
+              expect(booking.priceBreakdown).to.deep.equal(breakdown);
+            });
+
+          // Without the quote the new rule applies
+          RentalHelper.createBooking(borrowerToken, item.id, 5, 6, { deliveryMode: 'delivery' }).then((booking) => {
+            expect(Number(booking.totalRent)).to.be.greaterThan(breakdown.totalRent);
+          });
+
+          // A quote prices one booking only
+          RentalHelper.requestBooking(borrowerToken, item.id, 5, 6, { quoteId: quote.id, deliveryMode: 'delivery' })
+            .then((response) => {
+              expect(response.status).to.equal(400);
+              expect(response.body.error).to.equal('Quote has already been used');
+            });
+        });
+      });
+  });
+
+  it('should refuse a quote for other dates or an expired quote', () => {
+    RentalHelper.createItem(lenderToken).then((item) => {
+      quoteFor(item.id, 5, 6).then((quote) => {
+        RentalHelper.requestBooking(borrowerToken, item.id, 5, 7, { quoteId: quote.id }).then((response) => {
+          expect(response.status).to.equal(400);
+          expect(response.body.error).to.equal('Quote does not match the booking item, dates or delivery mode');
+        });
+
+        cy.task('updateRecord', {
+          table: 'booking_quote',
+          id: quote.id,
+          values: { expires_at: new Date(Date.now() - 60 * 1000).toISOString() }
+        });
+
+        RentalHelper.requestBooking(borrowerToken, item.id, 5, 6, { quoteId: quote.id }).then((response) => {
+          expect(response.status).to.equal(400);
+          expect(response.body.error).to.equal('Quote has expired; request a new quote');
+        });
+      });
+    });
+  });
+
+  it('should apply the same checks as booking before quoting', () => {
+    RentalHelper.createItem(lenderToken, { maxRentalDays: 3 }).then((item) => {
+      requestQuote(item.id, borrowerToken, 5, 9).then((response) => {
+        expect(response.status).to.equal(400);
+        expect(response.body.error).to.equal('Maximum rental period is 3 days');
+      });
+
+      requestQuote(item.id, lenderToken, 5, 6).then((response) => {
+        expect(response.status).to.equal(400);
+        expect(response.body.error).to.equal('You cannot book your own item');
+      });
+
+      RentalHelper.createBooking(borrowerToken, item.id, 5, 6).then((booking) => {
+        RentalHelper.updateStatus(booking.id, lenderToken, { status: 'confirmed' }).its('status').should('equal', 200);
+      });
+
+      requestQuote(item.id, borrowerToken, 6, 7).then((response) => {
+        expect(response.status).to.equal(409);
+        expect(response.body.error).to.equal('Item is not available for the selected dates');
+      });
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/// <reference types="cypress" />
+
+import { RentalHelper } from '../../../support/helpers/rentals';
+
+describe('Messages API - Read Receipts', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+
+  let lenderToken: string;
+  let borrowerToken: string;
+  let adminToken: string;
+
+  before(() => {
+    RentalHelper.signIn('lender').then((token) => { lenderToken = token; });
+    RentalHelper.signIn('borrower').then((token) => { borrowerToken = token; });
+    RentalHelper.signIn('admin').then((token) => { adminToken = token; });
+  });
+
+  const authed = (method: string, path: string, token: string, body?: Record<string, any>) =>
+    cy.request({
+      method,
+      url: `${apiBaseUrl}${path}`,
+      headers: { Authorization: `Bearer ${token}` },
+      ...(body && { body }),
+      failOnStatusCode: false
+    });
+
+  // Opens the thread of a new booking and yields its id
+  const bookingThread = () =>
+    RentalHelper.createItem(lenderToken).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, 3, 4)
+    ).then((booking) =>
+      authed('GET', `/bookings/${booking.id}/thread`, borrowerToken).then((response) => {
+        expect(response.status).to.equal(200);
+        expect(response.body.data.bookingId).to.equal(booking.id);
+        return response.body.data.id as string;
+      })
+    );
+
+  const send = (threadId: string, token: string, text: string) =>
+    authed('POST', `/messages/threads/${threadId}/messages`, token, { body: text }).then((response) => {
+      expect(response.status).to.equal(201);
+      return response.body.data;
+    });
+
+  const listMessages = (threadId: string, token: string) =>
+    authed('GET', `/messages/threads/${threadId}/messages`, token).its('body.data');
+
+  const unreadCount = (threadId: string, token: string) =>
+    authed('GET', `/messages/threads/${threadId}`, token).its('body.data.unreadCount');
+
+  it('should show a message as read once the other party opens the thread', () => {
+    bookingThread().then((threadId) => {
+      send(threadId, borrowerToken, 'Is a 9am pickup fine?').then((sent) => {
+        expect(sent.read).to.equal(false);
+
+        // Sending counts as reading for the sender
+        unreadCount(threadId, borrowerToken).should('equal', 0);
+        unreadCount(threadId, lenderToken).should('equal', 1);
+
+        authed('PUT', `/messages/threads/${threadId}/read`, lenderToken).then((response) => {
+          expect(response.status).to.equal(200);
+          expect(response.body.data.unreadCount).to.equal(0);
+          expect(response.body.data.lenderLastReadAt).to.be.a('string');
+        });
+
+        listMessages(threadId, borrowerToken).then((messages) => {
+          const [message] = messages;
+          expect(message.id).to.equal(sent.id);
+          expect(message.read).to.equal(true);
+        });
+        unreadCount(threadId, lenderToken).should('equal', 0);
+      });
+    });
+  });
+
+  it('should only mark messages up to the moment the thread was read', () => {
+    bookingThread().then((threadId) => {
+      send(threadId, borrowerToken, 'Is a 9am pickup fine?');
+      authed('PUT', `/messages/threads/${threadId}/read`, lenderToken).its('status').should('equal', 200);
+      send(threadId, borrowerToken, 'Or 10am if that suits you better');
+
+      // Newest first
+      listMessages(threadId, borrowerToken).then((messages) => {
+        expect(messages.map((message: any) => message.read)).to.deep.equal([false, true]);
+      });
+      unreadCount(threadId, lenderToken).should('equal', 1);
+
+      // Replying reads the thread too
+      send(threadId, lenderToken, '10am works');
+      listMessages(threadId, borrowerToken).then((messages) => {
+        expect(messages.map((message: any) => message.read)).to.deep.equal([false, true, true]);
+      });
+      unreadCount(threadId, borrowerToken).should('equal', 1);
+    });
+  });
+
+  it('should count unread enquiries in the lender\'s thread list', () => {
+    RentalHelper.createItem(lenderToken).then((item) => {
+      authed('POST', '/messages/enquiries', borrowerToken, { itemId: item.id, body: 'Does it fit four people?' })
+        .then((response) => {
+          expect(response.status).to.equal(201);
+          const threadId = response.body.data.threadId;
+
+          authed('GET', '/messages/threads', lenderToken).then((threads) => {
+            const thread = threads.body.data.find((entry: any) => entry.id === threadId);
+            expect(thread.itemId).to.equal(item.id);
+            expect(thread.unreadCount).to.equal(1);
+          });
+        });
+
+      authed('POST', '/messages/enquiries', lenderToken, { itemId: item.id, body: 'Hello' }).then((response) => {
+        expect(response.status).to.equal(400);
+        expect(response.body.error).to.equal('You cannot send an enquiry about your own item');
+      });
+    });
+  });
+
+  it('should let support read a thread without leaving a read receipt', () => {
+    bookingThread().then((threadId) => {
+      send(threadId, borrowerToken, 'The tent has a tear');
+
+      listMessages(threadId, adminToken).its('length').should('equal', 1);
+
+      authed('PUT', `/messages/threads/${threadId}/read`, adminToken).then((response) => {
+        expect(response.status).to.equal(403);
+        expect(response.body.error).to.equal('Only the lender and borrower can mark messages as read');
+      });
+
+      listMessages(threadId, borrowerToken).its('0.read').should('equal', false);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/// <reference types="cypress" />
+
+import { RentalHelper } from '../../../support/helpers/rentals';
+
+describe('Notifications API - Inbox', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+
+  let lenderToken: string;
+  let borrowerToken: string;
+
+  before(() => {
+    RentalHelper.signIn('lender').then((token) => { lenderToken = token; });
+    RentalHelper.signIn('borrower').then((token) => { borrowerToken = token; });
+  });
+
+  const authed = (method: string, path: string, token: string, body?: Record<string, any>) =>
+    cy.request({
+      method,
+      url: `${apiBaseUrl}${path}`,
+      headers: { Authorization: `Bearer ${token}` },
+      ...(body && { body }),
+      failOnStatusCode: false
+    });
+
+  const unreadCount = (token: string) =>
+    authed('GET', '/notifications/unread-count', token).its('body.data.count');
+
+  // Newest notifications of the user about one booking
+  const notificationsFor = (bookingId: string, token: string) =>
+    authed('GET', '/notifications?limit=50', token).then((response) =>
+      response.body.data.filter((notification: any) => notification.bookingId === bookingId)
+    );
+
+  it('should put each booking transition in the inbox of the party it concerns', () => {
+    unreadCount(lenderToken).then((lenderUnread) => {
+      RentalHelper.createItem(lenderToken).then((item) =>
+        RentalHelper.createBooking(borrowerToken, item.id, 3, 4)
+      ).then((booking) => {
+        notificationsFor(booking.id, lenderToken).then((notifications) => {
+          expect(notifications.map((n: any) => n.notificationType)).to.deep.equal(['bookingRequested']);
+          expect(notifications[0].title).to.equal('New booking request');
+          expect(notifications[0].readAt).to.be.null;
+        });
+        unreadCount(lenderToken).should('equal', Number(lenderUnread) + 1);
+
+        // The borrower made the request, so nothing lands in their inbox yet
+        notificationsFor(booking.id, borrowerToken).should('have.length', 0);
+
+        RentalHelper.updateStatus(booking.id, lenderToken, { status: 'confirmed' }).its('status').should('equal', 200);
+        notificationsFor(booking.id, borrowerToken).then((notifications) => {
+          expect(notifications.map((n: any) => n.notificationType)).to.deep.equal(['bookingConfirmed']);
+          expect(notifications[0].title).to.equal('Booking confirmed');
+        });
+      });
+    });
+  });
+
+  it('should mark one notification or the whole inbox as read', () => {
+    RentalHelper.createItem(lenderToken).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, 3, 4)
+    ).then((booking) => {
+      notificationsFor(booking.id, lenderToken).then(([notification]) => {
+        unreadCount(lenderToken).then((before) => {
+          authed('PUT', `/notifications/${notification.id}/read`, lenderToken).then((response) => {
+            expect(response.status).to.equal(200);
+            expect(response.body.data.readAt).to.be.a('string');
+          });
+          unreadCount(lenderToken).should('equal', Number(before) - 1);
+
+          // Only the recipient can mark it
+          authed('PUT', `/notifications/${notification.id}/read`, borrowerToken).then((response) => {
+            expect(response.status).to.equal(404);
+            expect(response.body.error).to.equal('Notification not found');
+          });
+        });
+      });
+
+      authed('PUT', '/notifications/read-all', lenderToken).its('status').should('equal', 200);
+      unreadCount(lenderToken).should('equal', 0);
+      authed('GET', '/notifications?unread=true', lenderToken).its('body.data').should('have.length', 0);
+    });
+  });
+
+  it('should not notify users about types they muted', () => {
+    authed('PUT', '/notifications/preferences', borrowerToken, { mutedTypes: ['messageReceived'] }).then((response) => {
+      expect(response.status).to.equal(200);
+      expect(response.body.data.mutedTypes).to.deep.equal(['messageReceived']);
+    });
+
+    RentalHelper.createItem(lenderToken).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, 3, 4)
+    ).then((booking) => {
+      authed('GET', `/bookings/${booking.id}/thread`, lenderToken).then((thread) => {
+        authed('POST', `/messages/threads/${thread.body.data.id}/messages`, lenderToken, { body: 'See you then' })
+          .its('status').should('equal', 201);
+        authed('POST', `/messages/threads/${thread.body.data.id}/messages`, borrowerToken, { body: 'Great, thanks' })
+          .its('status').should('equal', 201);
+
+        // The lender did not mute messages, so their copy still arrives
+        notificationsFor(booking.id, lenderToken).then((notifications) => {
+          const received = notifications.find((n: any) => n.notificationType === 'messageReceived');
+          expect(received.data).to.deep.equal({ threadId: thread.body.data.id, bookingId: booking.id });
+        });
+      });
+
+      notificationsFor(booking.id, borrowerToken).then((notifications) => {
+        expect(notifications.map((n: any) => n.notificationType)).not.to.include('messageReceived');
+      });
+    });
+
+    // Booking updates cannot be muted
+    authed('PUT', '/notifications/preferences', borrowerToken, { mutedTypes: ['bookingConfirmed'] })
+      .its('status').should('equal', 400);
+
+    authed('PUT', '/notifications/preferences', borrowerToken, { mutedTypes: [] }).its('status').should('equal', 200);
+  });
+});
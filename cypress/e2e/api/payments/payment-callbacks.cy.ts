@@ -0,0 +1,130 @@
+/// <reference types="cypress" />
+
+import { RentalHelper } from '../../../support/helpers/rentals';
+
+describe('Payments API - Gateway Callbacks', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+
+  let lenderToken: string;
+  let borrowerToken: string;
+
+  before(() => {
+    RentalHelper.signIn('lender').then((token) => { lenderToken = token; });
+    RentalHelper.signIn('borrower').then((token) => { borrowerToken = token; });
+  });
+
+  // Books a new item and starts a fake gateway payment for it; yields the initiate response body
+  const initiatePayment = () =>
+    RentalHelper.createItem(lenderToken).then((item) =>
+      RentalHelper.createBooking(borrowerToken, item.id, 2, 4)
+    ).then((booking) =>
+      cy.request({
+        method: 'POST',
+        url: `${apiBaseUrl}/payments`,
+        headers: { Authorization: `Bearer ${borrowerToken}` },
+        body: { bookingId: booking.id, paymentMethod: 'upi' }
+      })
+    ).then((response) => {
+      expect(response.status).to.equal(201);
+      expect(response.body.data.payment.paymentStatus).to.equal('processing');
+      expect(response.body.data.checkout.provider).to.equal('fake');
+      return response.body.data;
+    });
+
+  const postCallback = (body: Record<string, any>) =>
+    cy.request({
+      method: 'POST',
+      url: `${apiBaseUrl}/payments/callback/fake`,
+      body,
+      failOnStatusCode: false
+    });
+
+  it('should complete the payment when the gateway reports success', () => {
+    initiatePayment().then(({ payment, checkout }) => {
+      postCallback(checkout.simulate.completed).then((response) => {
+        expect(response.status).to.equal(200);
+        expect(response.body.data.paymentStatus).to.equal('completed');
+      });
+
+      cy.request({
+        method: 'GET',
+        url: `${apiBaseUrl}/payments/${payment.id}`,
+        headers: { Authorization: `Bearer ${borrowerToken}` }
+      }).then((response) => {
+        expect(response.body.data.paymentStatus).to.equal('completed');
+        expect(response.body.data.paidAt).to.be.a('string');
+        expect(response.body.data.transactionId).to.equal(checkout.transactionId);
+      });
+
+      RentalHelper.getBooking(payment.bookingId, borrowerToken).then((booking) => {
+        expect(booking.payments.map((row: any) => row.paymentStatus)).to.deep.equal(['completed']);
+      });
+
+      // Gateways may deliver a callback twice; the second one must not change a settled payment
+      postCallback(checkout.simulate.failed).then((response) => {
+        expect(response.status).to.equal(200);
+        expect(response.body.message).to.equal('Payment already settled');
+        expect(response.body.data.paymentStatus).to.equal('completed');
+      });
+
+      cy.request({
+        method: 'POST',
+        url: `${apiBaseUrl}/payments`,
+        headers: { Authorization: `Bearer ${borrowerToken}` },
+        body: { bookingId: payment.bookingId, paymentMethod: 'upi' },
+        failOnStatusCode: false
+      }).then((response) => {
+        expect(response.status).to.equal(400);
+        expect(response.body.error).to.equal('This booking has already been paid');
+      });
+    });
+  });
+
+  it('should fail the payment when the gateway reports a failure', () => {
+    initiatePayment().then(({ payment, checkout }) => {
+      postCallback(checkout.simulate.failed).then((response) => {
+        expect(response.status).to.equal(200);
+        expect(response.body.data.paymentStatus).to.equal('failed');
+      });
+
+      cy.request({
+        method: 'GET',
+        url: `${apiBaseUrl}/payments/${payment.id}`,
+        headers: { Authorization: `Bearer ${borrowerToken}` }
+      }).its('body.data.paymentStatus').should('equal', 'failed');
+    });
+  });
+
+  it('should ignore a callback whose payload was altered after signing', () => {
+    initiatePayment().then(({ payment, checkout }) => {
+      const { payload, signature } = checkout.simulate.completed;
+
+      postCallback({ payload: { ...payload, amount: 1 }, signature }).then((response) => {
+        expect(response.status).to.equal(400);
+        expect(response.body.error).to.equal('Invalid callback signature');
+      });
+
+      cy.request({
+        method: 'GET',
+        url: `${apiBaseUrl}/payments/${payment.id}`,
+        headers: { Authorization: `Bearer ${borrowerToken}` }
+      }).its('body.data.paymentStatus').should('equal', 'processing');
+    });
+  });
+
+  it('should reject callbacks for unknown gateways', () => {
+    postCallback({ payload: {}, signature: 'x' }).then((response) => {
+      expect(response.status).to.equal(400);
+    });
+
+    cy.request({
+      method: 'POST',
+      url: `${apiBaseUrl}/payments/callback/unknown-gateway`,
+      body: { payload: {}, signature: 'x' },
+      failOnStatusCode: false
+    }).then((response) => {
+      expect(response.status).to.equal(400);
+      expect(response.body.error).to.equal('Unknown payment gateway');
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/// <reference types="cypress" />
+
+import { RentalHelper } from '../../../support/helpers/rentals';
+
+describe('Promo Codes API - Redemption Limits', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+
+  let lenderToken: string;
+  let borrowerToken: string;
+  let adminToken: string;
+
+  before(() => {
+    RentalHelper.signIn('lender').then((token) => { lenderToken = token; });
+    RentalHelper.signIn('borrower').then((token) => { borrowerToken = token; });
+    RentalHelper.signIn('admin').then((token) => { adminToken = token; });
+  });
+
+  // A flat discount keeps the checks independent of any category pricing defaults
+  const createPromoCode = (fields: Record<string, any>) => {
+    const code = `SPEC${Date.now()}`;
+
+    return cy.request({
+      method: 'POST',
+      url: `${apiBaseUrl}/promo-codes`,
+      headers: { Authorization: `Bearer ${adminToken}` },
+      body: { code, discountType: 'flat', discountValue: 25, ...fields }
+    }).then((response) => {
+      expect(response.status).to.equal(201);
+      return response.body.data;
+    });
+  };
+
+  const bookWithCode = (itemId: string, code: string, startInDays: number) =>
+    RentalHelper.requestBooking(borrowerToken, itemId, startInDays, startInDays + 1, { promoCode: code.toLowerCase() });
+
+  it('should stop accepting a code once its usage limit is reached and give a use back on cancellation', () => {
+    createPromoCode({ usageLimit: 2 }).then((promo) => {
+      RentalHelper.createItem(lenderToken, { rentPricePerDay: 100 }).then((item) => {
+        bookWithCode(item.id, promo.code, 3).then((response) => {
+          expect(response.status).to.equal(201);
+          expect(Number(response.body.data.discountAmount)).to.equal(25);
+
+          const promoLine = response.body.data.priceBreakdown.lineItems.find((line: any) => line.type === 'promo');
+          expect(promoLine).to.include({ amount: -25, promoCodeId: promo.id });
+        });
+
+        bookWithCode(item.id, promo.code, 6).then((response) => {
+          expect(response.status).to.equal(201);
+
+          bookWithCode(item.id, promo.code, 9).then((rejected) => {
+            expect(rejected.status).to.equal(400);
+            expect(rejected.body.error).to.equal('This promo code has reached its usage limit');
+          });
+
+          // Cancelled bookings do not count against the limit
+          RentalHelper.updateStatus(response.body.data.id, borrowerToken, { status: 'cancelled' })
+            .its('status').should('equal', 200);
+
+          bookWithCode(item.id, promo.code, 9).its('status').should('equal', 201);
+        });
+      });
+    });
+  });
+
+  it('should limit how often one borrower uses a code', () => {
+    createPromoCode({ perUserLimit: 1 }).then((promo) => {
+      RentalHelper.createItem(lenderToken, { rentPricePerDay: 100 }).then((item) => {
+        bookWithCode(item.id, promo.code, 3).its('status').should('equal', 201);
+
+        bookWithCode(item.id, promo.code, 6).then((response) => {
+          expect(response.status).to.equal(400);
+          expect(response.body.error).to.equal('You have already used this promo code');
+        });
+      });
+    });
+  });
+
+  it('should refuse codes that have ended or been switched off', () => {
+    RentalHelper.createItem(lenderToken, { rentPricePerDay: 100 }).then((item) => {
+      createPromoCode({ endsAt: new Date(Date.now() - 60 * 1000).toISOString() }).then((promo) => {
+        bookWithCode(item.id, promo.code, 3).then((response) => {
+          expect(response.status).to.equal(400);
+          expect(response.body.error).to.equal('This promo code is not valid at this time');
+        });
+      });
+
+      createPromoCode({}).then((promo) => {
+        cy.request({
+          method: 'PUT',
+          url: `${apiBaseUrl}/promo-codes/${promo.id}`,
+          headers: { Authorization: `Bearer ${adminToken}` },
+          body: { isActive: false }
+        }).its('status').should('equal', 200);
+
+        bookWithCode(item.id, promo.code, 3).then((response) => {
+          expect(response.status).to.equal(400);
+          expect(response.body.error).to.equal('Invalid promo code');
+        });
+      });
+    });
+  });
+
+  it('should restrict promo code management to admins', () => {
+    cy.request({
+      method: 'POST',
+      url: `${apiBaseUrl}/promo-codes`,
+      headers: { Authorization: `Bearer ${borrowerToken}` },
+      body: { code: 'WELCOME10', discountType: 'percentage', discountValue: 10 },
+      failOnStatusCode: false
+    }).then((response) => {
+      expect(response.status).to.equal(403);
+      expect(response.body.error).to.equal('Admin access required');
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/// <reference types="cypress" />
+
+import { RentalHelper } from '../../../support/helpers/rentals';
+
+type ReceivedWebhook = { headers: Record<string, string>; body: string };
+
+describe('Webhooks API - Signed Deliveries', () => {
+  const apiBaseUrl = Cypress.env('API_BASE_URL');
+
+  let lenderToken: string;
+  let borrowerToken: string;
+  let adminToken: string;
+
+  before(() => {
+    RentalHelper.signIn('lender').then((token) => { lenderToken = token; });
+    RentalHelper.signIn('borrower').then((token) => { borrowerToken = token; });
+    RentalHelper.signIn('admin').then((token) => { adminToken = token; });
+  });
+
+  const authed = (method: string, path: string, token: string, body?: Record<string, any>) =>
+    cy.request({
+      method,
+      url: `${apiBaseUrl}${path}`,
+      headers: { Authorization: `Bearer ${token}` },
+      ...(body && { body }),
+      failOnStatusCode: false
+    });
+
+  // Subscribes the local receiver, answering with the given status, and yields the subscription with its secret
+  const subscribe = (eventTypes: string[], receiverStatus: number = 200) =>
+    cy.task<string>('startWebhookReceiver', receiverStatus).then((url) =>
+      authed('POST', '/webhooks', adminToken, { url, eventTypes }).then((response) => {
+        expect(response.status).to.equal(201);
+        return response.body.data;
+      })
+    );
+
+  const unsubscribe = (subscriptionId: string) =>
+    authed('DELETE', `/webhooks/${subscriptionId}`, adminToken).its('status').should('equal', 200);
+
+  const payloadOf = (request: ReceivedWebhook) => JSON.parse(request.body);
+
+  // Polls the receiver until a matching request arrives; deliveries are sent in the background
+  const waitForWebhook = (matches: (request: ReceivedWebhook) => boolean, attemptsLeft = 20): Cypress.Chainable<ReceivedWebhook> =>
+    cy.task<ReceivedWebhook[]>('receivedWebhooks').then((requests): any => {
+      const found = requests.find(matches);
+      if (found) {
+        return found;
+      }
+
+      expect(attemptsLeft, 'polls left waiting for the webhook').to.be.greaterThan(0);
+      cy.wait(500);
+      return waitForWebhook(matches, attemptsLeft - 1);
+    });
+
+  const deliveryOfItem = (itemId: string) =>
+    waitForWebhook((request) => payloadOf(request).data.item?.id === itemId);
+
+  const deliveries = (subscriptionId: string) =>
+    authed('GET', `/webhooks/${subscriptionId}/deliveries`, adminToken).its('body.data');
+
+  // Splits the X-Webhook-Signature header into its timestamp and digest
+  const parseSignature = (header: string) => {
+    const match = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(header);
+    expect(match, `signature header ${header}`).not.to.equal(null);
+    return { timestamp: match![1]!, digest: match![2]! };
+  };
+
+  const digestOf = (secret: string, request: ReceivedWebhook) =>
+    cy.task<string>('webhookDigest', {
+      secret,
+      timestamp: parseSignature(request.headers['x-webhook-signature']!).timestamp,
+      body: request.body
+    });
+
+  it('should sign each delivery with the secret shown once at creation', () => {
+    subscribe(['item.created']).then((subscription) => {
+      expect(subscription.secret).to.match(/^whsec_[0-9a-f]{48}$/);
+
+      authed('GET', `/webhooks/${subscription.id}`, adminToken).then((response) => {
+        expect(response.body.data.secret).to.equal(`whsec_...${subscription.secret.slice(-4)}`);
+      });
+
+      RentalHelper.createItem(lenderToken).then((item) => {
+        deliveryOfItem(item.id).then((request) => {
+          const payload = payloadOf(request);
+          expect(payload.type).to.equal('item.created');
+          expect(request.headers['content-type']).to.include('application/json');
+          expect(request.headers['x-webhook-event']).to.equal('item.created');
+          expect(request.headers['x-webhook-id']).to.equal(payload.id);
+
+          const { timestamp, digest } = parseSignature(request.headers['x-webhook-signature']!);
+          expect(Math.abs(Date.now() / 1000 - Number(timestamp))).to.be.lessThan(300);
+          digestOf(subscription.secret, request).should('equal', digest);
+
+          deliveries(subscription.id).then(([delivery]) => {
+            expect(delivery.id).to.equal(request.headers['x-webhook-delivery']);
+            expect(delivery.eventId).to.equal(payload.id);
+            expect(delivery.deliveryStatus).to.equal('succeeded');
+            expect(delivery.attempts).to.equal(1);
+            expect(delivery.responseStatus).to.equal(200);
+            expect(delivery.payload).to.deep.equal(payload);
+          });
+        });
+      });
+
+      unsubscribe(subscription.id);
+    });
+  });
+
+  it('should sign with the new secret once it is rotated', () => {
+    subscribe(['item.created']).then((subscription) => {
+      authed('PUT', `/webhooks/${subscription.id}`, adminToken, { rotateSecret: true }).then((response) => {
+        expect(response.status).to.equal(200);
+        const rotatedSecret = response.body.data.secret;
+        expect(rotatedSecret).to.match(/^whsec_[0-9a-f]{48}$/).and.not.equal(subscription.secret);
+
+        RentalHelper.createItem(lenderToken).then((item) => {
+          deliveryOfItem(item.id).then((request) => {
+            const { digest } = parseSignature(request.headers['x-webhook-signature']!);
+            digestOf(rotatedSecret, request).should('equal', digest);
+            digestOf(subscription.secret, request).should('not.equal', digest);
+          });
+        });
+      });
+
+      unsubscribe(subscription.id);
+    });
+  });
+
+  it('should retry a failed delivery and let admins redeliver it', () => {
+    subscribe(['item.created'], 500).then((subscription) => {
+      RentalHelper.createItem(lenderToken).then((item) => deliveryOfItem(item.id)).then((request) => {
+        deliveries(subscription.id).then(([failed]) => {
+          expect(failed.id).to.equal(request.headers['x-webhook-delivery']);
+          expect(failed.deliveryStatus).to.equal('pending');
+          expect(failed.attempts).to.equal(1);
+          expect(failed.responseStatus).to.equal(500);
+          expect(failed.error).to.equal('Endpoint responded with 500');
+          expect(new Date(failed.nextAttemptAt).getTime()).to.be.greaterThan(Date.now());
+
+          // The endpoint recovers
+          cy.task('startWebhookReceiver', 200);
+
+          authed('POST', `/webhooks/${subscription.id}/deliveries/${failed.id}/redeliver`, adminToken).then((response) => {
+            expect(response.status).to.equal(201);
+            expect(response.body.message).to.equal('Event redelivered');
+
+            const redelivery = response.body.data;
+            expect(redelivery.id).not.to.equal(failed.id);
+            expect(redelivery.redeliveryOf).to.equal(failed.id);
+            expect(redelivery.eventId).to.equal(failed.eventId);
+            expect(redelivery.deliveryStatus).to.equal('succeeded');
+
+            waitForWebhook((received) => received.headers['x-webhook-delivery'] === redelivery.id)
+              .its('headers.x-webhook-id').should('equal', failed.eventId);
+          });
+
+          // The scheduled retry of the original delivery succeeds as well once it is due
+          cy.task('updateRecord', {
+            table: 'webhook_delivery',
+            id: failed.id,
+            values: { next_attempt_at: new Date(Date.now() - 60 * 1000).toISOString() }
+          });
+          cy.task('runJob', 'webhook-delivery').its('handled').should('be.at.least', 1);
+
+          deliveries(subscription.id).then((log) => {
+            const retried = log.find((delivery: any) => delivery.id === failed.id);
+            expect(retried.deliveryStatus).to.equal('succeeded');
+            expect(retried.attempts).to.equal(2);
+            expect(retried.nextAttemptAt).to.equal(null);
+          });
+        });
+      });
+
+      unsubscribe(subscription.id);
+    });
+  });
+
+  it('should only deliver the event types a subscription asked for', () => {
+    subscribe(['booking.created']).then((subscription) => {
+      RentalHelper.createItem(lenderToken).then((item) =>
+        RentalHelper.createBooking(borrowerToken, item.id, 3, 4)
+      ).then((booking) => {
+        waitForWebhook((request) => payloadOf(request).data.booking?.id === booking.id);
+
+        // The item was listed before the booking was made, so its event would have arrived by now
+        cy.task<ReceivedWebhook[]>('receivedWebhooks').then((requests) => {
+          expect(requests.map((request) => request.headers['x-webhook-event'])).to.deep.equal(['booking.created']);
+        });
+      });
+
+      unsubscribe(subscription.id);
+    });
+  });
+
+  it('should restrict webhook management to admins', () => {
+    authed('POST', '/webhooks', lenderToken, { url: 'https://example.com/hooks/rentals', eventTypes: ['booking.created'] })
+      .then((response) => {
+        expect(response.status).to.equal(403);
+        expect(response.body.error).to.equal('Admin access required');
+      });
+  });
+});
@@ -0,0 +1,184 @@
+// Rental flow helper functions shared by the marketplace API specs
+/// <reference types="cypress" />
+
+export type TestUserRole = 'lender' | 'borrower' | 'admin';
+export type HandoverType = 'pickup' | 'return';
+
+export class RentalHelper {
+  static get apiBaseUrl(): string {
+    return Cypress.env('API_BASE_URL');
+  }
+
+  /**
+   * Date (YYYY-MM-DD) a number of days from today
+   */
+  static toDate(daysFromToday: number): string {
+    const date = new Date();
+    date.setDate(date.getDate() + daysFromToday);
+    return date.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Sign in one of the accounts from the environment config (cypress/config/<env>.json) and yield its token
+   */
+  static signIn(role: TestUserRole): Cypress.Chainable<string> {
+    const { email, password } = Cypress.env('auth').testUsers[role];
+
+    return cy.login({ email, password }).then((loginResponse) => {
+      const token = loginResponse.data?.access_token || loginResponse.session?.access_token;
+      expect(token, `${role} access token`).to.be.a('string');
+      return token as string;
+    });
+  }
+
+  /**
+   * Profile of the signed-in user
+   */
+  static getProfile(token: string): Cypress.Chainable<any> {
+    return cy.request({
+      method: 'GET',
+      url: `${this.apiBaseUrl}/users/me/profile`,
+      headers: { Authorization: `Bearer ${token}` }
+    }).then((response) => response.body.data);
+  }
+
+  /**
+   * List an item as the lender; any field of the create payload can be overridden
+   */
+  static createItem(lenderToken: string, overrides: Record<string, any> = {}): Cypress.Chainable<any> {
+    return cy.request('GET', `${this.apiBaseUrl}/categories`).then((categories) => {
+      return cy.request({
+        method: 'POST',
+        url: `${this.apiBaseUrl}/items`,
+        headers: { Authorization: `Bearer ${lenderToken}` },
+        body: {
+          title: `Test Camping Tent ${Date.now()}`,
+          description: 'Four person tent listed by the API specs',
+          categoryId: categories.body.data[0].id,
+          condition: 'good',
+          rentPricePerDay: 20.00,
+          addressData: {
+            addressLine: '12 Test Rental Road',
+            city: 'Bengaluru',
+            state: 'Karnataka',
+            pincode: '560001',
+            latitude: 12.9716,
+            longitude: 77.5946
+          },
+          ...overrides
+        }
+      });
+    }).then((response) => {
+      expect(response.status).to.equal(201);
+      return response.body.data;
+    });
+  }
+
+  /**
+   * Request a booking, days counted from today; yields the raw response so specs can check rejections
+   */
+  static requestBooking(
+    borrowerToken: string,
+    itemId: string,
+    startInDays: number,
+    endInDays: number,
+    extra: Record<string, any> = {}
+  ): Cypress.Chainable<Cypress.Response<any>> {
+    return cy.request({
+      method: 'POST',
+      url: `${this.apiBaseUrl}/bookings`,
+      headers: { Authorization: `Bearer ${borrowerToken}` },
+      body: {
+        itemId,
+        startDate: this.toDate(startInDays),
+        endDate: this.toDate(endInDays),
+        ...extra
+      },
+      failOnStatusCode: false
+    });
+  }
+
+  /**
+   * Request a booking that is expected to be created
+   */
+  static createBooking(
+    borrowerToken: string,
+    itemId: string,
+    startInDays: number,
+    endInDays: number,
+    extra: Record<string, any> = {}
+  ): Cypress.Chainable<any> {
+    return this.requestBooking(borrowerToken, itemId, startInDays, endInDays, extra).then((response) => {
+      expect(response.status).to.equal(201);
+      return response.body.data;
+    });
+  }
+
+  static getBooking(bookingId: string, token: string): Cypress.Chainable<any> {
+    return cy.request({
+      method: 'GET',
+      url: `${this.apiBaseUrl}/bookings/${bookingId}`,
+      headers: { Authorization: `Bearer ${token}` }
+    }).then((response) => response.body.data);
+  }
+
+  static updateStatus(bookingId: string, token: string, body: Record<string, any>): Cypress.Chainable<Cypress.Response<any>> {
+    return cy.request({
+      method: 'PUT',
+      url: `${this.apiBaseUrl}/bookings/${bookingId}/status`,
+      headers: { Authorization: `Bearer ${token}` },
+      body,
+      failOnStatusCode: false
+    });
+  }
+
+  /**
+   * One party files the handover report and the other signs it
+   */
+  static signOffHandover(bookingId: string, type: HandoverType, reporterToken: string, signerToken: string): void {
+    cy.request({
+      method: 'POST',
+      url: `${this.apiBaseUrl}/bookings/${bookingId}/handover/${type}`,
+      headers: { Authorization: `Bearer ${reporterToken}` },
+      body: { condition: 'good', checklist: [{ label: 'Item works', ok: true }] }
+    }).its('status').should('equal', 201);
+
+    cy.request({
+      method: 'PUT',
+      url: `${this.apiBaseUrl}/bookings/${bookingId}/handover/${type}/sign`,
+      headers: { Authorization: `Bearer ${signerToken}` }
+    }).its('status').should('equal', 200);
+  }
+
+  /**
+   * Handover code held by the party that receives the item (borrower at pickup, lender at return)
+   */
+  static getHandoverCode(bookingId: string, type: HandoverType, holderToken: string): Cypress.Chainable<string> {
+    return cy.request({
+      method: 'GET',
+      url: `${this.apiBaseUrl}/bookings/${bookingId}/handover/${type}/code`,
+      headers: { Authorization: `Bearer ${holderToken}` }
+    }).then((response) => response.body.data.code as string);
+  }
+
+  /**
+   * Confirm a pending booking, hand the item over and start the rental
+   */
+  static startRental(bookingId: string, lenderToken: string, borrowerToken: string): void {
+    this.updateStatus(bookingId, lenderToken, { status: 'confirmed' }).its('status').should('equal', 200);
+    this.signOffHandover(bookingId, 'pickup', lenderToken, borrowerToken);
+    this.getHandoverCode(bookingId, 'pickup', borrowerToken).then((code) => {
+      this.updateStatus(bookingId, lenderToken, { status: 'inProgress', code }).its('status').should('equal', 200);
+    });
+  }
+
+  /**
+   * Hand an in-progress rental back and complete it
+   */
+  static completeRental(bookingId: string, lenderToken: string, borrowerToken: string): void {
+    this.signOffHandover(bookingId, 'return', borrowerToken, lenderToken);
+    this.getHandoverCode(bookingId, 'return', lenderToken).then((code) => {
+      this.updateStatus(bookingId, borrowerToken, { status: 'completed', code }).its('status').should('equal', 200);
+    });
+  }
+}
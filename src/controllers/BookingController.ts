@@ -1,17 +1,35 @@
 // Booking controller with booking management operations
 
 import { Request, Response } from 'express';
-import { BookingService } from '../services/BookingService.js';
-import { createBookingSchema, updateBookingSchema, bookingFilterSchema } from '../validations/booking.js';
+import { BookingService, BOOKING_CONFLICT_ERROR } from '../services/BookingService.js';
+import { SecurityDepositService } from '../services/SecurityDepositService.js';
+import { HANDOVER_CODE_LOCKED_ERROR } from '../services/HandoverService.js';
+import {
+  createBookingSchema,
+  updateBookingSchema,
+  bookingFilterSchema,
+  fileDepositClaimSchema,
+  handoverCodeSchema,
+  respondDepositClaimSchema,
+  requestModificationSchema,
+  respondModificationSchema,
+} from '../validations/booking.js';
 import { validateId, validatePagination } from '../validations/common.js';
-import { CreateBookingDto } from '../types/booking.js';
+import {
+  CreateBookingDto,
+  FileDepositClaimDto,
+  RequestModificationDto,
+  RespondModificationDto,
+} from '../types/booking.js';
 import { BookingStatus } from '../types/common.js';
 
 export class BookingController {
   private bookingService: BookingService;
+  private securityDepositService: SecurityDepositService;
 
   constructor() {
     this.bookingService = new BookingService();
+    this.securityDepositService = new SecurityDepositService();
   }
 
   /**
@@ -32,7 +50,7 @@ export class BookingController {
       const result = await this.bookingService.createBooking(userId, validatedData);
 
       if (!result.success) {
-        return res.status(400).json(result);
+        return res.status(result.error === BOOKING_CONFLICT_ERROR ? 409 : 400).json(result);
       }
 
       res.status(201).json(result);
@@ -93,6 +111,45 @@ export class BookingController {
     }
   }
 
+  /**
+   * Get the status timeline of a booking
+   */
+  async getBookingTimeline(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: bookingId } = validateId(req.params);
+
+      const result = await this.bookingService.getBookingTimeline(bookingId, userId);
+
+      if (!result.success) {
+        return res.status(result.error === 'Booking not found' ? 404 : 403).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get booking timeline error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid booking ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
   /**
    * Update booking status
    */
@@ -107,7 +164,7 @@ export class BookingController {
       }
 
       const { id: bookingId } = validateId(req.params);
-      const { status, reason } = req.body;
+      const { status, reason, code } = req.body;
 
       if (!status || !['confirmed', 'cancelled', 'inProgress', 'completed', 'disputed'].includes(status)) {
         return res.status(400).json({
@@ -120,11 +177,14 @@ export class BookingController {
         bookingId,
         userId,
         status as BookingStatus,
-        reason
+        reason,
+        typeof code === 'string' ? code.trim() : undefined
       );
 
       if (!result.success) {
-        return res.status(400).json(result);
+        const statusCode = result.error === BOOKING_CONFLICT_ERROR ? 409
+          : result.error === HANDOVER_CODE_LOCKED_ERROR ? 429 : 400;
+        return res.status(statusCode).json(result);
       }
 
       res.json(result);
@@ -338,7 +398,7 @@ export class BookingController {
       );
 
       if (!result.success) {
-        return res.status(400).json(result);
+        return res.status(result.error === BOOKING_CONFLICT_ERROR ? 409 : 400).json(result);
       }
 
       res.json(result);
@@ -360,7 +420,7 @@ export class BookingController {
   }
 
   /**
-   * Start booking (mark as in progress)
+   * Start booking (mark as in progress); the lender submits the borrower's pickup code
    */
   async startBooking(req: Request, res: Response) {
     try {
@@ -373,15 +433,18 @@ export class BookingController {
       }
 
       const { id: bookingId } = validateId(req.params);
+      const { code } = handoverCodeSchema.parse(req.body);
 
       const result = await this.bookingService.updateBookingStatus(
         bookingId,
         userId,
-        'inProgress'
+        'inProgress',
+        undefined,
+        code
       );
 
       if (!result.success) {
-        return res.status(400).json(result);
+        return res.status(result.error === HANDOVER_CODE_LOCKED_ERROR ? 429 : 400).json(result);
       }
 
       res.json(result);
@@ -391,7 +454,8 @@ export class BookingController {
       if (error.name === 'ZodError') {
         return res.status(400).json({
           success: false,
-          error: 'Invalid booking ID format',
+          error: 'Validation error',
+          details: error.issues,
         });
       }
 
@@ -403,7 +467,7 @@ export class BookingController {
   }
 
   /**
-   * Complete booking
+   * Complete booking; the borrower submits the lender's return code
    */
   async completeBooking(req: Request, res: Response) {
     try {
@@ -416,21 +480,108 @@ export class BookingController {
       }
 
       const { id: bookingId } = validateId(req.params);
+      const { code } = handoverCodeSchema.parse(req.body);
 
       const result = await this.bookingService.updateBookingStatus(
         bookingId,
         userId,
-        'completed'
+        'completed',
+        undefined,
+        code
       );
 
       if (!result.success) {
-        return res.status(400).json(result);
+        return res.status(result.error === HANDOVER_CODE_LOCKED_ERROR ? 429 : 400).json(result);
       }
 
       res.json(result);
     } catch (error: any) {
       console.error('Complete booking error:', error);
       
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Request new dates or an extension (borrower only)
+   */
+  async requestModification(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: bookingId } = validateId(req.params);
+      const validatedData = requestModificationSchema.parse(req.body) as RequestModificationDto;
+
+      const result = await this.bookingService.requestModification(bookingId, userId, validatedData);
+
+      if (!result.success) {
+        const status = result.error === 'Booking not found' ? 404
+          : result.error === BOOKING_CONFLICT_ERROR ? 409
+          : 400;
+        return res.status(status).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error('Request booking modification error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Get modification requests of a booking
+   */
+  async getModifications(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: bookingId } = validateId(req.params);
+
+      const result = await this.bookingService.getModifications(bookingId, userId);
+
+      if (!result.success) {
+        return res.status(result.error === 'Booking not found' ? 404 : 403).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get booking modifications error:', error);
+
       if (error.name === 'ZodError') {
         return res.status(400).json({
           success: false,
@@ -445,6 +596,138 @@ export class BookingController {
     }
   }
 
+  /**
+   * Accept or decline a modification request (lender only)
+   */
+  async respondToModification(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: bookingId } = validateId(req.params);
+      const { id: modificationId } = validateId({ id: req.params.modificationId });
+      const validatedData = respondModificationSchema.parse(req.body) as RespondModificationDto;
+
+      const result = await this.bookingService.respondToModification(
+        bookingId,
+        modificationId,
+        userId,
+        validatedData
+      );
+
+      if (!result.success) {
+        const status = result.error === 'Modification request not found' ? 404
+          : result.error === BOOKING_CONFLICT_ERROR ? 409
+          : 400;
+        return res.status(status).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Respond to booking modification error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * File a damage claim against the security deposit (lender only)
+   */
+  async fileDepositClaim(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: bookingId } = validateId(req.params);
+      const validatedData = fileDepositClaimSchema.parse(req.body) as FileDepositClaimDto;
+
+      const result = await this.securityDepositService.fileClaim(bookingId, userId, validatedData);
+
+      if (!result.success) {
+        return res.status(result.error === 'Booking not found' ? 404 : 400).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error('File deposit claim error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Accept or reject a deposit claim (borrower only)
+   */
+  async respondToDepositClaim(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: bookingId } = validateId(req.params);
+      const { accept } = respondDepositClaimSchema.parse(req.body);
+
+      const result = await this.securityDepositService.respondToClaim(bookingId, userId, accept);
+
+      if (!result.success) {
+        return res.status(result.error === 'Booking not found' ? 404 : 400).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Respond to deposit claim error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
   /**
    * Get all bookings (admin/management)
    */
@@ -0,0 +1,129 @@
+// Calendar feed controller for issuing, rotating and serving iCalendar feeds
+
+import { Request, Response } from 'express';
+import { CalendarFeedService } from '../services/CalendarFeedService.js';
+import { validateId } from '../validations/common.js';
+
+export class CalendarFeedController {
+  private calendarFeedService: CalendarFeedService;
+
+  constructor() {
+    this.calendarFeedService = new CalendarFeedService();
+  }
+
+  /**
+   * Get the feed URL of an item (owner only)
+   */
+  async getItemFeed(req: Request, res: Response) {
+    return this.handleItemFeed(req, res, false);
+  }
+
+  /**
+   * Replace the feed token of an item, invalidating the previous URL (owner only)
+   */
+  async rotateItemFeed(req: Request, res: Response) {
+    return this.handleItemFeed(req, res, true);
+  }
+
+  /**
+   * Get the feed URL of the current user's bookings
+   */
+  async getMyFeed(req: Request, res: Response) {
+    return this.handleUserFeed(req, res, false);
+  }
+
+  /**
+   * Replace the feed token of the current user's bookings, invalidating the previous URL
+   */
+  async rotateMyFeed(req: Request, res: Response) {
+    return this.handleUserFeed(req, res, true);
+  }
+
+  /**
+   * Serve a feed as text/calendar (public, authorised by the token in the URL)
+   */
+  async serveFeed(req: Request, res: Response) {
+    try {
+      const token = String(req.params.token || '');
+      const calendar = /^[a-f0-9]{48}$/.test(token) ? await this.calendarFeedService.renderFeed(token) : null;
+
+      if (!calendar) {
+        return res.status(404).json({
+          success: false,
+          error: 'Calendar feed not found',
+        });
+      }
+
+      res.set({
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="calendar.ics"',
+        'Cache-Control': 'private, max-age=300',
+      });
+      res.send(calendar);
+    } catch (error: any) {
+      console.error('Serve calendar feed error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  private async handleItemFeed(req: Request, res: Response, rotate: boolean) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: itemId } = validateId(req.params);
+
+      const result = await this.calendarFeedService.getItemFeed(itemId, userId, rotate);
+
+      if (!result.success) {
+        return res.status(result.error === 'Item not found' ? 404 : 403).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Item calendar feed error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid item ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  private async handleUserFeed(req: Request, res: Response, rotate: boolean) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const result = await this.calendarFeedService.getUserFeed(userId, rotate);
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('User calendar feed error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+}
@@ -0,0 +1,181 @@
+// Calendar import controller for syncing external calendars into item blackouts
+
+import { Request, Response } from 'express';
+import { CalendarImportService } from '../services/CalendarImportService.js';
+import { createCalendarImportSchema } from '../validations/item.js';
+import { validateId } from '../validations/common.js';
+import { CreateCalendarImportDto } from '../types/calendar.js';
+
+export class CalendarImportController {
+  private calendarImportService: CalendarImportService;
+
+  constructor() {
+    this.calendarImportService = new CalendarImportService();
+  }
+
+  /**
+   * List external calendars of an item (owner only)
+   */
+  async getImports(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: itemId } = validateId(req.params);
+
+      const result = await this.calendarImportService.getImports(itemId, userId);
+
+      if (!result.success) {
+        return res.status(result.error === 'Item not found' ? 404 : 403).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get calendar imports error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid item ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Register an external calendar URL or upload an .ics file (owner only)
+   */
+  async createImport(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: itemId } = validateId(req.params);
+      const validatedData = createCalendarImportSchema.parse(req.body ?? {}) as CreateCalendarImportDto;
+
+      const result = await this.calendarImportService.createImport(itemId, userId, validatedData, req.file);
+
+      if (!result.success) {
+        return res.status(this.errorStatus(result.error)).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error('Create calendar import error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Re-fetch an external calendar now (owner only)
+   */
+  async syncImport(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: itemId } = validateId(req.params);
+      const { id: importId } = validateId({ id: req.params.importId });
+
+      const result = await this.calendarImportService.syncImport(itemId, importId, userId);
+
+      if (!result.success) {
+        return res.status(this.errorStatus(result.error)).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Sync calendar import error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Remove an external calendar and the dates it blocked (owner only)
+   */
+  async deleteImport(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: itemId } = validateId(req.params);
+      const { id: importId } = validateId({ id: req.params.importId });
+
+      const result = await this.calendarImportService.deleteImport(itemId, importId, userId);
+
+      if (!result.success) {
+        return res.status(this.errorStatus(result.error)).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Delete calendar import error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  private errorStatus(error?: string): number {
+    if (error === 'Item not found' || error === 'Calendar import not found') return 404;
+    if (error?.includes('permission')) return 403;
+    return 400;
+  }
+}
@@ -0,0 +1,187 @@
+// Cart controller for booking several items in one checkout
+
+import { Request, Response } from 'express';
+import { CartService } from '../services/CartService.js';
+import { BOOKING_CONFLICT_ERROR } from '../services/BookingService.js';
+import { addCartItemSchema, checkoutCartSchema } from '../validations/cart.js';
+import { validateId } from '../validations/common.js';
+import { AddCartItemDto, CheckoutCartDto } from '../types/cart.js';
+
+export class CartController {
+  private cartService: CartService;
+
+  constructor() {
+    this.cartService = new CartService();
+  }
+
+  /**
+   * Get the caller's cart with current prices and the items that cannot be booked
+   */
+  async getCart(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const result = await this.cartService.getCart(userId);
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get cart error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Add an item and dates to the cart
+   */
+  async addItem(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const validatedData = addCartItemSchema.parse(req.body) as AddCartItemDto;
+
+      const result = await this.cartService.addItem(userId, validatedData);
+
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error('Add cart item error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Remove an item from the cart
+   */
+  async removeItem(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id } = validateId(req.params);
+
+      const result = await this.cartService.removeItem(userId, id);
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Remove cart item error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid cart item ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Empty the cart
+   */
+  async clearCart(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const result = await this.cartService.clearCart(userId);
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Clear cart error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Book the cart as one checkout; nothing is booked if any item cannot be
+   */
+  async checkout(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const validatedData = checkoutCartSchema.parse(req.body ?? {}) as CheckoutCartDto;
+
+      const result = await this.cartService.checkout(userId, validatedData);
+
+      if (!result.success) {
+        const statusCode = result.error === BOOKING_CONFLICT_ERROR ? 409
+          : result.error === 'Cart item not found' ? 404 : 400;
+        return res.status(statusCode).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error('Cart checkout error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+}
@@ -2,14 +2,18 @@
 
 import { Request, Response } from 'express';
 import { CategoryService } from '../services/CategoryService.js';
-import { createCategorySchema, updateCategorySchema } from '../validations/item.js';
+import { PricingService } from '../services/PricingService.js';
+import { createCategorySchema, updateCategorySchema, createPricingRuleSchema } from '../validations/item.js';
 import { validateId } from '../validations/common.js';
+import { CreatePricingRuleDto } from '../types/item.js';
 
 export class CategoryController {
   private categoryService: CategoryService;
+  private pricingService: PricingService;
 
   constructor() {
     this.categoryService = new CategoryService();
+    this.pricingService = new PricingService();
   }
 
   /**
@@ -241,4 +245,96 @@ export class CategoryController {
       });
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Get the default pricing rules of a category
+   */
+  async getPricingRules(req: Request, res: Response) {
+    try {
+      const { id: categoryId } = validateId(req.params);
+
+      const result = await this.pricingService.getCategoryRules(categoryId);
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get category pricing rules error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid category ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Add a default pricing rule to a category (admin only)
+   */
+  async createPricingRule(req: Request, res: Response) {
+    try {
+      const { id: categoryId } = validateId(req.params);
+      const validatedData = createPricingRuleSchema.parse(req.body) as CreatePricingRuleDto;
+
+      const result = await this.pricingService.createCategoryRule(categoryId, validatedData);
+
+      if (!result.success) {
+        return res.status(result.error === 'Category not found' ? 404 : 400).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error('Create category pricing rule error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Remove a default pricing rule from a category (admin only)
+   */
+  async deletePricingRule(req: Request, res: Response) {
+    try {
+      const { id: categoryId } = validateId(req.params);
+      const { id: ruleId } = validateId({ id: req.params.ruleId });
+
+      const result = await this.pricingService.deleteCategoryRule(categoryId, ruleId);
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Delete category pricing rule error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+}
@@ -0,0 +1,285 @@
+// Dispute controller for raising, arguing and resolving booking disputes
+
+import { Request, Response } from 'express';
+import { DisputeService, DISPUTE_EXISTS_ERROR } from '../services/DisputeService.js';
+import { SecurityDepositService } from '../services/SecurityDepositService.js';
+import {
+  raiseDisputeSchema,
+  addDisputeStatementSchema,
+  resolveDisputeSchema,
+  resolveDepositClaimSchema,
+} from '../validations/booking.js';
+import { validateId, validatePagination } from '../validations/common.js';
+import {
+  RaiseDisputeDto,
+  AddDisputeStatementDto,
+  ResolveDisputeDto,
+  ResolveDepositClaimDto,
+} from '../types/booking.js';
+import { DisputeStatus } from '../types/common.js';
+
+export class DisputeController {
+  private disputeService: DisputeService;
+  private securityDepositService: SecurityDepositService;
+
+  constructor() {
+    this.disputeService = new DisputeService();
+    this.securityDepositService = new SecurityDepositService();
+  }
+
+  /**
+   * Raise a dispute on an in-progress booking
+   */
+  async raiseDispute(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: bookingId } = validateId(req.params);
+      const validatedData = raiseDisputeSchema.parse(req.body) as RaiseDisputeDto;
+      const files = (req.files as Express.Multer.File[]) || [];
+
+      const result = await this.disputeService.raiseDispute(bookingId, userId, validatedData, files);
+
+      if (!result.success) {
+        const statusCode = result.error === 'Booking not found' ? 404
+          : result.error === DISPUTE_EXISTS_ERROR ? 409
+          : 400;
+        return res.status(statusCode).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error('Raise dispute error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Get the dispute of a booking with statements and evidence
+   */
+  async getDispute(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: bookingId } = validateId(req.params);
+
+      const result = await this.disputeService.getDisputeForBooking(bookingId, userId);
+
+      if (!result.success) {
+        return res.status(result.error === 'Dispute not found' ? 404 : 403).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get dispute error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid booking ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Add a statement with optional evidence to an open dispute
+   */
+  async addStatement(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: bookingId } = validateId(req.params);
+      const validatedData = addDisputeStatementSchema.parse(req.body) as AddDisputeStatementDto;
+      const files = (req.files as Express.Multer.File[]) || [];
+
+      const result = await this.disputeService.addStatement(bookingId, userId, validatedData, files);
+
+      if (!result.success) {
+        return res.status(result.error === 'Dispute not found' ? 404 : 400).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error('Add dispute statement error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * List disputes (admin only)
+   */
+  async listDisputes(req: Request, res: Response) {
+    try {
+      const { page, limit } = validatePagination(req.query);
+      const status = req.query.status as DisputeStatus | undefined;
+
+      if (status && !['open', 'resolved'].includes(status)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Status must be open or resolved',
+        });
+      }
+
+      const result = await this.disputeService.listDisputes(status, page, limit);
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('List disputes error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid parameters',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Resolve a dispute (admin only)
+   */
+  async resolveDispute(req: Request, res: Response) {
+    try {
+      const { id: disputeId } = validateId(req.params);
+      const validatedData = resolveDisputeSchema.parse(req.body) as ResolveDisputeDto;
+
+      const result = await this.disputeService.resolveDispute(disputeId, req.user.id, validatedData);
+
+      if (!result.success) {
+        return res.status(result.error === 'Dispute not found' ? 404 : 400).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Resolve dispute error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * List deposit claims rejected by the borrower (admin only)
+   */
+  async listContestedClaims(req: Request, res: Response) {
+    try {
+      const { page, limit } = validatePagination(req.query);
+
+      const result = await this.securityDepositService.listContestedClaims(page, limit);
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('List contested deposit claims error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid parameters',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Resolve a deposit claim rejected by the borrower (admin only)
+   */
+  async resolveDepositClaim(req: Request, res: Response) {
+    try {
+      const { id: depositId } = validateId(req.params);
+      const validatedData = resolveDepositClaimSchema.parse(req.body) as ResolveDepositClaimDto;
+
+      const result = await this.securityDepositService.resolveContestedClaim(depositId, validatedData);
+
+      if (!result.success) {
+        return res.status(result.error === 'Security deposit not found' ? 404 : 400).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Resolve deposit claim error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+}
@@ -0,0 +1,181 @@
+// Handover controller for pickup and return condition reports
+
+import { Request, Response } from 'express';
+import { HandoverService } from '../services/HandoverService.js';
+import { fileHandoverReportSchema } from '../validations/booking.js';
+import { handoverTypeSchema, validateId } from '../validations/common.js';
+import { FileHandoverReportDto } from '../types/booking.js';
+
+export class HandoverController {
+  private handoverService: HandoverService;
+
+  constructor() {
+    this.handoverService = new HandoverService();
+  }
+
+  /**
+   * File or revise the pickup/return report of a booking with optional photos; signs it for the caller
+   */
+  async fileReport(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: bookingId } = validateId(req.params);
+      const handoverType = handoverTypeSchema.parse(req.params.type);
+      const validatedData = fileHandoverReportSchema.parse(req.body) as FileHandoverReportDto;
+      const files = (req.files as Express.Multer.File[]) || [];
+
+      const result = await this.handoverService.fileReport(bookingId, userId, handoverType, validatedData, files);
+
+      if (!result.success) {
+        return res.status(result.error === 'Booking not found' ? 404 : 400).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error('File handover report error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Sign off the pickup/return report filed by the other party
+   */
+  async signReport(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: bookingId } = validateId(req.params);
+      const handoverType = handoverTypeSchema.parse(req.params.type);
+
+      const result = await this.handoverService.signReport(bookingId, userId, handoverType);
+
+      if (!result.success) {
+        const notFound = result.error === 'Booking not found' || result.error === 'Handover report not found';
+        return res.status(notFound ? 404 : 400).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Sign handover report error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Get the caller's handover code (PIN and QR payload) for the pickup or return
+   */
+  async getCode(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: bookingId } = validateId(req.params);
+      const handoverType = handoverTypeSchema.parse(req.params.type);
+
+      const result = await this.handoverService.getCode(bookingId, userId, handoverType);
+
+      if (!result.success) {
+        return res.status(result.error === 'Booking not found' ? 404 : 400).json(result);
+      }
+
+      res.set('Cache-Control', 'no-store');
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get handover code error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Get the handover reports of a booking with their photos
+   */
+  async getReports(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: bookingId } = validateId(req.params);
+
+      const result = await this.handoverService.getReportsForBooking(bookingId, userId);
+
+      if (!result.success) {
+        return res.status(result.error === 'Booking not found' ? 404 : 403).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get handover reports error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid booking ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+}
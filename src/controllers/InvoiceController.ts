@@ -0,0 +1,72 @@
+// Invoice controller serving booking invoices as JSON or PDF
+
+import { Request, Response } from 'express';
+import { InvoiceService } from '../services/InvoiceService.js';
+import { validateId } from '../validations/common.js';
+
+export class InvoiceController {
+  private invoiceService: InvoiceService;
+
+  constructor() {
+    this.invoiceService = new InvoiceService();
+  }
+
+  /**
+   * Get the invoice of a completed booking (lender or borrower); ?format=pdf downloads it as a PDF
+   */
+  async getBookingInvoice(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: bookingId } = validateId(req.params);
+      const format = req.query.format ?? 'json';
+
+      if (format !== 'json' && format !== 'pdf') {
+        return res.status(400).json({
+          success: false,
+          error: 'Format must be json or pdf',
+        });
+      }
+
+      const result = await this.invoiceService.getBookingInvoice(bookingId, userId);
+
+      if (!result.success || !result.data) {
+        const statusCode = result.error === 'Booking not found' ? 404
+          : result.error === 'You are not authorized to view this invoice' ? 403 : 400;
+        return res.status(statusCode).json(result);
+      }
+
+      if (format === 'pdf') {
+        const filename = result.data.invoiceNumber.replace(/\//g, '-');
+        res.set({
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${filename}.pdf"`,
+          'Cache-Control': 'private, no-cache',
+        });
+        return res.send(this.invoiceService.renderPdf(result.data));
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get booking invoice error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid booking ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+}
@@ -1,20 +1,35 @@
 // Item controller with CRUD operations and business logic
 
 import { Request, Response } from 'express';
+import { format } from 'date-fns';
 import { ItemService } from '../services/ItemService.js';
+import { ItemAvailabilityService } from '../services/ItemAvailabilityService.js';
+import { PricingService } from '../services/PricingService.js';
+import { QuoteService } from '../services/QuoteService.js';
+import { BOOKING_CONFLICT_ERROR } from '../services/BookingService.js';
 import {
   updateItemSchema,
   validateSearchParams,
-  createItemWithAddressSchema
+  createItemWithAddressSchema,
+  createBlackoutSchema,
+  calendarMonthSchema,
+  createPricingRuleSchema
 } from '../validations/item.js';
-import { validateId, validatePagination } from '../validations/common.js';
-import { UpdateItemDto, CreateItemDtoWithAddress } from '../types/item.js';
+import { checkAvailabilitySchema } from '../validations/booking.js';
+import { validateId, validatePagination, deliveryModeSchema } from '../validations/common.js';
+import { UpdateItemDto, CreateItemDtoWithAddress, CreateBlackoutDto, CreatePricingRuleDto } from '../types/item.js';
 
 export class ItemController {
   private itemService: ItemService;
+  private itemAvailabilityService: ItemAvailabilityService;
+  private pricingService: PricingService;
+  private quoteService: QuoteService;
 
   constructor() {
     this.itemService = new ItemService();
+    this.itemAvailabilityService = new ItemAvailabilityService();
+    this.pricingService = new PricingService();
+    this.quoteService = new QuoteService();
   }
 
   /**
@@ -239,6 +254,305 @@ export class ItemController {
     }
   }
 
+  /**
+   * Quote the full price of renting an item; the quote id can be passed when creating the booking
+   */
+  async getQuote(req: Request, res: Response) {
+    try {
+      const { id: itemId } = validateId(req.params);
+      const { startDate, endDate } = checkAvailabilitySchema.parse(req.query);
+      const deliveryMode = deliveryModeSchema.optional().parse(req.query.deliveryMode);
+
+      const result = await this.quoteService.createQuote(
+        itemId,
+        { startDate, endDate, ...(deliveryMode && { deliveryMode }) },
+        req.user?.id
+      );
+
+      if (!result.success) {
+        const statusCode = result.error === 'Item not found or not available' ? 404
+          : result.error === BOOKING_CONFLICT_ERROR ? 409 : 400;
+        return res.status(statusCode).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get price quote error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid parameters',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * List the pricing rules of an item and the category defaults
+   */
+  async getPricingRules(req: Request, res: Response) {
+    try {
+      const { id: itemId } = validateId(req.params);
+
+      const result = await this.pricingService.getItemRules(itemId);
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get pricing rules error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid item ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Add a pricing rule to an item (owner only)
+   */
+  async createPricingRule(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: itemId } = validateId(req.params);
+      const validatedData = createPricingRuleSchema.parse(req.body) as CreatePricingRuleDto;
+
+      const result = await this.pricingService.createItemRule(itemId, userId, validatedData);
+
+      if (!result.success) {
+        let status = 400;
+        if (result.error === 'Item not found') status = 404;
+        else if (result.error?.includes('permission')) status = 403;
+        return res.status(status).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error('Create pricing rule error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Remove a pricing rule from an item (owner only)
+   */
+  async deletePricingRule(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: itemId } = validateId(req.params);
+      const { id: ruleId } = validateId({ id: req.params.ruleId });
+
+      const result = await this.pricingService.deleteItemRule(itemId, ruleId, userId);
+
+      if (!result.success) {
+        return res.status(result.error?.includes('not found') ? 404 : 403).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Delete pricing rule error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Get the per-day availability calendar of an item for a month
+   */
+  async getCalendar(req: Request, res: Response) {
+    try {
+      const { id: itemId } = validateId(req.params);
+      const month = calendarMonthSchema.parse(req.query.month ?? format(new Date(), 'yyyy-MM'));
+
+      const result = await this.itemAvailabilityService.getCalendar(itemId, month);
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get item calendar error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid parameters',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * List blackout dates of an item
+   */
+  async getBlackouts(req: Request, res: Response) {
+    try {
+      const { id: itemId } = validateId(req.params);
+
+      const result = await this.itemAvailabilityService.getBlackouts(itemId);
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get item blackouts error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid item ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Block dates on an item (owner only)
+   */
+  async createBlackout(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: itemId } = validateId(req.params);
+      const validatedData = createBlackoutSchema.parse(req.body) as CreateBlackoutDto;
+
+      const result = await this.itemAvailabilityService.createBlackout(itemId, userId, validatedData);
+
+      if (!result.success) {
+        return res.status(result.error === 'Item not found' ? 404 : 403).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error('Create item blackout error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Remove a blackout from an item (owner only)
+   */
+  async deleteBlackout(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: itemId } = validateId(req.params);
+      const { id: blackoutId } = validateId({ id: req.params.blackoutId });
+
+      const result = await this.itemAvailabilityService.deleteBlackout(itemId, blackoutId, userId);
+
+      if (!result.success) {
+        let status = 400;
+        if (result.error === 'Item not found' || result.error === 'Blackout not found') status = 404;
+        else if (result.error?.includes('permission')) status = 403;
+        return res.status(status).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Delete item blackout error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
   /**
    * Add item to favorites
    */
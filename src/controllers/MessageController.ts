@@ -0,0 +1,288 @@
+// Message controller for booking and enquiry threads between lenders and borrowers
+
+import { Request, Response } from 'express';
+import { MessageService } from '../services/MessageService.js';
+import { messageListSchema, sendEnquirySchema, sendMessageSchema } from '../validations/message.js';
+import { validateId } from '../validations/common.js';
+import { SendEnquiryDto, SendMessageDto } from '../types/message.js';
+import { ApiResponse } from '../types/common.js';
+
+export class MessageController {
+  private messageService: MessageService;
+
+  constructor() {
+    this.messageService = new MessageService();
+  }
+
+  /**
+   * Get the message thread of a booking
+   */
+  async getBookingThread(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: bookingId } = validateId(req.params);
+
+      const result = await this.messageService.getBookingThread(bookingId, userId);
+
+      if (!result.success) {
+        return res.status(MessageController.errorStatus(result)).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get booking thread error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid booking ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Ask an item's lender a question before booking, with optional image attachments
+   */
+  async sendEnquiry(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { itemId, ...messageData } = sendEnquirySchema.parse(req.body) as SendEnquiryDto;
+      const files = (req.files as Express.Multer.File[]) || [];
+
+      const result = await this.messageService.sendEnquiry(itemId, userId, messageData, files);
+
+      if (!result.success) {
+        return res.status(MessageController.errorStatus(result)).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error('Send enquiry error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * List the caller's message threads with unread counts
+   */
+  async getThreads(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const result = await this.messageService.getUserThreads(userId);
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get message threads error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Get a message thread
+   */
+  async getThread(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id } = validateId(req.params);
+
+      const result = await this.messageService.getThread(id, userId);
+
+      if (!result.success) {
+        return res.status(MessageController.errorStatus(result)).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get message thread error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid thread ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Get the messages of a thread, newest first
+   */
+  async getMessages(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id } = validateId(req.params);
+      const { before, limit } = messageListSchema.parse(req.query);
+
+      const result = await this.messageService.getMessages(id, userId, before, limit);
+
+      if (!result.success) {
+        return res.status(MessageController.errorStatus(result)).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get messages error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Send a message with optional image attachments to a thread
+   */
+  async sendMessage(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id } = validateId(req.params);
+      const validatedData = sendMessageSchema.parse(req.body) as SendMessageDto;
+      const files = (req.files as Express.Multer.File[]) || [];
+
+      const result = await this.messageService.sendMessage(id, userId, validatedData, files);
+
+      if (!result.success) {
+        return res.status(MessageController.errorStatus(result)).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error('Send message error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Mark a thread as read by the caller
+   */
+  async markRead(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id } = validateId(req.params);
+
+      const result = await this.messageService.markRead(id, userId);
+
+      if (!result.success) {
+        return res.status(MessageController.errorStatus(result)).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Mark messages read error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid thread ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  private static errorStatus(result: ApiResponse<any>): number {
+    if (result.error?.endsWith('not found')) return 404;
+    if (result.error?.includes('not authorized') || result.error?.startsWith('Only the')) return 403;
+    return 400;
+  }
+}
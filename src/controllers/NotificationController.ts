@@ -0,0 +1,202 @@
+// Notification controller for the in-app notification inbox
+
+import { Request, Response } from 'express';
+import { NotificationService } from '../services/NotificationService.js';
+import { updateNotificationPreferencesSchema } from '../validations/notification.js';
+import { validateId, validatePagination } from '../validations/common.js';
+import { UpdateNotificationPreferencesDto } from '../types/notification.js';
+
+export class NotificationController {
+  private notificationService: NotificationService;
+
+  constructor() {
+    this.notificationService = new NotificationService();
+  }
+
+  /**
+   * Get the caller's notifications, newest first (?unread=true for unread ones only)
+   */
+  async getNotifications(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { page, limit } = validatePagination(req.query);
+      const unreadOnly = req.query.unread === 'true';
+
+      const result = await this.notificationService.getUserNotifications(userId, { unreadOnly, page, limit });
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get notifications error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid pagination parameters',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Get the number of unread notifications
+   */
+  async getUnreadCount(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const result = await this.notificationService.getUnreadCount(userId);
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get unread notification count error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Mark a notification as read
+   */
+  async markRead(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id } = validateId(req.params);
+
+      const result = await this.notificationService.markRead(id, userId);
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Mark notification read error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid notification ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Mark all notifications as read
+   */
+  async markAllRead(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const result = await this.notificationService.markAllRead(userId);
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Mark all notifications read error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Get the caller's notification preferences
+   */
+  async getPreferences(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const result = await this.notificationService.getPreferences(userId);
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get notification preferences error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Turn notification channels off or mute optional notification types (reminders, messages)
+   */
+  async updatePreferences(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const validatedData = updateNotificationPreferencesSchema.parse(req.body) as UpdateNotificationPreferencesDto;
+
+      const result = await this.notificationService.updatePreferences(userId, validatedData);
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Update notification preferences error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+}
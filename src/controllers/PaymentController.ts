@@ -0,0 +1,156 @@
+// Payment controller with gateway-backed payment operations
+
+import { Request, Response } from 'express';
+import { PaymentService } from '../services/PaymentService.js';
+import { initiatePaymentSchema } from '../validations/booking.js';
+import { validateId, validatePagination } from '../validations/common.js';
+import { InitiatePaymentDto } from '../types/booking.js';
+
+export class PaymentController {
+  private paymentService: PaymentService;
+
+  constructor() {
+    this.paymentService = new PaymentService();
+  }
+
+  /**
+   * Initiate payment for a booking, or for the bookings of a cart checkout
+   */
+  async initiatePayment(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const validatedData = initiatePaymentSchema.parse(req.body) as InitiatePaymentDto;
+
+      const result = await this.paymentService.initiatePayment(userId, validatedData);
+
+      if (!result.success) {
+        const notFound = result.error === 'Booking not found' || result.error === 'Checkout not found';
+        return res.status(notFound ? 404 : 400).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error('Initiate payment error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Receive a payment gateway callback
+   */
+  async handleGatewayCallback(req: Request, res: Response) {
+    try {
+      const gateway = req.params.gateway as string;
+      const signature = req.get('x-gateway-signature') || req.body?.signature;
+      const payload = req.body?.payload ?? req.body;
+
+      const result = await this.paymentService.handleGatewayCallback(gateway, payload, signature);
+
+      if (!result.success) {
+        return res.status(result.error === 'Payment not found' ? 404 : 400).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Payment callback error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Get payment by ID
+   */
+  async getPayment(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { id: paymentId } = validateId(req.params);
+
+      const result = await this.paymentService.getPaymentForUser(paymentId, userId);
+
+      if (!result.success) {
+        return res.status(result.error === 'Payment not found' ? 404 : 403).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get payment error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid payment ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Get current user's payments
+   */
+  async getUserPayments(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const { page, limit } = validatePagination(req.query);
+
+      const result = await this.paymentService.getUserPayments(userId, page, limit);
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get user payments error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid pagination parameters',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+}
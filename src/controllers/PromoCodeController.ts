@@ -0,0 +1,151 @@
+// Promo code controller for admin management of coupon campaigns
+
+import { Request, Response } from 'express';
+import { PromoCodeService } from '../services/PromoCodeService.js';
+import { createPromoCodeSchema, updatePromoCodeSchema } from '../validations/promo.js';
+import { validateId, validatePagination } from '../validations/common.js';
+import { CreatePromoCodeDto, UpdatePromoCodeDto } from '../types/promo.js';
+
+export class PromoCodeController {
+  private promoCodeService: PromoCodeService;
+
+  constructor() {
+    this.promoCodeService = new PromoCodeService();
+  }
+
+  /**
+   * List promo codes (admin only)
+   */
+  async listPromoCodes(req: Request, res: Response) {
+    try {
+      const { page, limit } = validatePagination(req.query);
+      const active = req.query.active;
+
+      if (active !== undefined && active !== 'true' && active !== 'false') {
+        return res.status(400).json({
+          success: false,
+          error: 'Active must be true or false',
+        });
+      }
+
+      const result = await this.promoCodeService.listPromoCodes(
+        active === undefined ? undefined : active === 'true',
+        page,
+        limit
+      );
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('List promo codes error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid parameters',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Get a promo code with its usage count (admin only)
+   */
+  async getPromoCode(req: Request, res: Response) {
+    try {
+      const { id: promoCodeId } = validateId(req.params);
+
+      const result = await this.promoCodeService.getPromoCode(promoCodeId);
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get promo code error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid promo code ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Create a promo code (admin only)
+   */
+  async createPromoCode(req: Request, res: Response) {
+    try {
+      const validatedData = createPromoCodeSchema.parse(req.body) as CreatePromoCodeDto;
+
+      const result = await this.promoCodeService.createPromoCode(req.user.id, validatedData);
+
+      if (!result.success) {
+        return res.status(409).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error('Create promo code error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Update or deactivate a promo code (admin only)
+   */
+  async updatePromoCode(req: Request, res: Response) {
+    try {
+      const { id: promoCodeId } = validateId(req.params);
+      const validatedData = updatePromoCodeSchema.parse(req.body) as UpdatePromoCodeDto;
+
+      const result = await this.promoCodeService.updatePromoCode(promoCodeId, validatedData);
+
+      if (!result.success) {
+        return res.status(result.error === 'Promo code not found' ? 404 : 400).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Update promo code error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+}
@@ -0,0 +1,89 @@
+// Realtime controller streaming booking, message and notification events over Server-Sent Events
+
+import { Request, Response } from 'express';
+import { RealtimeService } from '../services/RealtimeService.js';
+import { RealtimeEvent } from '../types/realtime.js';
+
+export class RealtimeController {
+  private static readonly HEARTBEAT_MS = 25000; // below the idle timeout of common proxies
+  private static readonly RETRY_MS = 5000;
+
+  private realtimeService: RealtimeService;
+
+  constructor() {
+    this.realtimeService = new RealtimeService();
+  }
+
+  /**
+   * Stream the caller's events; reconnecting clients send Last-Event-ID (or ?lastEventId=) to receive what they
+   * missed, or a resync event when that is no longer possible
+   */
+  async stream(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+      }
+
+      const rawLastEventId = req.get('Last-Event-ID') ?? req.query.lastEventId;
+      const lastEventId = rawLastEventId === undefined ? undefined : Number(rawLastEventId);
+
+      if (lastEventId !== undefined && !Number.isSafeInteger(lastEventId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid last event ID',
+        });
+      }
+
+      const send = (event: RealtimeEvent) => {
+        res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify({ ...event.data, createdAt: event.createdAt })}\n\n`);
+      };
+
+      const subscription = this.realtimeService.subscribe(userId, send, lastEventId);
+      if (!subscription) {
+        return res.status(429).json({
+          success: false,
+          error: 'Too many open event streams',
+        });
+      }
+
+      res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      res.flushHeaders();
+
+      res.write(`retry: ${RealtimeController.RETRY_MS}\n\n`);
+
+      if (subscription.replay) {
+        subscription.replay.forEach(send);
+      } else {
+        // The client should refetch its bookings, threads and notifications
+        res.write(`event: resync\ndata: {}\n\n`);
+      }
+
+      res.write(`event: ready\ndata: {}\n\n`);
+
+      const heartbeat = setInterval(() => res.write(': ping\n\n'), RealtimeController.HEARTBEAT_MS);
+
+      req.on('close', () => {
+        clearInterval(heartbeat);
+        subscription.unsubscribe();
+      });
+    } catch (error: any) {
+      console.error('Event stream error:', error);
+
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error',
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,244 @@
+// Webhook controller for admin management of outgoing webhook subscriptions and their delivery logs
+
+import { Request, Response } from 'express';
+import { WebhookService } from '../services/WebhookService.js';
+import {
+  createWebhookSubscriptionSchema,
+  updateWebhookSubscriptionSchema,
+  webhookDeliveryStatusSchema,
+} from '../validations/webhook.js';
+import { validateId, validatePagination } from '../validations/common.js';
+import { CreateWebhookSubscriptionDto, UpdateWebhookSubscriptionDto } from '../types/webhook.js';
+
+export class WebhookController {
+  private webhookService: WebhookService;
+
+  constructor() {
+    this.webhookService = new WebhookService();
+  }
+
+  /**
+   * List webhook subscriptions (admin only)
+   */
+  async listSubscriptions(req: Request, res: Response) {
+    try {
+      const { page, limit } = validatePagination(req.query);
+
+      const result = await this.webhookService.listSubscriptions(page, limit);
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('List webhook subscriptions error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid parameters',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Get a webhook subscription (admin only)
+   */
+  async getSubscription(req: Request, res: Response) {
+    try {
+      const { id: subscriptionId } = validateId(req.params);
+
+      const result = await this.webhookService.getSubscription(subscriptionId);
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get webhook subscription error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid webhook subscription ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Register a webhook endpoint and return its signing secret (admin only)
+   */
+  async createSubscription(req: Request, res: Response) {
+    try {
+      const validatedData = createWebhookSubscriptionSchema.parse(req.body) as CreateWebhookSubscriptionDto;
+
+      const result = await this.webhookService.createSubscription(req.user.id, validatedData);
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error('Create webhook subscription error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Update, deactivate or rotate the secret of a webhook subscription (admin only)
+   */
+  async updateSubscription(req: Request, res: Response) {
+    try {
+      const { id: subscriptionId } = validateId(req.params);
+      const validatedData = updateWebhookSubscriptionSchema.parse(req.body) as UpdateWebhookSubscriptionDto;
+
+      const result = await this.webhookService.updateSubscription(subscriptionId, validatedData);
+
+      if (!result.success) {
+        return res.status(result.error === 'Webhook subscription not found' ? 404 : 400).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Update webhook subscription error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Delete a webhook subscription (admin only)
+   */
+  async deleteSubscription(req: Request, res: Response) {
+    try {
+      const { id: subscriptionId } = validateId(req.params);
+
+      const result = await this.webhookService.deleteSubscription(subscriptionId);
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.json({
+        success: true,
+        message: 'Webhook subscription deleted',
+      });
+    } catch (error: any) {
+      console.error('Delete webhook subscription error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid webhook subscription ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Get the delivery log of a webhook subscription (admin only)
+   */
+  async getDeliveries(req: Request, res: Response) {
+    try {
+      const { id: subscriptionId } = validateId(req.params);
+      const { page, limit } = validatePagination(req.query);
+      const deliveryStatus = webhookDeliveryStatusSchema.optional().parse(req.query.status);
+
+      const found = await this.webhookService.getSubscription(subscriptionId);
+      if (!found.success) {
+        return res.status(404).json(found);
+      }
+
+      const result = await this.webhookService.getDeliveries(subscriptionId, {
+        ...(deliveryStatus && { deliveryStatus }),
+        page,
+        limit,
+      });
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Get webhook deliveries error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid parameters',
+          details: error.issues,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Send a logged event to its subscription again (admin only)
+   */
+  async redeliver(req: Request, res: Response) {
+    try {
+      const { id: subscriptionId } = validateId(req.params);
+      const { id: deliveryId } = validateId({ id: req.params.deliveryId });
+
+      const result = await this.webhookService.redeliver(subscriptionId, deliveryId);
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error('Redeliver webhook error:', error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid ID format',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  }
+}
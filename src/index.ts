@@ -11,6 +11,15 @@ import categoryRoutes from './routes/categories.js';
 import cityRoutes from './routes/cities.js';
 import fileRoutes from './routes/files.js';
 import addressRoutes from './routes/addresses.js';
+import paymentRoutes from './routes/payments.js';
+import disputeRoutes from './routes/disputes.js';
+import calendarFeedRoutes from './routes/calendarFeeds.js';
+import promoCodeRoutes from './routes/promoCodes.js';
+import cartRoutes from './routes/cart.js';
+import messageRoutes from './routes/messages.js';
+import notificationRoutes from './routes/notifications.js';
+import webhookRoutes from './routes/webhooks.js';
+import eventRoutes from './routes/events.js';
 
 // Import middleware
 import {
@@ -29,10 +38,17 @@ import {
   validateContentType,
 } from './middleware/security.js';
 
+// Import background jobs
+import { startScheduledJobs } from './jobs/index.js';
+import { assertPaymentGatewayConfig } from './services/paymentGateways/index.js';
+
 const environment = process.env.NODE_ENV || 'development';
 console.log(`Loading environment: ${environment}`);
 dotenv.config({ path: `.env.${environment}` });
 
+// Refuse to start without an explicit, allowed payment gateway
+assertPaymentGatewayConfig();
+
 const app = express();
 const PORT = process.env.PORT || 5000;
 
@@ -89,6 +105,15 @@ app.use('/api/categories', apiRateLimit, categoryRoutes);
 app.use('/api/cities', apiRateLimit, cityRoutes);
 app.use('/api/files', apiRateLimit, fileRoutes);
 app.use('/api/addresses', addressRoutes);
+app.use('/api/payments', apiRateLimit, paymentRoutes);
+app.use('/api/disputes', apiRateLimit, disputeRoutes);
+app.use('/api/calendar-feeds', apiRateLimit, calendarFeedRoutes);
+app.use('/api/promo-codes', apiRateLimit, promoCodeRoutes);
+app.use('/api/cart', apiRateLimit, cartRoutes);
+app.use('/api/messages', apiRateLimit, messageRoutes);
+app.use('/api/notifications', apiRateLimit, notificationRoutes);
+app.use('/api/webhooks', apiRateLimit, webhookRoutes);
+app.use('/api/events', apiRateLimit, eventRoutes);
 
 // 404 handler - must be after all routes
 app.use((req: Request, res: Response) => {
@@ -128,6 +153,8 @@ const server = app.listen(PORT, () => {
   console.log(`📊 Environment: ${env}`);
   console.log(`🌐 Health check: ${baseUrl}/health`);
   console.log(`📖 API Base URL: ${baseUrl}/api`);
+
+  startScheduledJobs();
 });
 
 // Handle server errors
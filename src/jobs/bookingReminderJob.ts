@@ -0,0 +1,24 @@
+import cron from 'node-cron';
+import { ReminderService } from '../services/ReminderService.js';
+
+// Every 15 minutes by default
+const DEFAULT_SCHEDULE = '*/15 * * * *';
+
+/**
+ * Send pickup, return and rating reminders that are due
+ */
+export const startBookingReminderJob = () => {
+  const reminderService = new ReminderService();
+  const schedule = process.env.BOOKING_REMINDER_CRON || DEFAULT_SCHEDULE;
+
+  return cron.schedule(schedule, async () => {
+    try {
+      const sent = await reminderService.sendDueReminders();
+      if (sent > 0) {
+        console.log(`🔔 Sent reminders for ${sent} booking(s)`);
+      }
+    } catch (error) {
+      console.error('Booking reminder job failed:', error);
+    }
+  }, { name: 'booking-reminder', noOverlap: true });
+};
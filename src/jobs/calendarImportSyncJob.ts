@@ -0,0 +1,24 @@
+import cron from 'node-cron';
+import { CalendarImportService } from '../services/CalendarImportService.js';
+
+// Every hour at minute 30 by default
+const DEFAULT_SCHEDULE = '30 * * * *';
+
+/**
+ * Refresh external calendars so dates booked on other platforms stay blocked
+ */
+export const startCalendarImportSyncJob = () => {
+  const calendarImportService = new CalendarImportService();
+  const schedule = process.env.CALENDAR_IMPORT_SYNC_CRON || DEFAULT_SCHEDULE;
+
+  return cron.schedule(schedule, async () => {
+    try {
+      const { synced, failed } = await calendarImportService.syncAllImports();
+      if (synced + failed > 0) {
+        console.log(`📅 Synced ${synced} external calendar(s), ${failed} failed`);
+      }
+    } catch (error) {
+      console.error('Calendar import sync job failed:', error);
+    }
+  }, { name: 'calendar-import-sync', noOverlap: true });
+};
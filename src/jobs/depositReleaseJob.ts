@@ -0,0 +1,24 @@
+import cron from 'node-cron';
+import { SecurityDepositService } from '../services/SecurityDepositService.js';
+
+// Every hour by default
+const DEFAULT_SCHEDULE = '0 * * * *';
+
+/**
+ * Release held deposits once their claim window has passed
+ */
+export const startDepositReleaseJob = () => {
+  const securityDepositService = new SecurityDepositService();
+  const schedule = process.env.DEPOSIT_RELEASE_CRON || DEFAULT_SCHEDULE;
+
+  return cron.schedule(schedule, async () => {
+    try {
+      const released = await securityDepositService.releaseDueDeposits();
+      if (released > 0) {
+        console.log(`💰 Released ${released} security deposit(s)`);
+      }
+    } catch (error) {
+      console.error('Deposit release job failed:', error);
+    }
+  }, { name: 'deposit-release', noOverlap: true });
+};
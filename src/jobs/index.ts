@@ -0,0 +1,25 @@
+import { startDepositReleaseJob } from './depositReleaseJob.js';
+import { startPendingBookingExpiryJob } from './pendingBookingExpiryJob.js';
+import { startCalendarImportSyncJob } from './calendarImportSyncJob.js';
+import { startLateReturnJob } from './lateReturnJob.js';
+import { startWebhookDeliveryJob } from './webhookDeliveryJob.js';
+import { startBookingReminderJob } from './bookingReminderJob.js';
+
+/**
+ * Start all background jobs, set DISABLE_SCHEDULED_JOBS=true to skip (e.g. one-off scripts)
+ */
+export const startScheduledJobs = () => {
+  if (process.env.DISABLE_SCHEDULED_JOBS === 'true') {
+    console.log('⏸️  Scheduled jobs disabled');
+    return;
+  }
+
+  startDepositReleaseJob();
+  startPendingBookingExpiryJob();
+  startCalendarImportSyncJob();
+  startLateReturnJob();
+  startWebhookDeliveryJob();
+  startBookingReminderJob();
+
+  console.log('⏰ Scheduled jobs started');
+};
@@ -0,0 +1,24 @@
+import cron from 'node-cron';
+import { BookingService } from '../services/BookingService.js';
+
+// Every hour by default
+const DEFAULT_SCHEDULE = '0 * * * *';
+
+/**
+ * Flag in-progress bookings past their end date and accrue their late fees
+ */
+export const startLateReturnJob = () => {
+  const bookingService = new BookingService();
+  const schedule = process.env.LATE_RETURN_CRON || DEFAULT_SCHEDULE;
+
+  return cron.schedule(schedule, async () => {
+    try {
+      const accrued = await bookingService.accrueLateFees();
+      if (accrued > 0) {
+        console.log(`⏰ Updated late fees on ${accrued} overdue booking(s)`);
+      }
+    } catch (error) {
+      console.error('Late return job failed:', error);
+    }
+  }, { name: 'late-return', noOverlap: true });
+};
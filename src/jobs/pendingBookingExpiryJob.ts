@@ -0,0 +1,24 @@
+import cron from 'node-cron';
+import { BookingService } from '../services/BookingService.js';
+
+// Every 15 minutes by default
+const DEFAULT_SCHEDULE = '*/15 * * * *';
+
+/**
+ * Cancel pending booking requests whose response window or start date has passed
+ */
+export const startPendingBookingExpiryJob = () => {
+  const bookingService = new BookingService();
+  const schedule = process.env.BOOKING_EXPIRY_CRON || DEFAULT_SCHEDULE;
+
+  return cron.schedule(schedule, async () => {
+    try {
+      const expired = await bookingService.expireStalePendingBookings();
+      if (expired > 0) {
+        console.log(`⌛ Expired ${expired} pending booking request(s)`);
+      }
+    } catch (error) {
+      console.error('Pending booking expiry job failed:', error);
+    }
+  }, { name: 'pending-booking-expiry', noOverlap: true });
+};
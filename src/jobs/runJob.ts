@@ -0,0 +1,36 @@
+import { BookingService } from '../services/BookingService.js';
+import { ReminderService } from '../services/ReminderService.js';
+import { SecurityDepositService } from '../services/SecurityDepositService.js';
+import { WebhookService } from '../services/WebhookService.js';
+
+// One pass of each scheduled job, keyed by its cron task name, yielding how many records it handled
+const jobs: Record<string, () => Promise<number>> = {
+  'pending-booking-expiry': () => new BookingService().expireStalePendingBookings(),
+  'late-return': () => new BookingService().accrueLateFees(),
+  'deposit-release': () => new SecurityDepositService().releaseDueDeposits(),
+  'booking-reminder': () => new ReminderService().sendDueReminders(),
+  'webhook-delivery': () => new WebhookService().processDueDeliveries(),
+};
+
+/**
+ * Run a scheduled job once without waiting for its schedule (e.g. `tsx src/jobs/runJob.ts late-return`)
+ */
+const runJob = async (name: string | undefined) => {
+  const job = name ? jobs[name] : undefined;
+
+  if (!job) {
+    console.error(`Unknown job "${name ?? ''}", expected one of: ${Object.keys(jobs).join(', ')}`);
+    process.exit(1);
+  }
+
+  try {
+    const handled = await job();
+    console.log(JSON.stringify({ job: name, handled }));
+    process.exit(0);
+  } catch (error) {
+    console.error(`Job ${name} failed:`, error);
+    process.exit(1);
+  }
+};
+
+runJob(process.argv[2]);
@@ -0,0 +1,24 @@
+import cron from 'node-cron';
+import { WebhookService } from '../services/WebhookService.js';
+
+// Every minute by default
+const DEFAULT_SCHEDULE = '* * * * *';
+
+/**
+ * Retry webhook deliveries whose backoff has elapsed
+ */
+export const startWebhookDeliveryJob = () => {
+  const webhookService = new WebhookService();
+  const schedule = process.env.WEBHOOK_DELIVERY_CRON || DEFAULT_SCHEDULE;
+
+  return cron.schedule(schedule, async () => {
+    try {
+      const attempted = await webhookService.processDueDeliveries();
+      if (attempted > 0) {
+        console.log(`🪝 Retried ${attempted} webhook delivery(ies)`);
+      }
+    } catch (error) {
+      console.error('Webhook delivery job failed:', error);
+    }
+  }, { name: 'webhook-delivery', noOverlap: true });
+};
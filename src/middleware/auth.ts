@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { supabaseAdmin } from '../lib/supabase.js';
+import { UserService } from '../services/UserService.js';
 
 // Extend Request interface to include user
 declare global {
@@ -53,6 +54,17 @@ export const authenticateToken = async (req: Request, res: Response, next: NextF
   }
 };
 
+// EventSource cannot send headers, so event streams also take the token as ?access_token= (redacted from logs)
+export const authenticateStreamToken = async (req: Request, res: Response, next: NextFunction) => {
+  const queryToken = req.query.access_token;
+
+  if (!req.headers.authorization && typeof queryToken === 'string' && queryToken) {
+    req.headers.authorization = `Bearer ${queryToken}`;
+  }
+
+  return authenticateToken(req, res, next);
+};
+
 export const optionalAuth = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const authHeader = req.headers.authorization;
@@ -71,4 +83,24 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
     // For optional auth, we don't return errors, just continue
     next();
   }
-};
\ No newline at end of file
+};
+
+// Must run after authenticateToken
+export const requireAdmin = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id || !(await UserService.isAdmin(req.user.id))) {
+      return res.status(403).json({
+        success: false,
+        error: 'Admin access required',
+      });
+    }
+
+    next();
+  } catch (error) {
+    console.error('Admin middleware error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+};
@@ -1,6 +1,6 @@
 // Security middleware for the P2P platform
 
-import rateLimit from 'express-rate-limit';
+import rateLimit, { Options } from 'express-rate-limit';
 import helmet from 'helmet';
 import compression from 'compression';
 import morgan from 'morgan';
@@ -8,7 +8,7 @@ import { Request, Response, NextFunction } from 'express';
 import { getFrontendUrl } from '../utils/environment.js';
 
 // Rate limiting configurations
-export const createRateLimit = (windowMs: number, max: number, message?: string) => {
+export const createRateLimit = (windowMs: number, max: number, message?: string, options: Partial<Options> = {}) => {
   return rateLimit({
     windowMs,
     max,
@@ -18,6 +18,7 @@ export const createRateLimit = (windowMs: number, max: number, message?: string)
     },
     standardHeaders: true,
     legacyHeaders: false,
+    ...options,
   });
 };
 
@@ -80,10 +81,19 @@ export const compressionMiddleware = compression({
     if (req.headers['x-no-compression']) {
       return false;
     }
+    // Compression buffers output, which would hold back server-sent events
+    if (String(res.getHeader('Content-Type') ?? '').startsWith('text/event-stream')) {
+      return false;
+    }
     return compression.filter(req, res);
   },
 });
 
+// Access tokens passed in the query string (event streams) must not end up in the logs
+const redactUrl = (url: string | undefined) => url?.replace(/([?&]access_token=)[^&]*/, '$1[REDACTED]');
+
+morgan.token('url', (req: Request) => redactUrl(req.originalUrl || req.url));
+
 // Morgan logging configuration
 export const loggingMiddleware = morgan('combined', {
   skip: (req, res) => {
@@ -97,7 +107,7 @@ export const apiLoggingMiddleware = (req: Request, res: Response, next: NextFunc
   const startTime = Date.now();
   
   // Log request
-  console.log(`[${new Date().toISOString()}] ${req.method} ${req.url} - IP: ${req.ip} - User: ${req.user?.id || 'anonymous'}`);
+  console.log(`[${new Date().toISOString()}] ${req.method} ${redactUrl(req.url)} - IP: ${req.ip} - User: ${req.user?.id || 'anonymous'}`);
   
   // Override res.json to log response
   const originalJson = res.json;
@@ -105,7 +115,7 @@ export const apiLoggingMiddleware = (req: Request, res: Response, next: NextFunc
     const duration = Date.now() - startTime;
     const success = body?.success !== false;
     
-    console.log(`[${new Date().toISOString()}] ${req.method} ${req.url} - ${res.statusCode} - ${duration}ms - Success: ${success}`);
+    console.log(`[${new Date().toISOString()}] ${req.method} ${redactUrl(req.url)} - ${res.statusCode} - ${duration}ms - Success: ${success}`);
     
     return originalJson.call(this, body);
   };
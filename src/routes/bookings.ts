@@ -1,11 +1,81 @@
 // Booking routes with authentication and validation
 
 import express from 'express';
+import multer from 'multer';
 import { BookingController } from '../controllers/BookingController.js';
+import { DisputeController } from '../controllers/DisputeController.js';
+import { InvoiceController } from '../controllers/InvoiceController.js';
+import { HandoverController } from '../controllers/HandoverController.js';
+import { MessageController } from '../controllers/MessageController.js';
 import { authenticateToken } from '../middleware/auth.js';
+import { createRateLimit } from '../middleware/security.js';
 
 const router = express.Router();
 const bookingController = new BookingController();
+const disputeController = new DisputeController();
+const invoiceController = new InvoiceController();
+const handoverController = new HandoverController();
+const messageController = new MessageController();
+
+// Dispute evidence upload (photos and documents)
+const evidenceUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB per file
+    files: 5 // Maximum 5 evidence files per submission
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedEvidenceMimes = [
+      'image/jpeg',
+      'image/jpg',
+      'image/png',
+      'image/webp',
+      'application/pdf',
+      'video/mp4'
+    ];
+
+    if (allowedEvidenceMimes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`File type ${file.mimetype} is not allowed as dispute evidence`));
+    }
+  }
+});
+
+// Handover report photos
+const handoverPhotoUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB per photo
+    files: 10 // Maximum 10 photos per report submission
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedPhotoMimes = [
+      'image/jpeg',
+      'image/jpg',
+      'image/png',
+      'image/webp'
+    ];
+
+    if (allowedPhotoMimes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`File type ${file.mimetype} is not allowed as a handover photo`));
+    }
+  }
+});
+
+// Handover code submissions - 10 per booking and user per 15 minutes to slow down guessing (codes also
+// lock after repeated misses); status changes without a code are not counted
+const handoverCodeRateLimit = createRateLimit(
+  15 * 60 * 1000, // 15 minutes
+  10,
+  'Too many handover code attempts, please try again later',
+  {
+    keyGenerator: (req) => `${req.user?.id}:${req.params.id}`,
+    skip: (req) => req.body?.code === undefined,
+  }
+);
 
 // All booking routes require authentication
 router.use(authenticateToken);
@@ -15,17 +85,42 @@ router.post('/', bookingController.createBooking.bind(bookingController));
 router.get('/my', bookingController.getUserBookings.bind(bookingController));
 router.get('/my/stats', bookingController.getUserBookingStats.bind(bookingController));
 router.get('/:id', bookingController.getBooking.bind(bookingController));
+router.get('/:id/timeline', bookingController.getBookingTimeline.bind(bookingController));
+router.get('/:id/invoice', invoiceController.getBookingInvoice.bind(invoiceController));
 
 // Booking status management
-router.put('/:id/status', bookingController.updateBookingStatus.bind(bookingController));
+router.put('/:id/status', handoverCodeRateLimit, bookingController.updateBookingStatus.bind(bookingController));
 router.put('/:id/confirm', bookingController.confirmBooking.bind(bookingController));
-router.put('/:id/start', bookingController.startBooking.bind(bookingController));
-router.put('/:id/complete', bookingController.completeBooking.bind(bookingController));
+router.put('/:id/start', handoverCodeRateLimit, bookingController.startBooking.bind(bookingController));
+router.put('/:id/complete', handoverCodeRateLimit, bookingController.completeBooking.bind(bookingController));
 router.put('/:id/cancel', bookingController.cancelBooking.bind(bookingController));
 
+// Pickup and return handover reports and codes (start and complete need both parties' sign-off and the code)
+router.get('/:id/handover', handoverController.getReports.bind(handoverController));
+router.post('/:id/handover/:type', handoverPhotoUpload.array('photos', 10), handoverController.fileReport.bind(handoverController));
+router.put('/:id/handover/:type/sign', handoverController.signReport.bind(handoverController));
+router.get('/:id/handover/:type/code', handoverController.getCode.bind(handoverController));
+
 // Rating and feedback
 router.post('/:id/rating', bookingController.addRatingAndFeedback.bind(bookingController));
 
+// Date changes and extensions
+router.post('/:id/modifications', bookingController.requestModification.bind(bookingController));
+router.get('/:id/modifications', bookingController.getModifications.bind(bookingController));
+router.put('/:id/modifications/:modificationId', bookingController.respondToModification.bind(bookingController));
+
+// Security deposit claims
+router.post('/:id/deposit/claim', bookingController.fileDepositClaim.bind(bookingController));
+router.put('/:id/deposit/claim', bookingController.respondToDepositClaim.bind(bookingController));
+
+// Disputes
+router.post('/:id/dispute', evidenceUpload.array('evidence', 5), disputeController.raiseDispute.bind(disputeController));
+router.get('/:id/dispute', disputeController.getDispute.bind(disputeController));
+router.post('/:id/dispute/statements', evidenceUpload.array('evidence', 5), disputeController.addStatement.bind(disputeController));
+
+// Message thread between lender and borrower (messages are sent through /api/messages/threads/:id)
+router.get('/:id/thread', messageController.getBookingThread.bind(messageController));
+
 // Admin/management routes
 router.get('/', bookingController.getAllBookings.bind(bookingController));
 
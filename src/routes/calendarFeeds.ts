@@ -0,0 +1,11 @@
+// Public calendar feed routes; the secret token in the URL authorises access
+
+import express from 'express';
+import { CalendarFeedController } from '../controllers/CalendarFeedController.js';
+
+const router = express.Router();
+const calendarFeedController = new CalendarFeedController();
+
+router.get('/:token.ics', calendarFeedController.serveFeed.bind(calendarFeedController));
+
+export default router;
@@ -0,0 +1,19 @@
+// Cart routes for booking several items in one checkout
+
+import express from 'express';
+import { CartController } from '../controllers/CartController.js';
+import { authenticateToken } from '../middleware/auth.js';
+
+const router = express.Router();
+const cartController = new CartController();
+
+// All cart routes require authentication
+router.use(authenticateToken);
+
+router.get('/', cartController.getCart.bind(cartController));
+router.delete('/', cartController.clearCart.bind(cartController));
+router.post('/items', cartController.addItem.bind(cartController));
+router.delete('/items/:id', cartController.removeItem.bind(cartController));
+router.post('/checkout', cartController.checkout.bind(cartController));
+
+export default router;
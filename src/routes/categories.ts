@@ -2,7 +2,7 @@
 
 import express from 'express';
 import { CategoryController } from '../controllers/CategoryController.js';
-import { authenticateToken } from '../middleware/auth.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
 
 const router = express.Router();
 const categoryController = new CategoryController();
@@ -14,9 +14,14 @@ router.get('/popular', categoryController.getPopularCategories.bind(categoryCont
 router.get('/:id', categoryController.getCategory.bind(categoryController));
 router.get('/:id/subcategories', categoryController.getSubcategories.bind(categoryController));
 router.get('/:id/hierarchy', categoryController.getCategoryHierarchy.bind(categoryController));
+router.get('/:id/pricing-rules', categoryController.getPricingRules.bind(categoryController));
 
 // Admin routes (TODO: Add admin auth middleware)
 router.post('/', authenticateToken, categoryController.createCategory.bind(categoryController));
 router.put('/:id', authenticateToken, categoryController.updateCategory.bind(categoryController));
 
+// Default pricing rules (admin only)
+router.post('/:id/pricing-rules', authenticateToken, requireAdmin, categoryController.createPricingRule.bind(categoryController));
+router.delete('/:id/pricing-rules/:ruleId', authenticateToken, requireAdmin, categoryController.deletePricingRule.bind(categoryController));
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,18 @@
+// Dispute admin routes
+
+import express from 'express';
+import { DisputeController } from '../controllers/DisputeController.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+
+const router = express.Router();
+const disputeController = new DisputeController();
+
+// All dispute admin routes require an authenticated admin
+router.use(authenticateToken, requireAdmin);
+
+router.get('/', disputeController.listDisputes.bind(disputeController));
+router.get('/deposit-claims', disputeController.listContestedClaims.bind(disputeController));
+router.put('/deposit-claims/:id/resolve', disputeController.resolveDepositClaim.bind(disputeController));
+router.put('/:id/resolve', disputeController.resolveDispute.bind(disputeController));
+
+export default router;
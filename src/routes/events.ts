@@ -0,0 +1,12 @@
+// Real-time event stream routes
+
+import express from 'express';
+import { RealtimeController } from '../controllers/RealtimeController.js';
+import { authenticateStreamToken } from '../middleware/auth.js';
+
+const router = express.Router();
+const realtimeController = new RealtimeController();
+
+router.get('/stream', authenticateStreamToken, realtimeController.stream.bind(realtimeController));
+
+export default router;
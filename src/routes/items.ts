@@ -1,11 +1,32 @@
 // Item routes with authentication and validation
 
 import express from 'express';
+import multer from 'multer';
 import { ItemController } from '../controllers/ItemController.js';
+import { CalendarFeedController } from '../controllers/CalendarFeedController.js';
+import { CalendarImportController } from '../controllers/CalendarImportController.js';
 import { authenticateToken, optionalAuth } from '../middleware/auth.js';
 
 const router = express.Router();
 const itemController = new ItemController();
+const calendarFeedController = new CalendarFeedController();
+const calendarImportController = new CalendarImportController();
+
+// Configure multer for .ics calendar uploads
+const calendarUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 2 * 1024 * 1024, // 2MB
+    files: 1
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype === 'text/calendar' || file.originalname.toLowerCase().endsWith('.ics')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only .ics calendar files are allowed'));
+    }
+  }
+});
 
 // Public routes (no authentication required)
 router.get('/search', itemController.searchItems.bind(itemController));
@@ -14,12 +35,34 @@ router.get('/featured', itemController.getFeaturedItems.bind(itemController));
 router.get('/:id', optionalAuth, itemController.getItem.bind(itemController));
 router.get('/:id/similar', itemController.getSimilarItems.bind(itemController));
 router.get('/:id/availability', itemController.checkAvailability.bind(itemController));
+router.get('/:id/calendar', itemController.getCalendar.bind(itemController));
+router.get('/:id/blackouts', itemController.getBlackouts.bind(itemController));
+router.get('/:id/quote', optionalAuth, itemController.getQuote.bind(itemController));
+router.get('/:id/pricing-rules', itemController.getPricingRules.bind(itemController));
 
 // Protected routes (authentication required)
 router.post('/', authenticateToken, itemController.createItem.bind(itemController));
 router.put('/:id', authenticateToken, itemController.updateItem.bind(itemController));
 router.delete('/:id', authenticateToken, itemController.deleteItem.bind(itemController));
 
+// Availability blackouts (for item owners)
+router.post('/:id/blackouts', authenticateToken, itemController.createBlackout.bind(itemController));
+router.delete('/:id/blackouts/:blackoutId', authenticateToken, itemController.deleteBlackout.bind(itemController));
+
+// Pricing rules (for item owners)
+router.post('/:id/pricing-rules', authenticateToken, itemController.createPricingRule.bind(itemController));
+router.delete('/:id/pricing-rules/:ruleId', authenticateToken, itemController.deletePricingRule.bind(itemController));
+
+// Calendar feed (for item owners)
+router.get('/:id/calendar-feed', authenticateToken, calendarFeedController.getItemFeed.bind(calendarFeedController));
+router.post('/:id/calendar-feed/rotate', authenticateToken, calendarFeedController.rotateItemFeed.bind(calendarFeedController));
+
+// External calendar imports (for item owners)
+router.get('/:id/calendar-imports', authenticateToken, calendarImportController.getImports.bind(calendarImportController));
+router.post('/:id/calendar-imports', authenticateToken, calendarUpload.single('file'), calendarImportController.createImport.bind(calendarImportController));
+router.post('/:id/calendar-imports/:importId/sync', authenticateToken, calendarImportController.syncImport.bind(calendarImportController));
+router.delete('/:id/calendar-imports/:importId', authenticateToken, calendarImportController.deleteImport.bind(calendarImportController));
+
 // Favorites routes
 router.post('/:id/favorites', authenticateToken, itemController.addToFavorites.bind(itemController));
 router.delete('/:id/favorites', authenticateToken, itemController.removeFromFavorites.bind(itemController));
@@ -0,0 +1,44 @@
+// Message routes for booking and enquiry threads
+
+import express from 'express';
+import multer from 'multer';
+import { MessageController } from '../controllers/MessageController.js';
+import { authenticateToken } from '../middleware/auth.js';
+
+const router = express.Router();
+const messageController = new MessageController();
+
+// Message image attachments
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB per image
+    files: 5 // Maximum 5 images per message
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedImageMimes = [
+      'image/jpeg',
+      'image/jpg',
+      'image/png',
+      'image/webp'
+    ];
+
+    if (allowedImageMimes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`File type ${file.mimetype} is not allowed as a message attachment`));
+    }
+  }
+});
+
+// All message routes require authentication
+router.use(authenticateToken);
+
+router.get('/threads', messageController.getThreads.bind(messageController));
+router.post('/enquiries', attachmentUpload.array('attachments', 5), messageController.sendEnquiry.bind(messageController));
+router.get('/threads/:id', messageController.getThread.bind(messageController));
+router.get('/threads/:id/messages', messageController.getMessages.bind(messageController));
+router.post('/threads/:id/messages', attachmentUpload.array('attachments', 5), messageController.sendMessage.bind(messageController));
+router.put('/threads/:id/read', messageController.markRead.bind(messageController));
+
+export default router;
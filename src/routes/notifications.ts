@@ -0,0 +1,20 @@
+// Notification inbox routes
+
+import express from 'express';
+import { NotificationController } from '../controllers/NotificationController.js';
+import { authenticateToken } from '../middleware/auth.js';
+
+const router = express.Router();
+const notificationController = new NotificationController();
+
+// All notification routes require authentication
+router.use(authenticateToken);
+
+router.get('/', notificationController.getNotifications.bind(notificationController));
+router.get('/unread-count', notificationController.getUnreadCount.bind(notificationController));
+router.get('/preferences', notificationController.getPreferences.bind(notificationController));
+router.put('/preferences', notificationController.updatePreferences.bind(notificationController));
+router.put('/read-all', notificationController.markAllRead.bind(notificationController));
+router.put('/:id/read', notificationController.markRead.bind(notificationController));
+
+export default router;
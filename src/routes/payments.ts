@@ -0,0 +1,18 @@
+// Payment routes with authentication and gateway callbacks
+
+import express from 'express';
+import { PaymentController } from '../controllers/PaymentController.js';
+import { authenticateToken } from '../middleware/auth.js';
+
+const router = express.Router();
+const paymentController = new PaymentController();
+
+// Gateway callbacks (authenticated by the gateway signature, not a user token)
+router.post('/callback/:gateway', paymentController.handleGatewayCallback.bind(paymentController));
+
+// Protected routes
+router.post('/', authenticateToken, paymentController.initiatePayment.bind(paymentController));
+router.get('/my', authenticateToken, paymentController.getUserPayments.bind(paymentController));
+router.get('/:id', authenticateToken, paymentController.getPayment.bind(paymentController));
+
+export default router;
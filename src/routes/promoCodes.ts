@@ -0,0 +1,18 @@
+// Promo code admin routes
+
+import express from 'express';
+import { PromoCodeController } from '../controllers/PromoCodeController.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+
+const router = express.Router();
+const promoCodeController = new PromoCodeController();
+
+// All promo code routes require an authenticated admin
+router.use(authenticateToken, requireAdmin);
+
+router.get('/', promoCodeController.listPromoCodes.bind(promoCodeController));
+router.post('/', promoCodeController.createPromoCode.bind(promoCodeController));
+router.get('/:id', promoCodeController.getPromoCode.bind(promoCodeController));
+router.put('/:id', promoCodeController.updatePromoCode.bind(promoCodeController));
+
+export default router;
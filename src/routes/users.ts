@@ -3,11 +3,13 @@
 import express from 'express';
 import { UserController } from '../controllers/UserController.js';
 import { UserLocationController } from '../controllers/UserLocationController.js';
+import { CalendarFeedController } from '../controllers/CalendarFeedController.js';
 import { authenticateToken, optionalAuth } from '../middleware/auth.js';
 
 const router = express.Router();
 const userController = new UserController();
 const userLocationController = new UserLocationController();
+const calendarFeedController = new CalendarFeedController();
 
 // Public routes
 router.get('/search', userController.searchUsers.bind(userController));
@@ -22,6 +24,8 @@ router.get('/me/items', authenticateToken, userController.getUserItems.bind(user
 router.get('/me/bookings', authenticateToken, userController.getUserBookings.bind(userController));
 router.get('/me/favorites', authenticateToken, userController.getUserFavorites.bind(userController));
 router.get('/me/stats', authenticateToken, userController.getUserStats.bind(userController));
+router.get('/me/calendar-feed', authenticateToken, calendarFeedController.getMyFeed.bind(calendarFeedController));
+router.post('/me/calendar-feed/rotate', authenticateToken, calendarFeedController.rotateMyFeed.bind(calendarFeedController));
 router.delete('/me/account', authenticateToken, userController.deactivateAccount.bind(userController));
 
 // User Location routes (Protected)
@@ -0,0 +1,21 @@
+// Webhook subscription admin routes
+
+import express from 'express';
+import { WebhookController } from '../controllers/WebhookController.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+
+const router = express.Router();
+const webhookController = new WebhookController();
+
+// All webhook routes require an authenticated admin
+router.use(authenticateToken, requireAdmin);
+
+router.get('/', webhookController.listSubscriptions.bind(webhookController));
+router.post('/', webhookController.createSubscription.bind(webhookController));
+router.get('/:id', webhookController.getSubscription.bind(webhookController));
+router.put('/:id', webhookController.updateSubscription.bind(webhookController));
+router.delete('/:id', webhookController.deleteSubscription.bind(webhookController));
+router.get('/:id/deliveries', webhookController.getDeliveries.bind(webhookController));
+router.post('/:id/deliveries/:deliveryId/redeliver', webhookController.redeliver.bind(webhookController));
+
+export default router;
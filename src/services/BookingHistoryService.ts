@@ -0,0 +1,118 @@
+// Booking history service recording every booking status transition
+
+import { BaseService } from './BaseService.js';
+import { RealtimeService } from './RealtimeService.js';
+import { WebhookService } from './WebhookService.js';
+import { supabaseAdmin } from '../utils/database.js';
+import { BookingStatusHistory } from '../types/booking.js';
+import { BookingStatus } from '../types/common.js';
+import { DataMapper, MapperUtils } from '../utils/mappers.js';
+
+export class BookingHistoryService extends BaseService {
+  private realtimeService: RealtimeService;
+  private webhookService: WebhookService;
+
+  constructor() {
+    super('booking_status_history');
+    this.realtimeService = new RealtimeService();
+    this.webhookService = new WebhookService();
+  }
+
+  /**
+   * Record a status transition, push it to both parties' event streams and publish it as a booking.created or
+   * booking.status_changed webhook; actorId is null for system changes (scheduled jobs)
+   */
+  async recordTransition(
+    bookingId: string,
+    fromStatus: BookingStatus | null,
+    toStatus: BookingStatus,
+    actorId: string | null,
+    reason?: string
+  ): Promise<void> {
+    try {
+      await this.create({
+        bookingId,
+        fromStatus: fromStatus ? MapperUtils.toSnakeCase(fromStatus) : null,
+        toStatus: MapperUtils.toSnakeCase(toStatus),
+        changedBy: actorId,
+        reason: reason ?? null,
+      });
+    } catch (error) {
+      // The audit trail must never block the transition it describes
+      console.error(`Error recording status history for booking ${bookingId}:`, error);
+    }
+
+    await this.publishTransition(bookingId, fromStatus, toStatus, actorId, reason);
+  }
+
+  /**
+   * Get the status history of a booking, oldest first
+   */
+  async getTimeline(bookingId: string): Promise<BookingStatusHistory[]> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('booking_status_history')
+        .select(`
+          *,
+          actor:changed_by(id, full_name, avatar_url)
+        `)
+        .eq('booking_id', bookingId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      return DataMapper.toCamelCase(data || []) as BookingStatusHistory[];
+    } catch (error) {
+      console.error('Error getting booking timeline:', error);
+      throw error;
+    }
+  }
+
+  private async publishTransition(
+    bookingId: string,
+    fromStatus: BookingStatus | null,
+    toStatus: BookingStatus,
+    actorId: string | null,
+    reason?: string
+  ): Promise<void> {
+    try {
+      const { data: booking, error } = await supabaseAdmin
+        .from('booking')
+        .select('*')
+        .eq('id', bookingId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (!booking) {
+        return;
+      }
+
+      this.realtimeService.publish([booking.lender_user_id, booking.borrower_user_id], 'booking.status_changed', {
+        bookingId,
+        fromStatus: fromStatus ? MapperUtils.toCamelCase(fromStatus) : null,
+        toStatus: MapperUtils.toCamelCase(toStatus),
+        changedBy: actorId,
+      });
+
+      if (!fromStatus) {
+        await this.webhookService.publish('booking.created', { booking: DataMapper.toCamelCase(booking) });
+        return;
+      }
+
+      await this.webhookService.publish('booking.status_changed', {
+        booking: DataMapper.toCamelCase(booking),
+        fromStatus: MapperUtils.toCamelCase(fromStatus),
+        toStatus: MapperUtils.toCamelCase(toStatus),
+        changedBy: actorId,
+        reason: reason ?? null,
+      });
+    } catch (error) {
+      console.error(`Error publishing status change for booking ${bookingId}:`, error);
+    }
+  }
+}
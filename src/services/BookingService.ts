@@ -2,14 +2,133 @@
 
 import { BaseService } from './BaseService.js';
 import { supabaseAdmin } from '../utils/database.js';
-import { Booking, CreateBookingDto, BookingFilters } from '../types/booking.js';
-import { ApiResponse, PaginatedResponse, BookingStatus } from '../types/common.js';
-import { differenceInDays, parseISO, isBefore, isAfter } from 'date-fns';
-import { DataMapper } from '../utils/mappers.js';
+import {
+  Booking,
+  CreateBookingDto,
+  BookingFilters,
+  CancellationBreakdown,
+  BookingStatusHistory,
+  BookingModification,
+  RequestModificationDto,
+  RespondModificationDto,
+  PriceBreakdown,
+  BookingCheckout,
+  CheckoutLenderGroup,
+  CheckoutLine,
+  CheckoutIssue,
+  CheckoutReview,
+} from '../types/booking.js';
+import { ApiResponse, PaginatedResponse, BookingStatus, ModificationStatus } from '../types/common.js';
+import { differenceInDays, parseISO, isBefore, isAfter, startOfDay, addDays, addHours, format, min } from 'date-fns';
+import { DataMapper, MapperUtils } from '../utils/mappers.js';
+import { SecurityDepositService } from './SecurityDepositService.js';
+import { PaymentService } from './PaymentService.js';
+import { CancellationPolicyService } from './CancellationPolicyService.js';
+import { BookingHistoryService } from './BookingHistoryService.js';
+import { ItemAvailabilityService } from './ItemAvailabilityService.js';
+import { PricingService } from './PricingService.js';
+import { QuoteService } from './QuoteService.js';
+import { PromoCodeService } from './PromoCodeService.js';
+import { HandoverService } from './HandoverService.js';
+import { MessageService } from './MessageService.js';
+import { NotificationService } from './NotificationService.js';
+import { UserService } from './UserService.js';
+import { NotificationType } from '../types/notification.js';
+
+export const BOOKING_CONFLICT_ERROR = 'Item is not available for the selected dates';
+
+// Notification sent when a booking moves to a status
+const STATUS_NOTIFICATIONS: Partial<Record<BookingStatus, NotificationType>> = {
+  confirmed: 'bookingConfirmed',
+  inProgress: 'bookingStarted',
+  completed: 'bookingCompleted',
+  cancelled: 'bookingCancelled',
+  disputed: 'bookingDisputed',
+};
+
+// A validated and priced booking request, ready for the create_booking RPC
+type PreparedBooking = {
+  item: any;
+  pricing: PriceBreakdown;
+  params: Record<string, any>;
+  cartItemId?: string;
+};
 
 export class BookingService extends BaseService {
+  // Postgres exclusion_violation, raised by booking_no_overlapping_active and create_booking
+  private static readonly OVERLAP_ERROR_CODE = '23P01';
+  // Raised by create_booking when a promo code ran out of uses since it was validated
+  private static readonly PROMO_LIMIT_ERROR_CODE = 'P0001';
+
+  private securityDepositService: SecurityDepositService;
+  private paymentService: PaymentService;
+  private bookingHistoryService: BookingHistoryService;
+  private itemAvailabilityService: ItemAvailabilityService;
+  private pricingService: PricingService;
+  private quoteService: QuoteService;
+  private promoCodeService: PromoCodeService;
+  private handoverService: HandoverService;
+  private messageService: MessageService;
+  private notificationService: NotificationService;
+
   constructor() {
     super('booking');
+    this.securityDepositService = new SecurityDepositService();
+    this.paymentService = new PaymentService();
+    this.bookingHistoryService = new BookingHistoryService();
+    this.itemAvailabilityService = new ItemAvailabilityService();
+    this.pricingService = new PricingService();
+    this.quoteService = new QuoteService();
+    this.promoCodeService = new PromoCodeService();
+    this.handoverService = new HandoverService();
+    this.messageService = new MessageService();
+    this.notificationService = new NotificationService();
+  }
+
+  /**
+   * Hours a lender has to answer a booking request before it expires
+   */
+  static getResponseWindowHours(): number {
+    const hours = Number(process.env.BOOKING_RESPONSE_WINDOW_HOURS ?? 24);
+    return Number.isFinite(hours) && hours > 0 ? hours : 24;
+  }
+
+  /**
+   * Late fee per overdue day, as a percentage of the daily rate, for items without their own late fee
+   */
+  static getLateFeeRatePercent(): number {
+    const percent = Number(process.env.LATE_FEE_RATE_PERCENT ?? 100);
+    return Number.isFinite(percent) && percent >= 0 ? percent : 100;
+  }
+
+  /**
+   * Days a booking has run past its end date by a given day, and the late fee for them
+   */
+  static calculateLateFee(
+    endDate: string,
+    asOf: Date,
+    dailyRate: number,
+    lateFeePerDay?: number | null
+  ): { lateDays: number; lateFee: number } {
+    const lateDays = Math.max(differenceInDays(startOfDay(asOf), parseISO(endDate)), 0);
+    const ratePerDay = lateFeePerDay != null
+      ? Number(lateFeePerDay)
+      : Number(dailyRate) * BookingService.getLateFeeRatePercent() / 100;
+
+    return {
+      lateDays,
+      lateFee: Math.round(lateDays * ratePerDay * 100) / 100,
+    };
+  }
+
+  /**
+   * Deadline for a pending request: the response window, but never past the end of the start date
+   */
+  static getPendingExpiry(startDate: string, from: Date = new Date()): string {
+    return min([
+      addHours(from, BookingService.getResponseWindowHours()),
+      addDays(startOfDay(parseISO(startDate)), 1),
+    ]).toISOString();
   }
 
   /**
@@ -17,109 +136,342 @@ export class BookingService extends BaseService {
    */
   async createBooking(userId: string, bookingData: CreateBookingDto): Promise<ApiResponse<Booking>> {
     try {
-      // First, get item details and verify availability
-      const { data: item, error: itemError } = await supabaseAdmin
-        .from('item')
-        .select(`
-          *,
-          owner:users(id, full_name, email)
-        `)
-        .eq('id', bookingData.itemId)
-        .eq('is_active', true)
-        .eq('status', 'available')
-        .single();
-
-      if (itemError) {
+      const prepared = await this.prepareBooking(userId, bookingData);
+      if (!prepared.success || !prepared.data) {
         return {
           success: false,
-          error: 'Item not found or not available',
+          error: prepared.error || 'Unable to create booking',
         };
       }
 
-      // Check if user is trying to book their own item
-      if (item.user_id === userId) {
+      // Availability check and insert run in one transaction (see create_booking RPC)
+      const { data: created, error: createError } = await supabaseAdmin.rpc('create_booking', prepared.data.params);
+
+      if (createError) {
+        if (bookingData.quoteId) {
+          await this.quoteService.releaseQuote(bookingData.quoteId);
+        }
+        const creationError = this.bookingCreationError(createError);
+        if (creationError) {
+          return {
+            success: false,
+            error: creationError,
+          };
+        }
+        throw new Error(`Database error: ${createError.message}`);
+      }
+
+      return await this.afterBookingCreated(created, prepared.data.item, userId, bookingData.quoteId);
+    } catch (error) {
+      console.error('Error creating booking:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Book several items at once (a cart checkout); every line is validated and priced like a single booking,
+   * and the bookings are created together or not at all
+   */
+  async createCheckout(userId: string, lines: CheckoutLine[]): Promise<ApiResponse<BookingCheckout>> {
+    try {
+      const { prepared, issues } = await this.prepareCheckout(userId, lines);
+
+      if (issues.length > 0) {
         return {
           success: false,
-          error: 'You cannot book your own item',
+          error: 'Some items cannot be booked',
+          details: issues,
         };
       }
 
-      // Check availability for the requested dates
-      const availabilityCheck = await this.checkItemAvailability(
-        bookingData.itemId,
-        bookingData.startDate,
-        bookingData.endDate
+      // All bookings are inserted in one transaction (see create_checkout RPC)
+      const { data: created, error: createError } = await supabaseAdmin.rpc('create_checkout', {
+        p_borrower_user_id: userId,
+        p_bookings: prepared.map(booking => booking.params),
+      });
+
+      if (createError) {
+        const creationError = this.bookingCreationError(createError);
+        if (creationError) {
+          return {
+            success: false,
+            error: creationError,
+          };
+        }
+        throw new Error(`Database error: ${createError.message}`);
+      }
+
+      const bookings: Booking[] = [];
+      for (const [index, row] of (created || []).entries()) {
+        const result = await this.afterBookingCreated(row, prepared[index]!.item, userId);
+        bookings.push(result.data!);
+      }
+
+      const lenders = BookingService.groupByLender(bookings);
+
+      return {
+        success: true,
+        data: {
+          id: created[0].checkout_id,
+          bookings,
+          lenders,
+          totalAmount: Math.round(bookings.reduce((sum, booking) => sum + Number(booking.totalAmount), 0) * 100) / 100,
+        },
+        message: `${bookings.length} bookings created with ${lenders.length} lender(s)`,
+      };
+    } catch (error) {
+      console.error('Error creating checkout:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Validate and price checkout lines without booking them, e.g. to show a cart before checking out
+   */
+  async reviewCheckout(userId: string, lines: CheckoutLine[]): Promise<CheckoutReview> {
+    const { prepared, issues } = await this.prepareCheckout(userId, lines);
+
+    return {
+      lines: prepared.map(booking => ({
+        ...(booking.cartItemId && { cartItemId: booking.cartItemId }),
+        itemId: booking.params.p_item_id,
+        lenderUserId: booking.item.user_id,
+        priceBreakdown: booking.pricing,
+      })),
+      issues,
+      totalAmount: Math.round(prepared.reduce((sum, booking) => sum + booking.pricing.totalAmount, 0) * 100) / 100,
+    };
+  }
+
+  /**
+   * Prepare every line of a checkout, collecting the reasons lines cannot be booked
+   */
+  private async prepareCheckout(
+    userId: string,
+    lines: CheckoutLine[]
+  ): Promise<{ prepared: PreparedBooking[]; issues: CheckoutIssue[] }> {
+    const issues: CheckoutIssue[] = [];
+    const prepared: PreparedBooking[] = [];
+
+    // Pending bookings do not block each other, so the same item twice on overlapping dates is caught here
+    for (const [index, line] of lines.entries()) {
+      const { cartItemId, ...bookingData } = line;
+      const issue = (error: string) => {
+        issues.push({ ...(cartItemId && { cartItemId }), itemId: line.itemId, error });
+      };
+
+      const overlapping = lines.slice(0, index).some(other =>
+        other.itemId === line.itemId && other.startDate <= line.endDate && line.startDate <= other.endDate
       );
+      if (overlapping) {
+        issue('The same item is already being booked for overlapping dates');
+        continue;
+      }
 
-      if (!availabilityCheck.success) {
-        return {
-          success: false,
-          error: availabilityCheck.error || 'Item not available for selected dates',
-        };
+      const result = await this.prepareBooking(userId, bookingData);
+      if (!result.success || !result.data) {
+        issue(result.error || 'Unable to book this item');
+        continue;
+      }
+
+      const availability = await this.checkItemAvailability(line.itemId, line.startDate, line.endDate);
+      if (!availability.data) {
+        issue(BOOKING_CONFLICT_ERROR);
+        continue;
       }
 
-      // Calculate rental duration and costs
-      const startDate = parseISO(bookingData.startDate);
-      const endDate = parseISO(bookingData.endDate);
-      const totalDays = differenceInDays(endDate, startDate) + 1;
+      prepared.push({ ...result.data, ...(cartItemId && { cartItemId }) });
+    }
+
+    return { prepared, issues };
+  }
+
+  /**
+   * Validate a booking request and price it, returning the create_booking parameters; a quote is redeemed here
+   * and has to be released if the booking is not created
+   */
+  private async prepareBooking(userId: string, bookingData: CreateBookingDto): Promise<ApiResponse<PreparedBooking>> {
+    // First, get item details and verify availability
+    const { data: item, error: itemError } = await supabaseAdmin
+      .from('item')
+      .select(`
+        *,
+        owner:users(id, full_name, email),
+        location:location_id(city)
+      `)
+      .eq('id', bookingData.itemId)
+      .eq('is_active', true)
+      .eq('status', 'available')
+      .single();
+
+    if (itemError) {
+      return {
+        success: false,
+        error: 'Item not found or not available',
+      };
+    }
+
+    // Check if user is trying to book their own item
+    if (item.user_id === userId) {
+      return {
+        success: false,
+        error: 'You cannot book your own item',
+      };
+    }
+
+    // Calculate rental duration and costs
+    const startDate = parseISO(bookingData.startDate);
+    const endDate = parseISO(bookingData.endDate);
+    const totalDays = differenceInDays(endDate, startDate) + 1;
+
+    // Validate rental duration
+    if (totalDays < item.min_rental_days) {
+      return {
+        success: false,
+        error: `Minimum rental period is ${item.min_rental_days} days`,
+      };
+    }
+
+    if (totalDays > item.max_rental_days) {
+      return {
+        success: false,
+        error: `Maximum rental period is ${item.max_rental_days} days`,
+      };
+    }
 
-      // Validate rental duration
-      if (totalDays < item.min_rental_days) {
+    const deliveryModeError = PricingService.deliveryModeError(item.delivery_mode, bookingData.deliveryMode);
+    if (deliveryModeError) {
+      return {
+        success: false,
+        error: deliveryModeError,
+      };
+    }
+
+    // A quote holds the price it was issued with; otherwise calculate costs with the item's pricing rules
+    let pricing: PriceBreakdown;
+
+    if (bookingData.quoteId) {
+      const quote = await this.quoteService.redeemQuote(bookingData.quoteId, userId, bookingData);
+      if (!quote.success || !quote.data) {
         return {
           success: false,
-          error: `Minimum rental period is ${item.min_rental_days} days`,
+          error: quote.error || 'Invalid quote',
         };
       }
+      pricing = quote.data.priceBreakdown;
+    } else {
+      pricing = await this.pricingService.priceItem(item, bookingData.startDate, bookingData.endDate, bookingData.deliveryMode);
+    }
+
+    let promoCodeId: string | null = null;
 
-      if (totalDays > item.max_rental_days) {
+    if (bookingData.promoCode) {
+      const promo = await this.promoCodeService.applyToBooking(bookingData.promoCode, userId, item, pricing.totalRent);
+      if (!promo.success || !promo.data) {
+        if (bookingData.quoteId) {
+          await this.quoteService.releaseQuote(bookingData.quoteId);
+        }
         return {
           success: false,
-          error: `Maximum rental period is ${item.max_rental_days} days`,
+          error: promo.error || 'Invalid promo code',
         };
       }
+      pricing = PricingService.applyDiscount(pricing, promo.data);
+      promoCodeId = promo.data.promoCodeId;
+    }
 
-      // Calculate costs
-      const dailyRate = item.rent_price_per_day;
-      const totalRent = dailyRate * totalDays;
-      const securityAmount = item.security_amount ?? 0;
-      const platformFee = this.calculatePlatformFee(totalRent);
-
-      // Create booking
-      const bookingCreateData = {
-        item_id: bookingData.itemId,
-        lender_user_id: item.user_id,
-        borrower_user_id: userId,
-        start_date: bookingData.startDate,
-        end_date: bookingData.endDate,
-        daily_rate: dailyRate,
-        total_rent: totalRent,
-        security_amount: securityAmount,
-        platform_fee: platformFee,
-        booking_status: 'pending' as BookingStatus,
-        delivery_mode: bookingData.deliveryMode ?? 'none',
-        pickup_location: bookingData.pickupLocation,
-        delivery_location: bookingData.deliveryLocation,
-        special_instructions: bookingData.specialInstructions,
-      };
+    return {
+      success: true,
+      data: {
+        item,
+        pricing,
+        params: {
+          p_item_id: bookingData.itemId,
+          p_lender_user_id: item.user_id,
+          p_borrower_user_id: userId,
+          p_start_date: bookingData.startDate,
+          p_end_date: bookingData.endDate,
+          p_daily_rate: pricing.dailyRate,
+          p_total_rent: pricing.totalRent,
+          p_security_amount: pricing.securityAmount,
+          p_platform_fee: pricing.platformFee,
+          p_price_breakdown: pricing,
+          p_delivery_fee: pricing.deliveryFee,
+          p_delivery_mode: bookingData.deliveryMode ?? 'none',
+          p_pickup_location: bookingData.pickupLocation ?? null,
+          p_delivery_location: bookingData.deliveryLocation ?? null,
+          p_special_instructions: bookingData.specialInstructions ?? null,
+          p_expires_at: BookingService.getPendingExpiry(bookingData.startDate),
+          p_promo_code_id: promoCodeId,
+          p_discount_amount: pricing.discountAmount ?? 0,
+        },
+      },
+    };
+  }
+
+  /**
+   * Record a newly created booking and confirm it straight away for instant-book items
+   */
+  private async afterBookingCreated(
+    created: any,
+    item: any,
+    userId: string,
+    quoteId?: string
+  ): Promise<ApiResponse<Booking>> {
+    const booking = DataMapper.toCamelCase(created) as Booking;
 
-      const result = await this.create(bookingCreateData);
+    await this.bookingHistoryService.recordTransition(booking.id, null, 'pending', userId);
 
-      if (result.success) {
-        // Update item status to booked (optional, depends on business logic)
-        // await supabaseAdmin
-        //   .from('d_items')
-        //   .update({ status: 'booked' })
-        //   .eq('item_id', bookingData.item_id);
+    if (quoteId) {
+      await this.quoteService.attachBooking(quoteId, booking.id);
+    }
+
+    // Update item status to booked (optional, depends on business logic)
+    // await supabaseAdmin
+    //   .from('d_items')
+    //   .update({ status: 'booked' })
+    //   .eq('item_id', bookingData.item_id);
 
-        // TODO: Send notification to lender
-        // await this.sendBookingNotification(result.data.booking_id, 'new_booking');
+    if (item.booking_mode === 'instant' && await this.qualifiesForInstantBook(item, userId)) {
+      // Confirm on the lender's behalf so the usual confirmation side effects apply
+      const confirmed = await this.updateBookingStatus(
+        booking.id,
+        item.user_id,
+        'confirmed',
+        'Confirmed automatically (instant book)'
+      );
+
+      if (confirmed.success) {
+        await this.notificationService.notifyBooking(booking.id, 'bookingInstantBooked');
+        return {
+          ...confirmed,
+          message: 'Booking confirmed instantly',
+        };
       }
 
-      return result;
-    } catch (error) {
-      console.error('Error creating booking:', error);
-      throw error;
+      console.warn(`Instant confirmation failed for booking ${booking.id}: ${confirmed.error}`);
     }
+
+    await this.notificationService.notifyBooking(booking.id, 'bookingRequested', { actorUserId: userId });
+
+    return {
+      success: true,
+      data: booking,
+      message: 'Record created successfully',
+    };
+  }
+
+  /**
+   * Map the errors create_booking raises for the caller to a message, null for unexpected errors
+   */
+  private bookingCreationError(error: { code?: string; message: string }): string | null {
+    if (error.code === BookingService.OVERLAP_ERROR_CODE) {
+      return BOOKING_CONFLICT_ERROR;
+    }
+    if (error.code === BookingService.PROMO_LIMIT_ERROR_CODE) {
+      return error.message;
+    }
+    return null;
   }
 
   /**
@@ -129,7 +481,8 @@ export class BookingService extends BaseService {
     bookingId: string,
     userId: string,
     status: BookingStatus,
-    reason?: string
+    reason?: string,
+    handoverCode?: string
   ): Promise<ApiResponse<Booking>> {
     try {
       // Get booking details and verify user permission
@@ -138,20 +491,61 @@ export class BookingService extends BaseService {
         return booking;
       }
 
+      // Disputes carry a reason and evidence, so they go through DisputeService
+      if (status === 'disputed') {
+        return {
+          success: false,
+          error: 'Disputes must be raised through the booking dispute endpoint',
+        };
+      }
+
       const bookingData = booking.data;
       const isLender = bookingData.lender_user_id === userId;
       const isBorrower = bookingData.borrower_user_id === userId;
+      // Statuses are stored snake_case (in_progress) but transitions are expressed in BookingStatus (inProgress)
+      const currentStatus = MapperUtils.toCamelCase(bookingData.booking_status) as BookingStatus;
 
       // Validate status transitions based on user role
-      if (!this.isValidStatusTransition(bookingData.booking_status, status, isLender, isBorrower)) {
+      if (!this.isValidStatusTransition(currentStatus, status, isLender, isBorrower)) {
         return {
           success: false,
           error: 'Invalid status transition',
         };
       }
 
+      // The item changes hands on start and completion, which needs a condition report both parties signed
+      // and the code held by the party handing it over, submitted by the party receiving it
+      if (status === 'inProgress' || status === 'completed') {
+        const handoverType = status === 'inProgress' ? 'pickup' : 'return';
+
+        if (status === 'inProgress' ? !isLender : !isBorrower) {
+          return {
+            success: false,
+            error: status === 'inProgress'
+              ? 'Only the lender can start the booking, with the borrower\'s pickup code'
+              : 'Only the borrower can complete the booking, with the lender\'s return code',
+          };
+        }
+
+        if (!(await this.handoverService.isSignedOff(bookingId, handoverType))) {
+          return {
+            success: false,
+            error: `The ${handoverType} handover report must be signed off by both parties first`,
+          };
+        }
+
+        if (!handoverCode) {
+          return { success: false, error: 'A handover code is required' };
+        }
+
+        const verified = await this.handoverService.verifyCode(bookingId, handoverType, handoverCode);
+        if (!verified.success) {
+          return { success: false, error: verified.error ?? 'Invalid handover code' };
+        }
+      }
+
       const updateData: any = {
-        booking_status: status,
+        booking_status: MapperUtils.toSnakeCase(status),
       };
 
       // Set timestamps based on status
@@ -159,159 +553,697 @@ export class BookingService extends BaseService {
         case 'confirmed':
           updateData.confirmed_at = new Date().toISOString();
           break;
-        case 'completed':
+        case 'completed': {
           updateData.completed_at = new Date().toISOString();
+
+          // Settle the late fee for the day the item actually came back
+          const { lateDays, lateFee } = BookingService.calculateLateFee(
+            bookingData.end_date,
+            new Date(updateData.completed_at),
+            bookingData.daily_rate,
+            bookingData.item?.late_fee_per_day
+          );
+          updateData.late_days = lateDays;
+          updateData.late_fee = lateFee;
           break;
-        case 'cancelled':
+        }
+        case 'cancelled': {
           updateData.cancelled_at = new Date().toISOString();
           if (reason) {
             updateData.cancellation_reason = reason;
           }
+
+          const breakdown = CancellationPolicyService.calculateRefund(
+            bookingData,
+            bookingData.item,
+            isLender ? 'lender' : 'borrower'
+          );
+          updateData.cancelled_by = breakdown.cancelledBy;
+          updateData.cancellation_refund_amount = breakdown.refundAmount;
+          updateData.cancellation_lender_compensation = breakdown.lenderCompensation;
+          updateData.cancellation_breakdown = breakdown;
           break;
+        }
+      }
+
+      const result = await this.updateActiveBooking(bookingId, updateData, bookingData.booking_status);
+
+      if (result.success) {
+        await this.bookingHistoryService.recordTransition(
+          bookingId,
+          currentStatus,
+          status,
+          userId,
+          reason
+        );
+
+        // Update item status based on booking status
+        let itemStatus = 'available';
+        if (status === 'confirmed') itemStatus = 'booked';
+        else if (status === 'inProgress') itemStatus = 'inTransit';
+        else if (status === 'completed' || status === 'cancelled') itemStatus = 'available';
+
+        await supabaseAdmin
+          .from('item')
+          .update({ status: itemStatus })
+          .eq('item_id', bookingData.item_id);
+
+        await this.applyDepositLifecycle(bookingData, status, updateData);
+        await this.issueHandoverCode(bookingData, status);
+
+        if (status === 'cancelled') {
+          await this.refundCancellation(bookingData, updateData.cancellation_breakdown);
+        }
+
+        const notificationType = STATUS_NOTIFICATIONS[status];
+        if (notificationType) {
+          await this.notificationService.notifyBooking(bookingId, notificationType, {
+            actorUserId: userId,
+            ...(reason && { reason }),
+          });
+        }
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Error updating booking status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add rating and feedback to booking
+   */
+  async addRatingAndFeedback(
+    bookingId: string,
+    userId: string,
+    rating: number,
+    feedback?: string
+  ): Promise<ApiResponse<Booking>> {
+    try {
+      // Get booking details and verify user permission
+      const booking = await this.getBookingWithDetails(bookingId, userId);
+      if (!booking.success || !booking.data) {
+        return booking;
+      }
+
+      const bookingData = booking.data;
+      const isLender = bookingData.lender_user_id === userId;
+      const isBorrower = bookingData.borrower_user_id === userId;
+
+      // Only allow rating after booking is completed
+      if (bookingData.booking_status !== 'completed') {
+        return {
+          success: false,
+          error: 'Can only rate completed bookings',
+        };
+      }
+
+      const updateData: any = {};
+
+      if (isLender) {
+        if (bookingData.rating_by_lender) {
+          return {
+            success: false,
+            error: 'You have already rated this booking',
+          };
+        }
+        updateData.rating_by_lender = rating;
+        updateData.feedback_by_lender = feedback;
+      } else if (isBorrower) {
+        if (bookingData.rating_by_borrower) {
+          return {
+            success: false,
+            error: 'You have already rated this booking',
+          };
+        }
+        updateData.rating_by_borrower = rating;
+        updateData.feedback_by_borrower = feedback;
+      } else {
+        return {
+          success: false,
+          error: 'You are not authorized to rate this booking',
+        };
+      }
+
+      const result = await this.update(bookingId, updateData);
+
+      // The trust score update will be handled by the database trigger
+
+      return result;
+    } catch (error) {
+      console.error('Error adding rating and feedback:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get booking with full details
+   */
+  async getBookingWithDetails(bookingId: string, userId?: string): Promise<ApiResponse<any>> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('booking')
+        .select(`
+          *,
+          item:item(
+            *,
+            category:categories(category_name),
+            location:location(*),
+            images:item_image(
+              file:file(url),
+              is_primary
+            )
+          ),
+          lender:lender_user_id!inner(id, full_name, email, avatar_url, trust_score),
+          borrower:borrower_user_id!inner(id, full_name, email, avatar_url, trust_score),
+          pickup_location_details:pickup_location!left(address_line, city, state),
+          delivery_location_details:delivery_location!left(address_line, city, state),
+          payments:payment(*),
+          security_deposit:security_deposit(*),
+          handover_reports:handover_report(*)
+        `)
+        .eq('id', bookingId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return {
+            success: false,
+            error: 'Booking not found',
+          };
+        }
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      // Check if user has permission to view this booking
+      if (userId && data.lender_user_id !== userId && data.borrower_user_id !== userId) {
+        return {
+          success: false,
+          error: 'You are not authorized to view this booking',
+        };
+      }
+
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      console.error('Error getting booking details:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the status timeline of a booking visible to its lender, its borrower and admins
+   */
+  async getBookingTimeline(bookingId: string, userId: string): Promise<ApiResponse<BookingStatusHistory[]>> {
+    try {
+      const { data: booking, error } = await supabaseAdmin
+        .from('booking')
+        .select('id, lender_user_id, borrower_user_id')
+        .eq('id', bookingId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return {
+            success: false,
+            error: 'Booking not found',
+          };
+        }
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (!(await this.canViewHistory(booking, userId))) {
+        return {
+          success: false,
+          error: 'You are not authorized to view this booking',
+        };
+      }
+
+      return {
+        success: true,
+        data: await this.bookingHistoryService.getTimeline(bookingId),
+      };
+    } catch (error) {
+      console.error('Error getting booking timeline:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Borrower proposes new dates (or an extension of an in-progress rental)
+   */
+  async requestModification(
+    bookingId: string,
+    userId: string,
+    modificationData: RequestModificationDto
+  ): Promise<ApiResponse<BookingModification>> {
+    try {
+      const { data: booking, error } = await supabaseAdmin
+        .from('booking')
+        .select('*, item:item(category_id, min_rental_days, max_rental_days)')
+        .eq('id', bookingId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return {
+            success: false,
+            error: 'Booking not found',
+          };
+        }
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (booking.borrower_user_id !== userId) {
+        return {
+          success: false,
+          error: 'Only the borrower can request a date change',
+        };
+      }
+
+      const { startDate, endDate } = modificationData;
+
+      if (booking.booking_status === 'in_progress') {
+        // The rental has started, so only the return date can move (and only later)
+        if (startDate !== booking.start_date || !isAfter(parseISO(endDate), parseISO(booking.end_date))) {
+          return {
+            success: false,
+            error: 'In-progress bookings can only be extended to a later end date',
+          };
+        }
+      } else if (['pending', 'confirmed'].includes(booking.booking_status)) {
+        if (isBefore(parseISO(startDate), startOfDay(new Date()))) {
+          return {
+            success: false,
+            error: 'Start date cannot be in the past',
+          };
+        }
+      } else {
+        return {
+          success: false,
+          error: 'Dates can only be changed on pending, confirmed or in-progress bookings',
+        };
+      }
+
+      if (startDate === booking.start_date && endDate === booking.end_date) {
+        return {
+          success: false,
+          error: 'The proposed dates are the same as the current dates',
+        };
+      }
+
+      const { data: openRequests, error: openError } = await supabaseAdmin
+        .from('booking_modification')
+        .select('id')
+        .eq('booking_id', bookingId)
+        .eq('modification_status', 'pending');
+
+      if (openError) {
+        throw new Error(`Database error: ${openError.message}`);
+      }
+
+      if (openRequests && openRequests.length > 0) {
+        return {
+          success: false,
+          error: 'This booking already has a pending modification request',
+        };
+      }
+
+      const pricing = await this.priceModification(booking, startDate, endDate);
+      if (!pricing.success || !pricing.data) {
+        return {
+          success: false,
+          error: pricing.error || 'Item not available for selected dates',
+        };
+      }
+
+      const { data: modification, error: insertError } = await supabaseAdmin
+        .from('booking_modification')
+        .insert({
+          booking_id: bookingId,
+          requested_by: userId,
+          modification_status: 'pending' as ModificationStatus,
+          previous_start_date: booking.start_date,
+          previous_end_date: booking.end_date,
+          previous_total_rent: booking.total_rent,
+          previous_platform_fee: booking.platform_fee,
+          proposed_start_date: startDate,
+          proposed_end_date: endDate,
+          proposed_total_rent: pricing.data.totalRent,
+          proposed_platform_fee: pricing.data.platformFee,
+          proposed_price_breakdown: pricing.data,
+          message: modificationData.message,
+        })
+        .select()
+        .single();
+
+      if (insertError) {
+        throw new Error(`Database error: ${insertError.message}`);
+      }
+
+      await this.notificationService.notifyBooking(bookingId, 'modificationRequested', { actorUserId: userId });
+
+      return {
+        success: true,
+        data: DataMapper.toCamelCase(modification),
+        message: 'Modification request sent to the lender',
+      };
+    } catch (error) {
+      console.error('Error requesting booking modification:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the modification requests of a booking, newest first
+   */
+  async getModifications(bookingId: string, userId: string): Promise<ApiResponse<BookingModification[]>> {
+    try {
+      const { data: booking, error } = await supabaseAdmin
+        .from('booking')
+        .select('id, lender_user_id, borrower_user_id')
+        .eq('id', bookingId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return {
+            success: false,
+            error: 'Booking not found',
+          };
+        }
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (booking.lender_user_id !== userId && booking.borrower_user_id !== userId) {
+        return {
+          success: false,
+          error: 'You are not authorized to view this booking',
+        };
+      }
+
+      const { data, error: listError } = await supabaseAdmin
+        .from('booking_modification')
+        .select('*')
+        .eq('booking_id', bookingId)
+        .order('created_at', { ascending: false });
+
+      if (listError) {
+        throw new Error(`Database error: ${listError.message}`);
+      }
+
+      return {
+        success: true,
+        data: DataMapper.toCamelCase(data || []),
+      };
+    } catch (error) {
+      console.error('Error getting booking modifications:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lender accepts or declines a pending modification request
+   */
+  async respondToModification(
+    bookingId: string,
+    modificationId: string,
+    userId: string,
+    response: RespondModificationDto
+  ): Promise<ApiResponse<BookingModification>> {
+    try {
+      const { data: modification, error } = await supabaseAdmin
+        .from('booking_modification')
+        .select('*, booking:booking_id(*, item:item(category_id, min_rental_days, max_rental_days))')
+        .eq('id', modificationId)
+        .eq('booking_id', bookingId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return {
+            success: false,
+            error: 'Modification request not found',
+          };
+        }
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      const booking = modification.booking;
+
+      if (booking.lender_user_id !== userId) {
+        return {
+          success: false,
+          error: 'Only the lender can respond to a modification request',
+        };
+      }
+
+      if (modification.modification_status !== 'pending') {
+        return {
+          success: false,
+          error: 'This modification request has already been answered',
+        };
+      }
+
+      const respondedAt = new Date().toISOString();
+
+      if (!response.accept) {
+        const { data: declined, error: declineError } = await supabaseAdmin
+          .from('booking_modification')
+          .update({
+            modification_status: 'declined' as ModificationStatus,
+            response_note: response.responseNote,
+            responded_by: userId,
+            responded_at: respondedAt,
+          })
+          .eq('id', modificationId)
+          .select()
+          .single();
+
+        if (declineError) {
+          throw new Error(`Database error: ${declineError.message}`);
+        }
+
+        await this.notificationService.notifyBooking(bookingId, 'modificationDeclined', {
+          actorUserId: userId,
+          ...(response.responseNote && { reason: response.responseNote }),
+        });
+
+        return {
+          success: true,
+          data: DataMapper.toCamelCase(declined),
+          message: 'Modification request declined',
+        };
+      }
+
+      if (!['pending', 'confirmed', 'in_progress'].includes(booking.booking_status)) {
+        return {
+          success: false,
+          error: 'The booking can no longer be modified',
+        };
+      }
+
+      // Availability may have changed since the request was made
+      const pricing = await this.priceModification(
+        booking,
+        modification.proposed_start_date,
+        modification.proposed_end_date
+      );
+      if (!pricing.success || !pricing.data) {
+        return {
+          success: false,
+          error: pricing.error || 'Item not available for selected dates',
+        };
       }
 
-      const result = await this.update(bookingId, updateData);
+      const bookingUpdate = await this.updateActiveBooking(bookingId, {
+        start_date: modification.proposed_start_date,
+        end_date: modification.proposed_end_date,
+        total_rent: pricing.data.totalRent,
+        platform_fee: pricing.data.platformFee,
+        discount_amount: pricing.data.discountAmount ?? 0,
+        price_breakdown: pricing.data,
+        // A pending request must not outlive its new start date, nor expire straight after the lender agreed
+        ...(booking.booking_status === 'pending' && {
+          expires_at: BookingService.getPendingExpiry(modification.proposed_start_date),
+        }),
+      });
 
-      if (result.success) {
-        // Update item status based on booking status
-        let itemStatus = 'available';
-        if (status === 'confirmed') itemStatus = 'booked';
-        else if (status === 'inProgress') itemStatus = 'inTransit';
-        else if (status === 'completed' || status === 'cancelled') itemStatus = 'available';
+      if (!bookingUpdate.success) {
+        return {
+          success: false,
+          error: bookingUpdate.error || 'Failed to update booking dates',
+        };
+      }
 
-        await supabaseAdmin
-          .from('item')
-          .update({ status: itemStatus })
-          .eq('item_id', bookingData.item_id);
+      const { data: accepted, error: acceptError } = await supabaseAdmin
+        .from('booking_modification')
+        .update({
+          modification_status: 'accepted' as ModificationStatus,
+          proposed_total_rent: pricing.data.totalRent,
+          proposed_platform_fee: pricing.data.platformFee,
+          proposed_price_breakdown: pricing.data,
+          response_note: response.responseNote,
+          responded_by: userId,
+          responded_at: respondedAt,
+        })
+        .eq('id', modificationId)
+        .select()
+        .single();
 
-        // TODO: Send notification
-        // await this.sendBookingNotification(bookingId, `booking_${status}`);
+      if (acceptError) {
+        throw new Error(`Database error: ${acceptError.message}`);
       }
 
-      return result;
+      await this.notificationService.notifyBooking(bookingId, 'modificationAccepted', { actorUserId: userId });
+
+      return {
+        success: true,
+        data: DataMapper.toCamelCase(accepted),
+        message: 'Modification accepted and booking updated',
+      };
     } catch (error) {
-      console.error('Error updating booking status:', error);
+      console.error('Error responding to booking modification:', error);
       throw error;
     }
   }
 
   /**
-   * Add rating and feedback to booking
+   * Cancel pending requests the lender did not answer in time or whose start date has passed
    */
-  async addRatingAndFeedback(
-    bookingId: string,
-    userId: string,
-    rating: number,
-    feedback?: string
-  ): Promise<ApiResponse<Booking>> {
+  async expireStalePendingBookings(): Promise<number> {
     try {
-      // Get booking details and verify user permission
-      const booking = await this.getBookingWithDetails(bookingId, userId);
-      if (!booking.success || !booking.data) {
-        return booking;
-      }
+      const now = new Date();
+      const today = format(now, 'yyyy-MM-dd');
 
-      const bookingData = booking.data;
-      const isLender = bookingData.lender_user_id === userId;
-      const isBorrower = bookingData.borrower_user_id === userId;
+      const { data, error } = await supabaseAdmin
+        .from('booking')
+        .select('id, item_id, start_date, total_amount')
+        .eq('booking_status', 'pending')
+        .or(`expires_at.lte.${now.toISOString()},start_date.lt.${today}`);
 
-      // Only allow rating after booking is completed
-      if (bookingData.booking_status !== 'completed') {
-        return {
-          success: false,
-          error: 'Can only rate completed bookings',
-        };
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
       }
 
-      const updateData: any = {};
+      let expired = 0;
+      for (const booking of data || []) {
+        try {
+          const reason = booking.start_date < today
+            ? 'Expired: the start date passed before the lender responded'
+            : 'Expired: the lender did not respond in time';
 
-      if (isLender) {
-        if (bookingData.rating_by_lender) {
-          return {
-            success: false,
-            error: 'You have already rated this booking',
-          };
-        }
-        updateData.rating_by_lender = rating;
-        updateData.feedback_by_lender = feedback;
-      } else if (isBorrower) {
-        if (bookingData.rating_by_borrower) {
-          return {
-            success: false,
-            error: 'You have already rated this booking',
-          };
-        }
-        updateData.rating_by_borrower = rating;
-        updateData.feedback_by_borrower = feedback;
-      } else {
-        return {
-          success: false,
-          error: 'You are not authorized to rate this booking',
-        };
-      }
+          // Guard on status so a confirmation that lands meanwhile wins
+          const { data: updated, error: updateError } = await supabaseAdmin
+            .from('booking')
+            .update({
+              booking_status: 'cancelled',
+              cancelled_at: now.toISOString(),
+              cancellation_reason: reason,
+            })
+            .eq('id', booking.id)
+            .eq('booking_status', 'pending')
+            .select('id');
 
-      const result = await this.update(bookingId, updateData);
+          if (updateError) {
+            throw new Error(`Database error: ${updateError.message}`);
+          }
 
-      // The trust score update will be handled by the database trigger
+          if (!updated || updated.length === 0) {
+            continue;
+          }
 
-      return result;
+          await this.bookingHistoryService.recordTransition(booking.id, 'pending', 'cancelled', null, reason);
+
+          const refund = await this.paymentService.refundBookingPayment(booking.id, Number(booking.total_amount), reason);
+          if (!refund.success && refund.error !== 'No captured payment found for this booking') {
+            console.warn(`Expiry refund skipped for booking ${booking.id}: ${refund.error}`);
+          }
+
+          await this.notificationService.notifyBooking(booking.id, 'bookingExpired');
+
+          expired++;
+        } catch (err) {
+          console.error(`Failed to expire booking ${booking.id}:`, err);
+        }
+      }
+
+      return expired;
     } catch (error) {
-      console.error('Error adding rating and feedback:', error);
+      console.error('Error expiring pending bookings:', error);
       throw error;
     }
   }
 
   /**
-   * Get booking with full details
+   * Flag in-progress bookings that are past their end date and bring their late fee up to date
    */
-  async getBookingWithDetails(bookingId: string, userId?: string): Promise<ApiResponse<any>> {
+  async accrueLateFees(): Promise<number> {
     try {
+      const now = new Date();
+      const today = format(now, 'yyyy-MM-dd');
+
       const { data, error } = await supabaseAdmin
         .from('booking')
-        .select(`
-          *,
-          item:item(
-            *,
-            category:categories(category_name),
-            location:location(*),
-            images:item_image(
-              file:file(url),
-              is_primary
-            )
-          ),
-          lender:lender_user_id!inner(id, full_name, email, phone_number, avatar_url, trust_score),
-          borrower:borrower_user_id!inner(id, full_name, email, phone_number, avatar_url, trust_score),
-          pickup_location_details:pickup_location!left(address_line, city, state),
-          delivery_location_details:delivery_location!left(address_line, city, state),
-          payments:payment(*)
-        `)
-        .eq('id', bookingId)
-        .single();
+        .select('id, end_date, daily_rate, overdue_at, late_days, item:item_id(late_fee_per_day)')
+        .eq('booking_status', 'in_progress')
+        .lt('end_date', today);
 
       if (error) {
-        if (error.code === 'PGRST116') {
-          return {
-            success: false,
-            error: 'Booking not found',
-          };
-        }
         throw new Error(`Database error: ${error.message}`);
       }
 
-      // Check if user has permission to view this booking
-      if (userId && data.lender_user_id !== userId && data.borrower_user_id !== userId) {
-        return {
-          success: false,
-          error: 'You are not authorized to view this booking',
-        };
+      let accrued = 0;
+      for (const booking of data || []) {
+        try {
+          const item: any = Array.isArray(booking.item) ? booking.item[0] : booking.item;
+          const { lateDays, lateFee } = BookingService.calculateLateFee(
+            booking.end_date,
+            now,
+            booking.daily_rate,
+            item?.late_fee_per_day
+          );
+
+          if (booking.overdue_at && lateDays === booking.late_days) {
+            continue;
+          }
+
+          // Guard on status so a completion that lands meanwhile keeps its own settlement
+          const { data: updated, error: updateError } = await supabaseAdmin
+            .from('booking')
+            .update({
+              overdue_at: booking.overdue_at ?? now.toISOString(),
+              late_days: lateDays,
+              late_fee: lateFee,
+            })
+            .eq('id', booking.id)
+            .eq('booking_status', 'in_progress')
+            .select('id');
+
+          if (updateError) {
+            throw new Error(`Database error: ${updateError.message}`);
+          }
+
+          if (!updated || updated.length === 0) {
+            continue;
+          }
+
+          if (!booking.overdue_at) {
+            await this.notificationService.notifyBooking(booking.id, 'bookingOverdue');
+          }
+
+          accrued++;
+        } catch (err) {
+          console.error(`Failed to accrue late fee for booking ${booking.id}:`, err);
+        }
       }
 
-      return {
-        success: true,
-        data,
-      };
+      return accrued;
     } catch (error) {
-      console.error('Error getting booking details:', error);
+      console.error('Error accruing late fees:', error);
       throw error;
     }
   }
@@ -338,7 +1270,7 @@ export class BookingService extends BaseService {
         .from('booking')
         .select(`
           *,
-          item:item(item_id, title, image_urls),
+          item:item(id, title, image_urls),
           lender:lender_user_id!inner(full_name, avatar_url),
           borrower:borrower_user_id!inner(full_name, avatar_url)
         `, { count: 'exact' });
@@ -374,10 +1306,14 @@ export class BookingService extends BaseService {
       }
 
       const totalPages = Math.ceil((count || 0) / limit);
+      const unreadMessages = await this.messageService.getUnreadCountsByBooking(userId);
 
       return {
         success: true,
-        data: DataMapper.toCamelCase(data || []),
+        data: (data || []).map(booking => ({
+          ...DataMapper.toCamelCase(booking),
+          unreadMessages: unreadMessages.get(booking.id) ?? 0,
+        })),
         pagination: {
           page,
           limit,
@@ -402,13 +1338,13 @@ export class BookingService extends BaseService {
         // Lender statistics
         supabaseAdmin
           .from('booking')
-          .select('booking_status, total_rent, rating_by_borrower')
+          .select('booking_status, total_rent, rating_by_borrower, overdue_at, late_fee')
           .eq('lender_user_id', userId),
         
         // Borrower statistics
         supabaseAdmin
           .from('booking')
-          .select('booking_status, total_rent, rating_by_lender')
+          .select('booking_status, total_rent, rating_by_lender, overdue_at, late_fee')
           .eq('borrower_user_id', userId),
         
         // Recent bookings
@@ -433,14 +1369,18 @@ export class BookingService extends BaseService {
           totalBookings: lenderData.length,
           completedBookings: lenderData.filter(b => b.booking_status === 'completed').length,
           pendingBookings: lenderData.filter(b => b.booking_status === 'pending').length,
+          overdueBookings: lenderData.filter(b => b.booking_status === 'in_progress' && b.overdue_at).length,
           totalEarnings: lenderData.reduce((sum, b) => sum + (b.total_rent || 0), 0),
+          lateFees: lenderData.reduce((sum, b) => sum + Number(b.late_fee || 0), 0),
           averageRating: this.calculateAverageRating(lenderData.map(b => b.rating_by_borrower)),
         },
         asBorrower: {
           totalBookings: borrowerData.length,
           completedBookings: borrowerData.filter(b => b.booking_status === 'completed').length,
           pendingBookings: borrowerData.filter(b => b.booking_status === 'pending').length,
+          overdueBookings: borrowerData.filter(b => b.booking_status === 'in_progress' && b.overdue_at).length,
           totalSpent: borrowerData.reduce((sum, b) => sum + (b.total_rent || 0), 0),
+          lateFees: borrowerData.reduce((sum, b) => sum + Number(b.late_fee || 0), 0),
           averageRating: this.calculateAverageRating(borrowerData.map(b => b.rating_by_lender)),
         },
         recentBookings: DataMapper.toCamelCase(recentBookings.data || []),
@@ -462,16 +1402,24 @@ export class BookingService extends BaseService {
   private async checkItemAvailability(
     itemId: string,
     startDate: string,
-    endDate: string
+    endDate: string,
+    excludeBookingId?: string
   ): Promise<ApiResponse<boolean>> {
     try {
-      const { data, error } = await supabaseAdmin
+      let query = supabaseAdmin
         .from('booking')
         .select('id')
         .eq('item_id', itemId)
         .in('booking_status', ['confirmed', 'in_progress'])
         .or(`and(start_date.lte.${endDate},end_date.gte.${startDate})`);
 
+      // A booking being re-dated must not conflict with itself
+      if (excludeBookingId) {
+        query = query.neq('id', excludeBookingId);
+      }
+
+      const { data, error } = await query;
+
       if (error) {
         throw new Error(`Database error: ${error.message}`);
       }
@@ -479,7 +1427,14 @@ export class BookingService extends BaseService {
       if (data && data.length > 0) {
         return {
           success: false,
-          error: 'Item is not available for the selected dates',
+          error: BOOKING_CONFLICT_ERROR,
+        };
+      }
+
+      if (await this.itemAvailabilityService.isBlocked(itemId, startDate, endDate)) {
+        return {
+          success: false,
+          error: BOOKING_CONFLICT_ERROR,
         };
       }
 
@@ -494,16 +1449,213 @@ export class BookingService extends BaseService {
   }
 
   /**
-   * Calculate platform fee
+   * Booking parties and admins can read the status history
    */
-  private calculatePlatformFee(totalRent: number): number {
-    // Platform fee: 5% of total rent, minimum ₹10, maximum ₹500
-    const feePercentage = 0.05;
-    const minFee = 10;
-    const maxFee = 500;
-    
-    const calculatedFee = totalRent * feePercentage;
-    return Math.min(Math.max(calculatedFee, minFee), maxFee);
+  private async canViewHistory(booking: any, userId: string): Promise<boolean> {
+    if (booking.lender_user_id === userId || booking.borrower_user_id === userId) {
+      return true;
+    }
+
+    return UserService.isAdmin(userId);
+  }
+
+  /**
+   * Update a booking, reporting an overlap with another active booking as a conflict
+   */
+  private async updateActiveBooking(
+    bookingId: string,
+    updateData: Record<string, any>,
+    expectedStatus?: string
+  ): Promise<ApiResponse<Booking>> {
+    let query = supabaseAdmin
+      .from('booking')
+      .update(updateData)
+      .eq('id', bookingId);
+
+    // A transition only applies to the status it was validated against; a concurrent change wins
+    if (expectedStatus) {
+      query = query.eq('booking_status', expectedStatus);
+    }
+
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) {
+      if (error.code === BookingService.OVERLAP_ERROR_CODE) {
+        return {
+          success: false,
+          error: BOOKING_CONFLICT_ERROR,
+        };
+      }
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!data) {
+      return {
+        success: false,
+        error: expectedStatus ? 'Invalid status transition' : 'Booking not found',
+      };
+    }
+
+    return {
+      success: true,
+      data: DataMapper.toCamelCase(data),
+      message: 'Record updated successfully',
+    };
+  }
+
+  /**
+   * Check the item's instant-book requirements against the borrower's profile
+   */
+  private async qualifiesForInstantBook(item: any, borrowerId: string): Promise<boolean> {
+    const { data: borrower, error } = await supabaseAdmin
+      .from('users')
+      .select('trust_score, is_verified')
+      .eq('id', borrowerId)
+      .single();
+
+    if (error || !borrower) {
+      return false;
+    }
+
+    if (item.instant_book_verified_only && !borrower.is_verified) {
+      return false;
+    }
+
+    if (item.instant_book_min_trust_score != null
+      && Number(borrower.trust_score ?? 0) < Number(item.instant_book_min_trust_score)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Re-run availability, rental duration limits and pricing for proposed booking dates
+   */
+  private async priceModification(
+    booking: any,
+    startDate: string,
+    endDate: string
+  ): Promise<ApiResponse<PriceBreakdown>> {
+    const availabilityCheck = await this.checkItemAvailability(booking.item_id, startDate, endDate, booking.id);
+    if (!availabilityCheck.success) {
+      return {
+        success: false,
+        error: availabilityCheck.error || 'Item not available for selected dates',
+      };
+    }
+
+    const totalDays = differenceInDays(parseISO(endDate), parseISO(startDate)) + 1;
+
+    if (booking.item && totalDays < booking.item.min_rental_days) {
+      return {
+        success: false,
+        error: `Minimum rental period is ${booking.item.min_rental_days} days`,
+      };
+    }
+
+    if (booking.item && totalDays > booking.item.max_rental_days) {
+      return {
+        success: false,
+        error: `Maximum rental period is ${booking.item.max_rental_days} days`,
+      };
+    }
+
+    // The daily rate and delivery fee agreed at booking time are kept for the new dates; pricing rules are re-applied
+    const pricing = await this.pricingService.priceItem(
+      {
+        id: booking.item_id,
+        category_id: booking.item?.category_id,
+        rent_price_per_day: booking.daily_rate,
+        security_amount: booking.security_amount,
+        delivery_fee: booking.delivery_fee,
+      },
+      startDate,
+      endDate,
+      booking.delivery_mode
+    );
+
+    // So does the promo code the booking was made with
+    const promo = booking.promo_code_id
+      ? await this.promoCodeService.reapply(booking.promo_code_id, pricing.totalRent)
+      : null;
+
+    return {
+      success: true,
+      data: promo ? PricingService.applyDiscount(pricing, promo) : pricing,
+    };
+  }
+
+  /**
+   * Hold, schedule or release the security deposit for a status change
+   */
+  private async applyDepositLifecycle(
+    bookingData: any,
+    status: BookingStatus,
+    updateData: Record<string, any>
+  ): Promise<void> {
+    try {
+      switch (status) {
+        case 'confirmed':
+          await this.securityDepositService.holdForBooking(bookingData);
+          break;
+        case 'completed':
+          await this.securityDepositService.scheduleRelease(bookingData.id, updateData.completed_at);
+          break;
+        case 'cancelled':
+          await this.securityDepositService.releaseForBooking(bookingData.id, 'Booking cancelled');
+          break;
+      }
+    } catch (error) {
+      // The status change already succeeded; deposit state is reconciled by the release job
+      console.error('Error applying deposit lifecycle:', error);
+    }
+  }
+
+  /**
+   * Give the party handing the item over its code: the borrower once confirmed, the lender once started
+   */
+  private async issueHandoverCode(bookingData: any, status: BookingStatus): Promise<void> {
+    try {
+      if (status === 'confirmed') {
+        await this.handoverService.issueCode(bookingData.id, 'pickup', bookingData.borrower_user_id);
+      } else if (status === 'inProgress') {
+        await this.handoverService.issueCode(bookingData.id, 'return', bookingData.lender_user_id);
+      }
+    } catch (error) {
+      // The holder is issued a code when they open it
+      console.error('Error issuing handover code:', error);
+    }
+  }
+
+  /**
+   * Refund the borrower's share of a cancelled booking's payment
+   */
+  private async refundCancellation(bookingData: any, breakdown: CancellationBreakdown): Promise<void> {
+    try {
+      // A held deposit is refunded by its own release; otherwise it goes back with the rent
+      const deposit = Array.isArray(bookingData.security_deposit)
+        ? bookingData.security_deposit[0]
+        : bookingData.security_deposit;
+      const amount = breakdown.rentRefund + breakdown.platformFeeRefund + (deposit ? 0 : breakdown.depositRefund);
+
+      if (amount <= 0) {
+        return;
+      }
+
+      const refund = await this.paymentService.refundBookingPayment(
+        bookingData.id,
+        amount,
+        `Booking cancelled by ${breakdown.cancelledBy} (${breakdown.policy} policy)`
+      );
+
+      if (!refund.success) {
+        console.warn(`Cancellation refund skipped for booking ${bookingData.id}: ${refund.error}`);
+      }
+    } catch (error) {
+      // The cancellation already succeeded; the refund can be retried from the stored breakdown
+      console.error('Error refunding cancelled booking:', error);
+    }
   }
 
   /**
@@ -559,6 +1711,24 @@ export class BookingService extends BaseService {
     return true;
   }
 
+  /**
+   * Group the bookings of a checkout by lender, in the order the lenders first appear
+   */
+  private static groupByLender(bookings: Booking[]): CheckoutLenderGroup[] {
+    const groups = new Map<string, CheckoutLenderGroup>();
+
+    for (const booking of bookings) {
+      const group = groups.get(booking.lenderUserId)
+        ?? { lenderUserId: booking.lenderUserId, bookingIds: [], totalAmount: 0 };
+
+      group.bookingIds.push(booking.id);
+      group.totalAmount = Math.round((group.totalAmount + Number(booking.totalAmount)) * 100) / 100;
+      groups.set(booking.lenderUserId, group);
+    }
+
+    return [...groups.values()];
+  }
+
   /**
    * Calculate average rating from array of ratings
    */
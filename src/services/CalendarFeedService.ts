@@ -0,0 +1,251 @@
+// Calendar feed service issuing tokenized iCalendar feeds for item bookings and user rentals
+
+import crypto from 'crypto';
+import { format, subMonths } from 'date-fns';
+import { BaseService } from './BaseService.js';
+import { BookingService } from './BookingService.js';
+import { ItemAvailabilityService } from './ItemAvailabilityService.js';
+import { supabaseAdmin } from '../utils/database.js';
+import { getApiBaseUrl } from '../utils/environment.js';
+import { buildCalendar, ICalEvent } from '../utils/ical.js';
+import { CalendarFeedLink } from '../types/calendar.js';
+import { ApiResponse } from '../types/common.js';
+
+export class CalendarFeedService extends BaseService {
+  private static readonly PAGE_SIZE = 100;
+  private static readonly HISTORY_MONTHS = 6;
+
+  private bookingService: BookingService;
+  private itemAvailabilityService: ItemAvailabilityService;
+
+  constructor() {
+    super('calendar_feed');
+    this.bookingService = new BookingService();
+    this.itemAvailabilityService = new ItemAvailabilityService();
+  }
+
+  /**
+   * Get (or issue) the feed URL of an item (owner only)
+   */
+  async getItemFeed(itemId: string, userId: string, rotate: boolean = false): Promise<ApiResponse<CalendarFeedLink>> {
+    try {
+      const { data: item, error } = await supabaseAdmin
+        .from('item')
+        .select('user_id')
+        .eq('id', itemId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return { success: false, error: 'Item not found' };
+        }
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (item.user_id !== userId) {
+        return { success: false, error: 'You do not have permission to access this item calendar' };
+      }
+
+      return {
+        success: true,
+        data: await this.issueFeed(userId, itemId, rotate),
+        ...(rotate && { message: 'Calendar feed URL rotated successfully' }),
+      };
+    } catch (error) {
+      console.error('Error getting item calendar feed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get (or issue) the feed URL of all bookings of a user
+   */
+  async getUserFeed(userId: string, rotate: boolean = false): Promise<ApiResponse<CalendarFeedLink>> {
+    try {
+      return {
+        success: true,
+        data: await this.issueFeed(userId, null, rotate),
+        ...(rotate && { message: 'Calendar feed URL rotated successfully' }),
+      };
+    } catch (error) {
+      console.error('Error getting user calendar feed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Render the iCalendar document of a feed token; null when the token is unknown
+   */
+  async renderFeed(token: string): Promise<string | null> {
+    try {
+      const { data: feed, error } = await supabaseAdmin
+        .from('calendar_feed')
+        .select('id, user_id, item_id')
+        .eq('token', token)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (!feed) {
+        return null;
+      }
+
+      return feed.item_id
+        ? await this.renderItemFeed(feed.item_id)
+        : await this.renderUserFeed(feed.user_id);
+    } catch (error) {
+      console.error('Error rendering calendar feed:', error);
+      throw error;
+    }
+  }
+
+  private async renderItemFeed(itemId: string): Promise<string | null> {
+    const { data: item, error } = await supabaseAdmin
+      .from('item')
+      .select('id, title, is_active')
+      .eq('id', itemId)
+      .single();
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!item.is_active) {
+      return null;
+    }
+
+    const [{ data: bookings, error: bookingError }, blackouts] = await Promise.all([
+      supabaseAdmin
+        .from('booking')
+        .select('id, start_date, end_date, booking_status, updated_at, borrower:borrower_user_id(full_name)')
+        .eq('item_id', itemId)
+        .in('booking_status', ['confirmed', 'in_progress'])
+        .order('start_date', { ascending: true }),
+      this.itemAvailabilityService.getBlackouts(itemId),
+    ]);
+
+    if (bookingError) {
+      throw new Error(`Database error: ${bookingError.message}`);
+    }
+
+    const events: ICalEvent[] = (bookings || []).map((booking: any) => ({
+      uid: `booking-${booking.id}@p2p`,
+      summary: `Booked: ${item.title}`,
+      description: booking.borrower?.full_name ? `Borrower: ${booking.borrower.full_name}` : undefined,
+      startDate: booking.start_date,
+      endDate: booking.end_date,
+      status: 'CONFIRMED',
+      lastModified: booking.updated_at,
+    }));
+
+    // Imported ranges are left out so platforms syncing both ways do not echo each other's events
+    for (const blackout of (blackouts.data || []).filter(b => !b.importId)) {
+      events.push({
+        uid: `blackout-${blackout.id}@p2p`,
+        summary: `Blocked: ${item.title}`,
+        description: blackout.reason,
+        startDate: blackout.startDate,
+        endDate: blackout.endDate ?? blackout.startDate,
+        recurringWeekdays: blackout.recurringWeekdays,
+        untilDate: blackout.recurringWeekdays ? blackout.endDate : undefined,
+        status: 'CONFIRMED',
+        lastModified: blackout.updatedAt,
+      });
+    }
+
+    return buildCalendar(item.title, events);
+  }
+
+  private async renderUserFeed(userId: string): Promise<string> {
+    const bookings: any[] = [];
+    const since = format(subMonths(new Date(), CalendarFeedService.HISTORY_MONTHS), 'yyyy-MM-dd');
+
+    for (let page = 1; ; page++) {
+      const result = await this.bookingService.getUserBookings(userId, {
+        dateRange: { start: since },
+        page,
+        limit: CalendarFeedService.PAGE_SIZE,
+      });
+
+      bookings.push(...result.data);
+
+      if (!result.pagination.hasNext) {
+        break;
+      }
+    }
+
+    const events: ICalEvent[] = bookings.map(booking => {
+      const isLender = booking.lenderUserId === userId;
+      const title = booking.item?.title ?? 'Item';
+      const counterparty = isLender ? booking.borrower?.fullName : booking.lender?.fullName;
+
+      return {
+        uid: `booking-${booking.id}@p2p`,
+        summary: isLender ? `Lending: ${title}` : `Renting: ${title}`,
+        description: counterparty ? `${isLender ? 'Borrower' : 'Lender'}: ${counterparty}` : undefined,
+        startDate: booking.startDate,
+        endDate: booking.endDate,
+        status: CalendarFeedService.eventStatus(booking.bookingStatus),
+        lastModified: booking.updatedAt,
+      };
+    });
+
+    return buildCalendar('My rentals', events);
+  }
+
+  private static eventStatus(bookingStatus: string): ICalEvent['status'] {
+    if (bookingStatus === 'pending') {
+      return 'TENTATIVE';
+    }
+    return bookingStatus === 'cancelled' ? 'CANCELLED' : 'CONFIRMED';
+  }
+
+  /**
+   * Return the existing feed, creating it on first use or replacing its token on rotation
+   */
+  private async issueFeed(userId: string, itemId: string | null, rotate: boolean): Promise<CalendarFeedLink> {
+    let query = supabaseAdmin
+      .from('calendar_feed')
+      .select('*')
+      .eq('user_id', userId);
+
+    query = itemId ? query.eq('item_id', itemId) : query.is('item_id', null);
+
+    const { data: existing, error } = await query.maybeSingle();
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    let feed = existing;
+
+    if (!feed || rotate) {
+      const token = crypto.randomBytes(24).toString('hex');
+      const { data, error: saveError } = feed
+        ? await supabaseAdmin
+            .from('calendar_feed')
+            .update({ token })
+            .eq('id', feed.id)
+            .select()
+            .single()
+        : await supabaseAdmin
+            .from('calendar_feed')
+            .insert({ user_id: userId, item_id: itemId, token })
+            .select()
+            .single();
+
+      if (saveError) {
+        throw new Error(`Database error: ${saveError.message}`);
+      }
+
+      feed = data;
+    }
+
+    return {
+      url: `${getApiBaseUrl()}/api/calendar-feeds/${feed.token}.ics`,
+      issuedAt: feed.updated_at,
+    };
+  }
+}
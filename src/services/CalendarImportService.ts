@@ -0,0 +1,418 @@
+// Calendar import service syncing external iCalendar feeds into item blackouts
+
+import http, { IncomingMessage } from 'node:http';
+import https from 'node:https';
+import { LookupAddress } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { BlockList, LookupFunction } from 'node:net';
+import { format } from 'date-fns';
+import { BaseService } from './BaseService.js';
+import { ItemAvailabilityService } from './ItemAvailabilityService.js';
+import { supabaseAdmin } from '../utils/database.js';
+import { parseCalendar } from '../utils/ical.js';
+import { CalendarImport, CreateCalendarImportDto } from '../types/calendar.js';
+import { ApiResponse } from '../types/common.js';
+import { DataMapper } from '../utils/mappers.js';
+
+// Addresses calendar URLs may not resolve to; BlockList also matches IPv4-mapped IPv6 (::ffff:7f00:1) against IPv4 ranges
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export class CalendarImportService extends BaseService {
+  private static readonly FETCH_TIMEOUT_MS = 10000;
+  private static readonly MAX_CALENDAR_BYTES = 2 * 1024 * 1024;
+  private static readonly MAX_BLOCKED_RANGES = 500;
+  private static readonly MAX_REDIRECTS = 3;
+
+  constructor() {
+    super('item_calendar_import');
+  }
+
+  /**
+   * List the external calendars of an item (owner only)
+   */
+  async getImports(itemId: string, userId: string): Promise<ApiResponse<CalendarImport[]>> {
+    try {
+      const ownershipError = await ItemAvailabilityService.getOwnershipError(itemId, userId);
+      if (ownershipError) {
+        return { success: false, error: ownershipError };
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from('item_calendar_import')
+        .select('*')
+        .eq('item_id', itemId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      return {
+        success: true,
+        data: DataMapper.toCamelCase(data || []),
+      };
+    } catch (error) {
+      console.error('Error getting calendar imports:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Register an external calendar URL, or import an uploaded .ics file once (owner only)
+   */
+  async createImport(
+    itemId: string,
+    userId: string,
+    importData: CreateCalendarImportDto,
+    file?: Express.Multer.File
+  ): Promise<ApiResponse<CalendarImport>> {
+    try {
+      const ownershipError = await ItemAvailabilityService.getOwnershipError(itemId, userId);
+      if (ownershipError) {
+        return { success: false, error: ownershipError };
+      }
+
+      let ics: string;
+      let sourceUrl: string | null = null;
+
+      if (file) {
+        ics = file.buffer.toString('utf8');
+      } else if (importData.url) {
+        sourceUrl = importData.url.replace(/^webcals?:/i, 'https:');
+
+        try {
+          ics = await this.fetchCalendar(sourceUrl);
+        } catch (error: any) {
+          return { success: false, error: `Could not fetch calendar: ${error.message}` };
+        }
+      } else {
+        return { success: false, error: 'A calendar URL or .ics file is required' };
+      }
+
+      if (!ics.includes('BEGIN:VCALENDAR')) {
+        return { success: false, error: 'Not a valid iCalendar file' };
+      }
+
+      const created = await this.create({
+        itemId,
+        name: importData.name ?? file?.originalname ?? new URL(sourceUrl!).hostname,
+        sourceUrl,
+        blockedRangeCount: 0,
+      });
+
+      if (!created.success || !created.data) {
+        return created;
+      }
+
+      return await this.applyCalendar(created.data, ics);
+    } catch (error) {
+      console.error('Error creating calendar import:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Re-fetch an external calendar now (owner only)
+   */
+  async syncImport(itemId: string, importId: string, userId: string): Promise<ApiResponse<CalendarImport>> {
+    try {
+      const found = await this.findOwnedImport(itemId, importId, userId);
+      if (!found.success || !found.data) {
+        return found;
+      }
+
+      if (!found.data.sourceUrl) {
+        return { success: false, error: 'Uploaded calendars cannot be refreshed; upload the file again' };
+      }
+
+      return await this.refresh(found.data);
+    } catch (error) {
+      console.error('Error syncing calendar import:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove an external calendar and the dates it blocked (owner only)
+   */
+  async deleteImport(itemId: string, importId: string, userId: string): Promise<ApiResponse<null>> {
+    try {
+      const found = await this.findOwnedImport(itemId, importId, userId);
+      if (!found.success) {
+        return { success: false, error: found.error! };
+      }
+
+      // Blocked ranges cascade with the import
+      const { error } = await supabaseAdmin
+        .from('item_calendar_import')
+        .delete()
+        .eq('id', importId);
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      return {
+        success: true,
+        data: null,
+        message: 'Calendar import removed successfully',
+      };
+    } catch (error) {
+      console.error('Error deleting calendar import:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Refresh every URL-based import; failures are recorded on the import and do not stop the run
+   */
+  async syncAllImports(): Promise<{ synced: number; failed: number }> {
+    const { data, error } = await supabaseAdmin
+      .from('item_calendar_import')
+      .select('*')
+      .not('source_url', 'is', null);
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    let synced = 0;
+    let failed = 0;
+
+    for (const row of data || []) {
+      try {
+        const result = await this.refresh(DataMapper.toCamelCase(row) as CalendarImport);
+        if (result.success) {
+          synced++;
+        } else {
+          failed++;
+        }
+      } catch (syncError) {
+        console.error(`Calendar import ${row.id} sync failed:`, syncError);
+        failed++;
+      }
+    }
+
+    return { synced, failed };
+  }
+
+  private async refresh(calendarImport: CalendarImport): Promise<ApiResponse<CalendarImport>> {
+    let ics: string;
+
+    try {
+      ics = await this.fetchCalendar(calendarImport.sourceUrl!);
+    } catch (error: any) {
+      // Keep the previously synced ranges so a flaky source does not free up taken dates
+      await this.update(calendarImport.id, { lastSyncError: error.message });
+      return { success: false, error: `Could not fetch calendar: ${error.message}` };
+    }
+
+    return this.applyCalendar(calendarImport, ics);
+  }
+
+  /**
+   * Replace the blackouts of an import with the upcoming busy events of a calendar
+   */
+  private async applyCalendar(calendarImport: CalendarImport, ics: string): Promise<ApiResponse<CalendarImport>> {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const ranges = parseCalendar(ics)
+      .filter(event => event.endDate >= today)
+      .sort((a, b) => a.startDate.localeCompare(b.startDate))
+      .slice(0, CalendarImportService.MAX_BLOCKED_RANGES);
+
+    // Insert the new ranges before dropping the old ones, so the dates are never briefly free
+    let keptIds: string[] = [];
+    if (ranges.length > 0) {
+      const { data: inserted, error: insertError } = await supabaseAdmin
+        .from('item_blackout')
+        .insert(ranges.map(range => ({
+          item_id: calendarImport.itemId,
+          import_id: calendarImport.id,
+          start_date: range.startDate,
+          end_date: range.endDate,
+          reason: (range.summary || calendarImport.name).slice(0, 255),
+        })))
+        .select('id');
+
+      if (insertError) {
+        throw new Error(`Database error: ${insertError.message}`);
+      }
+
+      keptIds = (inserted || []).map(blackout => blackout.id);
+    }
+
+    let staleQuery = supabaseAdmin
+      .from('item_blackout')
+      .delete()
+      .eq('import_id', calendarImport.id);
+
+    if (keptIds.length > 0) {
+      staleQuery = staleQuery.not('id', 'in', `(${keptIds.join(',')})`);
+    }
+
+    const { error: deleteError } = await staleQuery;
+
+    if (deleteError) {
+      throw new Error(`Database error: ${deleteError.message}`);
+    }
+
+    const updated = await this.update(calendarImport.id, {
+      lastSyncedAt: new Date().toISOString(),
+      lastSyncError: null,
+      blockedRangeCount: ranges.length,
+    });
+
+    return {
+      ...updated,
+      message: `Blocked ${ranges.length} date range(s) from ${calendarImport.name}`,
+    };
+  }
+
+  /**
+   * Download a calendar, following a few redirects as long as they stay on public hosts
+   */
+  private async fetchCalendar(url: string): Promise<string> {
+    const signal = AbortSignal.timeout(CalendarImportService.FETCH_TIMEOUT_MS);
+    let target = url;
+
+    for (let redirects = 0; redirects <= CalendarImportService.MAX_REDIRECTS; redirects++) {
+      const parsed = new URL(target);
+      if (!['http:', 'https:'].includes(parsed.protocol)) {
+        throw new Error('Calendar URL must be a public http(s) address');
+      }
+
+      const addresses = await CalendarImportService.resolvePublicAddresses(parsed.hostname);
+      const response = await CalendarImportService.request(parsed, addresses, signal);
+      const status = response.statusCode ?? 0;
+
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        response.resume();
+        target = new URL(location, target).toString();
+        continue;
+      }
+
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new Error(`HTTP ${status}`);
+      }
+
+      return await CalendarImportService.readBody(response);
+    }
+
+    throw new Error('Too many redirects');
+  }
+
+  /**
+   * Resolve a host and reject it when any of its addresses is loopback, private, link-local or otherwise internal
+   */
+  private static async resolvePublicAddresses(hostname: string): Promise<LookupAddress[]> {
+    const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+    if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) {
+      throw new Error('Calendar URL must be a public http(s) address');
+    }
+
+    let addresses: LookupAddress[];
+    try {
+      addresses = await lookup(host, { all: true, verbatim: true });
+    } catch {
+      throw new Error(`Could not resolve ${host}`);
+    }
+
+    const isPrivate = (address: LookupAddress) =>
+      PRIVATE_ADDRESSES.check(address.address, address.family === 6 ? 'ipv6' : 'ipv4');
+
+    if (addresses.length === 0 || addresses.some(isPrivate)) {
+      throw new Error('Calendar URL must be a public http(s) address');
+    }
+
+    return addresses;
+  }
+
+  /**
+   * GET a URL connecting only to the addresses that were checked, so DNS cannot be re-pointed in between
+   */
+  private static request(url: URL, addresses: LookupAddress[], signal: AbortSignal): Promise<IncomingMessage> {
+    const pinnedLookup = ((_hostname, options, callback) => {
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0]!.address, addresses[0]!.family);
+      }
+    }) as LookupFunction;
+
+    const client = url.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      client
+        .get(url, { headers: { Accept: 'text/calendar' }, lookup: pinnedLookup, signal }, resolve)
+        .on('error', reject);
+    });
+  }
+
+  /**
+   * Read a response body, aborting as soon as it grows past the size limit
+   */
+  private static async readBody(response: IncomingMessage): Promise<string> {
+    const tooLarge = () => {
+      response.destroy();
+      return new Error('Calendar is too large');
+    };
+
+    if (Number(response.headers['content-length'] ?? 0) > CalendarImportService.MAX_CALENDAR_BYTES) {
+      throw tooLarge();
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of response) {
+      size += chunk.length;
+      if (size > CalendarImportService.MAX_CALENDAR_BYTES) {
+        throw tooLarge();
+      }
+      chunks.push(chunk);
+    }
+
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  private async findOwnedImport(itemId: string, importId: string, userId: string): Promise<ApiResponse<CalendarImport>> {
+    const ownershipError = await ItemAvailabilityService.getOwnershipError(itemId, userId);
+    if (ownershipError) {
+      return { success: false, error: ownershipError };
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('item_calendar_import')
+      .select('*')
+      .eq('id', importId)
+      .eq('item_id', itemId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!data) {
+      return { success: false, error: 'Calendar import not found' };
+    }
+
+    return {
+      success: true,
+      data: DataMapper.toCamelCase(data),
+    };
+  }
+}
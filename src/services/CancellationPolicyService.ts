@@ -0,0 +1,79 @@
+// Cancellation policy service computing refunds for cancelled bookings
+
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { CancellationBreakdown } from '../types/booking.js';
+import { CancellationPolicy } from '../types/common.js';
+
+type PolicyRule = {
+  cutoffDays: number;
+  refundBeforeCutoff: number;
+  refundAfterCutoff: number;
+};
+
+type CancellableBooking = {
+  booking_status: string;
+  start_date: string;
+  total_rent: number;
+  platform_fee?: number | null;
+  security_amount?: number | null;
+};
+
+export class CancellationPolicyService {
+  private static readonly rules: Record<CancellationPolicy, PolicyRule> = {
+    flexible: { cutoffDays: 1, refundBeforeCutoff: 100, refundAfterCutoff: 50 },
+    moderate: { cutoffDays: 5, refundBeforeCutoff: 100, refundAfterCutoff: 50 },
+    strict: { cutoffDays: 14, refundBeforeCutoff: 50, refundAfterCutoff: 0 },
+  };
+
+  /**
+   * Resolve a stored policy value, falling back to flexible for unknown values
+   */
+  static resolvePolicy(policy?: string | null): CancellationPolicy {
+    return policy && policy in this.rules ? policy as CancellationPolicy : 'flexible';
+  }
+
+  /**
+   * Compute the refund owed to the borrower and the lender's share when a booking is cancelled
+   */
+  static calculateRefund(
+    booking: CancellableBooking,
+    item: { cancellation_policy?: string | null; cancellation_cutoff_days?: number | null } | null | undefined,
+    cancelledBy: 'lender' | 'borrower',
+    cancelledAt: Date = new Date()
+  ): CancellationBreakdown {
+    const policy = this.resolvePolicy(item?.cancellation_policy);
+    const rule = this.rules[policy];
+    const cutoffDays = item?.cancellation_cutoff_days ?? rule.cutoffDays;
+    const daysBeforeStart = differenceInCalendarDays(parseISO(booking.start_date), cancelledAt);
+
+    const totalRent = Number(booking.total_rent ?? 0);
+    const platformFee = Number(booking.platform_fee ?? 0);
+    const deposit = Number(booking.security_amount ?? 0);
+
+    // Lender cancellations and unconfirmed requests are always refunded in full
+    let refundPercentage = 100;
+    if (cancelledBy === 'borrower' && booking.booking_status !== 'pending') {
+      refundPercentage = daysBeforeStart >= cutoffDays ? rule.refundBeforeCutoff : rule.refundAfterCutoff;
+    }
+
+    const rentRefund = this.round(totalRent * refundPercentage / 100);
+    const platformFeeRefund = refundPercentage === 100 ? platformFee : 0;
+
+    return {
+      policy,
+      cutoffDays,
+      cancelledBy,
+      daysBeforeStart,
+      refundPercentage,
+      rentRefund,
+      platformFeeRefund,
+      depositRefund: deposit,
+      refundAmount: this.round(rentRefund + platformFeeRefund + deposit),
+      lenderCompensation: this.round(totalRent - rentRefund),
+    };
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,230 @@
+// Cart service collecting items a borrower books together and checking them out as one group
+
+import { BaseService } from './BaseService.js';
+import { BookingService } from './BookingService.js';
+import { supabaseAdmin } from '../utils/database.js';
+import { AddCartItemDto, Cart, CartItem, CheckoutCartDto } from '../types/cart.js';
+import { BookingCheckout, CheckoutLine } from '../types/booking.js';
+import { ApiResponse } from '../types/common.js';
+import { DataMapper } from '../utils/mappers.js';
+
+export class CartService extends BaseService {
+  private static readonly MAX_CART_ITEMS = 20;
+
+  private bookingService: BookingService;
+
+  constructor() {
+    super('cart_item');
+    this.bookingService = new BookingService();
+  }
+
+  /**
+   * Get the cart priced and validated as it would be checked out now
+   */
+  async getCart(userId: string): Promise<ApiResponse<Cart>> {
+    try {
+      const items = await this.getCartItems(userId);
+      const review = await this.bookingService.reviewCheckout(userId, items.map(CartService.toCheckoutLine));
+
+      return {
+        success: true,
+        data: {
+          items: items.map(item => {
+            const priced = review.lines.find(line => line.cartItemId === item.id);
+            const issue = review.issues.find(line => line.cartItemId === item.id);
+            return {
+              ...item,
+              ...(priced && { priceBreakdown: priced.priceBreakdown }),
+              ...(issue && { issue: issue.error }),
+            };
+          }),
+          totalAmount: review.totalAmount,
+          issues: review.issues,
+        },
+      };
+    } catch (error) {
+      console.error('Error getting cart:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add an item and dates to the cart; the booking itself is validated when the cart is read or checked out
+   */
+  async addItem(userId: string, cartItemData: AddCartItemDto): Promise<ApiResponse<CartItem>> {
+    try {
+      const { data: item, error: itemError } = await supabaseAdmin
+        .from('item')
+        .select('id, user_id')
+        .eq('id', cartItemData.itemId)
+        .eq('is_active', true)
+        .maybeSingle();
+
+      if (itemError) {
+        throw new Error(`Database error: ${itemError.message}`);
+      }
+
+      if (!item) {
+        return { success: false, error: 'Item not found or not available' };
+      }
+
+      if (item.user_id === userId) {
+        return { success: false, error: 'You cannot book your own item' };
+      }
+
+      const { count, error: countError } = await supabaseAdmin
+        .from('cart_item')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId);
+
+      if (countError) {
+        throw new Error(`Database error: ${countError.message}`);
+      }
+
+      if ((count || 0) >= CartService.MAX_CART_ITEMS) {
+        return { success: false, error: `A cart can hold at most ${CartService.MAX_CART_ITEMS} items` };
+      }
+
+      const result = await this.create({
+        ...cartItemData,
+        userId,
+        deliveryMode: cartItemData.deliveryMode ?? 'none',
+      });
+
+      return {
+        ...result,
+        message: 'Item added to cart',
+      };
+    } catch (error) {
+      console.error('Error adding cart item:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove an item from the cart
+   */
+  async removeItem(userId: string, cartItemId: string): Promise<ApiResponse<null>> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('cart_item')
+        .delete()
+        .eq('id', cartItemId)
+        .eq('user_id', userId)
+        .select('id');
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (!data || data.length === 0) {
+        return { success: false, error: 'Cart item not found' };
+      }
+
+      return {
+        success: true,
+        data: null,
+        message: 'Item removed from cart',
+      };
+    } catch (error) {
+      console.error('Error removing cart item:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Empty the cart
+   */
+  async clearCart(userId: string): Promise<ApiResponse<null>> {
+    try {
+      await this.deleteCartItems(userId);
+
+      return {
+        success: true,
+        data: null,
+        message: 'Cart cleared',
+      };
+    } catch (error) {
+      console.error('Error clearing cart:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Book the cart, or the selected cart items, as one checkout; the booked items leave the cart
+   */
+  async checkout(userId: string, checkoutData: CheckoutCartDto): Promise<ApiResponse<BookingCheckout>> {
+    try {
+      const items = await this.getCartItems(userId, checkoutData.cartItemIds);
+
+      if (items.length === 0) {
+        return { success: false, error: 'Your cart is empty' };
+      }
+
+      if (checkoutData.cartItemIds && items.length !== new Set(checkoutData.cartItemIds).size) {
+        return { success: false, error: 'Cart item not found' };
+      }
+
+      const result = await this.bookingService.createCheckout(userId, items.map(CartService.toCheckoutLine));
+
+      if (result.success) {
+        await this.deleteCartItems(userId, items.map(item => item.id));
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Error checking out cart:', error);
+      throw error;
+    }
+  }
+
+  private async getCartItems(userId: string, cartItemIds?: string[]): Promise<CartItem[]> {
+    let query = supabaseAdmin
+      .from('cart_item')
+      .select('*, item:item_id(id, title, user_id)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (cartItemIds) {
+      query = query.in('id', cartItemIds);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return DataMapper.toCamelCase(data || []);
+  }
+
+  private async deleteCartItems(userId: string, cartItemIds?: string[]): Promise<void> {
+    let query = supabaseAdmin
+      .from('cart_item')
+      .delete()
+      .eq('user_id', userId);
+
+    if (cartItemIds) {
+      query = query.in('id', cartItemIds);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+  }
+
+  private static toCheckoutLine(item: CartItem): CheckoutLine {
+    return {
+      cartItemId: item.id,
+      itemId: item.itemId,
+      startDate: item.startDate,
+      endDate: item.endDate,
+      deliveryMode: item.deliveryMode,
+      ...(item.pickupLocation && { pickupLocation: item.pickupLocation }),
+      ...(item.deliveryLocation && { deliveryLocation: item.deliveryLocation }),
+      ...(item.specialInstructions && { specialInstructions: item.specialInstructions }),
+    };
+  }
+}
@@ -0,0 +1,437 @@
+// Dispute service handling raise, statements and admin resolution of disputed bookings
+
+import { BaseService } from './BaseService.js';
+import { BookingHistoryService } from './BookingHistoryService.js';
+import { FileUploadService } from './FileUploadService.js';
+import { PaymentService } from './PaymentService.js';
+import { SecurityDepositService } from './SecurityDepositService.js';
+import { NotificationService } from './NotificationService.js';
+import { UserService } from './UserService.js';
+import { supabaseAdmin } from '../utils/database.js';
+import {
+  BookingDispute,
+  DisputeStatement,
+  RaiseDisputeDto,
+  AddDisputeStatementDto,
+  ResolveDisputeDto,
+} from '../types/booking.js';
+import { ApiResponse, PaginatedResponse, DisputeStatus } from '../types/common.js';
+import { DataMapper } from '../utils/mappers.js';
+
+export const DISPUTE_EXISTS_ERROR = 'A dispute has already been raised for this booking';
+
+export class DisputeService extends BaseService {
+  private static readonly DUPLICATE_ERROR_CODE = '23505';
+  private static readonly STATUS_ERROR_CODE = 'P0001';
+
+  private bookingHistoryService: BookingHistoryService;
+  private paymentService: PaymentService;
+  private securityDepositService: SecurityDepositService;
+  private notificationService: NotificationService;
+
+  constructor() {
+    super('booking_dispute');
+    this.bookingHistoryService = new BookingHistoryService();
+    this.paymentService = new PaymentService();
+    this.securityDepositService = new SecurityDepositService();
+    this.notificationService = new NotificationService();
+  }
+
+  /**
+   * Raise a dispute on an in-progress booking (lender or borrower)
+   */
+  async raiseDispute(
+    bookingId: string,
+    userId: string,
+    disputeData: RaiseDisputeDto,
+    files: Express.Multer.File[] = []
+  ): Promise<ApiResponse<BookingDispute>> {
+    try {
+      const { data: booking, error } = await supabaseAdmin
+        .from('booking')
+        .select('id, lender_user_id, borrower_user_id, booking_status')
+        .eq('id', bookingId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return { success: false, error: 'Booking not found' };
+        }
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (booking.lender_user_id !== userId && booking.borrower_user_id !== userId) {
+        return { success: false, error: 'You are not authorized to dispute this booking' };
+      }
+
+      const { data: existing, error: existingError } = await supabaseAdmin
+        .from('booking_dispute')
+        .select('id')
+        .eq('booking_id', bookingId)
+        .maybeSingle();
+
+      if (existingError) {
+        throw new Error(`Database error: ${existingError.message}`);
+      }
+
+      if (existing) {
+        return { success: false, error: DISPUTE_EXISTS_ERROR };
+      }
+
+      if (booking.booking_status !== 'in_progress') {
+        return { success: false, error: 'Disputes can only be raised on in-progress bookings' };
+      }
+
+      // Evidence is uploaded first so the dispute, its evidence and the status change commit together
+      const uploaded = files.length > 0
+        ? await FileUploadService.uploadMultipleFiles(files, userId, { filePath: 'disputes', isPublic: false })
+        : [];
+
+      const { data: created, error: raiseError } = await supabaseAdmin.rpc('raise_dispute', {
+        p_booking_id: bookingId,
+        p_raised_by: userId,
+        p_reason: disputeData.reason,
+        p_evidence_file_ids: uploaded.map(file => file.id),
+      });
+
+      if (raiseError) {
+        await this.discardUploads(uploaded.map(file => file.id), userId);
+
+        if (raiseError.code === DisputeService.DUPLICATE_ERROR_CODE) {
+          return { success: false, error: DISPUTE_EXISTS_ERROR };
+        }
+        if (raiseError.code === DisputeService.STATUS_ERROR_CODE) {
+          return { success: false, error: raiseError.message };
+        }
+        throw new Error(`Database error: ${raiseError.message}`);
+      }
+
+      await this.bookingHistoryService.recordTransition(
+        bookingId,
+        'inProgress',
+        'disputed',
+        userId,
+        disputeData.reason
+      );
+
+      await this.notificationService.notifyBooking(bookingId, 'bookingDisputed', {
+        actorUserId: userId,
+        reason: disputeData.reason,
+        includeAdmins: true,
+      });
+
+      return {
+        success: true,
+        data: DataMapper.toCamelCase(created),
+        message: 'Dispute raised successfully',
+      };
+    } catch (error) {
+      console.error('Error raising dispute:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the dispute of a booking with its statements, evidence and the booking's handover reports
+   */
+  async getDisputeForBooking(bookingId: string, userId: string): Promise<ApiResponse<BookingDispute>> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('booking_dispute')
+        .select(`
+          *,
+          booking:booking_id(
+            id, lender_user_id, borrower_user_id, booking_status,
+            handover_reports:handover_report(*)
+          ),
+          statements:dispute_statement(
+            *,
+            author:author_id(id, full_name, avatar_url)
+          ),
+          evidence:dispute_evidence(
+            *,
+            file:file_id(id, url, original_name, mime_type)
+          )
+        `)
+        .eq('booking_id', bookingId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (!data) {
+        return { success: false, error: 'Dispute not found' };
+      }
+
+      if (!(await this.canAccess(data.booking, userId))) {
+        return { success: false, error: 'You are not authorized to view this dispute' };
+      }
+
+      data.statements?.sort((a: any, b: any) => a.created_at.localeCompare(b.created_at));
+
+      return {
+        success: true,
+        data: DataMapper.toCamelCase(data),
+      };
+    } catch (error) {
+      console.error('Error getting dispute:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a statement (with optional evidence) to an open dispute
+   */
+  async addStatement(
+    bookingId: string,
+    userId: string,
+    statementData: AddDisputeStatementDto,
+    files: Express.Multer.File[] = []
+  ): Promise<ApiResponse<DisputeStatement>> {
+    try {
+      const { data: dispute, error } = await supabaseAdmin
+        .from('booking_dispute')
+        .select('id, dispute_status, booking:booking_id(lender_user_id, borrower_user_id)')
+        .eq('booking_id', bookingId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (!dispute) {
+        return { success: false, error: 'Dispute not found' };
+      }
+
+      if (!(await this.canAccess(dispute.booking, userId))) {
+        return { success: false, error: 'You are not authorized to add statements to this dispute' };
+      }
+
+      if (dispute.dispute_status !== 'open') {
+        return { success: false, error: 'This dispute has already been resolved' };
+      }
+
+      const { data: statement, error: insertError } = await supabaseAdmin
+        .from('dispute_statement')
+        .insert({
+          dispute_id: dispute.id,
+          author_id: userId,
+          message: statementData.message,
+        })
+        .select()
+        .single();
+
+      if (insertError) {
+        throw new Error(`Database error: ${insertError.message}`);
+      }
+
+      await this.attachEvidence(dispute.id, statement.id, userId, files);
+
+      return {
+        success: true,
+        data: DataMapper.toCamelCase(statement),
+        message: 'Statement added successfully',
+      };
+    } catch (error) {
+      console.error('Error adding dispute statement:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List disputes for the admin queue
+   */
+  async listDisputes(
+    status: DisputeStatus | undefined,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<PaginatedResponse<BookingDispute>> {
+    return this.findAll({
+      page,
+      limit,
+      filters: { dispute_status: status },
+      orderBy: 'created_at',
+      orderDirection: 'asc',
+    });
+  }
+
+  /**
+   * Resolve a dispute: close the booking, split the deposit and refund rent (admin only)
+   */
+  async resolveDispute(
+    disputeId: string,
+    adminId: string,
+    resolution: ResolveDisputeDto
+  ): Promise<ApiResponse<BookingDispute>> {
+    try {
+      const { data: dispute, error } = await supabaseAdmin
+        .from('booking_dispute')
+        .select('*, booking:booking_id(id, item_id, booking_status, total_rent)')
+        .eq('id', disputeId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return { success: false, error: 'Dispute not found' };
+        }
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (dispute.dispute_status !== 'open') {
+        return { success: false, error: 'This dispute has already been resolved' };
+      }
+
+      if (resolution.rentRefund > Number(dispute.booking.total_rent)) {
+        return { success: false, error: `Rent refund cannot exceed the rent of ${dispute.booking.total_rent}` };
+      }
+
+      const deposit = await this.securityDepositService.getByBookingId(dispute.booking_id);
+      const depositOpen = deposit && ['held', 'claimed'].includes(deposit.depositStatus);
+
+      if (resolution.depositDeduction > 0 && !depositOpen) {
+        return { success: false, error: 'This booking has no open security deposit to deduct from' };
+      }
+
+      if (depositOpen && resolution.depositDeduction > Number(deposit.amount)) {
+        return { success: false, error: `Deduction cannot exceed the deposit of ${deposit.amount}` };
+      }
+
+      // Claim the dispute before touching the booking or money, so a concurrent resolution stops here
+      const now = new Date().toISOString();
+      const { data: claimed, error: claimError } = await supabaseAdmin
+        .from('booking_dispute')
+        .update({
+          dispute_status: 'resolved',
+          outcome: resolution.outcome,
+          deposit_deduction: depositOpen ? resolution.depositDeduction : 0,
+          rent_refund: resolution.rentRefund,
+          resolution_note: resolution.note,
+          resolved_by: adminId,
+          resolved_at: now,
+        })
+        .eq('id', disputeId)
+        .eq('dispute_status', 'open')
+        .select('id')
+        .maybeSingle();
+
+      if (claimError) {
+        throw new Error(`Database error: ${claimError.message}`);
+      }
+
+      if (!claimed) {
+        return { success: false, error: 'This dispute has already been resolved' };
+      }
+
+      const { error: statusError } = await supabaseAdmin
+        .from('booking')
+        .update({
+          booking_status: resolution.outcome,
+          ...(resolution.outcome === 'completed' ? { completed_at: now } : { cancelled_at: now }),
+        })
+        .eq('id', dispute.booking_id)
+        .eq('booking_status', 'disputed');
+
+      if (statusError) {
+        throw new Error(`Database error: ${statusError.message}`);
+      }
+
+      await supabaseAdmin
+        .from('item')
+        .update({ status: 'available' })
+        .eq('id', dispute.booking.item_id);
+
+      await this.bookingHistoryService.recordTransition(
+        dispute.booking_id,
+        'disputed',
+        resolution.outcome,
+        adminId,
+        resolution.note
+      );
+
+      let depositRefund = 0;
+      if (depositOpen) {
+        const settled = await this.securityDepositService.settleDeposit(
+          deposit,
+          resolution.depositDeduction,
+          `Dispute resolution: ${resolution.note}`
+        );
+        depositRefund = Number(settled.data?.refundedAmount ?? 0);
+      }
+
+      if (resolution.rentRefund > 0) {
+        const refund = await this.paymentService.refundBookingPayment(
+          dispute.booking_id,
+          resolution.rentRefund,
+          'Dispute resolution'
+        );
+        if (!refund.success) {
+          console.warn(`Dispute rent refund skipped for booking ${dispute.booking_id}: ${refund.error}`);
+        }
+      }
+
+      const resolved = await this.update(disputeId, { depositRefund });
+
+      await this.notificationService.notifyBooking(dispute.booking_id, 'disputeResolved', { reason: resolution.note });
+
+      return resolved;
+    } catch (error) {
+      console.error('Error resolving dispute:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Upload evidence files and link them to the dispute (and statement, if any)
+   */
+  private async attachEvidence(
+    disputeId: string,
+    statementId: string | null,
+    userId: string,
+    files: Express.Multer.File[]
+  ): Promise<void> {
+    if (files.length === 0) {
+      return;
+    }
+
+    const uploaded = await FileUploadService.uploadMultipleFiles(files, userId, {
+      filePath: 'disputes',
+      isPublic: false,
+    });
+
+    const { error } = await supabaseAdmin
+      .from('dispute_evidence')
+      .insert(uploaded.map(file => ({
+        dispute_id: disputeId,
+        statement_id: statementId,
+        file_id: file.id,
+        uploaded_by: userId,
+      })));
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+  }
+
+  // Best effort: files of a dispute that was not recorded are not referenced anywhere
+  private async discardUploads(fileIds: string[], userId: string): Promise<void> {
+    for (const fileId of fileIds) {
+      try {
+        await FileUploadService.deleteFile(fileId, userId);
+      } catch (error) {
+        console.error(`Failed to discard dispute evidence file ${fileId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Booking parties and admins can read and argue a dispute
+   */
+  private async canAccess(booking: any, userId: string): Promise<boolean> {
+    if (booking && (booking.lender_user_id === userId || booking.borrower_user_id === userId)) {
+      return true;
+    }
+
+    return UserService.isAdmin(userId);
+  }
+}
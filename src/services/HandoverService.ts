@@ -0,0 +1,433 @@
+// Handover service recording the item's condition at pickup and return, signed off by both parties
+
+import crypto from 'crypto';
+import { addHours } from 'date-fns';
+import { BaseService } from './BaseService.js';
+import { FileUploadService } from './FileUploadService.js';
+import { UserService } from './UserService.js';
+import { supabaseAdmin } from '../utils/database.js';
+import { FileHandoverReportDto, HandoverCode, HandoverReport } from '../types/booking.js';
+import { ApiResponse, HandoverType } from '../types/common.js';
+import { DataMapper } from '../utils/mappers.js';
+
+// Booking status a handover happens in: pickup before the rental starts, return before it completes
+const HANDOVER_BOOKING_STATUS: Record<HandoverType, string> = {
+  pickup: 'confirmed',
+  return: 'in_progress',
+};
+
+export const HANDOVER_CODE_LOCKED_ERROR = 'Too many wrong handover codes; ask for a new code';
+
+export class HandoverService extends BaseService {
+  constructor() {
+    super('handover_report');
+  }
+
+  /**
+   * Hours a handover code stays valid; the holder gets a fresh code when opening an expired one
+   */
+  static getCodeTtlHours(): number {
+    const hours = Number(process.env.HANDOVER_CODE_TTL_HOURS ?? 24);
+    return Number.isFinite(hours) && hours > 0 ? hours : 24;
+  }
+
+  /**
+   * Wrong submissions allowed before a handover code stops working
+   */
+  static getCodeMaxAttempts(): number {
+    const attempts = Number(process.env.HANDOVER_CODE_MAX_ATTEMPTS ?? 5);
+    return Number.isInteger(attempts) && attempts > 0 ? attempts : 5;
+  }
+
+  /**
+   * File (or revise) the pickup or return report of a booking; the reporting party signs it and
+   * any earlier sign-off by the other party is cleared
+   */
+  async fileReport(
+    bookingId: string,
+    userId: string,
+    handoverType: HandoverType,
+    reportData: FileHandoverReportDto,
+    files: Express.Multer.File[] = []
+  ): Promise<ApiResponse<HandoverReport>> {
+    try {
+      const booking = await this.getOpenBooking(bookingId, userId, handoverType);
+      if (!booking.success) {
+        return booking;
+      }
+
+      const existing = await this.findReport(bookingId, handoverType);
+      if (existing?.lender_signed_at && existing?.borrower_signed_at) {
+        return { success: false, error: `The ${handoverType} report has already been signed off by both parties` };
+      }
+
+      const isLender = booking.data.lender_user_id === userId;
+      const now = new Date().toISOString();
+      const reportFields = {
+        condition: reportData.condition,
+        checklist: reportData.checklist,
+        notes: reportData.notes ?? null,
+        reportedBy: userId,
+        lenderSignedAt: isLender ? now : null,
+        borrowerSignedAt: isLender ? null : now,
+      };
+
+      const saved = existing
+        ? await this.update(existing.id, reportFields)
+        : await this.create({ bookingId, handoverType, ...reportFields });
+
+      if (!saved.success || !saved.data) {
+        return saved;
+      }
+
+      await this.attachPhotos(saved.data.id, userId, files);
+
+      return {
+        success: true,
+        data: (await this.getReport(bookingId, handoverType))!,
+        message: existing
+          ? `The ${handoverType} report was revised and needs the other party's sign-off again`
+          : `The ${handoverType} report was filed and needs the other party's sign-off`,
+      };
+    } catch (error) {
+      console.error('Error filing handover report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sign off the report filed by the other party
+   */
+  async signReport(bookingId: string, userId: string, handoverType: HandoverType): Promise<ApiResponse<HandoverReport>> {
+    try {
+      const booking = await this.getOpenBooking(bookingId, userId, handoverType);
+      if (!booking.success) {
+        return booking;
+      }
+
+      const existing = await this.findReport(bookingId, handoverType);
+      if (!existing) {
+        return { success: false, error: 'Handover report not found' };
+      }
+
+      const signatureColumn = booking.data.lender_user_id === userId ? 'lender_signed_at' : 'borrower_signed_at';
+      if (existing[signatureColumn]) {
+        return { success: false, error: `You have already signed the ${handoverType} report` };
+      }
+
+      // Only sign the version that was read; a concurrent revision clears signatures and must be reviewed
+      const { data: signed, error } = await supabaseAdmin
+        .from('handover_report')
+        .update({ [signatureColumn]: new Date().toISOString() })
+        .eq('id', existing.id)
+        .eq('updated_at', existing.updated_at)
+        .select('id')
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (!signed) {
+        return { success: false, error: `The ${handoverType} report was revised; review it and sign again` };
+      }
+
+      return {
+        success: true,
+        data: (await this.getReport(bookingId, handoverType))!,
+        message: `The ${handoverType} report was signed off`,
+      };
+    } catch (error) {
+      console.error('Error signing handover report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the handover reports of a booking with their photos (booking parties and admins)
+   */
+  async getReportsForBooking(bookingId: string, userId: string): Promise<ApiResponse<HandoverReport[]>> {
+    try {
+      const { data: booking, error } = await supabaseAdmin
+        .from('booking')
+        .select('id, lender_user_id, borrower_user_id')
+        .eq('id', bookingId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (!booking) {
+        return { success: false, error: 'Booking not found' };
+      }
+
+      if (!(await this.canAccess(booking, userId))) {
+        return { success: false, error: 'You are not authorized to view these handover reports' };
+      }
+
+      const { data, error: reportsError } = await supabaseAdmin
+        .from('handover_report')
+        .select(`
+          *,
+          photos:handover_photo(
+            *,
+            file:file_id(id, url, original_name, mime_type)
+          )
+        `)
+        .eq('booking_id', bookingId)
+        .order('created_at', { ascending: true });
+
+      if (reportsError) {
+        throw new Error(`Database error: ${reportsError.message}`);
+      }
+
+      return {
+        success: true,
+        data: DataMapper.toCamelCase(data || []),
+      };
+    } catch (error) {
+      console.error('Error getting handover reports:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Issue a new handover code to the party handing the item over, replacing any earlier code
+   */
+  async issueCode(bookingId: string, handoverType: HandoverType, holderUserId: string): Promise<HandoverCode> {
+    const { data, error } = await supabaseAdmin
+      .from('handover_code')
+      .upsert({
+        booking_id: bookingId,
+        handover_type: handoverType,
+        code: crypto.randomInt(0, 1_000_000).toString().padStart(6, '0'),
+        holder_user_id: holderUserId,
+        expires_at: addHours(new Date(), HandoverService.getCodeTtlHours()).toISOString(),
+        failed_attempts: 0,
+        verified_at: null,
+      }, { onConflict: 'booking_id,handover_type' })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return this.toHandoverCode(data);
+  }
+
+  /**
+   * Get the handover code held by the caller: the borrower at pickup, the lender at return.
+   * A used, expired or locked code is replaced
+   */
+  async getCode(bookingId: string, userId: string, handoverType: HandoverType): Promise<ApiResponse<HandoverCode>> {
+    try {
+      const booking = await this.getOpenBooking(bookingId, userId, handoverType);
+      if (!booking.success) {
+        return booking;
+      }
+
+      const holderUserId = handoverType === 'pickup' ? booking.data.borrower_user_id : booking.data.lender_user_id;
+      if (holderUserId !== userId) {
+        return {
+          success: false,
+          error: handoverType === 'pickup'
+            ? 'The pickup code is held by the borrower'
+            : 'The return code is held by the lender',
+        };
+      }
+
+      const { data: current, error } = await supabaseAdmin
+        .from('handover_code')
+        .select('*')
+        .eq('booking_id', bookingId)
+        .eq('handover_type', handoverType)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      const usable = current
+        && !current.verified_at
+        && new Date(current.expires_at) > new Date()
+        && current.failed_attempts < HandoverService.getCodeMaxAttempts();
+
+      return {
+        success: true,
+        data: usable ? this.toHandoverCode(current) : await this.issueCode(bookingId, handoverType, userId),
+      };
+    } catch (error) {
+      console.error('Error getting handover code:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check the code submitted by the party receiving the item; a correct code can only be used once
+   */
+  async verifyCode(bookingId: string, handoverType: HandoverType, code: string): Promise<ApiResponse<null>> {
+    const { data: result, error } = await supabaseAdmin.rpc('verify_handover_code', {
+      p_booking_id: bookingId,
+      p_handover_type: handoverType,
+      p_code: code,
+      p_max_attempts: HandoverService.getCodeMaxAttempts(),
+    });
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const holder = handoverType === 'pickup' ? 'borrower' : 'lender';
+
+    switch (result) {
+      case 'verified':
+        return { success: true, data: null };
+      case 'locked':
+        return { success: false, error: HANDOVER_CODE_LOCKED_ERROR };
+      case 'expired':
+        return { success: false, error: `The handover code has expired; ask the ${holder} for a new code` };
+      case 'not_issued':
+        return { success: false, error: `No handover code is active; ask the ${holder} to open their handover code` };
+      default:
+        return { success: false, error: 'Invalid handover code' };
+    }
+  }
+
+  /**
+   * Whether the report of a handover exists and carries both signatures
+   */
+  async isSignedOff(bookingId: string, handoverType: HandoverType): Promise<boolean> {
+    const report = await this.findReport(bookingId, handoverType);
+    return Boolean(report?.lender_signed_at && report?.borrower_signed_at);
+  }
+
+  /**
+   * Get one handover report of a booking with its photos
+   */
+  async getReport(bookingId: string, handoverType: HandoverType): Promise<HandoverReport | null> {
+    const { data, error } = await supabaseAdmin
+      .from('handover_report')
+      .select(`
+        *,
+        photos:handover_photo(
+          *,
+          file:file_id(id, url, original_name, mime_type)
+        )
+      `)
+      .eq('booking_id', bookingId)
+      .eq('handover_type', handoverType)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data ? DataMapper.toCamelCase(data) as HandoverReport : null;
+  }
+
+  private async findReport(bookingId: string, handoverType: HandoverType): Promise<any | null> {
+    const { data, error } = await supabaseAdmin
+      .from('handover_report')
+      .select('id, lender_signed_at, borrower_signed_at, updated_at')
+      .eq('booking_id', bookingId)
+      .eq('handover_type', handoverType)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Load a booking for a handover by one of its parties, checking it is at the matching stage
+   */
+  private async getOpenBooking(
+    bookingId: string,
+    userId: string,
+    handoverType: HandoverType
+  ): Promise<ApiResponse<any>> {
+    const { data: booking, error } = await supabaseAdmin
+      .from('booking')
+      .select('id, lender_user_id, borrower_user_id, booking_status')
+      .eq('id', bookingId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!booking) {
+      return { success: false, error: 'Booking not found' };
+    }
+
+    if (booking.lender_user_id !== userId && booking.borrower_user_id !== userId) {
+      return { success: false, error: 'Only the lender and borrower can take part in a handover' };
+    }
+
+    if (booking.booking_status !== HANDOVER_BOOKING_STATUS[handoverType]) {
+      return {
+        success: false,
+        error: handoverType === 'pickup'
+          ? 'The pickup handover can only happen on confirmed bookings'
+          : 'The return handover can only happen on in-progress bookings',
+      };
+    }
+
+    return { success: true, data: booking };
+  }
+
+  private toHandoverCode(row: any): HandoverCode {
+    return {
+      handoverType: row.handover_type,
+      code: row.code,
+      qrPayload: JSON.stringify({
+        type: 'handover',
+        bookingId: row.booking_id,
+        handoverType: row.handover_type,
+        code: row.code,
+      }),
+      expiresAt: row.expires_at,
+    };
+  }
+
+  /**
+   * Upload handover photos and link them to the report
+   */
+  private async attachPhotos(reportId: string, userId: string, files: Express.Multer.File[]): Promise<void> {
+    if (files.length === 0) {
+      return;
+    }
+
+    const uploaded = await FileUploadService.uploadMultipleFiles(files, userId, {
+      filePath: 'handovers',
+      isPublic: false,
+    });
+
+    const { error } = await supabaseAdmin
+      .from('handover_photo')
+      .insert(uploaded.map(file => ({
+        report_id: reportId,
+        file_id: file.id,
+        uploaded_by: userId,
+      })));
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Booking parties and admins can read handover reports
+   */
+  private async canAccess(booking: any, userId: string): Promise<boolean> {
+    if (booking.lender_user_id === userId || booking.borrower_user_id === userId) {
+      return true;
+    }
+
+    return UserService.isAdmin(userId);
+  }
+}
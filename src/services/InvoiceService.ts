@@ -0,0 +1,376 @@
+// Invoice service issuing numbered GST invoices and receipts for completed bookings
+
+import { format, parseISO } from 'date-fns';
+import { BaseService } from './BaseService.js';
+import { supabaseAdmin } from '../utils/database.js';
+import { PdfDocument } from '../utils/pdf.js';
+import {
+  Invoice,
+  InvoiceDocument,
+  InvoiceLine,
+  InvoiceParty,
+  InvoicePayment,
+  InvoiceTax,
+} from '../types/invoice.js';
+import { PriceLineItem } from '../types/booking.js';
+import { ApiResponse } from '../types/common.js';
+import { DataMapper } from '../utils/mappers.js';
+
+const PARTY_COLUMNS = 'full_name, email, gstin, business_name, billing_address';
+
+export class InvoiceService extends BaseService {
+  constructor() {
+    super('invoice');
+  }
+
+  /**
+   * GST rate included in taxable charges
+   */
+  static getGstRate(): number {
+    const rate = Number(process.env.GST_RATE_PERCENT ?? 18);
+    return Number.isFinite(rate) && rate >= 0 ? rate : 18;
+  }
+
+  /**
+   * Get the invoice of a completed booking, issuing its number on first request (lender or borrower)
+   */
+  async getBookingInvoice(bookingId: string, userId: string): Promise<ApiResponse<Invoice>> {
+    try {
+      const { data: booking, error } = await supabaseAdmin
+        .from('booking')
+        .select(`
+          *,
+          item:item(id, title, location:location_id(address_line, city, state, pincode)),
+          lender:lender_user_id(${PARTY_COLUMNS}),
+          borrower:borrower_user_id(${PARTY_COLUMNS})
+        `)
+        .eq('id', bookingId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return { success: false, error: 'Booking not found' };
+        }
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (booking.lender_user_id !== userId && booking.borrower_user_id !== userId) {
+        return { success: false, error: 'You are not authorized to view this invoice' };
+      }
+
+      if (booking.booking_status !== 'completed') {
+        return { success: false, error: 'Invoices are available once the rental is completed' };
+      }
+
+      // Numbers are assigned in the database so they stay sequential without gaps
+      const { data: issued, error: issueError } = await supabaseAdmin.rpc('issue_invoice', {
+        p_booking_id: bookingId,
+      });
+
+      if (issueError) {
+        throw new Error(`Database error: ${issueError.message}`);
+      }
+
+      let invoice = issued;
+
+      if (!invoice.document) {
+        const document = await this.buildDocument(booking, invoice.invoice_number, invoice.issued_at);
+
+        const { data: saved, error: saveError } = await supabaseAdmin
+          .from('invoice')
+          .update({ document })
+          .eq('id', invoice.id)
+          .is('document', null)
+          .select()
+          .maybeSingle();
+
+        if (saveError) {
+          throw new Error(`Database error: ${saveError.message}`);
+        }
+
+        // A concurrent request may have saved the snapshot first
+        invoice = saved ?? (await this.findById(invoice.id)).data;
+      }
+
+      return {
+        success: true,
+        data: DataMapper.toCamelCase(invoice),
+      };
+    } catch (error) {
+      console.error('Error getting booking invoice:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Render an invoice as a PDF document
+   */
+  renderPdf(invoice: Invoice): Buffer {
+    const doc = invoice.document;
+    const pdf = new PdfDocument();
+    const amount = (value: number) => InvoiceService.formatAmount(value);
+    const { LEFT, RIGHT } = PdfDocument;
+    const taxed = doc.totals.totalTax > 0;
+
+    pdf.line(taxed ? 'TAX INVOICE' : 'RECEIPT', { size: 18, bold: true });
+    pdf.line(`Invoice number: ${doc.invoiceNumber}`);
+    pdf.line(`Date: ${format(parseISO(doc.issuedAt), 'dd MMM yyyy')}`);
+    pdf.line(`Booking: ${doc.bookingId}`);
+
+    const parties: [string, InvoiceParty][] = [
+      ['Lender (supplier)', doc.lender],
+      ['Borrower (recipient)', doc.borrower],
+      ['Platform', doc.platform],
+    ];
+
+    for (const [role, party] of parties) {
+      pdf.moveDown(8);
+      pdf.line(role, { bold: true });
+      pdf.line(party.businessName ? `${party.businessName} (${party.name})` : party.name);
+      if (party.address) {
+        pdf.line(party.address);
+      }
+      if (party.gstin) {
+        pdf.line(`GSTIN: ${party.gstin}`);
+      }
+    }
+
+    pdf.moveDown(8);
+    pdf.line(`${doc.item.title}, ${doc.rentalPeriod.startDate} to ${doc.rentalPeriod.endDate} (${doc.rentalPeriod.totalDays} days)`, { bold: true });
+
+    const writeLines = (title: string, lines: InvoiceLine[]) => {
+      if (lines.length === 0) {
+        return;
+      }
+
+      pdf.moveDown(8);
+      pdf.line(title, { bold: true });
+      pdf.text(RIGHT - 150, 'Tax', { align: 'right', bold: true });
+      pdf.text(RIGHT, `Amount (${doc.currency})`, { align: 'right', bold: true });
+      pdf.rule();
+
+      for (const line of lines) {
+        const quantity = line.quantity !== undefined && line.unitPrice !== undefined
+          ? ` (${line.quantity} x ${amount(line.unitPrice)})`
+          : '';
+        pdf.line(`${line.description}${quantity}`);
+        if (line.tax) {
+          pdf.text(RIGHT - 150, amount(line.tax.cgst + line.tax.sgst + line.tax.igst), { align: 'right' });
+        }
+        pdf.text(RIGHT, amount(line.amount), { align: 'right' });
+      }
+    };
+
+    writeLines('Rental charges', doc.rentalCharges);
+    writeLines('Platform charges', doc.platformCharges);
+
+    pdf.moveDown(8);
+    pdf.rule();
+
+    const totals: [string, number][] = [];
+    if (taxed) {
+      totals.push(['Taxable value', doc.totals.taxableValue]);
+      if (doc.totals.igst > 0) {
+        totals.push(['IGST', doc.totals.igst]);
+      } else {
+        totals.push(['CGST', doc.totals.cgst], ['SGST', doc.totals.sgst]);
+      }
+    }
+    totals.push(['Refundable security deposit', doc.securityDeposit]);
+    totals.push(['Total', doc.totals.totalAmount]);
+    totals.push(['Paid', doc.amountPaid]);
+    if (doc.amountRefunded > 0) {
+      totals.push(['Refunded', doc.amountRefunded]);
+    }
+
+    for (const [label, value] of totals) {
+      pdf.line(label, { bold: label === 'Total' });
+      pdf.text(RIGHT, amount(value), { align: 'right', bold: label === 'Total' });
+    }
+
+    if (doc.payments.length > 0) {
+      pdf.moveDown(8);
+      pdf.line('Payments', { bold: true });
+      for (const payment of doc.payments) {
+        const paidOn = payment.paidAt ? format(parseISO(payment.paidAt), 'dd MMM yyyy') : 'pending';
+        pdf.line(`${paidOn}  ${payment.method}${payment.transactionId ? `  ref ${payment.transactionId}` : ''}`);
+        pdf.text(RIGHT, amount(payment.amount), { align: 'right' });
+      }
+    }
+
+    const taxRate = [...doc.rentalCharges, ...doc.platformCharges].find(line => line.tax)?.tax?.rate;
+    if (taxRate !== undefined) {
+      pdf.moveDown(12);
+      pdf.text(LEFT, `Amounts are inclusive of GST at ${taxRate}%.`, { size: 8 });
+    }
+
+    return pdf.toBuffer();
+  }
+
+  /**
+   * Snapshot the charges, parties and payments of a booking so later profile or price changes
+   * do not alter an issued invoice
+   */
+  private async buildDocument(booking: any, invoiceNumber: string, issuedAt: string): Promise<InvoiceDocument> {
+    const { data: payments, error } = await supabaseAdmin
+      .from('payment')
+      .select('id, payment_method, amount, paid_at, transaction_id, refund_amount, refunded_at')
+      .eq('booking_id', booking.id)
+      .in('payment_status', ['completed', 'refunded', 'partially_refunded'])
+      .order('paid_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const location = booking.item?.location;
+    const lender = InvoiceService.party(booking.lender, location
+      ? `${location.address_line}, ${location.city}, ${location.state} ${location.pincode}`
+      : undefined);
+    const borrower = InvoiceService.party(booking.borrower);
+    const platform: InvoiceParty = {
+      name: process.env.PLATFORM_LEGAL_NAME || 'P2P Rental Platform',
+      ...(process.env.PLATFORM_GSTIN && { gstin: process.env.PLATFORM_GSTIN }),
+      ...(process.env.PLATFORM_ADDRESS && { address: process.env.PLATFORM_ADDRESS }),
+    };
+
+    const rentalCharges: InvoiceLine[] = [];
+    const breakdownLines: PriceLineItem[] = booking.price_breakdown?.lineItems ?? [];
+
+    if (breakdownLines.length > 0) {
+      for (const line of breakdownLines) {
+        rentalCharges.push(line.type === 'base'
+          ? { description: 'Rent', quantity: line.days ?? booking.total_days, unitPrice: Number(booking.daily_rate), amount: line.amount }
+          : { description: line.label, amount: line.amount });
+      }
+    } else {
+      rentalCharges.push({
+        description: 'Rent',
+        quantity: booking.total_days,
+        unitPrice: Number(booking.daily_rate),
+        amount: Number(booking.total_rent),
+      });
+    }
+
+    if (Number(booking.delivery_fee ?? 0) > 0) {
+      rentalCharges.push({ description: 'Delivery', amount: Number(booking.delivery_fee) });
+    }
+
+    if (Number(booking.late_fee ?? 0) > 0) {
+      rentalCharges.push({
+        description: 'Late return fee',
+        quantity: booking.late_days,
+        unitPrice: InvoiceService.round(Number(booking.late_fee) / booking.late_days),
+        amount: Number(booking.late_fee),
+      });
+    }
+
+    const platformCharges: InvoiceLine[] = Number(booking.platform_fee ?? 0) > 0
+      ? [{ description: 'Platform service fee', amount: Number(booking.platform_fee) }]
+      : [];
+
+    for (const line of rentalCharges) {
+      const tax = InvoiceService.taxFor(line.amount, lender.gstin, borrower.gstin);
+      if (tax) {
+        line.tax = tax;
+      }
+    }
+
+    for (const line of platformCharges) {
+      const tax = InvoiceService.taxFor(line.amount, platform.gstin, borrower.gstin);
+      if (tax) {
+        line.tax = tax;
+      }
+    }
+
+    const allLines = [...rentalCharges, ...platformCharges];
+    const sum = (pick: (line: InvoiceLine) => number) =>
+      InvoiceService.round(allLines.reduce((total, line) => total + pick(line), 0));
+
+    const cgst = sum(line => line.tax?.cgst ?? 0);
+    const sgst = sum(line => line.tax?.sgst ?? 0);
+    const igst = sum(line => line.tax?.igst ?? 0);
+    const securityDeposit = Number(booking.security_amount ?? 0);
+
+    const invoicePayments: InvoicePayment[] = (payments || []).map((payment: any) => ({
+      id: payment.id,
+      method: payment.payment_method,
+      amount: Number(payment.amount),
+      ...(payment.paid_at && { paidAt: payment.paid_at }),
+      ...(payment.transaction_id && { transactionId: payment.transaction_id }),
+      ...(payment.refund_amount && { refundAmount: Number(payment.refund_amount) }),
+      ...(payment.refunded_at && { refundedAt: payment.refunded_at }),
+    }));
+
+    return {
+      invoiceNumber,
+      issuedAt,
+      bookingId: booking.id,
+      currency: 'INR',
+      item: { id: booking.item?.id ?? booking.item_id, title: booking.item?.title ?? 'Item' },
+      rentalPeriod: { startDate: booking.start_date, endDate: booking.end_date, totalDays: booking.total_days },
+      lender,
+      borrower,
+      platform,
+      rentalCharges,
+      platformCharges,
+      securityDeposit,
+      totals: {
+        taxableValue: sum(line => line.tax?.taxableValue ?? line.amount),
+        cgst,
+        sgst,
+        igst,
+        totalTax: InvoiceService.round(cgst + sgst + igst),
+        totalAmount: InvoiceService.round(sum(line => line.amount) + securityDeposit),
+      },
+      payments: invoicePayments,
+      amountPaid: InvoiceService.round(invoicePayments.reduce((total, p) => total + p.amount, 0)),
+      amountRefunded: InvoiceService.round(invoicePayments.reduce((total, p) => total + (p.refundAmount ?? 0), 0)),
+    };
+  }
+
+  private static party(user: any, address?: string): InvoiceParty {
+    const billingAddress = user?.billing_address || address;
+
+    return {
+      name: user?.full_name ?? 'Unknown',
+      ...(user?.email && { email: user.email }),
+      ...(user?.business_name && { businessName: user.business_name }),
+      ...(user?.gstin && { gstin: user.gstin }),
+      ...(billingAddress && { address: billingAddress }),
+    };
+  }
+
+  /**
+   * Split the GST out of a tax-inclusive amount; only GST-registered suppliers charge it. Supply is
+   * treated as intra-state (CGST + SGST) unless both GSTINs name different states (IGST).
+   */
+  private static taxFor(amount: number, supplierGstin?: string, recipientGstin?: string): InvoiceTax | undefined {
+    const rate = InvoiceService.getGstRate();
+
+    if (!supplierGstin || rate === 0) {
+      return undefined;
+    }
+
+    const taxableValue = InvoiceService.round((amount * 100) / (100 + rate));
+    const tax = InvoiceService.round(amount - taxableValue);
+    const interState = !!recipientGstin && recipientGstin.slice(0, 2) !== supplierGstin.slice(0, 2);
+    const cgst = interState ? 0 : InvoiceService.round(tax / 2);
+
+    return {
+      rate,
+      taxableValue,
+      cgst,
+      sgst: interState ? 0 : InvoiceService.round(tax - cgst),
+      igst: interState ? tax : 0,
+    };
+  }
+
+  private static formatAmount(value: number): string {
+    return value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
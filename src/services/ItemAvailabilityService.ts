@@ -0,0 +1,256 @@
+// Item availability service managing owner blackout dates and the availability calendar
+
+import { eachDayOfInterval, endOfMonth, format, getDay, parseISO } from 'date-fns';
+import { BaseService } from './BaseService.js';
+import { supabaseAdmin } from '../utils/database.js';
+import { ItemBlackout, ItemCalendarDay, CreateBlackoutDto, CalendarDayStatus } from '../types/item.js';
+import { ApiResponse } from '../types/common.js';
+import { DataMapper } from '../utils/mappers.js';
+
+export class ItemAvailabilityService extends BaseService {
+  constructor() {
+    super('item_blackout');
+  }
+
+  /**
+   * Get the blackouts of an item
+   */
+  async getBlackouts(itemId: string): Promise<ApiResponse<ItemBlackout[]>> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('item_blackout')
+        .select('*')
+        .eq('item_id', itemId)
+        .order('start_date', { ascending: true });
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      return {
+        success: true,
+        data: DataMapper.toCamelCase(data || []),
+      };
+    } catch (error) {
+      console.error('Error getting item blackouts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Block dates on an item (owner only)
+   */
+  async createBlackout(
+    itemId: string,
+    userId: string,
+    blackoutData: CreateBlackoutDto
+  ): Promise<ApiResponse<ItemBlackout>> {
+    try {
+      const ownershipError = await ItemAvailabilityService.getOwnershipError(itemId, userId);
+      if (ownershipError) {
+        return { success: false, error: ownershipError };
+      }
+
+      return await this.create({
+        itemId,
+        startDate: blackoutData.startDate,
+        endDate: blackoutData.endDate ?? null,
+        recurringWeekdays: blackoutData.recurringWeekdays
+          ? [...new Set(blackoutData.recurringWeekdays)].sort((a, b) => a - b)
+          : null,
+        reason: blackoutData.reason ?? null,
+      });
+    } catch (error) {
+      console.error('Error creating item blackout:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a blackout from an item (owner only)
+   */
+  async deleteBlackout(itemId: string, blackoutId: string, userId: string): Promise<ApiResponse<null>> {
+    try {
+      const ownershipError = await ItemAvailabilityService.getOwnershipError(itemId, userId);
+      if (ownershipError) {
+        return { success: false, error: ownershipError };
+      }
+
+      const { data: blackout, error: findError } = await supabaseAdmin
+        .from('item_blackout')
+        .select('id, import_id')
+        .eq('id', blackoutId)
+        .eq('item_id', itemId)
+        .maybeSingle();
+
+      if (findError) {
+        throw new Error(`Database error: ${findError.message}`);
+      }
+
+      if (!blackout) {
+        return {
+          success: false,
+          error: 'Blackout not found',
+        };
+      }
+
+      if (blackout.import_id) {
+        return {
+          success: false,
+          error: 'Imported dates are managed by their calendar import',
+        };
+      }
+
+      const { error } = await supabaseAdmin
+        .from('item_blackout')
+        .delete()
+        .eq('id', blackoutId);
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      return {
+        success: true,
+        data: null,
+        message: 'Blackout removed successfully',
+      };
+    } catch (error) {
+      console.error('Error deleting item blackout:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether any day in the range is blocked by the owner
+   */
+  async isBlocked(itemId: string, startDate: string, endDate: string): Promise<boolean> {
+    const blackouts = await this.fetchBlackouts(itemId, startDate, endDate);
+    if (blackouts.length === 0) {
+      return false;
+    }
+
+    return eachDayOfInterval({ start: parseISO(startDate), end: parseISO(endDate) })
+      .some(day => ItemAvailabilityService.blocksDay(blackouts, day));
+  }
+
+  /**
+   * Per-day status of an item for a month (YYYY-MM); bookings take precedence over blackouts
+   */
+  async getCalendar(itemId: string, month: string): Promise<ApiResponse<{ month: string; days: ItemCalendarDay[] }>> {
+    try {
+      const { data: item, error: itemError } = await supabaseAdmin
+        .from('item')
+        .select('id')
+        .eq('id', itemId)
+        .eq('is_active', true)
+        .maybeSingle();
+
+      if (itemError) {
+        throw new Error(`Database error: ${itemError.message}`);
+      }
+
+      if (!item) {
+        return {
+          success: false,
+          error: 'Item not found',
+        };
+      }
+
+      const monthStart = parseISO(`${month}-01`);
+      const startDate = format(monthStart, 'yyyy-MM-dd');
+      const endDate = format(endOfMonth(monthStart), 'yyyy-MM-dd');
+
+      const [{ data: bookings, error: bookingError }, blackouts] = await Promise.all([
+        supabaseAdmin
+          .from('booking')
+          .select('start_date, end_date')
+          .eq('item_id', itemId)
+          .in('booking_status', ['confirmed', 'in_progress'])
+          .lte('start_date', endDate)
+          .gte('end_date', startDate),
+        this.fetchBlackouts(itemId, startDate, endDate),
+      ]);
+
+      if (bookingError) {
+        throw new Error(`Database error: ${bookingError.message}`);
+      }
+
+      const days = eachDayOfInterval({ start: monthStart, end: endOfMonth(monthStart) }).map(day => {
+        const date = format(day, 'yyyy-MM-dd');
+        let status: CalendarDayStatus = 'free';
+
+        if ((bookings || []).some(b => b.start_date <= date && b.end_date >= date)) {
+          status = 'booked';
+        } else if (ItemAvailabilityService.blocksDay(blackouts, day)) {
+          status = 'blocked';
+        }
+
+        return { date, status };
+      });
+
+      return {
+        success: true,
+        data: { month, days },
+      };
+    } catch (error) {
+      console.error('Error getting item calendar:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Blackouts that can touch the given range
+   */
+  private async fetchBlackouts(itemId: string, startDate: string, endDate: string): Promise<ItemBlackout[]> {
+    const { data, error } = await supabaseAdmin
+      .from('item_blackout')
+      .select('*')
+      .eq('item_id', itemId)
+      .lte('start_date', endDate)
+      .or(`end_date.is.null,end_date.gte.${startDate}`);
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return DataMapper.toCamelCase(data || []) as ItemBlackout[];
+  }
+
+  /**
+   * Why the user may not modify the item, or null for its owner
+   */
+  static async getOwnershipError(itemId: string, userId: string): Promise<string | null> {
+    const { data, error } = await supabaseAdmin
+      .from('item')
+      .select('user_id')
+      .eq('id', itemId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!data) {
+      return 'Item not found';
+    }
+
+    if (data.user_id !== userId) {
+      return 'You do not have permission to modify this item';
+    }
+
+    return null;
+  }
+
+  private static blocksDay(blackouts: ItemBlackout[], day: Date): boolean {
+    const date = format(day, 'yyyy-MM-dd');
+
+    return blackouts.some(blackout => {
+      if (date < blackout.startDate || (blackout.endDate && date > blackout.endDate)) {
+        return false;
+      }
+
+      return !blackout.recurringWeekdays || blackout.recurringWeekdays.includes(getDay(day));
+    });
+  }
+}
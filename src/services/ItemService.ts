@@ -14,13 +14,19 @@ import { DataMapper } from "../utils/mappers.js";
 import { LocationService, CreateLocationDto } from "./LocationService.js";
 import { ValidationHelper } from "../utils/validation.js";
 import { ItemImageService } from "./ItemImageService.js";
+import { ItemAvailabilityService } from "./ItemAvailabilityService.js";
+import { WebhookService } from "./WebhookService.js";
 
 export class ItemService extends BaseService {
   private itemImageService: ItemImageService;
+  private itemAvailabilityService: ItemAvailabilityService;
+  private webhookService: WebhookService;
 
   constructor() {
     super('item');
     this.itemImageService = new ItemImageService();
+    this.itemAvailabilityService = new ItemAvailabilityService();
+    this.webhookService = new WebhookService();
   }
 
   /**
@@ -67,12 +73,19 @@ export class ItemService extends BaseService {
         categoryId: itemData.categoryId,
         condition: itemData.condition,
         securityAmount: itemData.securityAmount ?? 0,
+        deliveryFee: itemData.deliveryFee ?? 0,
+        lateFeePerDay: itemData.lateFeePerDay ?? null,
         rentPricePerDay: itemData.rentPricePerDay,
         locationId: locationId,
         deliveryMode: itemData.deliveryMode || "none",
         minRentalDays: itemData.minRentalDays || 1,
         maxRentalDays: itemData.maxRentalDays || 30,
         isNegotiable: itemData.isNegotiable || false,
+        cancellationPolicy: itemData.cancellationPolicy || "flexible",
+        cancellationCutoffDays: itemData.cancellationCutoffDays ?? null,
+        bookingMode: itemData.bookingMode || "request",
+        instantBookMinTrustScore: itemData.instantBookMinTrustScore ?? null,
+        instantBookVerifiedOnly: itemData.instantBookVerifiedOnly || false,
         tags: itemData.tags || [],
         status: "available",
         ratingAverage: 0,
@@ -99,6 +112,8 @@ export class ItemService extends BaseService {
         }
       }
 
+      await this.webhookService.publish("item.created", { item: result.data });
+
       return result;
     } catch (error) {
       console.error("Error creating item:", error);
@@ -126,6 +141,13 @@ export class ItemService extends BaseService {
 
       const result = await this.update(itemId, itemData);
 
+      if (result.success) {
+        await this.webhookService.publish("item.updated", {
+          item: result.data,
+          changedFields: Object.keys(itemData),
+        });
+      }
+
       return result;
     } catch (error) {
       console.error("Error updating item:", error);
@@ -143,7 +165,9 @@ export class ItemService extends BaseService {
         .select(
           `
           id, title, description, condition, security_amount, rent_price_per_day,
-          delivery_mode, min_rental_days, max_rental_days, is_negotiable, tags,
+          delivery_mode, delivery_fee, late_fee_per_day, min_rental_days, max_rental_days, is_negotiable, tags,
+          cancellation_policy, cancellation_cutoff_days,
+          booking_mode, instant_book_min_trust_score, instant_book_verified_only,
           status, rating_average, rating_count, created_at, updated_at,
           category:categories!inner(id, category_name, description),
           location:location!inner(id, city, state, latitude, longitude, address_line),
@@ -240,6 +264,8 @@ export class ItemService extends BaseService {
           sort_by: sortBy,
           page_limit: limit,
           page_offset: offset,
+          available_from: availability?.startDate || null,
+          available_to: availability?.endDate || availability?.startDate || null,
         }
       );
 
@@ -354,7 +380,8 @@ export class ItemService extends BaseService {
         throw new Error(`Database error: ${error.message}`);
       }
 
-      const isAvailable = !count || count === 0;
+      const isAvailable = (!count || count === 0)
+        && !(await this.itemAvailabilityService.isBlocked(itemId, startDate, endDate));
       return {
         success: true,
         data: isAvailable,
@@ -0,0 +1,498 @@
+// Message service for conversations between lenders and borrowers about bookings and enquiries
+
+import { BaseService } from './BaseService.js';
+import { FileUploadService } from './FileUploadService.js';
+import { NotificationService } from './NotificationService.js';
+import { RealtimeService } from './RealtimeService.js';
+import { UserService } from './UserService.js';
+import { supabaseAdmin } from '../utils/database.js';
+import { Message, MessageThread, SendMessageDto } from '../types/message.js';
+import { ApiResponse } from '../types/common.js';
+import { DataMapper } from '../utils/mappers.js';
+
+const THREAD_SELECT = `
+  *,
+  item:item_id(id, title),
+  lender:lender_user_id(id, full_name, avatar_url),
+  borrower:borrower_user_id(id, full_name, avatar_url)
+`;
+
+export class MessageService extends BaseService {
+  private notificationService: NotificationService;
+  private realtimeService: RealtimeService;
+
+  constructor() {
+    super('message');
+    this.notificationService = new NotificationService();
+    this.realtimeService = new RealtimeService();
+  }
+
+  /**
+   * Get the thread of a booking, opening it on first use
+   */
+  async getBookingThread(bookingId: string, userId: string): Promise<ApiResponse<MessageThread>> {
+    try {
+      const { data: booking, error } = await supabaseAdmin
+        .from('booking')
+        .select('id, item_id, lender_user_id, borrower_user_id')
+        .eq('id', bookingId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (!booking) {
+        return { success: false, error: 'Booking not found' };
+      }
+
+      if (!(await this.canAccess(booking, userId))) {
+        return { success: false, error: 'You are not authorized to view these messages' };
+      }
+
+      let thread = await this.findThread({ booking_id: bookingId });
+
+      if (!thread) {
+        thread = await this.openThread({
+          booking_id: bookingId,
+          item_id: booking.item_id,
+          lender_user_id: booking.lender_user_id,
+          borrower_user_id: booking.borrower_user_id,
+        }, { booking_id: bookingId });
+      }
+
+      return {
+        success: true,
+        data: await this.withUnreadCount(thread, userId),
+      };
+    } catch (error) {
+      console.error('Error getting booking thread:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ask the lender about an item before booking it; continues the borrower's earlier enquiry on the item
+   */
+  async sendEnquiry(
+    itemId: string,
+    userId: string,
+    messageData: SendMessageDto,
+    files: Express.Multer.File[] = []
+  ): Promise<ApiResponse<Message>> {
+    try {
+      const { data: item, error } = await supabaseAdmin
+        .from('item')
+        .select('id, user_id')
+        .eq('id', itemId)
+        .eq('is_active', true)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (!item) {
+        return { success: false, error: 'Item not found' };
+      }
+
+      if (item.user_id === userId) {
+        return { success: false, error: 'You cannot send an enquiry about your own item' };
+      }
+
+      const enquiry = { item_id: itemId, borrower_user_id: userId, booking_id: null };
+      let thread = await this.findThread(enquiry);
+
+      if (!thread) {
+        thread = await this.openThread({
+          item_id: itemId,
+          lender_user_id: item.user_id,
+          borrower_user_id: userId,
+        }, enquiry);
+      }
+
+      return await this.postMessage(thread, userId, messageData, files);
+    } catch (error) {
+      console.error('Error sending enquiry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List the caller's threads, most recent conversation first
+   */
+  async getUserThreads(userId: string): Promise<ApiResponse<MessageThread[]>> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('message_thread')
+        .select(THREAD_SELECT)
+        .or(`lender_user_id.eq.${userId},borrower_user_id.eq.${userId}`)
+        .not('last_message_at', 'is', null)
+        .order('last_message_at', { ascending: false })
+        .limit(100);
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      const unread = await this.getUnreadCounts(userId);
+
+      return {
+        success: true,
+        data: (data || []).map(thread => ({
+          ...DataMapper.toCamelCase(thread),
+          unreadCount: unread.get(thread.id)?.count ?? 0,
+        })),
+      };
+    } catch (error) {
+      console.error('Error getting message threads:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a thread the caller takes part in (or any thread for support staff)
+   */
+  async getThread(threadId: string, userId: string): Promise<ApiResponse<MessageThread>> {
+    try {
+      const thread = await this.findThread({ id: threadId });
+
+      if (!thread) {
+        return { success: false, error: 'Thread not found' };
+      }
+
+      if (!(await this.canAccess(thread, userId))) {
+        return { success: false, error: 'You are not authorized to view these messages' };
+      }
+
+      return {
+        success: true,
+        data: await this.withUnreadCount(thread, userId),
+      };
+    } catch (error) {
+      console.error('Error getting message thread:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Messages of a thread, newest first; pass the oldest createdAt seen as `before` to load earlier messages
+   */
+  async getMessages(
+    threadId: string,
+    userId: string,
+    before?: string,
+    limit: number = 50
+  ): Promise<ApiResponse<Message[]>> {
+    try {
+      const thread = await this.findThread({ id: threadId });
+
+      if (!thread) {
+        return { success: false, error: 'Thread not found' };
+      }
+
+      if (!(await this.canAccess(thread, userId))) {
+        return { success: false, error: 'You are not authorized to view these messages' };
+      }
+
+      let query = supabaseAdmin
+        .from('message')
+        .select(`
+          *,
+          attachments:message_attachment(
+            id, file_id,
+            file:file_id(id, url, original_name, mime_type)
+          )
+        `)
+        .eq('thread_id', threadId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (before) {
+        query = query.lt('created_at', before);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      return {
+        success: true,
+        data: (data || []).map(message => MessageService.toMessage(message, thread)),
+      };
+    } catch (error) {
+      console.error('Error getting messages:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a message with optional image attachments to a thread
+   */
+  async sendMessage(
+    threadId: string,
+    userId: string,
+    messageData: SendMessageDto,
+    files: Express.Multer.File[] = []
+  ): Promise<ApiResponse<Message>> {
+    try {
+      const thread = await this.findThread({ id: threadId });
+
+      if (!thread) {
+        return { success: false, error: 'Thread not found' };
+      }
+
+      if (!(await this.canAccess(thread, userId))) {
+        return { success: false, error: 'You are not authorized to send messages to this thread' };
+      }
+
+      return await this.postMessage(thread, userId, messageData, files);
+    } catch (error) {
+      console.error('Error sending message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark every message of a thread as read by the caller (a read receipt for the other party)
+   */
+  async markRead(threadId: string, userId: string): Promise<ApiResponse<MessageThread>> {
+    try {
+      const thread = await this.findThread({ id: threadId });
+
+      if (!thread) {
+        return { success: false, error: 'Thread not found' };
+      }
+
+      const role = MessageService.partyRole(thread, userId);
+      if (!role) {
+        return { success: false, error: 'Only the lender and borrower can mark messages as read' };
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from('message_thread')
+        .update({ [`${role}_last_read_at`]: new Date().toISOString() })
+        .eq('id', threadId)
+        .select(THREAD_SELECT)
+        .single();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      return {
+        success: true,
+        data: { ...DataMapper.toCamelCase(data), unreadCount: 0 },
+        message: 'Messages marked as read',
+      };
+    } catch (error) {
+      console.error('Error marking messages as read:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Unread message counts of the caller's booking threads, by booking id
+   */
+  async getUnreadCountsByBooking(userId: string): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+
+    for (const { bookingId, count } of (await this.getUnreadCounts(userId)).values()) {
+      if (bookingId) {
+        counts.set(bookingId, count);
+      }
+    }
+
+    return counts;
+  }
+
+  private async getUnreadCounts(userId: string): Promise<Map<string, { bookingId: string | null; count: number }>> {
+    const { data, error } = await supabaseAdmin.rpc('count_unread_messages', { p_user_id: userId });
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return new Map((data || []).map((row: any) => [
+      row.thread_id,
+      { bookingId: row.booking_id, count: Number(row.unread_count) },
+    ]));
+  }
+
+  private async postMessage(
+    thread: any,
+    userId: string,
+    messageData: SendMessageDto,
+    files: Express.Multer.File[]
+  ): Promise<ApiResponse<Message>> {
+    if (!messageData.body && files.length === 0) {
+      return { success: false, error: 'A message needs text or an attachment' };
+    }
+
+    const { data: message, error } = await supabaseAdmin
+      .from('message')
+      .insert({
+        thread_id: thread.id,
+        sender_user_id: userId,
+        body: messageData.body ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    message.attachments = await this.attachFiles(message.id, userId, files);
+
+    // Sending a message means the sender has read the thread up to it
+    const role = MessageService.partyRole(thread, userId);
+    const { error: threadError } = await supabaseAdmin
+      .from('message_thread')
+      .update({
+        last_message_at: message.created_at,
+        ...(role && { [`${role}_last_read_at`]: message.created_at }),
+      })
+      .eq('id', thread.id);
+
+    if (threadError) {
+      throw new Error(`Database error: ${threadError.message}`);
+    }
+
+    const sent = MessageService.toMessage(message, thread);
+
+    // The sender's other devices get the message too
+    this.realtimeService.publish([thread.lender_user_id, thread.borrower_user_id], 'message.created', {
+      threadId: thread.id,
+      ...(thread.booking_id && { bookingId: thread.booking_id }),
+      message: sent,
+    });
+
+    const { data: sender } = await supabaseAdmin
+      .from('users')
+      .select('full_name')
+      .eq('id', userId)
+      .maybeSingle();
+
+    await this.notificationService.notifyUsers(
+      [thread.lender_user_id, thread.borrower_user_id].filter(partyId => partyId !== userId),
+      'messageReceived',
+      { itemTitle: thread.item?.title ?? 'your item', ...(sender?.full_name && { senderName: sender.full_name }) },
+      { threadId: thread.id, ...(thread.booking_id && { bookingId: thread.booking_id }) }
+    );
+
+    return {
+      success: true,
+      data: sent,
+      message: 'Message sent',
+    };
+  }
+
+  private async attachFiles(messageId: string, userId: string, files: Express.Multer.File[]): Promise<any[]> {
+    if (files.length === 0) {
+      return [];
+    }
+
+    const uploaded = await FileUploadService.uploadMultipleFiles(files, userId, {
+      filePath: 'messages',
+      isPublic: false,
+    });
+
+    const { data, error } = await supabaseAdmin
+      .from('message_attachment')
+      .insert(uploaded.map(file => ({
+        message_id: messageId,
+        file_id: file.id,
+      })))
+      .select('id, file_id, file:file_id(id, url, original_name, mime_type)');
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  private async findThread(match: Record<string, string | null>): Promise<any | null> {
+    let query = supabaseAdmin
+      .from('message_thread')
+      .select(THREAD_SELECT);
+
+    for (const [column, value] of Object.entries(match)) {
+      query = value === null ? query.is(column, null) : query.eq(column, value);
+    }
+
+    const { data, error } = await query.maybeSingle();
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Insert a thread, or return the one a concurrent request opened first
+   */
+  private async openThread(threadData: Record<string, string>, match: Record<string, string | null>): Promise<any> {
+    const { data, error } = await supabaseAdmin
+      .from('message_thread')
+      .insert(threadData)
+      .select(THREAD_SELECT)
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return await this.findThread(match);
+      }
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  private async withUnreadCount(thread: any, userId: string): Promise<MessageThread> {
+    const unread = MessageService.partyRole(thread, userId)
+      ? (await this.getUnreadCounts(userId)).get(thread.id)?.count ?? 0
+      : 0;
+
+    return { ...DataMapper.toCamelCase(thread), unreadCount: unread };
+  }
+
+  /**
+   * The lender and borrower, and support staff (admins), can read and post in a thread
+   */
+  private async canAccess(party: any, userId: string): Promise<boolean> {
+    if (party.lender_user_id === userId || party.borrower_user_id === userId) {
+      return true;
+    }
+
+    return UserService.isAdmin(userId);
+  }
+
+  private static partyRole(thread: any, userId: string): 'lender' | 'borrower' | null {
+    if (thread.lender_user_id === userId) return 'lender';
+    if (thread.borrower_user_id === userId) return 'borrower';
+    return null;
+  }
+
+  /**
+   * A message is read once the lender and borrower, other than the sender, have read the thread past it
+   */
+  private static toMessage(row: any, thread: any): Message {
+    const recipientsLastRead = [
+      [thread.lender_user_id, thread.lender_last_read_at],
+      [thread.borrower_user_id, thread.borrower_last_read_at],
+    ].filter(([partyId]) => partyId !== row.sender_user_id).map(([, lastReadAt]) => lastReadAt);
+
+    const read = recipientsLastRead.every(lastReadAt => !!lastReadAt && new Date(lastReadAt) >= new Date(row.created_at));
+
+    return DataMapper.toCamelCase({
+      ...row,
+      attachments: row.attachments || [],
+      read,
+    });
+  }
+}
@@ -0,0 +1,614 @@
+// Notification service keeping the in-app inbox and sending notifications on email, SMS and push
+
+import { format, parseISO } from 'date-fns';
+import { BaseService } from './BaseService.js';
+import { supabaseAdmin } from '../utils/database.js';
+import { RealtimeService } from './RealtimeService.js';
+import { getNotificationTransport, NotificationRecipient } from './notificationChannels/index.js';
+import {
+  MutableNotificationType,
+  Notification,
+  NotificationFilters,
+  NotificationPreferences,
+  NotificationType,
+  UpdateNotificationPreferencesDto,
+} from '../types/notification.js';
+import { ApiResponse, NotificationChannel, PaginatedResponse } from '../types/common.js';
+import { DataMapper } from '../utils/mappers.js';
+
+type TemplateContext = {
+  itemTitle: string;
+  startDate?: string;
+  endDate?: string;
+  reason?: string;
+  senderName?: string;
+};
+
+type NotificationTemplate = {
+  audience: 'lender' | 'borrower' | 'both'; // booking parties notified; the party who acted is left out
+  channels: NotificationChannel[]; // sent on top of the in-app notification
+  render: (context: TemplateContext) => { title: string; body: string };
+};
+
+const dates = (context: TemplateContext): string => {
+  if (!context.startDate || !context.endDate) return '';
+  const formatDate = (date: string) => format(parseISO(date), 'd MMM yyyy');
+  return ` (${formatDate(context.startDate)} - ${formatDate(context.endDate)})`;
+};
+
+const because = (context: TemplateContext): string => (context.reason ? `: ${context.reason}` : '');
+
+const TEMPLATES: Record<NotificationType, NotificationTemplate> = {
+  bookingRequested: {
+    audience: 'lender',
+    channels: ['email', 'push'],
+    render: c => ({
+      title: 'New booking request',
+      body: `You have a new request for ${c.itemTitle}${dates(c)}. Confirm or decline it before it expires.`,
+    }),
+  },
+  bookingInstantBooked: {
+    audience: 'lender',
+    channels: ['email', 'push'],
+    render: c => ({
+      title: 'New instant booking',
+      body: `${c.itemTitle} was booked instantly${dates(c)}.`,
+    }),
+  },
+  bookingConfirmed: {
+    audience: 'borrower',
+    channels: ['email', 'sms', 'push'],
+    render: c => ({
+      title: 'Booking confirmed',
+      body: `Your booking of ${c.itemTitle}${dates(c)} is confirmed.`,
+    }),
+  },
+  bookingStarted: {
+    audience: 'both',
+    channels: ['push'],
+    render: c => ({
+      title: 'Rental started',
+      body: `${c.itemTitle} has been handed over. The rental is now in progress.`,
+    }),
+  },
+  bookingCompleted: {
+    audience: 'both',
+    channels: ['email', 'push'],
+    render: c => ({
+      title: 'Rental completed',
+      body: `${c.itemTitle} has been returned and the booking is complete.`,
+    }),
+  },
+  bookingCancelled: {
+    audience: 'both',
+    channels: ['email', 'sms', 'push'],
+    render: c => ({
+      title: 'Booking cancelled',
+      body: `The booking of ${c.itemTitle}${dates(c)} was cancelled${because(c)}.`,
+    }),
+  },
+  bookingExpired: {
+    audience: 'both',
+    channels: ['email', 'push'],
+    render: c => ({
+      title: 'Booking request expired',
+      body: `The request for ${c.itemTitle}${dates(c)} expired without a response.`,
+    }),
+  },
+  bookingOverdue: {
+    audience: 'both',
+    channels: ['email', 'sms', 'push'],
+    render: c => ({
+      title: 'Return overdue',
+      body: `${c.itemTitle} was due back${c.endDate ? ` on ${format(parseISO(c.endDate), 'd MMM yyyy')}` : ''}. Late fees apply until it is returned.`,
+    }),
+  },
+  bookingDisputed: {
+    audience: 'both',
+    channels: ['email', 'push'],
+    render: c => ({
+      title: 'Dispute raised',
+      body: `A dispute was raised on the booking of ${c.itemTitle}${because(c)}.`,
+    }),
+  },
+  disputeResolved: {
+    audience: 'both',
+    channels: ['email', 'push'],
+    render: c => ({
+      title: 'Dispute resolved',
+      body: `The dispute on the booking of ${c.itemTitle} was resolved${because(c)}.`,
+    }),
+  },
+  modificationRequested: {
+    audience: 'lender',
+    channels: ['email', 'push'],
+    render: c => ({
+      title: 'Date change requested',
+      body: `The borrower of ${c.itemTitle} asked to move their booking${dates(c)} to new dates.`,
+    }),
+  },
+  modificationAccepted: {
+    audience: 'borrower',
+    channels: ['email', 'push'],
+    render: c => ({
+      title: 'Date change accepted',
+      body: `Your booking of ${c.itemTitle} now runs${dates(c)}.`,
+    }),
+  },
+  modificationDeclined: {
+    audience: 'borrower',
+    channels: ['push'],
+    render: c => ({
+      title: 'Date change declined',
+      body: `The lender of ${c.itemTitle} declined your date change${because(c)}.`,
+    }),
+  },
+  messageReceived: {
+    audience: 'both',
+    channels: ['push'],
+    render: c => ({
+      title: `New message from ${c.senderName ?? 'a user'}`,
+      body: `You have a new message about ${c.itemTitle}.`,
+    }),
+  },
+  pickupReminder: {
+    audience: 'both',
+    channels: ['email', 'sms', 'push'],
+    render: c => ({
+      title: 'Pickup coming up',
+      body: `Reminder: the pickup of ${c.itemTitle} is on ${c.startDate ? format(parseISO(c.startDate), 'EEEE d MMM yyyy') : 'the start date'}.`,
+    }),
+  },
+  returnReminder: {
+    audience: 'both',
+    channels: ['email', 'sms', 'push'],
+    render: c => ({
+      title: 'Return due',
+      body: `Reminder: ${c.itemTitle} is due back on ${c.endDate ? format(parseISO(c.endDate), 'EEEE d MMM yyyy') : 'the end date'}. Late fees apply after that.`,
+    }),
+  },
+  ratingPrompt: {
+    audience: 'both',
+    channels: ['email', 'push'],
+    render: c => ({
+      title: 'How did it go?',
+      body: `Rate your rental of ${c.itemTitle} to help others in the community.`,
+    }),
+  },
+};
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  emailEnabled: true,
+  smsEnabled: true,
+  pushEnabled: true,
+  mutedTypes: [],
+};
+
+export class NotificationService extends BaseService {
+  private realtimeService: RealtimeService;
+
+  constructor() {
+    super('notification');
+    this.realtimeService = new RealtimeService();
+  }
+
+  /**
+   * Notify the parties of a booking (per the template's audience) except the one who acted, optionally along with
+   * the admin team. Failures are logged and never interrupt the booking flow.
+   */
+  async notifyBooking(
+    bookingId: string,
+    type: NotificationType,
+    options: { actorUserId?: string | null; reason?: string; includeAdmins?: boolean } = {}
+  ): Promise<void> {
+    try {
+      const { data: booking, error } = await supabaseAdmin
+        .from('booking')
+        .select('id, lender_user_id, borrower_user_id, start_date, end_date, item:item_id(title)')
+        .eq('id', bookingId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (!booking) {
+        return;
+      }
+
+      const { audience } = TEMPLATES[type];
+      const userIds = [
+        ...(audience !== 'borrower' ? [booking.lender_user_id] : []),
+        ...(audience !== 'lender' ? [booking.borrower_user_id] : []),
+        ...(options.includeAdmins ? await this.getAdminIds() : []),
+      ].filter(userId => userId !== options.actorUserId);
+
+      const item = booking.item as { title?: string } | null;
+
+      await this.notifyUsers(userIds, type, {
+        itemTitle: item?.title ?? 'your item',
+        startDate: booking.start_date,
+        endDate: booking.end_date,
+        ...(options.reason && { reason: options.reason }),
+      }, { bookingId });
+    } catch (error) {
+      console.error(`Error sending ${type} notification for booking ${bookingId}:`, error);
+    }
+  }
+
+  /**
+   * Store an in-app notification for each user, push it to their event streams and send it on the channels of its
+   * type, as far as each user's preferences allow. Failures are logged.
+   */
+  async notifyUsers(
+    userIds: string[],
+    type: NotificationType,
+    context: TemplateContext,
+    data: Record<string, any> = {}
+  ): Promise<void> {
+    try {
+      const preferences = await this.getPreferenceMap([...new Set(userIds)]);
+      const recipientIds = [...new Set(userIds)]
+        .filter(userId => !preferences.get(userId)?.mutedTypes.includes(type as MutableNotificationType));
+
+      if (recipientIds.length === 0) {
+        return;
+      }
+
+      const template = TEMPLATES[type];
+      const { title, body } = template.render(context);
+
+      const { data: created, error } = await supabaseAdmin
+        .from('notification')
+        .insert(recipientIds.map(userId => ({
+          user_id: userId,
+          notification_type: type,
+          title,
+          body,
+          data,
+          booking_id: data.bookingId ?? null,
+        })))
+        .select();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      for (const notification of created || []) {
+        this.realtimeService.publish([notification.user_id], 'notification.created', {
+          notification: DataMapper.toCamelCase(notification),
+        });
+      }
+
+      const recipients = await this.getRecipients(recipientIds);
+
+      for (const notification of created || []) {
+        const recipient = recipients.get(notification.user_id);
+        const userPreferences = preferences.get(notification.user_id) ?? DEFAULT_PREFERENCES;
+        const channels = template.channels.filter(channel => userPreferences[`${channel}Enabled`]);
+
+        if (recipient) {
+          await this.deliver(notification.id, recipient, channels, { title, body, data: { ...data, type } });
+        }
+      }
+    } catch (error) {
+      console.error(`Error sending ${type} notifications:`, error);
+    }
+  }
+
+  /**
+   * Get the caller's notifications, newest first
+   */
+  async getUserNotifications(userId: string, filters: NotificationFilters): Promise<PaginatedResponse<Notification>> {
+    try {
+      const { unreadOnly = false, page = 1, limit = 20 } = filters;
+      const offset = (page - 1) * limit;
+
+      let query = supabaseAdmin
+        .from('notification')
+        .select('*', { count: 'exact' })
+        .eq('user_id', userId);
+
+      if (unreadOnly) {
+        query = query.is('read_at', null);
+      }
+
+      const { data, error, count } = await query
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      const totalPages = Math.ceil((count || 0) / limit);
+
+      return {
+        success: true,
+        data: DataMapper.toCamelCase(data || []),
+        pagination: {
+          page,
+          limit,
+          total: count || 0,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      };
+    } catch (error) {
+      console.error('Error getting notifications:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Number of notifications the caller has not read
+   */
+  async getUnreadCount(userId: string): Promise<ApiResponse<{ count: number }>> {
+    try {
+      const { count, error } = await supabaseAdmin
+        .from('notification')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('read_at', null);
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      return {
+        success: true,
+        data: { count: count || 0 },
+      };
+    } catch (error) {
+      console.error('Error counting unread notifications:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark one of the caller's notifications as read
+   */
+  async markRead(notificationId: string, userId: string): Promise<ApiResponse<Notification>> {
+    try {
+      const { data: notification, error } = await supabaseAdmin
+        .from('notification')
+        .select('*')
+        .eq('id', notificationId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (!notification) {
+        return { success: false, error: 'Notification not found' };
+      }
+
+      if (notification.read_at) {
+        return {
+          success: true,
+          data: DataMapper.toCamelCase(notification),
+        };
+      }
+
+      const { data: updated, error: updateError } = await supabaseAdmin
+        .from('notification')
+        .update({ read_at: new Date().toISOString() })
+        .eq('id', notificationId)
+        .select()
+        .single();
+
+      if (updateError) {
+        throw new Error(`Database error: ${updateError.message}`);
+      }
+
+      return {
+        success: true,
+        data: DataMapper.toCamelCase(updated),
+        message: 'Notification marked as read',
+      };
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark all of the caller's notifications as read
+   */
+  async markAllRead(userId: string): Promise<ApiResponse<{ updated: number }>> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('notification')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('read_at', null)
+        .select('id');
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      return {
+        success: true,
+        data: { updated: data?.length || 0 },
+        message: 'All notifications marked as read',
+      };
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the caller's notification preferences, the defaults when none were saved
+   */
+  async getPreferences(userId: string): Promise<ApiResponse<NotificationPreferences>> {
+    try {
+      const preferences = await this.getPreferenceMap([userId]);
+
+      return {
+        success: true,
+        data: preferences.get(userId) ?? DEFAULT_PREFERENCES,
+      };
+    } catch (error) {
+      console.error('Error getting notification preferences:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save the caller's notification preferences; omitted fields keep their current value
+   */
+  async updatePreferences(
+    userId: string,
+    updateData: UpdateNotificationPreferencesDto
+  ): Promise<ApiResponse<NotificationPreferences>> {
+    try {
+      const current = (await this.getPreferenceMap([userId])).get(userId) ?? DEFAULT_PREFERENCES;
+
+      const { data, error } = await supabaseAdmin
+        .from('notification_preference')
+        .upsert({
+          user_id: userId,
+          ...DataMapper.toSnakeCase({ ...current, ...updateData }),
+        }, { onConflict: 'user_id' })
+        .select('email_enabled, sms_enabled, push_enabled, muted_types')
+        .single();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      return {
+        success: true,
+        data: NotificationService.toPreferences(data),
+        message: 'Notification preferences updated',
+      };
+    } catch (error) {
+      console.error('Error updating notification preferences:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a notification on each channel the recipient can be reached on, recording every attempt
+   */
+  private async deliver(
+    notificationId: string,
+    recipient: NotificationRecipient,
+    channels: NotificationChannel[],
+    message: { title: string; body: string; data: Record<string, any> }
+  ): Promise<void> {
+    const deliveries: Record<string, any>[] = [];
+
+    for (const channel of channels) {
+      const transport = getNotificationTransport(channel);
+      if (!transport || !transport.canReach(recipient)) {
+        continue;
+      }
+
+      try {
+        await transport.send(recipient, message);
+        deliveries.push({ notification_id: notificationId, channel, transport: transport.name, delivered: true });
+      } catch (error: any) {
+        console.error(`Notification ${channel} delivery failed:`, error);
+        deliveries.push({
+          notification_id: notificationId,
+          channel,
+          transport: transport.name,
+          delivered: false,
+          error: error?.message || 'Delivery failed',
+        });
+      }
+    }
+
+    if (deliveries.length === 0) {
+      return;
+    }
+
+    const { error } = await supabaseAdmin
+      .from('notification_delivery')
+      .insert(deliveries);
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+  }
+
+  private async getRecipients(userIds: string[]): Promise<Map<string, NotificationRecipient>> {
+    const [{ data: users, error: usersError }, { data: devices, error: devicesError }] = await Promise.all([
+      supabaseAdmin
+        .from('users')
+        .select('id, full_name, email, phone_number')
+        .in('id', userIds)
+        .eq('is_active', true),
+      supabaseAdmin
+        .from('device')
+        .select('user_id, device_token')
+        .in('user_id', userIds)
+        .eq('is_active', true)
+        .not('device_token', 'is', null),
+    ]);
+
+    if (usersError) {
+      throw new Error(`Database error: ${usersError.message}`);
+    }
+
+    if (devicesError) {
+      throw new Error(`Database error: ${devicesError.message}`);
+    }
+
+    return new Map((users || []).map(user => [user.id, {
+      userId: user.id,
+      fullName: user.full_name ?? undefined,
+      email: user.email ?? undefined,
+      phoneNumber: user.phone_number ?? undefined,
+      deviceTokens: (devices || [])
+        .filter(device => device.user_id === user.id)
+        .map(device => device.device_token),
+    }]));
+  }
+
+  // Users without a row are left out; callers fall back to DEFAULT_PREFERENCES
+  private async getPreferenceMap(userIds: string[]): Promise<Map<string, NotificationPreferences>> {
+    if (userIds.length === 0) {
+      return new Map();
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('notification_preference')
+      .select('user_id, email_enabled, sms_enabled, push_enabled, muted_types')
+      .in('user_id', userIds);
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return new Map((data || []).map(row => [row.user_id, NotificationService.toPreferences(row)]));
+  }
+
+  private async getAdminIds(): Promise<string[]> {
+    const { data, error } = await supabaseAdmin
+      .from('users')
+      .select('id')
+      .eq('role', 'admin');
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return (data || []).map(user => user.id);
+  }
+
+  private static toPreferences(row: any): NotificationPreferences {
+    return {
+      emailEnabled: row.email_enabled,
+      smsEnabled: row.sms_enabled,
+      pushEnabled: row.push_enabled,
+      mutedTypes: row.muted_types ?? [],
+    };
+  }
+}
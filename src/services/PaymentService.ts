@@ -0,0 +1,498 @@
+// Payment service with gateway orchestration
+
+import { BaseService } from './BaseService.js';
+import { supabaseAdmin } from '../utils/database.js';
+import { Payment, InitiatePaymentDto } from '../types/booking.js';
+import { ApiResponse, PaginatedResponse, PaymentStatus } from '../types/common.js';
+import { DataMapper, MapperUtils } from '../utils/mappers.js';
+import { getPaymentGateway } from './paymentGateways/index.js';
+import { WebhookService } from './WebhookService.js';
+
+export class PaymentService extends BaseService {
+  private static readonly CURRENCY = 'INR';
+  private webhookService: WebhookService;
+
+  constructor() {
+    super('payment');
+    this.webhookService = new WebhookService();
+  }
+
+  /**
+   * Initiate a payment for a booking, or for the bookings of a checkout, through the configured gateway
+   */
+  async initiatePayment(userId: string, paymentData: InitiatePaymentDto): Promise<ApiResponse<any>> {
+    try {
+      if (paymentData.checkoutId) {
+        return await this.initiateCheckoutPayment(userId, paymentData.checkoutId, paymentData);
+      }
+
+      const { data: booking, error: bookingError } = await supabaseAdmin
+        .from('booking')
+        .select('id, borrower_user_id, booking_status, total_amount, platform_fee')
+        .eq('id', paymentData.bookingId!)
+        .single();
+
+      if (bookingError) {
+        if (bookingError.code === 'PGRST116') {
+          return {
+            success: false,
+            error: 'Booking not found',
+          };
+        }
+        throw new Error(`Database error: ${bookingError.message}`);
+      }
+
+      if (booking.borrower_user_id !== userId) {
+        return {
+          success: false,
+          error: 'Only the borrower can pay for this booking',
+        };
+      }
+
+      if (!['pending', 'confirmed'].includes(booking.booking_status)) {
+        return {
+          success: false,
+          error: 'Payments can only be made for pending or confirmed bookings',
+        };
+      }
+
+      const { data: existingPayments, error: existingError } = await supabaseAdmin
+        .from('payment')
+        .select('id, payment_status')
+        .eq('booking_id', booking.id)
+        .in('payment_status', ['processing', 'completed']);
+
+      if (existingError) {
+        throw new Error(`Database error: ${existingError.message}`);
+      }
+
+      if (existingPayments?.some(p => p.payment_status === 'completed')) {
+        return {
+          success: false,
+          error: 'This booking has already been paid',
+        };
+      }
+
+      if (existingPayments && existingPayments.length > 0) {
+        return {
+          success: false,
+          error: 'A payment for this booking is already in progress',
+        };
+      }
+
+      const gateway = getPaymentGateway();
+      if (!gateway) {
+        throw new Error('Payment gateway is not configured');
+      }
+
+      const created = await this.create({
+        bookingId: booking.id,
+        userId,
+        amount: booking.total_amount,
+        paymentMethod: MapperUtils.toSnakeCase(paymentData.paymentMethod),
+        paymentStatus: 'pending' as PaymentStatus,
+        platformFee: booking.platform_fee ?? 0,
+        gateway: gateway.name,
+      });
+
+      if (!created.success || !created.data) {
+        return created;
+      }
+
+      let session;
+      try {
+        session = await gateway.createPayment({
+          paymentId: created.data.id,
+          bookingId: booking.id,
+          userId,
+          amount: booking.total_amount,
+          currency: PaymentService.CURRENCY,
+          paymentMethod: paymentData.paymentMethod,
+        });
+      } catch (gatewayError: any) {
+        console.error('Payment gateway error:', gatewayError);
+        await this.update(created.data.id, {
+          paymentStatus: 'failed' as PaymentStatus,
+          gatewayResponse: { error: gatewayError?.message || 'Gateway request failed' },
+        });
+        return {
+          success: false,
+          error: 'Payment gateway request failed',
+        };
+      }
+
+      const updated = await this.update(created.data.id, {
+        paymentStatus: 'processing' as PaymentStatus,
+        transactionId: session.transactionId,
+        gatewayResponse: session.raw ?? null,
+      });
+
+      if (!updated.success) {
+        return updated;
+      }
+
+      return {
+        success: true,
+        data: {
+          payment: updated.data,
+          checkout: session.checkout,
+        },
+        message: 'Payment initiated successfully',
+      };
+    } catch (error) {
+      console.error('Error initiating payment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pay for the bookings of a checkout with one gateway transaction, recorded as one payment per booking
+   * so refunds stay per booking; bookings that were declined or cancelled in the meantime are not charged
+   */
+  private async initiateCheckoutPayment(
+    userId: string,
+    checkoutId: string,
+    paymentData: InitiatePaymentDto
+  ): Promise<ApiResponse<any>> {
+    const { data: bookings, error: bookingsError } = await supabaseAdmin
+      .from('booking')
+      .select('id, borrower_user_id, booking_status, total_amount, platform_fee')
+      .eq('checkout_id', checkoutId);
+
+    if (bookingsError) {
+      throw new Error(`Database error: ${bookingsError.message}`);
+    }
+
+    if (!bookings || bookings.length === 0) {
+      return {
+        success: false,
+        error: 'Checkout not found',
+      };
+    }
+
+    if (bookings[0]!.borrower_user_id !== userId) {
+      return {
+        success: false,
+        error: 'Only the borrower can pay for this checkout',
+      };
+    }
+
+    const payable = bookings.filter(booking => ['pending', 'confirmed'].includes(booking.booking_status));
+    if (payable.length === 0) {
+      return {
+        success: false,
+        error: 'Payments can only be made for pending or confirmed bookings',
+      };
+    }
+
+    const { data: existingPayments, error: existingError } = await supabaseAdmin
+      .from('payment')
+      .select('id, payment_status')
+      .in('booking_id', payable.map(booking => booking.id))
+      .in('payment_status', ['processing', 'completed']);
+
+    if (existingError) {
+      throw new Error(`Database error: ${existingError.message}`);
+    }
+
+    if (existingPayments && existingPayments.length > 0) {
+      return {
+        success: false,
+        error: 'Some bookings of this checkout are already paid or have a payment in progress',
+      };
+    }
+
+    const gateway = getPaymentGateway();
+    if (!gateway) {
+      throw new Error('Payment gateway is not configured');
+    }
+
+    const { data: created, error: createError } = await supabaseAdmin
+      .from('payment')
+      .insert(payable.map(booking => ({
+        booking_id: booking.id,
+        checkout_id: checkoutId,
+        user_id: userId,
+        amount: booking.total_amount,
+        payment_method: MapperUtils.toSnakeCase(paymentData.paymentMethod),
+        payment_status: 'pending',
+        platform_fee: booking.platform_fee ?? 0,
+        gateway: gateway.name,
+      })))
+      .select('id');
+
+    if (createError) {
+      throw new Error(`Database error: ${createError.message}`);
+    }
+
+    const paymentIds = (created || []).map(payment => payment.id);
+    const amount = Math.round(payable.reduce((sum, booking) => sum + Number(booking.total_amount), 0) * 100) / 100;
+
+    let session;
+    try {
+      session = await gateway.createPayment({
+        paymentId: checkoutId,
+        checkoutId,
+        userId,
+        amount,
+        currency: PaymentService.CURRENCY,
+        paymentMethod: paymentData.paymentMethod,
+      });
+    } catch (gatewayError: any) {
+      console.error('Payment gateway error:', gatewayError);
+      await supabaseAdmin
+        .from('payment')
+        .update({
+          payment_status: 'failed',
+          gateway_response: { error: gatewayError?.message || 'Gateway request failed' },
+        })
+        .in('id', paymentIds);
+      return {
+        success: false,
+        error: 'Payment gateway request failed',
+      };
+    }
+
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('payment')
+      .update({
+        payment_status: 'processing',
+        transaction_id: session.transactionId,
+        gateway_response: session.raw ?? null,
+      })
+      .in('id', paymentIds)
+      .select();
+
+    if (updateError) {
+      throw new Error(`Database error: ${updateError.message}`);
+    }
+
+    return {
+      success: true,
+      data: {
+        payments: DataMapper.toCamelCase(updated || []),
+        amount,
+        checkout: session.checkout,
+      },
+      message: 'Payment initiated successfully',
+    };
+  }
+
+  /**
+   * Apply a gateway callback to the matching payment
+   */
+  async handleGatewayCallback(
+    gatewayName: string,
+    payload: Record<string, any>,
+    signature?: string
+  ): Promise<ApiResponse<Payment>> {
+    try {
+      const gateway = getPaymentGateway(gatewayName);
+      if (!gateway) {
+        return {
+          success: false,
+          error: 'Unknown payment gateway',
+        };
+      }
+
+      const event = gateway.parseCallback(payload, signature);
+      if (!event) {
+        return {
+          success: false,
+          error: 'Invalid callback signature',
+        };
+      }
+
+      // A checkout payment is one transaction shared by the payments of its bookings
+      const { data: payments, error } = await supabaseAdmin
+        .from('payment')
+        .select('*')
+        .eq('transaction_id', event.transactionId)
+        .eq('gateway', gateway.name);
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (!payments || payments.length === 0) {
+        return {
+          success: false,
+          error: 'Payment not found',
+        };
+      }
+
+      // Callbacks can be delivered more than once, settled payments are left untouched
+      const unsettled = payments.filter(payment => ['pending', 'processing'].includes(payment.payment_status));
+      if (unsettled.length === 0) {
+        return {
+          success: true,
+          data: DataMapper.toCamelCase(payments[0]),
+          message: 'Payment already settled',
+        };
+      }
+
+      let result: ApiResponse<Payment> | undefined;
+      for (const payment of unsettled) {
+        const updateData: Record<string, any> = {
+          paymentStatus: event.status as PaymentStatus,
+          gatewayResponse: { ...(payment.gateway_response || {}), callback: event.raw },
+        };
+
+        if (event.status === 'completed') {
+          updateData.paidAt = new Date().toISOString();
+        }
+
+        result = await this.update(payment.id, updateData);
+
+        if (result.success) {
+          await this.webhookService.publish(
+            event.status === 'completed' ? 'payment.completed' : 'payment.failed',
+            { payment: result.data }
+          );
+        }
+      }
+
+      return result!;
+    } catch (error) {
+      console.error('Error handling gateway callback:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Refund an amount from the captured payment of a booking
+   */
+  async refundBookingPayment(
+    bookingId: string,
+    amount: number,
+    reason?: string
+  ): Promise<ApiResponse<Payment>> {
+    try {
+      const { data: payment, error } = await supabaseAdmin
+        .from('payment')
+        .select('*')
+        .eq('booking_id', bookingId)
+        .in('payment_status', ['completed', 'partially_refunded'])
+        .order('paid_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (!payment) {
+        return {
+          success: false,
+          error: 'No captured payment found for this booking',
+        };
+      }
+
+      const alreadyRefunded = Number(payment.refund_amount ?? 0);
+      const refundable = Number(payment.amount) - alreadyRefunded;
+      const refundAmount = Math.min(Math.round(amount * 100) / 100, refundable);
+
+      if (refundAmount <= 0) {
+        return {
+          success: false,
+          error: 'Nothing left to refund on this payment',
+        };
+      }
+
+      const gateway = getPaymentGateway(payment.gateway ?? undefined);
+      if (!gateway) {
+        throw new Error(`Payment gateway ${payment.gateway} is not configured`);
+      }
+
+      const refund = await gateway.refundPayment({
+        paymentId: payment.id,
+        transactionId: payment.transaction_id,
+        amount: refundAmount,
+        ...(reason && { reason }),
+      });
+
+      const totalRefunded = alreadyRefunded + refundAmount;
+      const paymentStatus: PaymentStatus = totalRefunded >= Number(payment.amount)
+        ? 'refunded'
+        : 'partiallyRefunded';
+
+      const result = await this.update(payment.id, {
+        paymentStatus: MapperUtils.toSnakeCase(paymentStatus),
+        refundId: refund.refundId,
+        refundAmount: totalRefunded,
+        refundedAt: new Date().toISOString(),
+        gatewayResponse: {
+          ...(payment.gateway_response || {}),
+          refunds: [...(payment.gateway_response?.refunds || []), refund.raw ?? { refundId: refund.refundId }],
+        },
+      });
+
+      if (result.success) {
+        await this.webhookService.publish('payment.refunded', {
+          payment: result.data,
+          refundAmount,
+          ...(reason && { reason }),
+        });
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Error refunding booking payment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a payment visible to the payer or the booking's lender
+   */
+  async getPaymentForUser(paymentId: string, userId: string): Promise<ApiResponse<Payment>> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('payment')
+        .select(`
+          *,
+          booking:booking_id(id, lender_user_id, borrower_user_id, booking_status)
+        `)
+        .eq('id', paymentId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return {
+            success: false,
+            error: 'Payment not found',
+          };
+        }
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (data.user_id !== userId && data.booking?.lender_user_id !== userId) {
+        return {
+          success: false,
+          error: 'You are not authorized to view this payment',
+        };
+      }
+
+      return {
+        success: true,
+        data: DataMapper.toCamelCase(data),
+      };
+    } catch (error) {
+      console.error('Error getting payment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get payments made by a user
+   */
+  async getUserPayments(userId: string, page: number = 1, limit: number = 20): Promise<PaginatedResponse<Payment>> {
+    return this.findAll({
+      page,
+      limit,
+      filters: { user_id: userId },
+      orderBy: 'created_at',
+      orderDirection: 'desc',
+    });
+  }
+}
@@ -0,0 +1,416 @@
+// Pricing service applying item and category pricing rules to rental dates
+
+import { differenceInDays, eachDayOfInterval, format, getDay, parseISO } from 'date-fns';
+import { BaseService } from './BaseService.js';
+import { ItemAvailabilityService } from './ItemAvailabilityService.js';
+import { supabaseAdmin } from '../utils/database.js';
+import { PricingRule, CreatePricingRuleDto } from '../types/item.js';
+import { PriceBreakdown, PriceLineItem } from '../types/booking.js';
+import { AppliedPromoCode } from '../types/promo.js';
+import { ApiResponse, DeliveryMode, PricingRuleType } from '../types/common.js';
+import { DataMapper, MapperUtils } from '../utils/mappers.js';
+
+type PricedItem = {
+  id: string;
+  category_id?: string | null;
+  rent_price_per_day: number;
+  security_amount?: number | null;
+  delivery_mode?: string | null;
+  delivery_fee?: number | null;
+};
+
+export class PricingService extends BaseService {
+  private static readonly WEEKEND_DAYS = [0, 6]; // Sunday and Saturday
+
+  constructor() {
+    super('pricing_rule');
+  }
+
+  /**
+   * Price a rental of an item; the delivery fee is charged when the borrower chooses delivery
+   */
+  async priceItem(
+    item: PricedItem,
+    startDate: string,
+    endDate: string,
+    deliveryMode: DeliveryMode = 'none'
+  ): Promise<PriceBreakdown> {
+    const rules = await this.getApplicableRules(item.id, item.category_id ?? null);
+    return PricingService.calculatePrice(
+      Number(item.rent_price_per_day),
+      startDate,
+      endDate,
+      rules,
+      Number(item.security_amount ?? 0),
+      deliveryMode === 'delivery' ? Number(item.delivery_fee ?? 0) : 0
+    );
+  }
+
+  /**
+   * Reason the item cannot be rented with the requested delivery mode, if any
+   */
+  static deliveryModeError(itemDeliveryMode: string | null | undefined, deliveryMode: DeliveryMode | undefined): string | null {
+    const offered = itemDeliveryMode ?? 'none';
+
+    if (deliveryMode === 'delivery' && !['delivery', 'both'].includes(offered)) {
+      return 'This item is not available for delivery';
+    }
+
+    if (deliveryMode === 'pickup' && !['pickup', 'both'].includes(offered)) {
+      return 'This item is not available for pickup';
+    }
+
+    return null;
+  }
+
+  /**
+   * Item rules and the category defaults they override
+   */
+  async getItemRules(itemId: string): Promise<ApiResponse<{ itemRules: PricingRule[]; categoryRules: PricingRule[] }>> {
+    try {
+      const { data: item, error } = await supabaseAdmin
+        .from('item')
+        .select('id, category_id')
+        .eq('id', itemId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (!item) {
+        return { success: false, error: 'Item not found' };
+      }
+
+      const [itemRules, categoryRules] = await Promise.all([
+        this.fetchRules('item_id', item.id),
+        item.category_id ? this.fetchRules('category_id', item.category_id) : Promise.resolve([]),
+      ]);
+
+      return {
+        success: true,
+        data: { itemRules, categoryRules },
+      };
+    } catch (error) {
+      console.error('Error getting item pricing rules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a pricing rule to an item (owner only)
+   */
+  async createItemRule(itemId: string, userId: string, ruleData: CreatePricingRuleDto): Promise<ApiResponse<PricingRule>> {
+    try {
+      const ownershipError = await ItemAvailabilityService.getOwnershipError(itemId, userId);
+      if (ownershipError) {
+        return { success: false, error: ownershipError };
+      }
+
+      return await this.insertRule({ itemId }, ruleData);
+    } catch (error) {
+      console.error('Error creating item pricing rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a pricing rule from an item (owner only)
+   */
+  async deleteItemRule(itemId: string, ruleId: string, userId: string): Promise<ApiResponse<null>> {
+    try {
+      const ownershipError = await ItemAvailabilityService.getOwnershipError(itemId, userId);
+      if (ownershipError) {
+        return { success: false, error: ownershipError };
+      }
+
+      return await this.removeRule('item_id', itemId, ruleId);
+    } catch (error) {
+      console.error('Error deleting item pricing rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Default pricing rules of a category
+   */
+  async getCategoryRules(categoryId: string): Promise<ApiResponse<PricingRule[]>> {
+    try {
+      return {
+        success: true,
+        data: await this.fetchRules('category_id', categoryId),
+      };
+    } catch (error) {
+      console.error('Error getting category pricing rules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a default pricing rule to a category (admin only)
+   */
+  async createCategoryRule(categoryId: string, ruleData: CreatePricingRuleDto): Promise<ApiResponse<PricingRule>> {
+    try {
+      const { data: category, error } = await supabaseAdmin
+        .from('categories')
+        .select('id')
+        .eq('id', categoryId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (!category) {
+        return { success: false, error: 'Category not found' };
+      }
+
+      return await this.insertRule({ categoryId }, ruleData);
+    } catch (error) {
+      console.error('Error creating category pricing rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a default pricing rule from a category (admin only)
+   */
+  async deleteCategoryRule(categoryId: string, ruleId: string): Promise<ApiResponse<null>> {
+    try {
+      return await this.removeRule('category_id', categoryId, ruleId);
+    } catch (error) {
+      console.error('Error deleting category pricing rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rules that apply to an item: its own rules, plus category defaults for rule types the item does not set
+   */
+  async getApplicableRules(itemId: string, categoryId: string | null): Promise<PricingRule[]> {
+    const [itemRules, categoryRules] = await Promise.all([
+      this.fetchRules('item_id', itemId, true),
+      categoryId ? this.fetchRules('category_id', categoryId, true) : Promise.resolve([]),
+    ]);
+
+    const overridden = new Set(itemRules.map(rule => rule.ruleType));
+    return [...itemRules, ...categoryRules.filter(rule => !overridden.has(rule.ruleType))];
+  }
+
+  /**
+   * Apply pricing rules to a rental. Each day is charged the base rate adjusted by the most specific
+   * matching date range rule, or else the weekend rule; the longest qualifying length-of-stay rule
+   * then adjusts the subtotal.
+   */
+  static calculatePrice(
+    dailyRate: number,
+    startDate: string,
+    endDate: string,
+    rules: PricingRule[],
+    securityAmount: number = 0,
+    deliveryFee: number = 0
+  ): PriceBreakdown {
+    const days = eachDayOfInterval({ start: parseISO(startDate), end: parseISO(endDate) });
+    const totalDays = days.length;
+    const weekendRule = rules.find(rule => rule.ruleType === 'weekend');
+    const dateRangeRules = rules
+      .filter(rule => rule.ruleType === 'dateRange')
+      .sort((a, b) => PricingService.rangeLength(a) - PricingService.rangeLength(b));
+
+    const lineItems: PriceLineItem[] = [{
+      type: 'base',
+      label: 'Base rate',
+      days: totalDays,
+      amount: this.round(dailyRate * totalDays),
+    }];
+
+    const adjustments = new Map<string, { rule: PricingRule; days: number; amount: number }>();
+    for (const day of days) {
+      const date = format(day, 'yyyy-MM-dd');
+      const rule = dateRangeRules.find(r => r.startDate! <= date && r.endDate! >= date)
+        ?? (weekendRule && this.WEEKEND_DAYS.includes(getDay(day)) ? weekendRule : undefined);
+
+      if (rule) {
+        const adjustment = adjustments.get(rule.id) ?? { rule, days: 0, amount: 0 };
+        adjustment.days += 1;
+        adjustment.amount += dailyRate * Number(rule.adjustmentPercent) / 100;
+        adjustments.set(rule.id, adjustment);
+      }
+    }
+
+    for (const { rule, days: ruleDays, amount } of adjustments.values()) {
+      lineItems.push({
+        type: rule.ruleType,
+        label: rule.label || this.defaultLabel(rule),
+        days: ruleDays,
+        amount: this.round(amount),
+        ruleId: rule.id,
+      });
+    }
+
+    const lengthOfStayRule = rules
+      .filter(rule => rule.ruleType === 'lengthOfStay' && (rule.minDays ?? Infinity) <= totalDays)
+      .sort((a, b) => b.minDays! - a.minDays!)[0];
+
+    if (lengthOfStayRule) {
+      const subtotal = lineItems.reduce((sum, line) => sum + line.amount, 0);
+      lineItems.push({
+        type: 'lengthOfStay',
+        label: lengthOfStayRule.label || this.defaultLabel(lengthOfStayRule),
+        amount: this.round(subtotal * Number(lengthOfStayRule.adjustmentPercent) / 100),
+        ruleId: lengthOfStayRule.id,
+      });
+    }
+
+    const totalRent = this.round(Math.max(0, lineItems.reduce((sum, line) => sum + line.amount, 0)));
+    const platformFee = this.calculatePlatformFee(totalRent);
+
+    return {
+      dailyRate,
+      totalDays,
+      lineItems,
+      totalRent,
+      platformFee,
+      securityAmount,
+      deliveryFee,
+      totalAmount: this.round(totalRent + platformFee + securityAmount + deliveryFee),
+    };
+  }
+
+  /**
+   * Take a promo code discount off the rent; the platform fee follows the discounted rent
+   */
+  static applyDiscount(breakdown: PriceBreakdown, promo: AppliedPromoCode): PriceBreakdown {
+    const totalRent = this.round(breakdown.totalRent - promo.discountAmount);
+    const platformFee = this.calculatePlatformFee(totalRent);
+
+    return {
+      ...breakdown,
+      lineItems: [
+        ...breakdown.lineItems,
+        { type: 'promo', label: `Promo code ${promo.code}`, amount: -promo.discountAmount, promoCodeId: promo.promoCodeId },
+      ],
+      totalRent,
+      platformFee,
+      discountAmount: promo.discountAmount,
+      totalAmount: this.round(totalRent + platformFee + breakdown.securityAmount + breakdown.deliveryFee),
+    };
+  }
+
+  /**
+   * Calculate platform fee
+   */
+  static calculatePlatformFee(totalRent: number): number {
+    // Platform fee: 5% of total rent, minimum ₹10, maximum ₹500
+    const feePercentage = 0.05;
+    const minFee = 10;
+    const maxFee = 500;
+
+    const calculatedFee = totalRent * feePercentage;
+    return this.round(Math.min(Math.max(calculatedFee, minFee), maxFee));
+  }
+
+  private async fetchRules(column: 'item_id' | 'category_id', id: string, activeOnly: boolean = false): Promise<PricingRule[]> {
+    let query = supabaseAdmin
+      .from('pricing_rule')
+      .select('*')
+      .eq(column, id);
+
+    if (activeOnly) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return (data || []).map(row => PricingService.mapRule(row));
+  }
+
+  private async insertRule(
+    owner: { itemId: string } | { categoryId: string },
+    ruleData: CreatePricingRuleDto
+  ): Promise<ApiResponse<PricingRule>> {
+    const { data, error } = await supabaseAdmin
+      .from('pricing_rule')
+      .insert(DataMapper.toSnakeCase({
+        ...owner,
+        ruleType: MapperUtils.toSnakeCase(ruleData.ruleType),
+        adjustmentPercent: ruleData.adjustmentPercent,
+        minDays: ruleData.ruleType === 'lengthOfStay' ? ruleData.minDays : null,
+        startDate: ruleData.ruleType === 'dateRange' ? ruleData.startDate : null,
+        endDate: ruleData.ruleType === 'dateRange' ? ruleData.endDate : null,
+        label: ruleData.label ?? null,
+      }))
+      .select()
+      .single();
+
+    if (error) {
+      // Unique index: one weekend rule per item or category
+      if (error.code === '23505') {
+        return { success: false, error: 'A weekend rule already exists; delete it first' };
+      }
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return {
+      success: true,
+      data: PricingService.mapRule(data),
+      message: 'Pricing rule created successfully',
+    };
+  }
+
+  private async removeRule(column: 'item_id' | 'category_id', ownerId: string, ruleId: string): Promise<ApiResponse<null>> {
+    const { data, error } = await supabaseAdmin
+      .from('pricing_rule')
+      .delete()
+      .eq('id', ruleId)
+      .eq(column, ownerId)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Pricing rule not found' };
+    }
+
+    return {
+      success: true,
+      data: null,
+      message: 'Pricing rule deleted successfully',
+    };
+  }
+
+  private static mapRule(row: any): PricingRule {
+    const rule = DataMapper.toCamelCase(row) as PricingRule;
+    rule.ruleType = MapperUtils.toCamelCase(row.rule_type) as PricingRuleType;
+    rule.adjustmentPercent = Number(row.adjustment_percent);
+    return rule;
+  }
+
+  private static rangeLength(rule: PricingRule): number {
+    return differenceInDays(parseISO(rule.endDate!), parseISO(rule.startDate!));
+  }
+
+  private static defaultLabel(rule: PricingRule): string {
+    const percent = Math.abs(Number(rule.adjustmentPercent));
+    const kind = Number(rule.adjustmentPercent) < 0 ? 'discount' : 'surcharge';
+
+    switch (rule.ruleType) {
+      case 'lengthOfStay':
+        return `${rule.minDays}+ day ${kind} (${percent}%)`;
+      case 'weekend':
+        return `Weekend ${kind} (${percent}%)`;
+      default:
+        return `${rule.startDate} to ${rule.endDate} ${kind} (${percent}%)`;
+    }
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
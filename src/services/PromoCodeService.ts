@@ -0,0 +1,243 @@
+// Promo code service managing coupon campaigns and validating codes applied to bookings
+
+import { BaseService } from './BaseService.js';
+import { supabaseAdmin } from '../utils/database.js';
+import { AppliedPromoCode, CreatePromoCodeDto, PromoCode, UpdatePromoCodeDto } from '../types/promo.js';
+import { ApiResponse, PaginatedResponse } from '../types/common.js';
+import { DataMapper } from '../utils/mappers.js';
+
+export const PROMO_CODE_LIMIT_ERROR = 'This promo code has reached its usage limit';
+
+type PromoItem = {
+  category_id?: string | null;
+  location?: { city?: string | null } | null;
+};
+
+export class PromoCodeService extends BaseService {
+  constructor() {
+    super('promo_code');
+  }
+
+  /**
+   * List promo codes (admin only)
+   */
+  async listPromoCodes(
+    isActive: boolean | undefined,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<PaginatedResponse<PromoCode>> {
+    return this.findAll({
+      page,
+      limit,
+      filters: { is_active: isActive },
+      orderBy: 'created_at',
+      orderDirection: 'desc',
+    });
+  }
+
+  /**
+   * Get a promo code with its current usage (admin only)
+   */
+  async getPromoCode(promoCodeId: string): Promise<ApiResponse<PromoCode>> {
+    try {
+      const found = await this.findById(promoCodeId);
+      if (!found.success) {
+        return { success: false, error: 'Promo code not found' };
+      }
+
+      return {
+        success: true,
+        data: {
+          ...found.data,
+          timesUsed: await this.countUses(promoCodeId),
+        },
+      };
+    } catch (error) {
+      console.error('Error getting promo code:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a promo code (admin only)
+   */
+  async createPromoCode(adminId: string, promoData: CreatePromoCodeDto): Promise<ApiResponse<PromoCode>> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('promo_code')
+        .insert({
+          ...DataMapper.toSnakeCase(promoData),
+          created_by: adminId,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return { success: false, error: 'A promo code with this code already exists' };
+        }
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      return {
+        success: true,
+        data: DataMapper.toCamelCase(data),
+        message: 'Promo code created successfully',
+      };
+    } catch (error) {
+      console.error('Error creating promo code:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update the terms of a promo code, or deactivate it (admin only)
+   */
+  async updatePromoCode(promoCodeId: string, updateData: UpdatePromoCodeDto): Promise<ApiResponse<PromoCode>> {
+    try {
+      const found = await this.findById(promoCodeId);
+      if (!found.success) {
+        return { success: false, error: 'Promo code not found' };
+      }
+
+      if (found.data.discountType === 'percentage' && (updateData.discountValue ?? 0) > 100) {
+        return { success: false, error: 'Percentage discounts cannot exceed 100%' };
+      }
+
+      return await this.update(promoCodeId, updateData);
+    } catch (error) {
+      console.error('Error updating promo code:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check a code against a booking and work out its discount; usage limits are enforced again
+   * when the booking is inserted (see create_booking)
+   */
+  async applyToBooking(
+    code: string,
+    userId: string,
+    item: PromoItem,
+    totalRent: number
+  ): Promise<ApiResponse<AppliedPromoCode>> {
+    const { data: promo, error } = await supabaseAdmin
+      .from('promo_code')
+      .select('*')
+      .eq('code', code.toUpperCase())
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!promo) {
+      return { success: false, error: 'Invalid promo code' };
+    }
+
+    const now = new Date();
+    if ((promo.starts_at && new Date(promo.starts_at) > now) || (promo.ends_at && new Date(promo.ends_at) <= now)) {
+      return { success: false, error: 'This promo code is not valid at this time' };
+    }
+
+    if (promo.category_ids?.length && !promo.category_ids.includes(item.category_id)) {
+      return { success: false, error: 'This promo code does not apply to this category' };
+    }
+
+    const city = item.location?.city?.toLowerCase();
+    if (promo.cities?.length && !promo.cities.some((c: string) => c.toLowerCase() === city)) {
+      return { success: false, error: 'This promo code is not available in this city' };
+    }
+
+    if (promo.min_rent_amount != null && totalRent < Number(promo.min_rent_amount)) {
+      return { success: false, error: `This promo code needs a rent of at least ${promo.min_rent_amount}` };
+    }
+
+    const [totalUses, userUses] = await Promise.all([
+      promo.usage_limit != null ? this.countUses(promo.id) : Promise.resolve(0),
+      promo.per_user_limit != null ? this.countUses(promo.id, userId) : Promise.resolve(0),
+    ]);
+
+    if (promo.usage_limit != null && totalUses >= promo.usage_limit) {
+      return { success: false, error: PROMO_CODE_LIMIT_ERROR };
+    }
+
+    if (promo.per_user_limit != null && userUses >= promo.per_user_limit) {
+      return { success: false, error: 'You have already used this promo code' };
+    }
+
+    return {
+      success: true,
+      data: {
+        promoCodeId: promo.id,
+        code: promo.code,
+        discountAmount: PromoCodeService.calculateDiscount(promo, totalRent),
+      },
+    };
+  }
+
+  /**
+   * Re-apply the code of an existing booking to a new rent (date changes); validity and limits were
+   * checked when the booking was made
+   */
+  async reapply(promoCodeId: string, totalRent: number): Promise<AppliedPromoCode | null> {
+    const { data: promo, error } = await supabaseAdmin
+      .from('promo_code')
+      .select('*')
+      .eq('id', promoCodeId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!promo || (promo.min_rent_amount != null && totalRent < Number(promo.min_rent_amount))) {
+      return null;
+    }
+
+    return {
+      promoCodeId: promo.id,
+      code: promo.code,
+      discountAmount: PromoCodeService.calculateDiscount(promo, totalRent),
+    };
+  }
+
+  /**
+   * Discount of a code on a rent: a percentage up to the cap, or a flat amount, never more than the rent
+   */
+  static calculateDiscount(promo: any, totalRent: number): number {
+    let discount = promo.discount_type === 'percentage'
+      ? totalRent * Number(promo.discount_value) / 100
+      : Number(promo.discount_value);
+
+    if (promo.max_discount_amount != null) {
+      discount = Math.min(discount, Number(promo.max_discount_amount));
+    }
+
+    return Math.round(Math.min(discount, totalRent) * 100) / 100;
+  }
+
+  /**
+   * Bookings using a code, optionally of one borrower; cancelled bookings give the use back
+   */
+  private async countUses(promoCodeId: string, userId?: string): Promise<number> {
+    let query = supabaseAdmin
+      .from('booking')
+      .select('id', { count: 'exact', head: true })
+      .eq('promo_code_id', promoCodeId)
+      .neq('booking_status', 'cancelled');
+
+    if (userId) {
+      query = query.eq('borrower_user_id', userId);
+    }
+
+    const { count, error } = await query;
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return count || 0;
+  }
+}
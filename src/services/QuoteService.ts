@@ -0,0 +1,177 @@
+// Quote service pricing rentals ahead of booking and holding the quoted price for a short time
+
+import { addMinutes, differenceInDays, parseISO } from 'date-fns';
+import { BaseService } from './BaseService.js';
+import { ItemService } from './ItemService.js';
+import { PricingService } from './PricingService.js';
+import { supabaseAdmin } from '../utils/database.js';
+import { BookingQuote, CreateBookingDto, CreateQuoteDto } from '../types/booking.js';
+import { ApiResponse } from '../types/common.js';
+import { DataMapper } from '../utils/mappers.js';
+
+export class QuoteService extends BaseService {
+  private itemService: ItemService;
+  private pricingService: PricingService;
+
+  constructor() {
+    super('booking_quote');
+    this.itemService = new ItemService();
+    this.pricingService = new PricingService();
+  }
+
+  /**
+   * Minutes a quote can be referenced by a booking
+   */
+  static getQuoteTtlMinutes(): number {
+    const minutes = Number(process.env.BOOKING_QUOTE_TTL_MINUTES ?? 30);
+    return Number.isFinite(minutes) && minutes > 0 ? minutes : 30;
+  }
+
+  /**
+   * Price a rental with everything booking would charge, and hold that price for the quote lifetime
+   */
+  async createQuote(itemId: string, quoteData: CreateQuoteDto, userId?: string): Promise<ApiResponse<BookingQuote>> {
+    try {
+      const { data: item, error } = await supabaseAdmin
+        .from('item')
+        .select('id, user_id, category_id, rent_price_per_day, security_amount, delivery_mode, delivery_fee, min_rental_days, max_rental_days')
+        .eq('id', itemId)
+        .eq('is_active', true)
+        .eq('status', 'available')
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (!item) {
+        return { success: false, error: 'Item not found or not available' };
+      }
+
+      if (userId && item.user_id === userId) {
+        return { success: false, error: 'You cannot book your own item' };
+      }
+
+      const totalDays = differenceInDays(parseISO(quoteData.endDate), parseISO(quoteData.startDate)) + 1;
+
+      if (totalDays < item.min_rental_days) {
+        return { success: false, error: `Minimum rental period is ${item.min_rental_days} days` };
+      }
+
+      if (totalDays > item.max_rental_days) {
+        return { success: false, error: `Maximum rental period is ${item.max_rental_days} days` };
+      }
+
+      const deliveryMode = quoteData.deliveryMode ?? 'none';
+      const deliveryModeError = PricingService.deliveryModeError(item.delivery_mode, deliveryMode);
+      if (deliveryModeError) {
+        return { success: false, error: deliveryModeError };
+      }
+
+      const availability = await this.itemService.checkAvailability(itemId, quoteData.startDate, quoteData.endDate);
+      if (!availability.data) {
+        return { success: false, error: availability.message ?? 'Item is not available for the selected dates' };
+      }
+
+      const priceBreakdown = await this.pricingService.priceItem(item, quoteData.startDate, quoteData.endDate, deliveryMode);
+
+      // Inserted as-is so the breakdown JSON keeps the same keys as booking.price_breakdown
+      const { data: quote, error: insertError } = await supabaseAdmin
+        .from('booking_quote')
+        .insert({
+          item_id: itemId,
+          user_id: userId ?? null,
+          start_date: quoteData.startDate,
+          end_date: quoteData.endDate,
+          delivery_mode: deliveryMode,
+          price_breakdown: priceBreakdown,
+          expires_at: addMinutes(new Date(), QuoteService.getQuoteTtlMinutes()).toISOString(),
+        })
+        .select()
+        .single();
+
+      if (insertError) {
+        throw new Error(`Database error: ${insertError.message}`);
+      }
+
+      return {
+        success: true,
+        data: DataMapper.toCamelCase(quote),
+        message: `Quote valid for ${QuoteService.getQuoteTtlMinutes()} minutes`,
+      };
+    } catch (error) {
+      console.error('Error creating quote:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Claim a quote for a booking request; it must match the request, be unexpired and not used before
+   */
+  async redeemQuote(quoteId: string, userId: string, bookingData: CreateBookingDto): Promise<ApiResponse<BookingQuote>> {
+    const { data, error } = await supabaseAdmin
+      .from('booking_quote')
+      .select('*')
+      .eq('id', quoteId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!data || (data.user_id && data.user_id !== userId)) {
+      return { success: false, error: 'Quote not found' };
+    }
+
+    if (data.item_id !== bookingData.itemId
+      || data.start_date !== bookingData.startDate
+      || data.end_date !== bookingData.endDate
+      || data.delivery_mode !== (bookingData.deliveryMode ?? 'none')) {
+      return { success: false, error: 'Quote does not match the booking item, dates or delivery mode' };
+    }
+
+    if (data.redeemed_at) {
+      return { success: false, error: 'Quote has already been used' };
+    }
+
+    if (new Date(data.expires_at) <= new Date()) {
+      return { success: false, error: 'Quote has expired; request a new quote' };
+    }
+
+    // Only one booking request can claim the quote
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('booking_quote')
+      .update({ redeemed_at: new Date().toISOString() })
+      .eq('id', quoteId)
+      .is('redeemed_at', null)
+      .select()
+      .maybeSingle();
+
+    if (claimError) {
+      throw new Error(`Database error: ${claimError.message}`);
+    }
+
+    if (!claimed) {
+      return { success: false, error: 'Quote has already been used' };
+    }
+
+    return {
+      success: true,
+      data: DataMapper.toCamelCase(claimed),
+    };
+  }
+
+  /**
+   * Link a redeemed quote to the booking it priced
+   */
+  async attachBooking(quoteId: string, bookingId: string): Promise<void> {
+    await this.update(quoteId, { bookingId });
+  }
+
+  /**
+   * Make a quote usable again after the booking it was claimed for could not be created
+   */
+  async releaseQuote(quoteId: string): Promise<void> {
+    await this.update(quoteId, { redeemedAt: null });
+  }
+}
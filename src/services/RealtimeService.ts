@@ -0,0 +1,88 @@
+// Realtime service fanning out booking, message and notification events to users' open event streams
+
+import { RealtimeEvent, RealtimeEventType, RealtimeListener, RealtimeSubscription } from '../types/realtime.js';
+
+export class RealtimeService {
+  private static readonly BUFFER_SIZE = 1000;
+  private static readonly REPLAY_WINDOW_MS = 15 * 60 * 1000;
+  private static readonly MAX_STREAMS_PER_USER = 5;
+
+  // Shared by every instance: streams live in this process, so events only reach clients connected to it
+  private static listeners = new Map<string, Set<RealtimeListener>>();
+  private static recentEvents: RealtimeEvent[] = [];
+  // Seeded with the clock so ids keep increasing across restarts and stale ids are detected
+  private static lastEventId = Date.now();
+
+  /**
+   * Push an event to each user's open streams and keep it for replay on reconnection
+   */
+  publish(userIds: string[], type: RealtimeEventType, data: Record<string, any>): void {
+    const createdAt = new Date().toISOString();
+
+    for (const userId of new Set(userIds)) {
+      const event: RealtimeEvent = { id: ++RealtimeService.lastEventId, type, userId, data, createdAt };
+
+      RealtimeService.recentEvents.push(event);
+
+      for (const listener of RealtimeService.listeners.get(userId) ?? []) {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error(`Error pushing ${type} event to user ${userId}:`, error);
+        }
+      }
+    }
+
+    RealtimeService.pruneEvents();
+  }
+
+  /**
+   * Open a stream for a user; with the id of the last event the client received, the events it missed are
+   * returned for replay. Returns null when the user already has the maximum number of streams open.
+   */
+  subscribe(userId: string, listener: RealtimeListener, lastEventId?: number): RealtimeSubscription | null {
+    const userListeners = RealtimeService.listeners.get(userId) ?? new Set<RealtimeListener>();
+    if (userListeners.size >= RealtimeService.MAX_STREAMS_PER_USER) {
+      return null;
+    }
+
+    userListeners.add(listener);
+    RealtimeService.listeners.set(userId, userListeners);
+
+    return {
+      replay: lastEventId === undefined ? [] : RealtimeService.eventsSince(userId, lastEventId),
+      unsubscribe: () => {
+        userListeners.delete(listener);
+        if (userListeners.size === 0) {
+          RealtimeService.listeners.delete(userId);
+        }
+      },
+    };
+  }
+
+  // Null when the client may have missed events that are no longer buffered (or come from another process)
+  private static eventsSince(userId: string, lastEventId: number): RealtimeEvent[] | null {
+    RealtimeService.pruneEvents();
+
+    const oldestId = RealtimeService.recentEvents[0]?.id ?? RealtimeService.lastEventId + 1;
+    if (lastEventId > RealtimeService.lastEventId || lastEventId < oldestId - 1) {
+      return null;
+    }
+
+    return RealtimeService.recentEvents.filter(event => event.id > lastEventId && event.userId === userId);
+  }
+
+  private static pruneEvents(): void {
+    const cutoff = Date.now() - RealtimeService.REPLAY_WINDOW_MS;
+    const events = RealtimeService.recentEvents;
+
+    let expired = Math.max(0, events.length - RealtimeService.BUFFER_SIZE);
+    while (expired < events.length && Date.parse(events[expired]!.createdAt) < cutoff) {
+      expired++;
+    }
+
+    if (expired > 0) {
+      events.splice(0, expired);
+    }
+  }
+}
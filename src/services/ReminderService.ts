@@ -0,0 +1,168 @@
+// Reminder service sending pickup, return and rating reminders for bookings, each at most once per booking
+
+import { addDays, format, subDays, subHours } from 'date-fns';
+import { BaseService } from './BaseService.js';
+import { NotificationService } from './NotificationService.js';
+import { supabaseAdmin } from '../utils/database.js';
+import { NotificationType } from '../types/notification.js';
+
+type ReminderType = Extract<NotificationType, 'pickupReminder' | 'returnReminder' | 'ratingPrompt'>;
+
+const REMINDER_SELECT = `
+  id, lender_user_id, borrower_user_id, start_date, end_date, rating_by_lender, rating_by_borrower,
+  item:item_id(title),
+  reminders:booking_reminder(reminder_type)
+`;
+
+export class ReminderService extends BaseService {
+  private static readonly DEFAULT_SEND_HOUR = 9;
+  private static readonly DEFAULT_PICKUP_DAYS_BEFORE = 1;
+  private static readonly DEFAULT_RETURN_DAYS_BEFORE = 0;
+  private static readonly DEFAULT_RATING_HOURS_AFTER = 2;
+  private static readonly RATING_PROMPT_WINDOW_DAYS = 7; // older rentals are not prompted, e.g. when reminders go live
+
+  private notificationService: NotificationService;
+
+  constructor() {
+    super('booking_reminder');
+    this.notificationService = new NotificationService();
+  }
+
+  /**
+   * Send the reminders that are due: pickup and return reminders from the send hour (server time) on their day,
+   * rating prompts some hours after completion. Returns how many bookings were reminded.
+   */
+  async sendDueReminders(): Promise<number> {
+    try {
+      const now = new Date();
+      const today = format(now, 'yyyy-MM-dd');
+      const sendHour = ReminderService.setting('REMINDER_SEND_HOUR', ReminderService.DEFAULT_SEND_HOUR)
+        ?? ReminderService.DEFAULT_SEND_HOUR;
+      const pickupDays = ReminderService.setting('REMINDER_PICKUP_DAYS_BEFORE', ReminderService.DEFAULT_PICKUP_DAYS_BEFORE);
+      const returnDays = ReminderService.setting('REMINDER_RETURN_DAYS_BEFORE', ReminderService.DEFAULT_RETURN_DAYS_BEFORE);
+      const ratingHours = ReminderService.setting('REMINDER_RATING_HOURS_AFTER', ReminderService.DEFAULT_RATING_HOURS_AFTER);
+
+      let sent = 0;
+
+      if (now.getHours() >= sendHour) {
+        // Ranges rather than exact days, so runs missed while the server was down are caught up
+        if (pickupDays !== null) {
+          const { data, error } = await supabaseAdmin
+            .from('booking')
+            .select(REMINDER_SELECT)
+            .eq('booking_status', 'confirmed')
+            .gte('start_date', today)
+            .lte('start_date', format(addDays(now, pickupDays), 'yyyy-MM-dd'));
+
+          if (error) {
+            throw new Error(`Database error: ${error.message}`);
+          }
+
+          sent += await this.remind(data || [], 'pickupReminder', booking => [booking.lender_user_id, booking.borrower_user_id]);
+        }
+
+        if (returnDays !== null) {
+          const { data, error } = await supabaseAdmin
+            .from('booking')
+            .select(REMINDER_SELECT)
+            .eq('booking_status', 'in_progress')
+            .gte('end_date', today)
+            .lte('end_date', format(addDays(now, returnDays), 'yyyy-MM-dd'));
+
+          if (error) {
+            throw new Error(`Database error: ${error.message}`);
+          }
+
+          sent += await this.remind(data || [], 'returnReminder', booking => [booking.lender_user_id, booking.borrower_user_id]);
+        }
+      }
+
+      if (ratingHours !== null) {
+        const { data, error } = await supabaseAdmin
+          .from('booking')
+          .select(REMINDER_SELECT)
+          .eq('booking_status', 'completed')
+          .lte('completed_at', subHours(now, ratingHours).toISOString())
+          .gte('completed_at', subDays(now, ReminderService.RATING_PROMPT_WINDOW_DAYS).toISOString());
+
+        if (error) {
+          throw new Error(`Database error: ${error.message}`);
+        }
+
+        // Only parties who have not rated the other yet are asked
+        sent += await this.remind(data || [], 'ratingPrompt', booking => [
+          ...(booking.rating_by_lender == null ? [booking.lender_user_id] : []),
+          ...(booking.rating_by_borrower == null ? [booking.borrower_user_id] : []),
+        ]);
+      }
+
+      return sent;
+    } catch (error) {
+      console.error('Error sending booking reminders:', error);
+      throw error;
+    }
+  }
+
+  private async remind(
+    bookings: any[],
+    type: ReminderType,
+    recipientsOf: (booking: any) => string[]
+  ): Promise<number> {
+    let sent = 0;
+
+    for (const booking of bookings) {
+      try {
+        if (booking.reminders?.some((reminder: any) => reminder.reminder_type === type)) {
+          continue;
+        }
+
+        const recipients = recipientsOf(booking);
+        if (recipients.length === 0 || !(await this.claim(booking.id, type))) {
+          continue;
+        }
+
+        const item: any = Array.isArray(booking.item) ? booking.item[0] : booking.item;
+
+        await this.notificationService.notifyUsers(recipients, type, {
+          itemTitle: item?.title ?? 'your item',
+          startDate: booking.start_date,
+          endDate: booking.end_date,
+        }, { bookingId: booking.id });
+
+        sent++;
+      } catch (err) {
+        console.error(`Failed to send ${type} for booking ${booking.id}:`, err);
+      }
+    }
+
+    return sent;
+  }
+
+  // The unique (booking, type) key lets one run claim a reminder; claims are kept, so it is never sent twice
+  private async claim(bookingId: string, type: ReminderType): Promise<boolean> {
+    const { error } = await supabaseAdmin
+      .from('booking_reminder')
+      .insert({ booking_id: bookingId, reminder_type: type });
+
+    if (error) {
+      if (error.code === '23505') {
+        return false;
+      }
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return true;
+  }
+
+  // A non-negative number, or null when set to "off"
+  private static setting(name: string, fallback: number): number | null {
+    const value = process.env[name]?.trim();
+
+    if (value === 'off') {
+      return null;
+    }
+
+    const parsed = Number(value);
+    return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  }
+}
@@ -0,0 +1,451 @@
+// Security deposit service handling hold, claim, release and deduction
+
+import { addDays } from 'date-fns';
+import { BaseService } from './BaseService.js';
+import { PaymentService } from './PaymentService.js';
+import { HandoverService } from './HandoverService.js';
+import { NotificationService } from './NotificationService.js';
+import { supabaseAdmin } from '../utils/database.js';
+import { SecurityDeposit, FileDepositClaimDto, ResolveDepositClaimDto } from '../types/booking.js';
+import { ApiResponse, DepositStatus, PaginatedResponse } from '../types/common.js';
+import { DataMapper } from '../utils/mappers.js';
+
+export class SecurityDepositService extends BaseService {
+  private paymentService: PaymentService;
+  private handoverService: HandoverService;
+  private notificationService: NotificationService;
+
+  constructor() {
+    super('security_deposit');
+    this.paymentService = new PaymentService();
+    this.handoverService = new HandoverService();
+    this.notificationService = new NotificationService();
+  }
+
+  /**
+   * Days after completion before an unclaimed deposit is released
+   */
+  static getReleaseDelayDays(): number {
+    const days = Number(process.env.DEPOSIT_RELEASE_DAYS ?? 3);
+    return Number.isFinite(days) && days >= 0 ? days : 3;
+  }
+
+  /**
+   * Get the deposit record of a booking
+   */
+  async getByBookingId(bookingId: string): Promise<SecurityDeposit | null> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('security_deposit')
+        .select('*')
+        .eq('booking_id', bookingId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      return data ? DataMapper.toCamelCase(data) as SecurityDeposit : null;
+    } catch (error) {
+      console.error('Error getting security deposit:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Hold the deposit when a booking is confirmed
+   */
+  async holdForBooking(booking: { id: string; security_amount?: number | null }): Promise<ApiResponse<SecurityDeposit | null>> {
+    try {
+      const amount = Number(booking.security_amount ?? 0);
+      if (amount <= 0) {
+        return { success: true, data: null };
+      }
+
+      const existing = await this.getByBookingId(booking.id);
+      if (existing) {
+        return { success: true, data: existing };
+      }
+
+      const { data: payment } = await supabaseAdmin
+        .from('payment')
+        .select('id')
+        .eq('booking_id', booking.id)
+        .eq('payment_status', 'completed')
+        .order('paid_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      return await this.create({
+        bookingId: booking.id,
+        paymentId: payment?.id ?? null,
+        amount,
+        depositStatus: 'held' as DepositStatus,
+        heldAt: new Date().toISOString(),
+        deductedAmount: 0,
+        refundedAmount: 0,
+      });
+    } catch (error) {
+      console.error('Error holding security deposit:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Start the release countdown once the rental is completed
+   */
+  async scheduleRelease(bookingId: string, completedAt: string): Promise<ApiResponse<SecurityDeposit | null>> {
+    try {
+      const deposit = await this.getByBookingId(bookingId);
+      if (!deposit || deposit.depositStatus !== 'held') {
+        return { success: true, data: deposit };
+      }
+
+      const releaseDueAt = addDays(new Date(completedAt), SecurityDepositService.getReleaseDelayDays());
+
+      return await this.update(deposit.id, {
+        releaseDueAt: releaseDueAt.toISOString(),
+      });
+    } catch (error) {
+      console.error('Error scheduling deposit release:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Release the full deposit straight away (e.g. booking cancelled before pickup)
+   */
+  async releaseForBooking(bookingId: string, note: string): Promise<ApiResponse<SecurityDeposit | null>> {
+    const deposit = await this.getByBookingId(bookingId);
+    if (!deposit || deposit.depositStatus !== 'held') {
+      return { success: true, data: deposit };
+    }
+
+    return this.settleDeposit(deposit, 0, note);
+  }
+
+  /**
+   * Lender files a damage claim against the deposit before it is released
+   */
+  async fileClaim(
+    bookingId: string,
+    userId: string,
+    claimData: FileDepositClaimDto
+  ): Promise<ApiResponse<SecurityDeposit>> {
+    try {
+      const { data: booking, error } = await supabaseAdmin
+        .from('booking')
+        .select('id, lender_user_id, booking_status')
+        .eq('id', bookingId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return { success: false, error: 'Booking not found' };
+        }
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (booking.lender_user_id !== userId) {
+        return { success: false, error: 'Only the lender can file a deposit claim' };
+      }
+
+      if (booking.booking_status !== 'completed') {
+        return { success: false, error: 'Deposit claims can only be filed for completed bookings' };
+      }
+
+      const deposit = await this.getByBookingId(bookingId);
+      if (!deposit) {
+        return { success: false, error: 'This booking has no security deposit' };
+      }
+
+      if (deposit.depositStatus !== 'held') {
+        return { success: false, error: 'The deposit is no longer open for claims' };
+      }
+
+      if (deposit.releaseDueAt && new Date(deposit.releaseDueAt) <= new Date()) {
+        return { success: false, error: 'The claim window for this deposit has closed' };
+      }
+
+      if (claimData.amount > Number(deposit.amount)) {
+        return { success: false, error: `Claim cannot exceed the deposit of ${deposit.amount}` };
+      }
+
+      // The claim is argued against the condition both parties signed off at return
+      const returnReport = await this.handoverService.getReport(bookingId, 'return');
+
+      return await this.update(deposit.id, {
+        depositStatus: 'claimed' as DepositStatus,
+        claimAmount: claimData.amount,
+        claimReason: claimData.reason,
+        claimFiledAt: new Date().toISOString(),
+        claimReportId: returnReport?.id ?? null,
+      });
+    } catch (error) {
+      console.error('Error filing deposit claim:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Borrower accepts or rejects a pending damage claim
+   */
+  async respondToClaim(
+    bookingId: string,
+    userId: string,
+    accept: boolean
+  ): Promise<ApiResponse<SecurityDeposit | null>> {
+    try {
+      const { data: booking, error } = await supabaseAdmin
+        .from('booking')
+        .select('id, borrower_user_id')
+        .eq('id', bookingId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return { success: false, error: 'Booking not found' };
+        }
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (booking.borrower_user_id !== userId) {
+        return { success: false, error: 'Only the borrower can respond to a deposit claim' };
+      }
+
+      const deposit = await this.getByBookingId(bookingId);
+      if (!deposit || deposit.depositStatus !== 'claimed') {
+        return { success: false, error: 'There is no pending claim on this deposit' };
+      }
+
+      if (!accept) {
+        // Rejected claims stay open until an admin resolves them (see resolveContestedClaim)
+        return await this.update(deposit.id, {
+          claimRejectedAt: new Date().toISOString(),
+        });
+      }
+
+      const lateFee = await this.getLateFee(bookingId);
+
+      return await this.settleDeposit(
+        deposit,
+        Number(deposit.claimAmount ?? 0) + lateFee,
+        lateFee > 0 ? 'Damage claim accepted by borrower; late return fee kept' : 'Damage claim accepted by borrower',
+        lateFee
+      );
+    } catch (error) {
+      console.error('Error responding to deposit claim:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List claims the borrower rejected, oldest first (admin only)
+   */
+  async listContestedClaims(page: number = 1, limit: number = 20): Promise<PaginatedResponse<SecurityDeposit>> {
+    try {
+      const offset = (page - 1) * limit;
+
+      const { data, error, count } = await supabaseAdmin
+        .from('security_deposit')
+        .select('*', { count: 'exact' })
+        .eq('deposit_status', 'claimed')
+        .not('claim_rejected_at', 'is', null)
+        .order('claim_rejected_at', { ascending: true })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      const totalPages = Math.ceil((count || 0) / limit);
+
+      return {
+        success: true,
+        data: DataMapper.toCamelCase(data || []),
+        pagination: {
+          page,
+          limit,
+          total: count || 0,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      };
+    } catch (error) {
+      console.error('Error listing contested deposit claims:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Settle a claim the borrower rejected: keep the decided deduction (plus any late return fee) for the lender
+   * and refund the rest (admin only)
+   */
+  async resolveContestedClaim(
+    depositId: string,
+    resolution: ResolveDepositClaimDto
+  ): Promise<ApiResponse<SecurityDeposit>> {
+    try {
+      const found = await this.findById(depositId);
+      if (!found.success) {
+        return { success: false, error: 'Security deposit not found' };
+      }
+
+      const deposit = found.data as SecurityDeposit;
+      if (deposit.depositStatus !== 'claimed' || !deposit.claimRejectedAt) {
+        return { success: false, error: 'This deposit has no contested claim' };
+      }
+
+      if (resolution.deduction > Number(deposit.claimAmount ?? 0)) {
+        return { success: false, error: 'Deduction cannot exceed the claimed amount' };
+      }
+
+      const lateFee = await this.getLateFee(deposit.bookingId);
+
+      const result = await this.settleDeposit(
+        deposit,
+        resolution.deduction + lateFee,
+        `Contested claim resolved by support: ${resolution.note}`,
+        lateFee
+      );
+
+      if (result.success) {
+        await this.notificationService.notifyBooking(deposit.bookingId, 'disputeResolved', { reason: resolution.note });
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Error resolving contested deposit claim:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Close a deposit: keep the deduction for the lender and refund the rest to the borrower.
+   * A late fee included in the deduction is taken first; what the deposit cannot cover stays outstanding.
+   */
+  async settleDeposit(
+    deposit: SecurityDeposit,
+    deductionAmount: number,
+    note: string,
+    lateFee: number = 0
+  ): Promise<ApiResponse<SecurityDeposit>> {
+    try {
+      const amount = Number(deposit.amount);
+      const deducted = Math.min(Math.max(deductionAmount, 0), amount);
+      const refundAmount = Math.round((amount - deducted) * 100) / 100;
+
+      // Close the deposit first; only the caller that moved it out of held/claimed issues the refund
+      const { data: claimed, error } = await supabaseAdmin
+        .from('security_deposit')
+        .update({
+          deposit_status: deducted > 0 ? 'deducted' : 'released',
+          deducted_amount: deducted,
+          refunded_amount: refundAmount,
+          released_at: new Date().toISOString(),
+          resolution_note: note,
+        })
+        .eq('id', deposit.id)
+        .in('deposit_status', ['held', 'claimed'])
+        .select('id')
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (!claimed) {
+        return { success: false, error: 'This security deposit has already been settled' };
+      }
+
+      if (lateFee > 0) {
+        const { error: lateFeeError } = await supabaseAdmin
+          .from('booking')
+          .update({ late_fee_collected: Math.min(lateFee, deducted) })
+          .eq('id', deposit.bookingId);
+
+        if (lateFeeError) {
+          throw new Error(`Database error: ${lateFeeError.message}`);
+        }
+      }
+
+      let refundId: string | null = null;
+      if (refundAmount > 0) {
+        const refund = await this.paymentService.refundBookingPayment(
+          deposit.bookingId,
+          refundAmount,
+          'Security deposit refund'
+        );
+        // Deposits paid offline have no captured payment to refund against
+        if (refund.success) {
+          refundId = refund.data?.refundId ?? null;
+        } else {
+          console.warn(`Deposit refund skipped for booking ${deposit.bookingId}: ${refund.error}`);
+        }
+      }
+
+      return await this.update(deposit.id, { refundId });
+    } catch (error) {
+      console.error('Error settling security deposit:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Release every held deposit whose claim window has passed
+   */
+  async releaseDueDeposits(): Promise<number> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('security_deposit')
+        .select('*, booking:booking_id(late_fee)')
+        .eq('deposit_status', 'held')
+        .lte('release_due_at', new Date().toISOString());
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      let released = 0;
+      for (const { booking, ...row } of data || []) {
+        try {
+          // A late return fee is kept from the deposit for the lender
+          const lateFee = Number(booking?.late_fee ?? 0);
+          const result = await this.settleDeposit(
+            DataMapper.toCamelCase(row) as SecurityDeposit,
+            lateFee,
+            lateFee > 0
+              ? 'Late return fee kept; the rest released automatically after the claim window'
+              : 'Released automatically after the claim window',
+            lateFee
+          );
+          if (result.success) {
+            released++;
+          }
+        } catch (err) {
+          console.error(`Failed to release deposit ${row.id}:`, err);
+        }
+      }
+
+      return released;
+    } catch (error) {
+      console.error('Error releasing due deposits:', error);
+      throw error;
+    }
+  }
+
+  private async getLateFee(bookingId: string): Promise<number> {
+    const { data, error } = await supabaseAdmin
+      .from('booking')
+      .select('late_fee')
+      .eq('id', bookingId)
+      .single();
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return Number(data?.late_fee ?? 0);
+  }
+}
@@ -49,6 +49,9 @@ export class UserService extends BaseService {
       if (userData.dobVisibility !== undefined) updateData.dob_visibility = userData.dobVisibility;
       if (userData.bio !== undefined) updateData.bio = userData.bio;
       if (userData.avatarUrl !== undefined) updateData.avatar_url = userData.avatarUrl;
+      if (userData.gstin !== undefined) updateData.gstin = userData.gstin;
+      if (userData.businessName !== undefined) updateData.business_name = userData.businessName;
+      if (userData.billingAddress !== undefined) updateData.billing_address = userData.billingAddress;
       updateData.updated_at = new Date().toISOString();
 
       const result = await this.update(userId, updateData);
@@ -425,4 +428,20 @@ export class UserService extends BaseService {
       throw error;
     }
   }
+  /**
+   * Whether the user holds the admin role; roles live on the users table, not in the JWT
+   */
+  static async isAdmin(userId: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('users')
+      .select('role')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data?.role === 'admin';
+  }
 }
\ No newline at end of file
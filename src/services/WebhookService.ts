@@ -0,0 +1,468 @@
+// Webhook service managing subscriptions and sending signed event payloads with retries
+
+import crypto from 'crypto';
+import { BaseService } from './BaseService.js';
+import { supabaseAdmin } from '../utils/database.js';
+import {
+  CreateWebhookSubscriptionDto,
+  UpdateWebhookSubscriptionDto,
+  WebhookDelivery,
+  WebhookDeliveryFilters,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookSubscription,
+} from '../types/webhook.js';
+import { ApiResponse, PaginatedResponse } from '../types/common.js';
+import { DataMapper } from '../utils/mappers.js';
+
+type DeliveryTarget = { url: string; secret: string };
+
+export class WebhookService extends BaseService {
+  private static readonly USER_AGENT = 'P2P-Webhooks';
+  private static readonly REQUEST_TIMEOUT_MS = 10000;
+  private static readonly RETRY_BASE_SECONDS = 60; // doubled after every failed attempt
+  private static readonly DEFAULT_MAX_ATTEMPTS = 8;
+  private static readonly LOCK_SECONDS = 60; // longer than a request can take
+  private static readonly RESPONSE_BODY_LIMIT = 2000;
+  private static readonly BATCH_SIZE = 50;
+
+  constructor() {
+    super('webhook_subscription');
+  }
+
+  /**
+   * List webhook subscriptions with masked secrets (admin only)
+   */
+  async listSubscriptions(page: number = 1, limit: number = 20): Promise<PaginatedResponse<WebhookSubscription>> {
+    const result = await this.findAll({
+      page,
+      limit,
+      orderBy: 'created_at',
+      orderDirection: 'desc',
+    });
+
+    return {
+      ...result,
+      data: result.data.map(WebhookService.maskSecret),
+    };
+  }
+
+  /**
+   * Get a webhook subscription with a masked secret (admin only)
+   */
+  async getSubscription(subscriptionId: string): Promise<ApiResponse<WebhookSubscription>> {
+    try {
+      const found = await this.findById(subscriptionId);
+      if (!found.success) {
+        return { success: false, error: 'Webhook subscription not found' };
+      }
+
+      return {
+        success: true,
+        data: WebhookService.maskSecret(found.data),
+      };
+    } catch (error) {
+      console.error('Error getting webhook subscription:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Register an endpoint; the response is the only time its signing secret is shown (admin only)
+   */
+  async createSubscription(
+    adminId: string,
+    subscriptionData: CreateWebhookSubscriptionDto
+  ): Promise<ApiResponse<WebhookSubscription>> {
+    try {
+      const result = await this.create({
+        url: subscriptionData.url,
+        eventTypes: subscriptionData.eventTypes,
+        description: subscriptionData.description ?? null,
+        isActive: subscriptionData.isActive ?? true,
+        secret: WebhookService.generateSecret(),
+        createdBy: adminId,
+      });
+
+      return {
+        ...result,
+        message: 'Webhook subscription created. Store the secret now, it will not be shown again',
+      };
+    } catch (error) {
+      console.error('Error creating webhook subscription:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a subscription, optionally rotating its secret; a new secret is shown once (admin only)
+   */
+  async updateSubscription(
+    subscriptionId: string,
+    updateData: UpdateWebhookSubscriptionDto
+  ): Promise<ApiResponse<WebhookSubscription>> {
+    try {
+      const found = await this.findById(subscriptionId);
+      if (!found.success) {
+        return { success: false, error: 'Webhook subscription not found' };
+      }
+
+      const { rotateSecret, ...fields } = updateData;
+
+      const result = await this.update(subscriptionId, {
+        ...fields,
+        ...(rotateSecret && { secret: WebhookService.generateSecret() }),
+      });
+
+      if (!result.success) {
+        return result;
+      }
+
+      return {
+        success: true,
+        data: rotateSecret ? result.data : WebhookService.maskSecret(result.data),
+        message: rotateSecret
+          ? 'Webhook subscription updated. Store the new secret now, it will not be shown again'
+          : 'Webhook subscription updated',
+      };
+    } catch (error) {
+      console.error('Error updating webhook subscription:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a subscription along with its delivery log (admin only)
+   */
+  async deleteSubscription(subscriptionId: string): Promise<ApiResponse<void>> {
+    try {
+      const found = await this.findById(subscriptionId);
+      if (!found.success) {
+        return { success: false, error: 'Webhook subscription not found' };
+      }
+
+      return await this.delete(subscriptionId);
+    } catch (error) {
+      console.error('Error deleting webhook subscription:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the delivery log of a subscription, newest first (admin only)
+   */
+  async getDeliveries(
+    subscriptionId: string,
+    filters: WebhookDeliveryFilters
+  ): Promise<PaginatedResponse<WebhookDelivery>> {
+    try {
+      const { deliveryStatus, page = 1, limit = 20 } = filters;
+      const offset = (page - 1) * limit;
+
+      let query = supabaseAdmin
+        .from('webhook_delivery')
+        .select('*', { count: 'exact' })
+        .eq('subscription_id', subscriptionId);
+
+      if (deliveryStatus) {
+        query = query.eq('delivery_status', deliveryStatus);
+      }
+
+      const { data, error, count } = await query
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      const totalPages = Math.ceil((count || 0) / limit);
+
+      return {
+        success: true,
+        data: (data || []).map(WebhookService.toDelivery),
+        pagination: {
+          page,
+          limit,
+          total: count || 0,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      };
+    } catch (error) {
+      console.error('Error getting webhook deliveries:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a logged event to its subscription again as a new delivery, attempted right away (admin only)
+   */
+  async redeliver(subscriptionId: string, deliveryId: string): Promise<ApiResponse<WebhookDelivery>> {
+    try {
+      const { data: original, error } = await supabaseAdmin
+        .from('webhook_delivery')
+        .select('*, subscription:subscription_id(url, secret)')
+        .eq('id', deliveryId)
+        .eq('subscription_id', subscriptionId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (!original) {
+        return { success: false, error: 'Webhook delivery not found' };
+      }
+
+      const { data: delivery, error: insertError } = await supabaseAdmin
+        .from('webhook_delivery')
+        .insert({
+          subscription_id: subscriptionId,
+          event_id: original.event_id,
+          event_type: original.event_type,
+          payload: original.payload,
+          redelivery_of: original.id,
+          locked_until: WebhookService.secondsFromNow(WebhookService.LOCK_SECONDS),
+        })
+        .select()
+        .single();
+
+      if (insertError) {
+        throw new Error(`Database error: ${insertError.message}`);
+      }
+
+      const attempted = await this.attempt(delivery, original.subscription as DeliveryTarget);
+
+      return {
+        success: true,
+        data: WebhookService.toDelivery(attempted),
+        message: attempted.delivery_status === 'succeeded'
+          ? 'Event redelivered'
+          : 'Redelivery failed, it will be retried',
+      };
+    } catch (error) {
+      console.error('Error redelivering webhook:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Queue an event for every active subscription to its type and send it in the background; deliveries that
+   * fail are retried by the webhook delivery job. Failures are logged and never interrupt the caller.
+   */
+  async publish(eventType: WebhookEventType, data: Record<string, any>): Promise<void> {
+    try {
+      const { data: subscriptions, error } = await supabaseAdmin
+        .from('webhook_subscription')
+        .select('id, url, secret')
+        .eq('is_active', true)
+        .contains('event_types', [eventType]);
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      if (!subscriptions || subscriptions.length === 0) {
+        return;
+      }
+
+      const event: WebhookEvent = {
+        id: crypto.randomUUID(),
+        type: eventType,
+        createdAt: new Date().toISOString(),
+        data,
+      };
+
+      const { data: deliveries, error: insertError } = await supabaseAdmin
+        .from('webhook_delivery')
+        .insert(subscriptions.map(subscription => ({
+          subscription_id: subscription.id,
+          event_id: event.id,
+          event_type: eventType,
+          payload: event,
+          locked_until: WebhookService.secondsFromNow(WebhookService.LOCK_SECONDS),
+        })))
+        .select();
+
+      if (insertError) {
+        throw new Error(`Database error: ${insertError.message}`);
+      }
+
+      const targets = new Map(subscriptions.map(subscription => [subscription.id, subscription]));
+
+      for (const delivery of deliveries || []) {
+        this.attempt(delivery, targets.get(delivery.subscription_id)!).catch(sendError => {
+          console.error(`Error sending webhook delivery ${delivery.id}:`, sendError);
+        });
+      }
+    } catch (error) {
+      console.error(`Error publishing ${eventType} webhook:`, error);
+    }
+  }
+
+  /**
+   * Retry the pending deliveries that are due, for active subscriptions; returns how many were attempted
+   */
+  async processDueDeliveries(): Promise<number> {
+    const now = new Date().toISOString();
+
+    const { data: due, error } = await supabaseAdmin
+      .from('webhook_delivery')
+      .select('id, subscription:subscription_id!inner(url, secret, is_active)')
+      .eq('delivery_status', 'pending')
+      .lte('next_attempt_at', now)
+      .or(`locked_until.is.null,locked_until.lt.${now}`)
+      .eq('subscription.is_active', true)
+      .order('next_attempt_at', { ascending: true })
+      .limit(WebhookService.BATCH_SIZE);
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    let attempted = 0;
+    for (const { id, subscription } of due || []) {
+      // Another instance may have picked the delivery up since it was listed
+      const { data: claimed, error: claimError } = await supabaseAdmin
+        .from('webhook_delivery')
+        .update({ locked_until: WebhookService.secondsFromNow(WebhookService.LOCK_SECONDS) })
+        .eq('id', id)
+        .eq('delivery_status', 'pending')
+        .or(`locked_until.is.null,locked_until.lt.${new Date().toISOString()}`)
+        .select()
+        .maybeSingle();
+
+      if (claimError) {
+        console.error(`Error claiming webhook delivery ${id}:`, claimError);
+        continue;
+      }
+
+      if (!claimed) {
+        continue;
+      }
+
+      try {
+        await this.attempt(claimed, subscription as unknown as DeliveryTarget);
+        attempted++;
+      } catch (sendError) {
+        console.error(`Error sending webhook delivery ${id}:`, sendError);
+      }
+    }
+
+    return attempted;
+  }
+
+  /**
+   * Signature sent in the X-Webhook-Signature header: an HMAC-SHA256 of "<timestamp>.<body>"
+   */
+  static sign(secret: string, timestamp: number, body: string): string {
+    const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${digest}`;
+  }
+
+  /**
+   * POST a claimed delivery to its endpoint and record the outcome; a non-2xx response or a network error
+   * schedules the next attempt with exponential backoff until the attempts run out
+   */
+  private async attempt(delivery: Record<string, any>, target: DeliveryTarget): Promise<Record<string, any>> {
+    const body = JSON.stringify(delivery.payload);
+    const signature = WebhookService.sign(target.secret, Math.floor(Date.now() / 1000), body);
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let failure: string | null = null;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), WebhookService.REQUEST_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(target.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': WebhookService.USER_AGENT,
+          'X-Webhook-Id': delivery.event_id,
+          'X-Webhook-Event': delivery.event_type,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Signature': signature,
+        },
+        body,
+        signal: controller.signal,
+        redirect: 'manual',
+      });
+
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, WebhookService.RESPONSE_BODY_LIMIT);
+
+      if (!response.ok) {
+        failure = `Endpoint responded with ${response.status}`;
+      }
+    } catch (error: any) {
+      failure = error.name === 'AbortError'
+        ? `No response within ${WebhookService.REQUEST_TIMEOUT_MS / 1000} seconds`
+        : error.message || 'Request failed';
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    const attempts = delivery.attempts + 1;
+    const now = new Date().toISOString();
+    const retry = failure !== null && attempts < WebhookService.maxAttempts();
+
+    const { data: updated, error } = await supabaseAdmin
+      .from('webhook_delivery')
+      .update({
+        attempts,
+        last_attempt_at: now,
+        response_status: responseStatus,
+        response_body: responseBody,
+        error: failure,
+        delivery_status: failure === null ? 'succeeded' : retry ? 'pending' : 'failed',
+        next_attempt_at: retry
+          ? WebhookService.secondsFromNow(WebhookService.RETRY_BASE_SECONDS * 2 ** (attempts - 1))
+          : null,
+        delivered_at: failure === null ? now : null,
+        locked_until: null,
+      })
+      .eq('id', delivery.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return updated;
+  }
+
+  private static maxAttempts(): number {
+    const configured = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '', 10);
+    return configured > 0 ? configured : WebhookService.DEFAULT_MAX_ATTEMPTS;
+  }
+
+  private static generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+
+  private static maskSecret(subscription: WebhookSubscription): WebhookSubscription {
+    return {
+      ...subscription,
+      secret: `whsec_...${subscription.secret.slice(-4)}`,
+    };
+  }
+
+  // The payload is stored as sent, only the row's own columns are converted
+  private static toDelivery(row: Record<string, any>): WebhookDelivery {
+    const { payload, ...rest } = row;
+    return {
+      ...DataMapper.toCamelCase(rest),
+      payload,
+    } as WebhookDelivery;
+  }
+
+  private static secondsFromNow(seconds: number): string {
+    return new Date(Date.now() + seconds * 1000).toISOString();
+  }
+}
@@ -0,0 +1,18 @@
+import { NotificationMessage, NotificationRecipient, NotificationTransport } from './NotificationTransport.js';
+
+/**
+ * Local stand-in email transport for development and tests.
+ * Nothing is sent; the email is written to the server log.
+ */
+export class LocalEmailTransport implements NotificationTransport {
+  public readonly channel = 'email';
+  public readonly name = 'local';
+
+  canReach(recipient: NotificationRecipient): boolean {
+    return !!recipient.email;
+  }
+
+  async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<void> {
+    console.log(`📧 [local email] to ${recipient.email}: ${message.title} - ${message.body}`);
+  }
+}
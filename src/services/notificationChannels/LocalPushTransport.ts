@@ -0,0 +1,20 @@
+import { NotificationMessage, NotificationRecipient, NotificationTransport } from './NotificationTransport.js';
+
+/**
+ * Local stand-in push transport for development and tests.
+ * Nothing is sent; one log line is written per device token.
+ */
+export class LocalPushTransport implements NotificationTransport {
+  public readonly channel = 'push';
+  public readonly name = 'local';
+
+  canReach(recipient: NotificationRecipient): boolean {
+    return recipient.deviceTokens.length > 0;
+  }
+
+  async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<void> {
+    for (const token of recipient.deviceTokens) {
+      console.log(`🔔 [local push] to device ${token.slice(0, 8)}…: ${message.title}`);
+    }
+  }
+}
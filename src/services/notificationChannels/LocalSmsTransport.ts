@@ -0,0 +1,18 @@
+import { NotificationMessage, NotificationRecipient, NotificationTransport } from './NotificationTransport.js';
+
+/**
+ * Local stand-in SMS transport for development and tests.
+ * Nothing is sent; the text is written to the server log.
+ */
+export class LocalSmsTransport implements NotificationTransport {
+  public readonly channel = 'sms';
+  public readonly name = 'local';
+
+  canReach(recipient: NotificationRecipient): boolean {
+    return !!recipient.phoneNumber;
+  }
+
+  async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<void> {
+    console.log(`📱 [local sms] to ${recipient.phoneNumber}: ${message.body}`);
+  }
+}
@@ -0,0 +1,34 @@
+import { NotificationChannel } from '../../types/common.js';
+
+export type NotificationRecipient = {
+  userId: string;
+  fullName?: string;
+  email?: string;
+  phoneNumber?: string;
+  deviceTokens: string[]; // active devices with a push token
+};
+
+export type NotificationMessage = {
+  title: string;
+  body: string;
+  data: Record<string, any>;
+};
+
+/**
+ * Contract every email, SMS and push provider adapter has to implement.
+ * NotificationService only talks to providers through this interface.
+ */
+export interface NotificationTransport {
+  readonly channel: NotificationChannel;
+  readonly name: string;
+
+  /**
+   * Whether the recipient has an address on this channel (email, phone number or device token)
+   */
+  canReach(recipient: NotificationRecipient): boolean;
+
+  /**
+   * Send a notification to the recipient; throws when the provider rejects it
+   */
+  send(recipient: NotificationRecipient, message: NotificationMessage): Promise<void>;
+}
@@ -0,0 +1,28 @@
+import { NotificationTransport } from './NotificationTransport.js';
+import { LocalEmailTransport } from './LocalEmailTransport.js';
+import { LocalSmsTransport } from './LocalSmsTransport.js';
+import { LocalPushTransport } from './LocalPushTransport.js';
+import { NotificationChannel } from '../../types/common.js';
+
+export type { NotificationTransport, NotificationRecipient, NotificationMessage } from './NotificationTransport.js';
+
+const transports: Record<NotificationChannel, Record<string, NotificationTransport>> = {
+  email: { local: new LocalEmailTransport() },
+  sms: { local: new LocalSmsTransport() },
+  push: { local: new LocalPushTransport() },
+};
+
+const TRANSPORT_ENV: Record<NotificationChannel, string> = {
+  email: 'NOTIFICATION_EMAIL_TRANSPORT',
+  sms: 'NOTIFICATION_SMS_TRANSPORT',
+  push: 'NOTIFICATION_PUSH_TRANSPORT',
+};
+
+/**
+ * Resolve the transport of a channel from NOTIFICATION_<CHANNEL>_TRANSPORT (defaults to the local stand-in);
+ * returns null when the channel is turned off ('none') or the transport is unknown
+ */
+export const getNotificationTransport = (channel: NotificationChannel): NotificationTransport | null => {
+  const transportName = process.env[TRANSPORT_ENV[channel]] || 'local';
+  return transports[channel][transportName] ?? null;
+};
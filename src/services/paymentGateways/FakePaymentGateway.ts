@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  PaymentGateway,
+  GatewayPaymentRequest,
+  GatewayPaymentSession,
+  GatewayCallbackEvent,
+  GatewayRefundRequest,
+  GatewayRefundResult,
+} from './PaymentGateway.js';
+
+/**
+ * Local stand-in gateway for development and tests.
+ * No money moves; the checkout payload contains pre-signed callbacks the client
+ * can post back to /api/payments/callback/fake to simulate the provider.
+ * Since clients can settle their own payments with it, it is never enabled in production
+ * and needs its own FAKE_PAYMENT_GATEWAY_SECRET.
+ */
+export class FakePaymentGateway implements PaymentGateway {
+  public readonly name = 'fake';
+  private static readonly PUBLIC_DEFAULT_SECRET = 'fake-gateway-secret'; // shipped in earlier configs, refused
+
+  static isEnabled(): boolean {
+    return process.env.NODE_ENV !== 'production' && FakePaymentGateway.secret() !== null;
+  }
+
+  async createPayment(request: GatewayPaymentRequest): Promise<GatewayPaymentSession> {
+    const transactionId = `fake_txn_${uuidv4()}`;
+
+    const completed = { transactionId, status: 'completed', amount: request.amount };
+    const failed = { transactionId, status: 'failed', amount: request.amount };
+
+    return {
+      transactionId,
+      checkout: {
+        provider: this.name,
+        transactionId,
+        amount: request.amount,
+        currency: request.currency,
+        simulate: {
+          completed: { payload: completed, signature: this.sign(completed) },
+          failed: { payload: failed, signature: this.sign(failed) },
+        },
+      },
+      raw: { transactionId, createdAt: new Date().toISOString() },
+    };
+  }
+
+  async refundPayment(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    const refundId = `fake_rfnd_${uuidv4()}`;
+    return {
+      refundId,
+      raw: {
+        refundId,
+        transactionId: request.transactionId,
+        amount: request.amount,
+        reason: request.reason,
+        refundedAt: new Date().toISOString(),
+      },
+    };
+  }
+
+  parseCallback(payload: Record<string, any>, signature?: string): GatewayCallbackEvent | null {
+    if (!signature || signature !== this.sign(payload)) {
+      return null;
+    }
+
+    if (typeof payload.transactionId !== 'string') {
+      return null;
+    }
+
+    return {
+      transactionId: payload.transactionId,
+      status: payload.status === 'completed' ? 'completed' : 'failed',
+      raw: payload,
+    };
+  }
+
+  private sign(payload: Record<string, any>): string {
+    const secret = FakePaymentGateway.secret();
+    if (secret === null) {
+      throw new Error('The fake payment gateway is not enabled');
+    }
+
+    const canonical = JSON.stringify({
+      transactionId: payload.transactionId,
+      status: payload.status,
+      amount: payload.amount,
+    });
+    return crypto.createHmac('sha256', secret).update(canonical).digest('hex');
+  }
+
+  private static secret(): string | null {
+    const secret = process.env.FAKE_PAYMENT_GATEWAY_SECRET;
+    return secret && secret !== FakePaymentGateway.PUBLIC_DEFAULT_SECRET ? secret : null;
+  }
+}
@@ -0,0 +1,59 @@
+import { PaymentMethod } from '../../types/common.js';
+
+export type GatewayPaymentRequest = {
+  paymentId: string; // the checkout id when one payment covers the bookings of a checkout
+  bookingId?: string;
+  checkoutId?: string;
+  userId: string;
+  amount: number;
+  currency: string;
+  paymentMethod: PaymentMethod;
+};
+
+export type GatewayPaymentSession = {
+  transactionId: string;
+  // Data the client needs to complete the payment with the provider
+  checkout: Record<string, any>;
+  raw?: Record<string, any>;
+};
+
+export type GatewayCallbackEvent = {
+  transactionId: string;
+  status: 'completed' | 'failed';
+  raw: Record<string, any>;
+};
+
+export type GatewayRefundRequest = {
+  paymentId: string;
+  transactionId: string;
+  amount: number;
+  reason?: string;
+};
+
+export type GatewayRefundResult = {
+  refundId: string;
+  raw?: Record<string, any>;
+};
+
+/**
+ * Contract every payment provider adapter has to implement.
+ * PaymentService only talks to providers through this interface.
+ */
+export interface PaymentGateway {
+  readonly name: string;
+
+  /**
+   * Register a payment with the provider and return the session the client completes
+   */
+  createPayment(request: GatewayPaymentRequest): Promise<GatewayPaymentSession>;
+
+  /**
+   * Refund part or all of a captured payment
+   */
+  refundPayment(request: GatewayRefundRequest): Promise<GatewayRefundResult>;
+
+  /**
+   * Verify and normalize a provider callback, returns null when the signature does not match
+   */
+  parseCallback(payload: Record<string, any>, signature?: string): GatewayCallbackEvent | null;
+}
@@ -0,0 +1,48 @@
+import { PaymentGateway } from './PaymentGateway.js';
+import { FakePaymentGateway } from './FakePaymentGateway.js';
+
+export type { PaymentGateway } from './PaymentGateway.js';
+
+const gateways: Record<string, PaymentGateway> = {
+  fake: new FakePaymentGateway(),
+};
+
+/**
+ * Resolve a gateway adapter by name, defaults to PAYMENT_GATEWAY; null when unknown, unset or not allowed here
+ */
+export const getPaymentGateway = (name?: string): PaymentGateway | null => {
+  const gatewayName = name || process.env.PAYMENT_GATEWAY;
+  if (!gatewayName) {
+    return null;
+  }
+
+  if (gatewayName === 'fake' && !FakePaymentGateway.isEnabled()) {
+    return null;
+  }
+
+  return gateways[gatewayName] ?? null;
+};
+
+/**
+ * Fail fast at startup when PAYMENT_GATEWAY is missing, unknown or not allowed in this environment
+ */
+export const assertPaymentGatewayConfig = (): void => {
+  const gatewayName = process.env.PAYMENT_GATEWAY;
+
+  if (!gatewayName) {
+    throw new Error('Missing PAYMENT_GATEWAY environment variable');
+  }
+
+  if (gatewayName === 'fake') {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('The fake payment gateway cannot be used in production');
+    }
+    if (!FakePaymentGateway.isEnabled()) {
+      throw new Error('Missing FAKE_PAYMENT_GATEWAY_SECRET environment variable (the well-known default is refused)');
+    }
+  }
+
+  if (!getPaymentGateway(gatewayName)) {
+    throw new Error(`Unknown payment gateway: ${gatewayName}`);
+  }
+};
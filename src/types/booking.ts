@@ -1,6 +1,20 @@
 // Booking and Payment-related type definitions
 
-import { BaseEntity, Location, BookingStatus, DeliveryMode, PaymentMethod, PaymentStatus } from './common.js';
+import {
+  BaseEntity,
+  Location,
+  BookingStatus,
+  DeliveryMode,
+  PaymentMethod,
+  PaymentStatus,
+  DepositStatus,
+  DisputeStatus,
+  ModificationStatus,
+  CancellationPolicy,
+  PricingRuleType,
+  ItemCondition,
+  HandoverType,
+} from './common.js';
 import { User } from './user.js';
 import { Item } from './item.js';
 
@@ -17,6 +31,15 @@ export interface Booking extends BaseEntity {
   totalRent: number;
   securityAmount?: number;
   platformFee?: number;
+  deliveryFee?: number;
+  promoCodeId?: string;
+  discountAmount?: number;
+  checkoutId?: string; // set when booked together with other items through the cart
+  overdueAt?: string; // flagged when still in progress after the end date
+  lateDays?: number;
+  lateFee?: number; // charged on top of totalAmount, kept from the security deposit first
+  lateFeeCollected?: number;
+  lateFeeOutstanding?: number; // late fee the deposit did not cover, still owed by the borrower
   totalAmount: number;
   bookingStatus: BookingStatus;
   deliveryMode?: DeliveryMode;
@@ -26,11 +49,18 @@ export interface Booking extends BaseEntity {
   confirmedAt?: string;
   completedAt?: string;
   cancelledAt?: string;
+  expiresAt?: string; // response deadline while the booking is pending
   cancellationReason?: string;
+  cancelledBy?: string;
+  cancellationRefundAmount?: number;
+  cancellationLenderCompensation?: number;
+  cancellationBreakdown?: CancellationBreakdown;
+  priceBreakdown?: PriceBreakdown;
   ratingByLender?: number;
   ratingByBorrower?: number;
   feedbackByLender?: string;
   feedbackByBorrower?: string;
+  unreadMessages?: number; // messages in the booking thread the caller has not read (booking lists)
   
   // Relations
   item?: Item;
@@ -39,16 +69,76 @@ export interface Booking extends BaseEntity {
   pickupLocationDetails?: Location;
   deliveryLocationDetails?: Location;
   payments?: Payment[];
+  securityDeposit?: SecurityDeposit;
+  handoverReports?: HandoverReport[];
+}
+
+// Rent line items produced by the pricing engine
+export interface PriceLineItem {
+  type: 'base' | PricingRuleType | 'promo';
+  label: string;
+  days?: number; // days the line applies to, for per-day rates
+  amount: number; // negative for discounts
+  ruleId?: string;
+  promoCodeId?: string;
+}
+
+export interface PriceBreakdown {
+  dailyRate: number;
+  totalDays: number;
+  lineItems: PriceLineItem[];
+  totalRent: number;
+  platformFee: number;
+  securityAmount: number;
+  deliveryFee: number;
+  discountAmount?: number; // promo code discount, already taken off totalRent
+  totalAmount: number; // rent + platform fee + security deposit + delivery fee
+}
+
+// Short-lived priced offer for an item and dates that a booking can reference to get the quoted price
+export interface BookingQuote {
+  id: string;
+  itemId: string;
+  userId?: string;
+  startDate: string;
+  endDate: string;
+  deliveryMode: DeliveryMode;
+  priceBreakdown: PriceBreakdown;
+  expiresAt: string;
+  bookingId?: string;
+  createdAt: string;
+}
+
+export interface CreateQuoteDto {
+  startDate: string;
+  endDate: string;
+  deliveryMode?: DeliveryMode;
+}
+
+// Refund breakdown computed when a booking is cancelled
+export interface CancellationBreakdown {
+  policy: CancellationPolicy;
+  cutoffDays: number;
+  cancelledBy: 'lender' | 'borrower';
+  daysBeforeStart: number;
+  refundPercentage: number;
+  rentRefund: number;
+  platformFeeRefund: number;
+  depositRefund: number;
+  refundAmount: number;
+  lenderCompensation: number;
 }
 
 // Payment interface
 export interface Payment extends BaseEntity {
   id: string;
   bookingId: string;
+  checkoutId?: string; // set when the payment covers a checkout; its bookings share one transaction
   userId: string;
   amount: number;
   paymentMethod: PaymentMethod;
   transactionId?: string;
+  gateway?: string;
   paymentStatus: PaymentStatus;
   gatewayResponse?: Record<string, any>;
   paidAt?: string;
@@ -62,6 +152,178 @@ export interface Payment extends BaseEntity {
   user?: User;
 }
 
+// Security deposit interface (one per booking that carries a deposit)
+export interface SecurityDeposit extends BaseEntity {
+  id: string;
+  bookingId: string;
+  paymentId?: string;
+  amount: number;
+  depositStatus: DepositStatus;
+  heldAt: string;
+  releaseDueAt?: string;
+  claimAmount?: number;
+  claimReason?: string;
+  claimFiledAt?: string;
+  claimReportId?: string; // return handover report the claim is made against
+  claimRejectedAt?: string;
+  deductedAmount: number;
+  refundedAmount: number;
+  refundId?: string;
+  releasedAt?: string;
+  resolutionNote?: string;
+}
+
+// Booking status history entry (one per status transition)
+export interface BookingStatusHistory {
+  id: string;
+  bookingId: string;
+  fromStatus?: BookingStatus | null;
+  toStatus: BookingStatus;
+  changedBy?: string | null;
+  reason?: string;
+  createdAt: string;
+  actor?: {
+    id: string;
+    fullName: string;
+    avatarUrl?: string;
+  } | null;
+}
+
+// Date change or extension proposed by the borrower; keeps the pre-change values once accepted
+export interface BookingModification extends BaseEntity {
+  id: string;
+  bookingId: string;
+  requestedBy: string;
+  modificationStatus: ModificationStatus;
+  previousStartDate: string;
+  previousEndDate: string;
+  previousTotalRent: number;
+  previousPlatformFee: number;
+  proposedStartDate: string;
+  proposedEndDate: string;
+  proposedTotalRent: number;
+  proposedPlatformFee: number;
+  proposedPriceBreakdown?: PriceBreakdown;
+  message?: string;
+  responseNote?: string;
+  respondedBy?: string;
+  respondedAt?: string;
+}
+
+// Dispute raised by either party on an in-progress booking
+export interface BookingDispute extends BaseEntity {
+  id: string;
+  bookingId: string;
+  raisedBy: string;
+  reason: string;
+  disputeStatus: DisputeStatus;
+  outcome?: 'completed' | 'cancelled';
+  depositDeduction?: number;
+  depositRefund?: number;
+  rentRefund?: number;
+  resolutionNote?: string;
+  resolvedBy?: string;
+  resolvedAt?: string;
+
+  // Relations
+  statements?: DisputeStatement[];
+  evidence?: DisputeEvidence[];
+}
+
+export interface DisputeStatement {
+  id: string;
+  disputeId: string;
+  authorId: string;
+  message: string;
+  createdAt: string;
+}
+
+export interface DisputeEvidence {
+  id: string;
+  disputeId: string;
+  statementId?: string;
+  fileId: string;
+  uploadedBy: string;
+  createdAt: string;
+}
+
+// Condition report recorded at pickup or return; complete once signed off by both parties
+export interface HandoverReport extends BaseEntity {
+  id: string;
+  bookingId: string;
+  handoverType: HandoverType;
+  condition: ItemCondition;
+  checklist: HandoverChecklistItem[];
+  notes?: string;
+  reportedBy: string;
+  lenderSignedAt?: string;
+  borrowerSignedAt?: string;
+
+  // Relations
+  photos?: HandoverPhoto[];
+}
+
+export interface HandoverChecklistItem {
+  label: string;
+  ok: boolean;
+  note?: string;
+}
+
+export interface HandoverPhoto {
+  id: string;
+  reportId: string;
+  fileId: string;
+  uploadedBy: string;
+  createdAt: string;
+}
+
+// One-time code shown by the party handing the item over and submitted by the party receiving it
+export interface HandoverCode {
+  handoverType: HandoverType;
+  code: string; // 6-digit PIN
+  qrPayload: string; // JSON encoded in the QR code, carrying the same PIN
+  expiresAt: string;
+}
+
+// Bookings created together by a cart checkout, paid for with one payment
+export interface BookingCheckout {
+  id: string;
+  bookings: Booking[];
+  lenders: CheckoutLenderGroup[];
+  totalAmount: number;
+}
+
+// The bookings of a checkout placed with one lender; each item stays its own booking for availability and handovers
+export interface CheckoutLenderGroup {
+  lenderUserId: string;
+  bookingIds: string[];
+  totalAmount: number;
+}
+
+// One booking request of a checkout; quotes and promo codes only apply to single bookings
+export type CheckoutLine = Omit<CreateBookingDto, 'quoteId' | 'promoCode'> & {
+  cartItemId?: string;
+};
+
+// Why a checkout line cannot be booked; a checkout with any issue creates no bookings
+export interface CheckoutIssue {
+  cartItemId?: string;
+  itemId: string;
+  error: string;
+}
+
+// Checkout lines priced without being booked; totalAmount covers the lines without issues
+export interface CheckoutReview {
+  lines: {
+    cartItemId?: string;
+    itemId: string;
+    lenderUserId: string;
+    priceBreakdown: PriceBreakdown;
+  }[];
+  issues: CheckoutIssue[];
+  totalAmount: number;
+}
+
 // Booking filter types
 export interface BookingFilters {
   status?: BookingStatus[];
@@ -83,4 +345,55 @@ export interface CreateBookingDto {
   pickupLocation?: string;
   deliveryLocation?: string;
   specialInstructions?: string;
-}
\ No newline at end of file
+  quoteId?: string; // charge the price of an unexpired quote for the same item, dates and delivery mode
+  promoCode?: string;
+}
+
+// Pay for one booking, or for every payable booking of a checkout
+export interface InitiatePaymentDto {
+  bookingId?: string;
+  checkoutId?: string;
+  paymentMethod: PaymentMethod;
+}
+
+export interface FileDepositClaimDto {
+  amount: number;
+  reason: string;
+}
+
+export interface ResolveDepositClaimDto {
+  deduction: number; // damage amount kept for the lender, up to the claimed amount
+  note: string;
+}
+
+export interface RequestModificationDto {
+  startDate: string;
+  endDate: string;
+  message?: string;
+}
+
+export interface RespondModificationDto {
+  accept: boolean;
+  responseNote?: string;
+}
+
+export interface RaiseDisputeDto {
+  reason: string;
+}
+
+export interface AddDisputeStatementDto {
+  message: string;
+}
+
+export interface FileHandoverReportDto {
+  condition: ItemCondition;
+  checklist: HandoverChecklistItem[];
+  notes?: string;
+}
+
+export interface ResolveDisputeDto {
+  outcome: 'completed' | 'cancelled';
+  depositDeduction: number;
+  rentRefund: number;
+  note: string;
+}
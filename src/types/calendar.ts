@@ -0,0 +1,32 @@
+// Calendar feed type definitions
+
+import { BaseEntity } from './common.js';
+
+// Tokenized read-only iCalendar feed; itemId set for item feeds, unset for a user's own rentals feed
+export interface CalendarFeed extends BaseEntity {
+  id: string;
+  userId: string;
+  itemId?: string;
+  token: string;
+}
+
+export interface CalendarFeedLink {
+  url: string;
+  issuedAt: string; // when the current token was issued
+}
+
+// External calendar whose busy events are synced into blackouts of an item
+export interface CalendarImport extends BaseEntity {
+  id: string;
+  itemId: string;
+  name: string;
+  sourceUrl?: string; // unset for uploaded files, which are not refreshed
+  lastSyncedAt?: string;
+  lastSyncError?: string;
+  blockedRangeCount: number;
+}
+
+export interface CreateCalendarImportDto {
+  name?: string;
+  url?: string;
+}
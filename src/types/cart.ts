@@ -0,0 +1,45 @@
+// Cart type definitions
+
+import { BaseEntity, DeliveryMode } from './common.js';
+import { CheckoutIssue, PriceBreakdown } from './booking.js';
+
+// An item and dates a borrower plans to book together with the rest of their cart
+export interface CartItem extends BaseEntity {
+  id: string;
+  userId: string;
+  itemId: string;
+  startDate: string;
+  endDate: string;
+  deliveryMode: DeliveryMode;
+  pickupLocation?: string;
+  deliveryLocation?: string;
+  specialInstructions?: string;
+  item?: {
+    id: string;
+    title: string;
+    userId: string;
+  };
+  priceBreakdown?: PriceBreakdown; // current price, absent when the item cannot be booked
+  issue?: string; // why the item cannot be booked right now
+}
+
+// The cart validated and priced as it would be checked out
+export interface Cart {
+  items: CartItem[];
+  totalAmount: number; // items that can be booked
+  issues: CheckoutIssue[];
+}
+
+export interface AddCartItemDto {
+  itemId: string;
+  startDate: string;
+  endDate: string;
+  deliveryMode?: DeliveryMode;
+  pickupLocation?: string;
+  deliveryLocation?: string;
+  specialInstructions?: string;
+}
+
+export interface CheckoutCartDto {
+  cartItemIds?: string[]; // defaults to the whole cart
+}
@@ -1,5 +1,6 @@
 export type UserGender = 'male' | 'female' | 'other' | 'preferNotToSay';
 export type UserDobVisibility = 'public' | 'friends' | 'private';
+export type UserRole = 'user' | 'admin';
 export type FileType = 'image' | 'document' | 'video' | 'other';
 export type DeviceType = 'web' | 'mobileIos' | 'mobileAndroid' | 'desktop';
 export type ItemCondition = 'new' | 'likeNew' | 'good' | 'fair' | 'poor';
@@ -8,6 +9,15 @@ export type BookingStatus = 'pending' | 'confirmed' | 'inProgress' | 'completed'
 export type DeliveryMode = 'none' | 'pickup' | 'delivery' | 'both';
 export type PaymentMethod = 'card' | 'upi' | 'wallet' | 'bankTransfer' | 'cash';
 export type PaymentStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'refunded' | 'partiallyRefunded';
+export type CancellationPolicy = 'flexible' | 'moderate' | 'strict';
+export type BookingMode = 'instant' | 'request';
+export type DepositStatus = 'held' | 'claimed' | 'released' | 'deducted';
+export type DisputeStatus = 'open' | 'resolved';
+export type ModificationStatus = 'pending' | 'accepted' | 'declined';
+export type PricingRuleType = 'lengthOfStay' | 'weekend' | 'dateRange';
+export type DiscountType = 'percentage' | 'flat';
+export type HandoverType = 'pickup' | 'return';
+export type NotificationChannel = 'email' | 'sms' | 'push';
 export type SupportStatus = 'open' | 'inProgress' | 'resolved' | 'closed';
 export type IssueType = 'booking' | 'payment' | 'itemQuality' | 'delivery' | 'userBehavior' | 'technical' | 'other';
 
@@ -0,0 +1,74 @@
+// Invoice type definitions
+
+import { BaseEntity } from './common.js';
+
+export interface InvoiceParty {
+  name: string;
+  email?: string;
+  businessName?: string;
+  gstin?: string;
+  address?: string;
+}
+
+// GST included in a line amount; CGST + SGST within a state, IGST across states
+export interface InvoiceTax {
+  rate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export interface InvoiceLine {
+  description: string;
+  quantity?: number;
+  unitPrice?: number;
+  amount: number; // tax inclusive; negative for discounts
+  tax?: InvoiceTax; // set when the supplier is GST registered
+}
+
+export interface InvoicePayment {
+  id: string;
+  method: string;
+  amount: number;
+  paidAt?: string;
+  transactionId?: string;
+  refundAmount?: number;
+  refundedAt?: string;
+}
+
+// Snapshot of a booking's charges taken when the invoice number is issued
+export interface InvoiceDocument {
+  invoiceNumber: string;
+  issuedAt: string;
+  bookingId: string;
+  currency: string;
+  item: { id: string; title: string };
+  rentalPeriod: { startDate: string; endDate: string; totalDays: number };
+  lender: InvoiceParty; // supplier of the rental
+  borrower: InvoiceParty; // recipient
+  platform: InvoiceParty; // supplier of the platform service
+  rentalCharges: InvoiceLine[];
+  platformCharges: InvoiceLine[];
+  securityDeposit: number; // refundable, outside the taxable value
+  totals: {
+    taxableValue: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+    totalTax: number;
+    totalAmount: number;
+  };
+  payments: InvoicePayment[];
+  amountPaid: number;
+  amountRefunded: number;
+}
+
+export interface Invoice extends BaseEntity {
+  id: string;
+  bookingId: string;
+  invoiceNumber: string; // INV/<financial year>/<sequence>, gapless per financial year
+  financialYear: string;
+  issuedAt: string;
+  document: InvoiceDocument;
+}
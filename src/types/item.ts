@@ -1,4 +1,4 @@
-import { BaseEntity, Location, ItemCondition, ItemStatus, DeliveryMode, File } from './common.js';
+import { BaseEntity, Location, ItemCondition, ItemStatus, DeliveryMode, File, CancellationPolicy, BookingMode, PricingRuleType } from './common.js';
 import { User } from './user.js';
 
 // Category interface
@@ -28,12 +28,19 @@ export interface Item extends BaseEntity {
   imageUrls?: string[];
   status: ItemStatus;
   securityAmount?: number;
+  deliveryFee?: number; // flat fee when the borrower chooses delivery
+  lateFeePerDay?: number; // charged per day an in-progress booking runs past its end date
   rentPricePerDay: number;
   locationId: string;
   deliveryMode: DeliveryMode;
   minRentalDays: number;
   maxRentalDays: number;
   isNegotiable: boolean;
+  cancellationPolicy: CancellationPolicy;
+  cancellationCutoffDays?: number;
+  bookingMode: BookingMode;
+  instantBookMinTrustScore?: number;
+  instantBookVerifiedOnly: boolean;
   tags?: string[];
   ratingAverage: number;
   ratingCount: number;
@@ -140,6 +147,39 @@ export interface ItemAnalyticsSummary {
   trendDirection: 'up' | 'down' | 'stable' | 'insufficientData';
 }
 
+// Owner-defined blocked dates; recurring blackouts repeat on the given weekdays (0 = Sunday)
+export interface ItemBlackout extends BaseEntity {
+  id: string;
+  itemId: string;
+  startDate: string;
+  endDate?: string; // open-ended when recurring and not set
+  recurringWeekdays?: number[];
+  reason?: string;
+  importId?: string; // set for ranges synced from an external calendar
+}
+
+// Price adjustment for an item, or a default for every item of a category when categoryId is set.
+// Negative percentages are discounts, positive ones surcharges.
+export interface PricingRule extends BaseEntity {
+  id: string;
+  itemId?: string;
+  categoryId?: string;
+  ruleType: PricingRuleType;
+  adjustmentPercent: number;
+  minDays?: number; // lengthOfStay: applies to rentals of at least this many days
+  startDate?: string; // dateRange: inclusive range the rate applies to
+  endDate?: string;
+  label?: string;
+  isActive: boolean;
+}
+
+export type CalendarDayStatus = 'free' | 'booked' | 'blocked';
+
+export interface ItemCalendarDay {
+  date: string;
+  status: CalendarDayStatus;
+}
+
 // Search and filter types
 export interface ItemSearchFilters {
   categoryId?: string;
@@ -172,12 +212,19 @@ export interface CreateItemDto {
   categoryId: string;
   condition: ItemCondition;
   securityAmount?: number;
+  deliveryFee?: number;
+  lateFeePerDay?: number;
   rentPricePerDay: number;
   locationId: string;
   deliveryMode?: DeliveryMode;
   minRentalDays?: number;
   maxRentalDays?: number;
   isNegotiable?: boolean;
+  cancellationPolicy?: CancellationPolicy;
+  cancellationCutoffDays?: number;
+  bookingMode?: BookingMode;
+  instantBookMinTrustScore?: number;
+  instantBookVerifiedOnly?: boolean;
   tags?: string[];
   imageUrls?: string[];
 }
@@ -201,11 +248,33 @@ export interface UpdateItemDto {
   categoryId?: string;
   condition?: ItemCondition;
   securityAmount?: number;
+  deliveryFee?: number;
+  lateFeePerDay?: number | null; // null falls back to the platform late fee rate
   rentPricePerDay?: number;
   deliveryMode?: DeliveryMode;
   minRentalDays?: number;
   maxRentalDays?: number;
   isNegotiable?: boolean;
+  cancellationPolicy?: CancellationPolicy;
+  cancellationCutoffDays?: number;
+  bookingMode?: BookingMode;
+  instantBookMinTrustScore?: number;
+  instantBookVerifiedOnly?: boolean;
   tags?: string[];
   status?: ItemStatus;
-}
\ No newline at end of file
+}
+
+export interface CreateBlackoutDto {
+  startDate: string;
+  endDate?: string;
+  recurringWeekdays?: number[];
+  reason?: string;
+}
+export interface CreatePricingRuleDto {
+  ruleType: PricingRuleType;
+  adjustmentPercent: number;
+  minDays?: number;
+  startDate?: string;
+  endDate?: string;
+  label?: string;
+}
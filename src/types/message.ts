@@ -0,0 +1,61 @@
+// Message thread type definitions
+
+import { BaseEntity } from './common.js';
+
+// Conversation between an item's lender and a borrower, about a booking or an enquiry before booking
+export interface MessageThread extends BaseEntity {
+  id: string;
+  bookingId?: string; // absent for enquiries
+  itemId: string;
+  lenderUserId: string;
+  borrowerUserId: string;
+  lenderLastReadAt?: string;
+  borrowerLastReadAt?: string;
+  lastMessageAt?: string;
+  unreadCount?: number; // messages the caller has not read yet
+
+  // Relations
+  item?: {
+    id: string;
+    title: string;
+  };
+  lender?: {
+    id: string;
+    fullName: string;
+    avatarUrl?: string;
+  };
+  borrower?: {
+    id: string;
+    fullName: string;
+    avatarUrl?: string;
+  };
+}
+
+export interface Message {
+  id: string;
+  threadId: string;
+  senderUserId: string;
+  body?: string;
+  attachments: MessageAttachment[];
+  read: boolean; // read by the lender and borrower, other than the sender
+  createdAt: string;
+}
+
+export interface MessageAttachment {
+  id: string;
+  fileId: string;
+  file?: {
+    id: string;
+    url: string;
+    originalName: string;
+    mimeType: string;
+  };
+}
+
+export interface SendMessageDto {
+  body?: string;
+}
+
+export interface SendEnquiryDto extends SendMessageDto {
+  itemId: string;
+}
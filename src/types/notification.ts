@@ -0,0 +1,70 @@
+// Notification type definitions
+
+import { NotificationChannel } from './common.js';
+
+export type NotificationType =
+  | 'bookingRequested'
+  | 'bookingInstantBooked'
+  | 'bookingConfirmed'
+  | 'bookingStarted'
+  | 'bookingCompleted'
+  | 'bookingCancelled'
+  | 'bookingExpired'
+  | 'bookingOverdue'
+  | 'bookingDisputed'
+  | 'disputeResolved'
+  | 'modificationRequested'
+  | 'modificationAccepted'
+  | 'modificationDeclined'
+  | 'messageReceived'
+  | 'pickupReminder'
+  | 'returnReminder'
+  | 'ratingPrompt';
+
+// Types a user can mute; booking lifecycle notifications are always sent
+export type MutableNotificationType = Extract<
+  NotificationType,
+  'messageReceived' | 'pickupReminder' | 'returnReminder' | 'ratingPrompt'
+>;
+
+// In-app notification; the same content is sent on the email, SMS and push channels of its type
+export interface Notification {
+  id: string;
+  userId: string;
+  notificationType: NotificationType;
+  title: string;
+  body: string;
+  data: Record<string, any>; // ids the client links to, e.g. bookingId or threadId
+  bookingId?: string;
+  readAt?: string;
+  createdAt: string;
+
+  // Relations
+  deliveries?: NotificationDelivery[];
+}
+
+export interface NotificationDelivery {
+  id: string;
+  notificationId: string;
+  channel: NotificationChannel;
+  transport: string;
+  delivered: boolean;
+  error?: string;
+  createdAt: string;
+}
+
+export interface NotificationFilters {
+  unreadOnly?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+// Users without saved preferences get every channel and type
+export interface NotificationPreferences {
+  emailEnabled: boolean;
+  smsEnabled: boolean;
+  pushEnabled: boolean;
+  mutedTypes: MutableNotificationType[];
+}
+
+export type UpdateNotificationPreferencesDto = Partial<NotificationPreferences>;
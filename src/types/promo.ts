@@ -0,0 +1,47 @@
+// Promo code type definitions
+
+import { BaseEntity, DiscountType } from './common.js';
+
+// Admin-created coupon taken off the rent of a booking
+export interface PromoCode extends BaseEntity {
+  id: string;
+  code: string; // stored uppercase
+  description?: string;
+  discountType: DiscountType;
+  discountValue: number; // percent of the rent, or a flat amount
+  maxDiscountAmount?: number; // cap on percentage discounts
+  minRentAmount?: number;
+  startsAt?: string;
+  endsAt?: string;
+  usageLimit?: number; // bookings across all users
+  perUserLimit?: number; // bookings per borrower
+  categoryIds?: string[]; // only items in these categories, when set
+  cities?: string[]; // only items in these cities, when set
+  isActive: boolean;
+  createdBy?: string;
+  timesUsed?: number; // bookings currently using the code (cancelled bookings excluded)
+}
+
+export interface CreatePromoCodeDto {
+  code: string;
+  description?: string;
+  discountType: DiscountType;
+  discountValue: number;
+  maxDiscountAmount?: number;
+  minRentAmount?: number;
+  startsAt?: string;
+  endsAt?: string;
+  usageLimit?: number;
+  perUserLimit?: number;
+  categoryIds?: string[];
+  cities?: string[];
+  isActive?: boolean;
+}
+
+export type UpdatePromoCodeDto = Partial<Omit<CreatePromoCodeDto, 'code' | 'discountType'>>;
+
+export interface AppliedPromoCode {
+  promoCodeId: string;
+  code: string;
+  discountAmount: number;
+}
@@ -0,0 +1,19 @@
+// Real-time event type definitions
+
+export type RealtimeEventType = 'booking.status_changed' | 'message.created' | 'notification.created';
+
+// Event pushed to a user's open event streams; ids increase across all users and are used as SSE event ids
+export interface RealtimeEvent {
+  id: number;
+  type: RealtimeEventType;
+  userId: string;
+  data: Record<string, any>;
+  createdAt: string;
+}
+
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+export interface RealtimeSubscription {
+  replay: RealtimeEvent[] | null; // null when events after the client's last event id are no longer buffered
+  unsubscribe: () => void;
+}
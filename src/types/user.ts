@@ -1,4 +1,4 @@
-import { BaseEntity, UserGender, UserDobVisibility } from './common.js';
+import { BaseEntity, UserGender, UserDobVisibility, UserRole } from './common.js';
 
 export interface User extends BaseEntity {
   id: string;
@@ -13,6 +13,10 @@ export interface User extends BaseEntity {
   avatarUrl?: string;
   bio?: string;
   isActive: boolean;
+  role: UserRole;
+  gstin?: string; // GST registration printed on invoices
+  businessName?: string;
+  billingAddress?: string;
 }
 
 // User Favorite interface
@@ -45,4 +49,7 @@ export interface UpdateUserDto {
   dobVisibility?: UserDobVisibility;
   bio?: string;
   avatarUrl?: string;
+  gstin?: string | null;
+  businessName?: string | null;
+  billingAddress?: string | null;
 }
\ No newline at end of file
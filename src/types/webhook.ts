@@ -0,0 +1,68 @@
+// Webhook type definitions
+
+import { BaseEntity } from './common.js';
+
+export type WebhookEventType =
+  | 'booking.created'
+  | 'booking.status_changed'
+  | 'item.created'
+  | 'item.updated'
+  | 'payment.completed'
+  | 'payment.failed'
+  | 'payment.refunded';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+// Admin-registered endpoint receiving signed JSON payloads for the events it subscribes to
+export interface WebhookSubscription extends BaseEntity {
+  id: string;
+  url: string;
+  secret: string; // returned in full on creation only, masked afterwards
+  eventTypes: WebhookEventType[];
+  description?: string;
+  isActive: boolean;
+  createdBy?: string;
+}
+
+export interface CreateWebhookSubscriptionDto {
+  url: string;
+  eventTypes: WebhookEventType[];
+  description?: string;
+  isActive?: boolean;
+}
+
+export type UpdateWebhookSubscriptionDto = Partial<CreateWebhookSubscriptionDto> & {
+  rotateSecret?: boolean;
+};
+
+// Body POSTed to the subscriber; id stays the same across retries and redeliveries
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, any>;
+}
+
+// One attempt series sending an event to a subscription
+export interface WebhookDelivery extends BaseEntity {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  payload: WebhookEvent;
+  deliveryStatus: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string; // unset once succeeded or failed
+  lastAttemptAt?: string;
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  deliveredAt?: string;
+  redeliveryOf?: string;
+}
+
+export interface WebhookDeliveryFilters {
+  deliveryStatus?: WebhookDeliveryStatus;
+  page?: number;
+  limit?: number;
+}
@@ -8,4 +8,12 @@
  */
 export const getFrontendUrl = (): string => {
   return process.env.FRONTEND_URL || 'http://localhost:3000';
-};
\ No newline at end of file
+};
+
+/**
+ * Get the public base URL of this API from environment variables
+ * @returns The API base URL without a trailing slash
+ */
+export const getApiBaseUrl = (): string => {
+  return (process.env.API_BASE_URL || `http://localhost:${process.env.PORT || 5000}`).replace(/\/$/, '');
+};
@@ -0,0 +1,255 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for read-only calendar feeds
+ */
+
+import { addDays, format, parseISO } from 'date-fns';
+
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  description?: string | undefined;
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive; ignored for recurring events, which last one day
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED' | undefined;
+  recurringWeekdays?: number[] | undefined; // 0 = Sunday; repeats weekly until untilDate, or indefinitely when unset
+  untilDate?: string | undefined;
+  lastModified?: string | undefined;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape TEXT values (RFC 5545 section 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545 section 3.1)
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function formatDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function eventLines(event: ICalEvent, stamp: string): string[] {
+  const recurring = !!event.recurringWeekdays?.length;
+  let startDate = event.startDate;
+
+  if (recurring) {
+    // DTSTART must be an occurrence of the rule, so move it to the first matching weekday
+    let day = parseISO(startDate);
+    while (!event.recurringWeekdays!.includes(day.getDay())) {
+      day = addDays(day, 1);
+    }
+    startDate = format(day, 'yyyy-MM-dd');
+
+    if (event.untilDate && startDate > event.untilDate) {
+      return [];
+    }
+  }
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${formatDate(startDate)}`,
+    // All-day DTEND is exclusive
+    `DTEND;VALUE=DATE:${formatDate(format(addDays(parseISO(recurring ? startDate : event.endDate), 1), 'yyyy-MM-dd'))}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+
+  if (recurring) {
+    const byDay = event.recurringWeekdays!.map(day => WEEKDAYS[day]).join(',');
+    lines.push(`RRULE:FREQ=WEEKLY;BYDAY=${byDay}${event.untilDate ? `;UNTIL=${formatDate(event.untilDate)}` : ''}`);
+  }
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+
+  if (event.status) {
+    lines.push(`STATUS:${event.status}`);
+  }
+
+  if (event.lastModified) {
+    lines.push(`LAST-MODIFIED:${formatTimestamp(new Date(event.lastModified))}`);
+  }
+
+  lines.push('TRANSP:OPAQUE', 'END:VEVENT');
+
+  return lines;
+}
+
+/**
+ * Build a VCALENDAR document with CRLF line endings
+ */
+export function buildCalendar(name: string, events: ICalEvent[]): string {
+  const stamp = formatTimestamp(new Date());
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//P2P Rentals//Calendar Feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap(event => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export interface ParsedICalEvent {
+  uid?: string | undefined;
+  summary?: string | undefined;
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\[nN]/g, '\n')
+    .replace(/\\([,;\\])/g, '$1');
+}
+
+/**
+ * Parse a DATE or DATE-TIME value into its calendar date and whether it carries a time
+ */
+function parseDateValue(value: string): { date: Date; hasTime: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hour ?? 0), Number(minute ?? 0), Number(second ?? 0)] as const;
+
+  // Zoned and floating times are read as wall-clock dates, UTC times in UTC
+  const date = utc
+    ? new Date(Date.UTC(...parts))
+    : new Date(parts[0], parts[1], parts[2], parts[3], parts[4], parts[5]);
+
+  return { date, hasTime: hour !== undefined };
+}
+
+function toDateString(date: Date, utc: boolean): string {
+  return utc ? date.toISOString().slice(0, 10) : format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Parse the busy VEVENTs of an iCalendar document into inclusive date ranges.
+ * Cancelled and transparent (free) events are skipped; recurrence rules are not expanded.
+ */
+export function parseCalendar(ics: string): ParsedICalEvent[] {
+  // Unfold continuation lines (RFC 5545 section 3.1)
+  const lines = ics.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const events: ParsedICalEvent[] = [];
+  let current: Record<string, { params: string; value: string }> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      continue;
+    }
+
+    if (line === 'END:VEVENT') {
+      const event = current ? toParsedEvent(current) : null;
+      if (event) {
+        events.push(event);
+      }
+      current = null;
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+
+    const [name = '', ...params] = line.slice(0, separator).split(';');
+    const key = name.toUpperCase();
+    // Keep the first occurrence; nested components such as VALARM come after the event's own properties
+    if (!(key in current)) {
+      current[key] = { params: params.join(';').toUpperCase(), value: line.slice(separator + 1) };
+    }
+  }
+
+  return events;
+}
+
+function toParsedEvent(props: Record<string, { params: string; value: string }>): ParsedICalEvent | null {
+  if (props.STATUS?.value.toUpperCase() === 'CANCELLED' || props.TRANSP?.value.toUpperCase() === 'TRANSPARENT') {
+    return null;
+  }
+
+  const start = props.DTSTART ? parseDateValue(props.DTSTART.value) : null;
+  if (!start) {
+    return null;
+  }
+
+  const startUtc = props.DTSTART!.value.trim().endsWith('Z');
+  const end = props.DTEND ? parseDateValue(props.DTEND.value) : null;
+  const endUtc = !!props.DTEND?.value.trim().endsWith('Z');
+
+  let endDate: string;
+  if (!end) {
+    // Without DTEND a date event lasts one day and a date-time event ends when it starts
+    endDate = toDateString(start.date, startUtc);
+  } else if (!end.hasTime) {
+    // All-day DTEND is exclusive
+    endDate = format(addDays(end.date, -1), 'yyyy-MM-dd');
+  } else {
+    // An event ending at midnight does not occupy the next day
+    endDate = toDateString(new Date(end.date.getTime() - 1000), endUtc);
+  }
+
+  const startDate = toDateString(start.date, startUtc);
+
+  return {
+    uid: props.UID?.value,
+    summary: props.SUMMARY ? unescapeText(props.SUMMARY.value) : undefined,
+    startDate,
+    endDate: endDate < startDate ? startDate : endDate,
+  };
+}
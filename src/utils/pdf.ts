@@ -0,0 +1,137 @@
+/**
+ * Minimal PDF (1.4) writer for text documents such as invoices, using the standard Helvetica fonts
+ */
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+// Helvetica glyph widths (1/1000 em) for the characters used in amounts; other characters use the average width
+const GLYPH_WIDTHS: Record<string, number> = {
+  '0': 556, '1': 556, '2': 556, '3': 556, '4': 556, '5': 556, '6': 556, '7': 556, '8': 556, '9': 556,
+  '.': 278, ',': 278, '-': 333, ' ': 278, '%': 889, '(': 333, ')': 333, '/': 278,
+};
+const AVERAGE_GLYPH_WIDTH = 556;
+
+/**
+ * Escape a string literal and replace characters outside WinAnsi (e.g. the rupee sign) with '?'
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+function textWidth(value: string, size: number): number {
+  let width = 0;
+  for (const char of value) {
+    width += GLYPH_WIDTHS[char] ?? AVERAGE_GLYPH_WIDTH;
+  }
+  return (width * size) / 1000;
+}
+
+export class PdfDocument {
+  static readonly CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+  static readonly LEFT = MARGIN;
+  static readonly RIGHT = PAGE_WIDTH - MARGIN;
+
+  private pages: string[][] = [];
+  private cursor = 0;
+
+  constructor() {
+    this.addPage();
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.cursor = PAGE_HEIGHT - MARGIN;
+  }
+
+  /**
+   * Move the cursor down, starting a new page when the space left is too small
+   */
+  moveDown(height: number): number {
+    if (this.cursor - height < MARGIN) {
+      this.addPage();
+    }
+    this.cursor -= height;
+    return this.cursor;
+  }
+
+  /**
+   * Draw text with its baseline at the cursor; x is the right edge for right-aligned text
+   */
+  text(x: number, value: string, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 10;
+    const left = options.align === 'right' ? x - textWidth(value, size) : x;
+    const font = options.bold ? 'F2' : 'F1';
+
+    this.currentPage().push(
+      `BT /${font} ${size} Tf ${left.toFixed(2)} ${this.cursor.toFixed(2)} Td (${escapeText(value)}) Tj ET`
+    );
+  }
+
+  /**
+   * Write a line of text on a new row
+   */
+  line(value: string, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 10;
+    this.moveDown(size * 1.5);
+    this.text(MARGIN, value, options);
+  }
+
+  /**
+   * Draw a horizontal rule across the content width below the cursor
+   */
+  rule(): void {
+    this.moveDown(6);
+    this.currentPage().push(`0.5 w ${MARGIN} ${this.cursor.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${this.cursor.toFixed(2)} l S`);
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const pageCount = this.pages.length;
+    const firstPageObject = 5;
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${this.pages.map((_, i) => `${firstPageObject + i * 2} 0 R`).join(' ')}] /Count ${pageCount} >>`);
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    this.pages.forEach((operations, i) => {
+      const content = operations.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+        + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${firstPageObject + i * 2 + 1} 0 R >>`
+      );
+      objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+
+    objects.forEach((body, i) => {
+      offsets.push(Buffer.byteLength(output, 'latin1'));
+      output += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private currentPage(): string[] {
+    return this.pages[this.pages.length - 1]!;
+  }
+}
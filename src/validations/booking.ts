@@ -5,7 +5,8 @@ import {
   bookingStatusSchema, 
   deliveryModeSchema, 
   paymentMethodSchema, 
-  paymentStatusSchema 
+  paymentStatusSchema,
+  itemConditionSchema,
 } from './common.js';
 
 // Booking validation schemas
@@ -17,6 +18,8 @@ export const createBookingSchema = z.object({
   pickupLocation: uuidSchema.optional(),
   deliveryLocation: uuidSchema.optional(),
   specialInstructions: z.string().max(1000, 'Special instructions too long').optional(),
+  quoteId: uuidSchema.optional(),
+  promoCode: z.string().trim().min(1).max(50, 'Promo code too long').transform(code => code.toUpperCase()).optional(),
 }).refine(data => {
   const startDate = new Date(data.startDate);
   const endDate = new Date(data.endDate);
@@ -66,6 +69,80 @@ export const rateBookingSchema = z.object({
   feedback: z.string().max(1000, 'Feedback too long').optional(),
 });
 
+// Security deposit claim validation
+export const fileDepositClaimSchema = z.object({
+  amount: positiveNumberSchema,
+  reason: z.string().min(10, 'Claim reason must be at least 10 characters').max(1000, 'Claim reason too long'),
+});
+
+export const respondDepositClaimSchema = z.object({
+  accept: z.boolean(),
+});
+
+export const resolveDepositClaimSchema = z.object({
+  deduction: z.number().min(0, 'Deduction cannot be negative'),
+  note: z.string().min(1, 'Resolution note is required').max(2000, 'Resolution note too long'),
+});
+
+// Date change / extension request validation (past start dates are checked against the booking)
+export const requestModificationSchema = z.object({
+  startDate: z.string().date('Invalid start date format (YYYY-MM-DD)'),
+  endDate: z.string().date('Invalid end date format (YYYY-MM-DD)'),
+  message: z.string().max(1000, 'Message too long').optional(),
+}).refine(data => new Date(data.endDate) >= new Date(data.startDate), {
+  message: 'End date must be greater than or equal to start date',
+  path: ['endDate'],
+});
+
+export const respondModificationSchema = z.object({
+  accept: z.boolean(),
+  responseNote: z.string().max(1000, 'Response note too long').optional(),
+});
+
+// Dispute validation
+export const raiseDisputeSchema = z.object({
+  reason: z.string().min(10, 'Dispute reason must be at least 10 characters').max(2000, 'Dispute reason too long'),
+});
+
+export const addDisputeStatementSchema = z.object({
+  message: z.string().min(1, 'Statement cannot be empty').max(2000, 'Statement too long'),
+});
+
+export const resolveDisputeSchema = z.object({
+  outcome: z.enum(['completed', 'cancelled']),
+  depositDeduction: z.number().min(0, 'Deposit deduction cannot be negative').default(0),
+  rentRefund: z.number().min(0, 'Rent refund cannot be negative').default(0),
+  note: z.string().min(1, 'Resolution note is required').max(2000, 'Resolution note too long'),
+});
+
+// Handover report validation; sent as multipart form data with photos, so the checklist may arrive as a JSON string
+export const handoverChecklistItemSchema = z.object({
+  label: z.string().trim().min(1, 'Checklist item label is required').max(200, 'Checklist item label too long'),
+  ok: z.boolean(),
+  note: z.string().max(500, 'Checklist note too long').optional(),
+});
+
+export const fileHandoverReportSchema = z.object({
+  condition: itemConditionSchema,
+  checklist: z.preprocess(
+    value => {
+      if (typeof value !== 'string') return value;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    },
+    z.array(handoverChecklistItemSchema).max(50, 'Too many checklist items')
+  ).default([]),
+  notes: z.string().max(2000, 'Notes too long').optional(),
+});
+
+// Handover code submitted to start (pickup) or complete (return) a booking
+export const handoverCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, 'Handover code must be 6 digits'),
+});
+
 // Booking filter validation
 export const bookingFilterSchema = z.object({
   status: z.array(bookingStatusSchema).optional(),
@@ -111,6 +188,16 @@ export const createPaymentSchema = z.object({
   gatewayResponse: z.record(z.string(), z.any()).optional(),
 });
 
+// Payment initiation validation (amount is always derived from the booking, or the bookings of a checkout)
+export const initiatePaymentSchema = z.object({
+  bookingId: uuidSchema.optional(),
+  checkoutId: uuidSchema.optional(),
+  paymentMethod: paymentMethodSchema,
+}).refine(data => !data.bookingId !== !data.checkoutId, {
+  message: 'Provide either a booking ID or a checkout ID',
+  path: ['bookingId'],
+});
+
 export const updatePaymentSchema = z.object({
   paymentStatus: paymentStatusSchema.optional(),
   transactionId: z.string().max(255, 'Transaction ID too long').optional(),
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { uuidSchema, deliveryModeSchema } from './common.js';
+
+// Cart validation schemas; cart items take the same booking details as a single booking
+export const addCartItemSchema = z.object({
+  itemId: uuidSchema,
+  startDate: z.string().date('Invalid start date format (YYYY-MM-DD)'),
+  endDate: z.string().date('Invalid end date format (YYYY-MM-DD)'),
+  deliveryMode: deliveryModeSchema.optional(),
+  pickupLocation: uuidSchema.optional(),
+  deliveryLocation: uuidSchema.optional(),
+  specialInstructions: z.string().max(1000, 'Special instructions too long').optional(),
+}).refine(data => {
+  const startDate = new Date(data.startDate);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  return startDate >= today;
+}, {
+  message: 'Start date cannot be in the past',
+  path: ['startDate'],
+}).refine(data => new Date(data.endDate) >= new Date(data.startDate), {
+  message: 'End date must be greater than or equal to start date',
+  path: ['endDate'],
+});
+
+export const checkoutCartSchema = z.object({
+  cartItemIds: z.array(uuidSchema).min(1, 'Select at least one cart item').max(20, 'Too many cart items').optional(),
+});
@@ -39,6 +39,11 @@ export const bookingStatusSchema = z.enum(['pending', 'confirmed', 'inProgress',
 export const deliveryModeSchema = z.enum(['pickup', 'delivery', 'both', 'none'] as const);
 export const paymentMethodSchema = z.enum(['card', 'upi', 'wallet', 'bankTransfer', 'cash'] as const);
 export const paymentStatusSchema = z.enum(['pending', 'processing', 'completed', 'failed', 'refunded', 'partiallyRefunded'] as const);
+export const cancellationPolicySchema = z.enum(['flexible', 'moderate', 'strict'] as const);
+export const bookingModeSchema = z.enum(['instant', 'request'] as const);
+export const pricingRuleTypeSchema = z.enum(['lengthOfStay', 'weekend', 'dateRange'] as const);
+export const discountTypeSchema = z.enum(['percentage', 'flat'] as const);
+export const handoverTypeSchema = z.enum(['pickup', 'return'] as const);
 export const supportStatusSchema = z.enum(['open', 'inProgress', 'resolved', 'closed'] as const);
 export const issueTypeSchema = z.enum(['booking', 'payment', 'itemQuality', 'delivery', 'userBehavior', 'technical', 'other'] as const);
 
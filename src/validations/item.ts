@@ -4,7 +4,10 @@ import {
   positiveNumberSchema, 
   itemConditionSchema, 
   itemStatusSchema, 
-  deliveryModeSchema 
+  deliveryModeSchema,
+  cancellationPolicySchema,
+  bookingModeSchema,
+  pricingRuleTypeSchema
 } from './common.js';
 
 // Category validation schemas
@@ -26,12 +29,19 @@ export const createItemSchema = z.object({
   categoryId: uuidSchema,
   condition: itemConditionSchema,
   securityAmount: z.number().min(0, 'Security amount cannot be negative').optional(),
+  deliveryFee: z.number().min(0, 'Delivery fee cannot be negative').optional(),
+  lateFeePerDay: z.number().min(0, 'Late fee cannot be negative').optional(),
   rentPricePerDay: positiveNumberSchema,
   locationId: uuidSchema,
   deliveryMode: deliveryModeSchema.default('both'),
   minRentalDays: z.number().int().min(1, 'Minimum rental days must be at least 1').default(1),
   maxRentalDays: z.number().int().min(1, 'Maximum rental days must be at least 1').default(30),
   isNegotiable: z.boolean().default(false),
+  cancellationPolicy: cancellationPolicySchema.default('flexible'),
+  cancellationCutoffDays: z.number().int().min(0, 'Cancellation cut-off cannot be negative').max(60, 'Cancellation cut-off cannot exceed 60 days').optional(),
+  bookingMode: bookingModeSchema.default('request'),
+  instantBookMinTrustScore: z.number().min(0, 'Trust score cannot be negative').max(5, 'Trust score cannot exceed 5').optional(),
+  instantBookVerifiedOnly: z.boolean().default(false),
   tags: z.array(z.string().max(50, 'Tag too long')).max(10, 'Maximum 10 tags allowed').optional(),
 }).refine(data => data.maxRentalDays >= data.minRentalDays, {
   message: 'Maximum rental days must be greater than or equal to minimum rental days',
@@ -44,11 +54,18 @@ export const updateItemSchema = z.object({
   categoryId: uuidSchema.optional(),
   condition: itemConditionSchema.optional(),
   securityAmount: z.number().min(0, 'Security amount cannot be negative').optional(),
+  deliveryFee: z.number().min(0, 'Delivery fee cannot be negative').optional(),
+  lateFeePerDay: z.number().min(0, 'Late fee cannot be negative').nullable().optional(),
   rentPricePerDay: positiveNumberSchema.optional(),
   deliveryMode: deliveryModeSchema.optional(),
   minRentalDays: z.number().int().min(1, 'Minimum rental days must be at least 1').optional(),
   maxRentalDays: z.number().int().min(1, 'Maximum rental days must be at least 1').optional(),
   isNegotiable: z.boolean().optional(),
+  cancellationPolicy: cancellationPolicySchema.optional(),
+  cancellationCutoffDays: z.number().int().min(0, 'Cancellation cut-off cannot be negative').max(60, 'Cancellation cut-off cannot exceed 60 days').optional(),
+  bookingMode: bookingModeSchema.optional(),
+  instantBookMinTrustScore: z.number().min(0, 'Trust score cannot be negative').max(5, 'Trust score cannot exceed 5').optional(),
+  instantBookVerifiedOnly: z.boolean().optional(),
   tags: z.array(z.string().max(50, 'Tag too long')).max(10, 'Maximum 10 tags allowed').optional(),
   status: itemStatusSchema.optional(),
 });
@@ -60,11 +77,18 @@ export const createItemWithAddressSchema = z.object({
   categoryId: uuidSchema,
   condition: itemConditionSchema,
   securityAmount: z.number().min(0, 'Security amount cannot be negative').optional(),
+  deliveryFee: z.number().min(0, 'Delivery fee cannot be negative').optional(),
+  lateFeePerDay: z.number().min(0, 'Late fee cannot be negative').optional(),
   rentPricePerDay: positiveNumberSchema,
   deliveryMode: deliveryModeSchema.default('both'),
   minRentalDays: z.number().int().min(1, 'Minimum rental days must be at least 1').default(1),
   maxRentalDays: z.number().int().min(1, 'Maximum rental days must be at least 1').default(30),
   isNegotiable: z.boolean().default(false),
+  cancellationPolicy: cancellationPolicySchema.default('flexible'),
+  cancellationCutoffDays: z.number().int().min(0, 'Cancellation cut-off cannot be negative').max(60, 'Cancellation cut-off cannot exceed 60 days').optional(),
+  bookingMode: bookingModeSchema.default('request'),
+  instantBookMinTrustScore: z.number().min(0, 'Trust score cannot be negative').max(5, 'Trust score cannot exceed 5').optional(),
+  instantBookVerifiedOnly: z.boolean().default(false),
   tags: z.array(z.string().max(50, 'Tag too long')).max(10, 'Maximum 10 tags allowed').optional(),
   imageUrls: z.array(z.string().url('Invalid image URL')).optional(),
   
@@ -129,6 +153,25 @@ export const itemSearchSchema = z.object({
   limit: z.number().int().min(1).max(100).default(20),
 });
 
+// Availability blackout validation (one-off ranges need an end date, recurring ones may be open-ended)
+export const createBlackoutSchema = z.object({
+  startDate: z.string().date('Invalid start date format (YYYY-MM-DD)'),
+  endDate: z.string().date('Invalid end date format (YYYY-MM-DD)').optional(),
+  recurringWeekdays: z.array(z.number().int().min(0).max(6, 'Weekdays run from 0 (Sunday) to 6 (Saturday)'))
+    .min(1, 'At least one weekday is required')
+    .max(7)
+    .optional(),
+  reason: z.string().max(255, 'Reason too long').optional(),
+}).refine(data => data.recurringWeekdays || data.endDate, {
+  message: 'End date is required for one-off blackouts',
+  path: ['endDate'],
+}).refine(data => !data.endDate || new Date(data.endDate) >= new Date(data.startDate), {
+  message: 'End date must be greater than or equal to start date',
+  path: ['endDate'],
+});
+
+export const calendarMonthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be in YYYY-MM format');
+
 // Item review validation
 export const createItemReviewSchema = z.object({
   itemId: uuidSchema,
@@ -188,6 +231,16 @@ export const validateSearchParams = (query: any) => {
   if (parsed.priceRange?.min) parsed.priceRange.min = parseFloat(parsed.priceRange.min);
   if (parsed.priceRange?.max) parsed.priceRange.max = parseFloat(parsed.priceRange.max);
 
+  // Handle nested availability parameters from bracket notation
+  if (parsed['availability[startDate]'] || parsed['availability[endDate]']) {
+    parsed.availability = {
+      startDate: parsed['availability[startDate]'],
+      endDate: parsed['availability[endDate]'],
+    };
+    delete parsed['availability[startDate]'];
+    delete parsed['availability[endDate]'];
+  }
+
   // Parse arrays
   if (parsed.condition && typeof parsed.condition === 'string') {
     parsed.condition = parsed.condition.split(',');
@@ -196,4 +249,31 @@ export const validateSearchParams = (query: any) => {
     parsed.deliveryMode = parsed.deliveryMode.split(',');
   }
   return itemSearchSchema.parse(parsed);
-};
\ No newline at end of file
+};
+// External calendar import validation (the .ics file itself arrives as a multipart upload)
+export const createCalendarImportSchema = z.object({
+  name: z.string().min(1).max(100, 'Name too long').optional(),
+  url: z.string()
+    .url('Invalid calendar URL')
+    .refine(url => /^(https?|webcals?):\/\//i.test(url), 'Calendar URL must use http, https or webcal')
+    .optional(),
+});
+
+// Pricing rule validation: length-of-stay rules are discounts, date ranges need both dates
+export const createPricingRuleSchema = z.object({
+  ruleType: pricingRuleTypeSchema,
+  adjustmentPercent: z.number()
+    .min(-90, 'Discount cannot exceed 90%')
+    .max(200, 'Surcharge cannot exceed 200%')
+    .refine(value => value !== 0, 'Adjustment cannot be zero'),
+  minDays: z.number().int().min(2, 'Length-of-stay rules need at least 2 days').max(365).optional(),
+  startDate: z.string().date('Invalid start date format (YYYY-MM-DD)').optional(),
+  endDate: z.string().date('Invalid end date format (YYYY-MM-DD)').optional(),
+  label: z.string().max(100, 'Label too long').optional(),
+}).refine(data => data.ruleType !== 'lengthOfStay' || (data.minDays !== undefined && data.adjustmentPercent < 0), {
+  message: 'Length-of-stay rules need minDays and a negative (discount) adjustment',
+  path: ['minDays'],
+}).refine(data => data.ruleType !== 'dateRange' || (data.startDate && data.endDate && data.endDate >= data.startDate), {
+  message: 'Date range rules need a start date and an end date on or after it',
+  path: ['endDate'],
+});
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { uuidSchema } from './common.js';
+
+// Message validation schemas; attachments come as multipart files, so text is optional
+export const sendMessageSchema = z.object({
+  body: z.string().trim().min(1, 'Message cannot be empty').max(2000, 'Message too long').optional(),
+});
+
+export const sendEnquirySchema = sendMessageSchema.extend({
+  itemId: uuidSchema,
+});
+
+export const messageListSchema = z.object({
+  before: z.string().datetime({ offset: true, message: 'Invalid before timestamp' }).optional(),
+  limit: z.coerce.number().int().min(1).max(100, 'Limit must be between 1 and 100').default(50),
+});
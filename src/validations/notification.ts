@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+export const mutableNotificationTypeSchema = z.enum([
+  'messageReceived',
+  'pickupReminder',
+  'returnReminder',
+  'ratingPrompt',
+] as const);
+
+// Notification preference validation; booking lifecycle notifications cannot be muted, only their channels turned off
+export const updateNotificationPreferencesSchema = z.object({
+  emailEnabled: z.boolean(),
+  smsEnabled: z.boolean(),
+  pushEnabled: z.boolean(),
+  mutedTypes: z.array(mutableNotificationTypeSchema).transform(types => [...new Set(types)]),
+}).partial().refine(data => Object.keys(data).length > 0, {
+  message: 'At least one field must be provided for update',
+});
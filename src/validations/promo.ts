@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { uuidSchema, discountTypeSchema } from './common.js';
+
+const promoCodeFields = {
+  description: z.string().max(500, 'Description too long').optional(),
+  discountValue: z.number().positive('Discount must be greater than 0'),
+  maxDiscountAmount: z.number().positive('Discount cap must be greater than 0').optional(),
+  minRentAmount: z.number().min(0, 'Minimum rent cannot be negative').optional(),
+  startsAt: z.string().datetime('Invalid start time format').optional(),
+  endsAt: z.string().datetime('Invalid end time format').optional(),
+  usageLimit: z.number().int().positive('Usage limit must be at least 1').optional(),
+  perUserLimit: z.number().int().positive('Per-user limit must be at least 1').optional(),
+  categoryIds: z.array(uuidSchema).max(50, 'Too many categories').optional(),
+  cities: z.array(z.string().trim().min(1).max(100)).max(50, 'Too many cities').optional(),
+  isActive: z.boolean().optional(),
+};
+
+// Promo code validation: codes are case-insensitive and stored uppercase
+export const createPromoCodeSchema = z.object({
+  code: z.string()
+    .trim()
+    .regex(/^[A-Za-z0-9_-]{3,50}$/, 'Code must be 3-50 letters, digits, dashes or underscores')
+    .transform(code => code.toUpperCase()),
+  discountType: discountTypeSchema,
+  ...promoCodeFields,
+}).refine(data => data.discountType !== 'percentage' || data.discountValue <= 100, {
+  message: 'Percentage discounts cannot exceed 100%',
+  path: ['discountValue'],
+}).refine(data => !data.startsAt || !data.endsAt || data.endsAt > data.startsAt, {
+  message: 'End time must be after the start time',
+  path: ['endsAt'],
+});
+
+export const updatePromoCodeSchema = z.object(promoCodeFields).partial().refine(data => Object.keys(data).length > 0, {
+  message: 'At least one field must be provided for update',
+}).refine(data => !data.startsAt || !data.endsAt || data.endsAt > data.startsAt, {
+  message: 'End time must be after the start time',
+  path: ['endsAt'],
+});
@@ -33,6 +33,14 @@ export const updateUserSchema = z.object({
   dobVisibility: userDobVisibilitySchema.optional(),
   bio: z.string().max(500, 'Bio must be less than 500 characters').optional(),
   avatarUrl: urlSchema.optional(),
+  gstin: z.string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/, 'Invalid GSTIN format')
+    .nullable()
+    .optional(),
+  businessName: z.string().max(255, 'Business name too long').nullable().optional(),
+  billingAddress: z.string().max(500, 'Billing address too long').nullable().optional(),
 }).refine(data => {
   if (data.dob) {
     const dobDate = new Date(data.dob);
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+export const webhookEventTypeSchema = z.enum([
+  'booking.created',
+  'booking.status_changed',
+  'item.created',
+  'item.updated',
+  'payment.completed',
+  'payment.failed',
+  'payment.refunded',
+] as const);
+
+export const webhookDeliveryStatusSchema = z.enum(['pending', 'succeeded', 'failed'] as const);
+
+const webhookSubscriptionFields = {
+  url: z.string()
+    .trim()
+    .url('Invalid URL format')
+    .max(2000, 'URL too long')
+    .refine(url => /^https?:\/\//i.test(url), 'URL must use http or https'),
+  eventTypes: z.array(webhookEventTypeSchema)
+    .min(1, 'Subscribe to at least one event type')
+    .transform(types => [...new Set(types)]),
+  description: z.string().max(255, 'Description too long').optional(),
+  isActive: z.boolean().optional(),
+};
+
+// Webhook subscription validation; the signing secret is generated by the server
+export const createWebhookSubscriptionSchema = z.object(webhookSubscriptionFields);
+
+export const updateWebhookSubscriptionSchema = z.object({
+  ...webhookSubscriptionFields,
+  rotateSecret: z.boolean(),
+}).partial().refine(data => Object.keys(data).length > 0, {
+  message: 'At least one field must be provided for update',
+});
@@ -0,0 +1,16 @@
+-- Migration: Payment gateway tracking
+-- Created: Track which gateway processed a payment and look payments up by gateway transaction id
+-- Rollback: Run rollbacks/20261019100000_rollback_add_payment_gateway_tracking.sql
+
+ALTER TABLE payment ADD COLUMN IF NOT EXISTS gateway VARCHAR(50);
+
+-- Gateway callbacks resolve payments by their external transaction id
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_gateway_transaction
+    ON payment(gateway, transaction_id)
+    WHERE transaction_id IS NOT NULL;
+
+-- Allow payment status updates to be read back by the payer and the booking's lender
+CREATE POLICY "Lenders can view payments for their bookings" ON payment
+    FOR SELECT USING (
+        booking_id IN (SELECT id FROM booking WHERE lender_user_id = auth.uid())
+    );
@@ -0,0 +1,51 @@
+-- Migration: Security deposit ledger
+-- Created: Track hold, claim, release and deduction of booking security deposits
+-- Rollback: Run rollbacks/20261019110000_rollback_create_security_deposits.sql
+
+CREATE TYPE deposit_status AS ENUM ('held', 'claimed', 'released', 'deducted');
+
+-- SECURITY_DEPOSIT Table (one row per booking that carries a deposit)
+CREATE TABLE security_deposit (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL UNIQUE REFERENCES booking(id) ON DELETE CASCADE,
+    payment_id UUID REFERENCES payment(id),
+    amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+    deposit_status deposit_status NOT NULL DEFAULT 'held',
+    held_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    release_due_at TIMESTAMP WITH TIME ZONE, -- set when the booking is completed
+    claim_amount DECIMAL(10,2) CHECK (claim_amount >= 0),
+    claim_reason TEXT,
+    claim_filed_at TIMESTAMP WITH TIME ZONE,
+    claim_rejected_at TIMESTAMP WITH TIME ZONE,
+    deducted_amount DECIMAL(10,2) DEFAULT 0,
+    refunded_amount DECIMAL(10,2) DEFAULT 0,
+    refund_id VARCHAR(255),
+    released_at TIMESTAMP WITH TIME ZONE,
+    resolution_note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT check_claim_within_deposit CHECK (claim_amount IS NULL OR claim_amount <= amount)
+);
+
+CREATE INDEX idx_security_deposit_status ON security_deposit(deposit_status);
+CREATE INDEX idx_security_deposit_release_due ON security_deposit(release_due_at) WHERE deposit_status = 'held';
+
+CREATE TRIGGER update_security_deposit_updated_at
+    BEFORE UPDATE ON security_deposit
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE security_deposit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Booking parties can view security deposits" ON security_deposit
+    FOR SELECT USING (
+        booking_id IN (
+            SELECT id FROM booking
+            WHERE lender_user_id = auth.uid() OR borrower_user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Service role can manage security deposits" ON security_deposit
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT ALL ON security_deposit TO authenticated, service_role;
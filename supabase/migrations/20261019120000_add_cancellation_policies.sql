@@ -0,0 +1,16 @@
+-- Migration: Cancellation policies
+-- Created: Per-item cancellation policy and the refund breakdown recorded on cancelled bookings
+-- Rollback: Run rollbacks/20261019120000_rollback_add_cancellation_policies.sql
+
+CREATE TYPE cancellation_policy AS ENUM ('flexible', 'moderate', 'strict');
+
+ALTER TABLE item
+    ADD COLUMN IF NOT EXISTS cancellation_policy cancellation_policy NOT NULL DEFAULT 'flexible',
+    ADD COLUMN IF NOT EXISTS cancellation_cutoff_days INTEGER CHECK (cancellation_cutoff_days BETWEEN 0 AND 60);
+
+-- Refund computed at cancellation time so later policy edits do not change past bookings
+ALTER TABLE booking
+    ADD COLUMN IF NOT EXISTS cancelled_by VARCHAR(20) CHECK (cancelled_by IN ('lender', 'borrower')),
+    ADD COLUMN IF NOT EXISTS cancellation_refund_amount DECIMAL(10,2),
+    ADD COLUMN IF NOT EXISTS cancellation_lender_compensation DECIMAL(10,2),
+    ADD COLUMN IF NOT EXISTS cancellation_breakdown JSONB;
@@ -0,0 +1,45 @@
+-- Migration: Booking status history
+-- Created: Audit trail of every booking status transition (actor, from, to, reason)
+-- Rollback: Run rollbacks/20261019130000_rollback_create_booking_status_history.sql
+
+-- BOOKING_STATUS_HISTORY Table (append-only, one row per transition)
+CREATE TABLE booking_status_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL REFERENCES booking(id) ON DELETE CASCADE,
+    from_status booking_status, -- NULL for the initial request
+    to_status booking_status NOT NULL,
+    changed_by UUID REFERENCES users(id), -- NULL for system changes
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_booking_status_history_booking ON booking_status_history(booking_id, created_at);
+
+-- Backfill the transitions that can be recovered from existing booking timestamps
+INSERT INTO booking_status_history (booking_id, from_status, to_status, changed_by, created_at)
+SELECT id, NULL, 'pending', borrower_user_id, created_at FROM booking;
+
+INSERT INTO booking_status_history (booking_id, from_status, to_status, changed_by, created_at)
+SELECT id, 'pending', 'confirmed', lender_user_id, confirmed_at FROM booking WHERE confirmed_at IS NOT NULL;
+
+INSERT INTO booking_status_history (booking_id, from_status, to_status, created_at)
+SELECT id, NULL, 'completed', completed_at FROM booking WHERE completed_at IS NOT NULL;
+
+INSERT INTO booking_status_history (booking_id, from_status, to_status, reason, created_at)
+SELECT id, NULL, 'cancelled', cancellation_reason, cancelled_at FROM booking WHERE cancelled_at IS NOT NULL;
+
+ALTER TABLE booking_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Booking parties can view status history" ON booking_status_history
+    FOR SELECT USING (
+        booking_id IN (
+            SELECT id FROM booking
+            WHERE lender_user_id = auth.uid() OR borrower_user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Service role can manage status history" ON booking_status_history
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON booking_status_history TO authenticated;
+GRANT ALL ON booking_status_history TO service_role;
@@ -0,0 +1,115 @@
+-- Migration: Booking disputes
+-- Created: Admin role, disputes raised on in-progress bookings, statements, evidence and resolution outcome
+-- Rollback: Run rollbacks/20261019140000_rollback_create_booking_disputes.sql
+
+CREATE TYPE user_role AS ENUM ('user', 'admin');
+CREATE TYPE dispute_status AS ENUM ('open', 'resolved');
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role user_role NOT NULL DEFAULT 'user';
+
+-- Roles are granted by support only: the profile update policy and table grants
+-- would otherwise let a signed-in user promote themselves through the REST API
+CREATE OR REPLACE FUNCTION prevent_user_role_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated') AND (
+        (TG_OP = 'INSERT' AND NEW.role <> 'user') OR
+        (TG_OP = 'UPDATE' AND NEW.role IS DISTINCT FROM OLD.role)
+    ) THEN
+        RAISE EXCEPTION 'User role can only be changed by the service role'
+            USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_users_role_change
+    BEFORE INSERT OR UPDATE ON users
+    FOR EACH ROW EXECUTE FUNCTION prevent_user_role_change();
+
+-- BOOKING_DISPUTE Table (a booking can be disputed once; disputed is only left through resolution)
+CREATE TABLE booking_dispute (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL UNIQUE REFERENCES booking(id) ON DELETE CASCADE,
+    raised_by UUID NOT NULL REFERENCES users(id),
+    reason TEXT NOT NULL,
+    dispute_status dispute_status NOT NULL DEFAULT 'open',
+    outcome VARCHAR(20) CHECK (outcome IN ('completed', 'cancelled')),
+    deposit_deduction DECIMAL(10,2) DEFAULT 0, -- kept by the lender
+    deposit_refund DECIMAL(10,2) DEFAULT 0, -- returned to the borrower
+    rent_refund DECIMAL(10,2) DEFAULT 0,
+    resolution_note TEXT,
+    resolved_by UUID REFERENCES users(id),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- DISPUTE_STATEMENT Table (threaded exchange between the parties and admins)
+CREATE TABLE dispute_statement (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    dispute_id UUID NOT NULL REFERENCES booking_dispute(id) ON DELETE CASCADE,
+    author_id UUID NOT NULL REFERENCES users(id),
+    message TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- DISPUTE_EVIDENCE Table (files attached when raising the dispute or with a statement)
+CREATE TABLE dispute_evidence (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    dispute_id UUID NOT NULL REFERENCES booking_dispute(id) ON DELETE CASCADE,
+    statement_id UUID REFERENCES dispute_statement(id) ON DELETE CASCADE,
+    file_id UUID NOT NULL REFERENCES file(id),
+    uploaded_by UUID NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_booking_dispute_status ON booking_dispute(dispute_status, created_at);
+CREATE INDEX idx_dispute_statement_dispute ON dispute_statement(dispute_id, created_at);
+CREATE INDEX idx_dispute_evidence_dispute ON dispute_evidence(dispute_id);
+
+CREATE TRIGGER update_booking_dispute_updated_at
+    BEFORE UPDATE ON booking_dispute
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE booking_dispute ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dispute_statement ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dispute_evidence ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Booking parties can view disputes" ON booking_dispute
+    FOR SELECT USING (
+        booking_id IN (
+            SELECT id FROM booking
+            WHERE lender_user_id = auth.uid() OR borrower_user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Booking parties can view dispute statements" ON dispute_statement
+    FOR SELECT USING (
+        dispute_id IN (
+            SELECT d.id FROM booking_dispute d
+            JOIN booking b ON b.id = d.booking_id
+            WHERE b.lender_user_id = auth.uid() OR b.borrower_user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Booking parties can view dispute evidence" ON dispute_evidence
+    FOR SELECT USING (
+        dispute_id IN (
+            SELECT d.id FROM booking_dispute d
+            JOIN booking b ON b.id = d.booking_id
+            WHERE b.lender_user_id = auth.uid() OR b.borrower_user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Service role can manage disputes" ON booking_dispute
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage dispute statements" ON dispute_statement
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage dispute evidence" ON dispute_evidence
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON booking_dispute, dispute_statement, dispute_evidence TO authenticated;
+GRANT ALL ON booking_dispute, dispute_statement, dispute_evidence TO service_role;
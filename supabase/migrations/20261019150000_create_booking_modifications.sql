@@ -0,0 +1,56 @@
+-- Migration: Booking modifications
+-- Created: Borrower date change / extension requests answered by the lender, keeping the pre-change dates and pricing
+-- Rollback: Run rollbacks/20261019150000_rollback_create_booking_modifications.sql
+
+CREATE TYPE modification_status AS ENUM ('pending', 'accepted', 'declined');
+
+-- BOOKING_MODIFICATION Table
+CREATE TABLE booking_modification (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL REFERENCES booking(id) ON DELETE CASCADE,
+    requested_by UUID NOT NULL REFERENCES users(id),
+    modification_status modification_status NOT NULL DEFAULT 'pending',
+    previous_start_date DATE NOT NULL,
+    previous_end_date DATE NOT NULL,
+    previous_total_rent DECIMAL(10,2) NOT NULL,
+    previous_platform_fee DECIMAL(10,2) DEFAULT 0,
+    proposed_start_date DATE NOT NULL,
+    proposed_end_date DATE NOT NULL,
+    proposed_total_rent DECIMAL(10,2) NOT NULL,
+    proposed_platform_fee DECIMAL(10,2) DEFAULT 0,
+    message TEXT,
+    response_note TEXT,
+    responded_by UUID REFERENCES users(id),
+    responded_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT check_valid_proposed_dates CHECK (proposed_end_date >= proposed_start_date)
+);
+
+CREATE INDEX idx_booking_modification_booking ON booking_modification(booking_id, created_at);
+
+-- Only one open request per booking
+CREATE UNIQUE INDEX idx_booking_modification_pending
+    ON booking_modification(booking_id)
+    WHERE modification_status = 'pending';
+
+CREATE TRIGGER update_booking_modification_updated_at
+    BEFORE UPDATE ON booking_modification
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE booking_modification ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Booking parties can view modifications" ON booking_modification
+    FOR SELECT USING (
+        booking_id IN (
+            SELECT id FROM booking
+            WHERE lender_user_id = auth.uid() OR borrower_user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Service role can manage modifications" ON booking_modification
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON booking_modification TO authenticated;
+GRANT ALL ON booking_modification TO service_role;
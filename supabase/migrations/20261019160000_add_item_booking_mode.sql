@@ -0,0 +1,11 @@
+-- Migration: Item booking mode
+-- Created: Instant-book versus request-to-book per item, with optional borrower requirements for instant booking
+-- Rollback: Run rollbacks/20261019160000_rollback_add_item_booking_mode.sql
+
+CREATE TYPE booking_mode AS ENUM ('instant', 'request');
+
+ALTER TABLE item
+    ADD COLUMN IF NOT EXISTS booking_mode booking_mode NOT NULL DEFAULT 'request',
+    ADD COLUMN IF NOT EXISTS instant_book_min_trust_score DECIMAL(3,2)
+        CHECK (instant_book_min_trust_score >= 0 AND instant_book_min_trust_score <= 5),
+    ADD COLUMN IF NOT EXISTS instant_book_verified_only BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,12 @@
+-- Migration: Pending booking expiry
+-- Created: Response deadline on pending booking requests, used by the expiry job and shown to clients
+-- Rollback: Run rollbacks/20261019170000_rollback_add_booking_expiry.sql
+
+ALTER TABLE booking ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing requests get the default 24 hour window, capped at the end of their start date
+UPDATE booking
+SET expires_at = LEAST(created_at + INTERVAL '24 hours', (start_date + 1)::timestamp AT TIME ZONE 'UTC')
+WHERE booking_status = 'pending' AND expires_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_booking_pending_expiry ON booking(expires_at) WHERE booking_status = 'pending';
@@ -0,0 +1,67 @@
+-- Migration: Atomic booking creation
+-- Created: Exclusion constraint against overlapping confirmed/in-progress bookings and a create_booking RPC
+--          that checks availability and inserts in one transaction
+-- Rollback: Run rollbacks/20261019180000_rollback_atomic_booking_creation.sql
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Overlapping bookings that already exist must be resolved before this constraint can be added
+ALTER TABLE booking
+    ADD CONSTRAINT booking_no_overlapping_active
+    EXCLUDE USING gist (
+        item_id WITH =,
+        daterange(start_date, end_date, '[]') WITH &&
+    )
+    WHERE (booking_status IN ('confirmed', 'in_progress'));
+
+-- Creates a booking if the item is free for the dates. Raises SQLSTATE 23P01 (exclusion_violation)
+-- on a conflict so callers handle it the same way as a constraint violation on confirmation.
+CREATE OR REPLACE FUNCTION create_booking(
+    p_item_id UUID,
+    p_lender_user_id UUID,
+    p_borrower_user_id UUID,
+    p_start_date DATE,
+    p_end_date DATE,
+    p_daily_rate DECIMAL(10,2),
+    p_total_rent DECIMAL(10,2),
+    p_security_amount DECIMAL(10,2),
+    p_platform_fee DECIMAL(10,2),
+    p_delivery_mode delivery_mode DEFAULT 'none',
+    p_pickup_location UUID DEFAULT NULL,
+    p_delivery_location UUID DEFAULT NULL,
+    p_special_instructions TEXT DEFAULT NULL,
+    p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS booking AS $$
+DECLARE
+    new_booking booking;
+BEGIN
+    -- Serialise concurrent requests for the same item
+    PERFORM 1 FROM item WHERE id = p_item_id FOR UPDATE;
+
+    IF EXISTS (
+        SELECT 1 FROM booking
+        WHERE item_id = p_item_id
+          AND booking_status IN ('confirmed', 'in_progress')
+          AND daterange(start_date, end_date, '[]') && daterange(p_start_date, p_end_date, '[]')
+    ) THEN
+        RAISE EXCEPTION 'Item is not available for the selected dates'
+            USING ERRCODE = '23P01';
+    END IF;
+
+    INSERT INTO booking (
+        item_id, lender_user_id, borrower_user_id, start_date, end_date,
+        daily_rate, total_rent, security_amount, platform_fee, booking_status,
+        expires_at, delivery_mode, pickup_location, delivery_location, special_instructions
+    ) VALUES (
+        p_item_id, p_lender_user_id, p_borrower_user_id, p_start_date, p_end_date,
+        p_daily_rate, p_total_rent, p_security_amount, p_platform_fee, 'pending',
+        p_expires_at, p_delivery_mode, p_pickup_location, p_delivery_location, p_special_instructions
+    )
+    RETURNING * INTO new_booking;
+
+    RETURN new_booking;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_booking TO service_role;
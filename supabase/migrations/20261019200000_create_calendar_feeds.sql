@@ -0,0 +1,32 @@
+-- Migration: Calendar feeds
+-- Created: Secret-token iCalendar feed URLs per item (owner) and per user (own bookings)
+-- Rollback: Run rollbacks/20261019200000_rollback_create_calendar_feeds.sql
+
+-- CALENDAR_FEED Table
+CREATE TABLE calendar_feed (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    item_id UUID REFERENCES item(id) ON DELETE CASCADE, -- NULL for the user's own bookings feed
+    token TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One feed per item and one bookings feed per user
+CREATE UNIQUE INDEX idx_calendar_feed_item ON calendar_feed(item_id) WHERE item_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_calendar_feed_user ON calendar_feed(user_id) WHERE item_id IS NULL;
+
+CREATE TRIGGER update_calendar_feed_updated_at
+    BEFORE UPDATE ON calendar_feed
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE calendar_feed ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their calendar feeds" ON calendar_feed
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Service role can manage calendar feeds" ON calendar_feed
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON calendar_feed TO authenticated;
+GRANT ALL ON calendar_feed TO service_role;
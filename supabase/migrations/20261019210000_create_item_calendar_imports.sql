@@ -0,0 +1,41 @@
+-- Migration: External calendar imports
+-- Created: External .ics calendars per item whose busy events are synced into item blackouts
+-- Rollback: Run rollbacks/20261019210000_rollback_create_item_calendar_imports.sql
+
+-- ITEM_CALENDAR_IMPORT Table
+CREATE TABLE item_calendar_import (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    item_id UUID NOT NULL REFERENCES item(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    source_url TEXT, -- NULL for uploaded files, which are imported once
+    last_synced_at TIMESTAMP WITH TIME ZONE,
+    last_sync_error TEXT,
+    blocked_range_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_item_calendar_import_item ON item_calendar_import(item_id);
+
+CREATE TRIGGER update_item_calendar_import_updated_at
+    BEFORE UPDATE ON item_calendar_import
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE item_calendar_import ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view their calendar imports" ON item_calendar_import
+    FOR SELECT USING (
+        item_id IN (SELECT id FROM item WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Service role can manage calendar imports" ON item_calendar_import
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON item_calendar_import TO authenticated;
+GRANT ALL ON item_calendar_import TO service_role;
+
+-- Synced ranges belong to their import and are replaced on every sync
+ALTER TABLE item_blackout
+    ADD COLUMN import_id UUID REFERENCES item_calendar_import(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_item_blackout_import ON item_blackout(import_id) WHERE import_id IS NOT NULL;
@@ -0,0 +1,110 @@
+-- Migration: Pricing rules
+-- Created: Per-item and per-category pricing rules (length-of-stay discounts, weekend and date range rates)
+--          and the line-item price breakdown stored on bookings and modification requests
+-- Rollback: Run rollbacks/20261019220000_rollback_create_pricing_rules.sql
+
+CREATE TYPE pricing_rule_type AS ENUM ('length_of_stay', 'weekend', 'date_range');
+
+-- PRICING_RULE Table
+CREATE TABLE pricing_rule (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    item_id UUID REFERENCES item(id) ON DELETE CASCADE,
+    category_id UUID REFERENCES categories(id) ON DELETE CASCADE, -- category default when set
+    rule_type pricing_rule_type NOT NULL,
+    adjustment_percent DECIMAL(5,2) NOT NULL, -- negative for discounts
+    min_days INTEGER,
+    start_date DATE,
+    end_date DATE,
+    label VARCHAR(100),
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT check_pricing_rule_owner CHECK ((item_id IS NULL) <> (category_id IS NULL)),
+    CONSTRAINT check_pricing_rule_adjustment CHECK (adjustment_percent BETWEEN -90 AND 200 AND adjustment_percent <> 0),
+    CONSTRAINT check_length_of_stay_rule CHECK (rule_type <> 'length_of_stay' OR (min_days >= 2 AND adjustment_percent < 0)),
+    CONSTRAINT check_date_range_rule CHECK (rule_type <> 'date_range' OR (start_date IS NOT NULL AND end_date >= start_date))
+);
+
+CREATE INDEX idx_pricing_rule_item ON pricing_rule(item_id) WHERE item_id IS NOT NULL;
+CREATE INDEX idx_pricing_rule_category ON pricing_rule(category_id) WHERE category_id IS NOT NULL;
+
+-- At most one weekend rule per item and per category
+CREATE UNIQUE INDEX idx_pricing_rule_item_weekend ON pricing_rule(item_id) WHERE rule_type = 'weekend' AND item_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_pricing_rule_category_weekend ON pricing_rule(category_id) WHERE rule_type = 'weekend' AND category_id IS NOT NULL;
+
+CREATE TRIGGER update_pricing_rule_updated_at
+    BEFORE UPDATE ON pricing_rule
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE pricing_rule ENABLE ROW LEVEL SECURITY;
+
+-- Prices are public, like item rates
+CREATE POLICY "Anyone can view pricing rules" ON pricing_rule
+    FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage pricing rules" ON pricing_rule
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON pricing_rule TO anon, authenticated;
+GRANT ALL ON pricing_rule TO service_role;
+
+-- Line-item breakdown of the rent charged
+ALTER TABLE booking ADD COLUMN price_breakdown JSONB;
+ALTER TABLE booking_modification ADD COLUMN proposed_price_breakdown JSONB;
+
+-- Booking creation: store the price breakdown
+DROP FUNCTION IF EXISTS create_booking(UUID, UUID, UUID, DATE, DATE, DECIMAL, DECIMAL, DECIMAL, DECIMAL, delivery_mode, UUID, UUID, TEXT, TIMESTAMP WITH TIME ZONE);
+
+CREATE OR REPLACE FUNCTION create_booking(
+    p_item_id UUID,
+    p_lender_user_id UUID,
+    p_borrower_user_id UUID,
+    p_start_date DATE,
+    p_end_date DATE,
+    p_daily_rate DECIMAL(10,2),
+    p_total_rent DECIMAL(10,2),
+    p_security_amount DECIMAL(10,2),
+    p_platform_fee DECIMAL(10,2),
+    p_delivery_mode delivery_mode DEFAULT 'none',
+    p_pickup_location UUID DEFAULT NULL,
+    p_delivery_location UUID DEFAULT NULL,
+    p_special_instructions TEXT DEFAULT NULL,
+    p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_price_breakdown JSONB DEFAULT NULL
+)
+RETURNS booking AS $$
+DECLARE
+    new_booking booking;
+BEGIN
+    -- Serialise concurrent requests for the same item
+    PERFORM 1 FROM item WHERE id = p_item_id FOR UPDATE;
+
+    IF EXISTS (
+        SELECT 1 FROM booking
+        WHERE item_id = p_item_id
+          AND booking_status IN ('confirmed', 'in_progress')
+          AND daterange(start_date, end_date, '[]') && daterange(p_start_date, p_end_date, '[]')
+    ) OR is_item_blocked(p_item_id, p_start_date, p_end_date) THEN
+        RAISE EXCEPTION 'Item is not available for the selected dates'
+            USING ERRCODE = '23P01';
+    END IF;
+
+    INSERT INTO booking (
+        item_id, lender_user_id, borrower_user_id, start_date, end_date,
+        daily_rate, total_rent, security_amount, platform_fee, booking_status,
+        expires_at, delivery_mode, pickup_location, delivery_location, special_instructions,
+        price_breakdown
+    ) VALUES (
+        p_item_id, p_lender_user_id, p_borrower_user_id, p_start_date, p_end_date,
+        p_daily_rate, p_total_rent, p_security_amount, p_platform_fee, 'pending',
+        p_expires_at, p_delivery_mode, p_pickup_location, p_delivery_location, p_special_instructions,
+        p_price_breakdown
+    )
+    RETURNING * INTO new_booking;
+
+    RETURN new_booking;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_booking TO service_role;
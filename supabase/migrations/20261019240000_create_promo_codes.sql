@@ -0,0 +1,130 @@
+-- Migration: Promo codes
+-- Created: Admin-managed promo codes with percentage or flat discounts, caps, validity windows, usage limits
+--          and category/city scoping, applied to the rent of bookings
+-- Rollback: Run rollbacks/20261019240000_rollback_create_promo_codes.sql
+
+CREATE TYPE discount_type AS ENUM ('percentage', 'flat');
+
+-- PROMO_CODE Table
+CREATE TABLE promo_code (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code VARCHAR(50) UNIQUE NOT NULL, -- uppercase
+    description TEXT,
+    discount_type discount_type NOT NULL,
+    discount_value DECIMAL(10,2) NOT NULL,
+    max_discount_amount DECIMAL(10,2), -- cap on percentage discounts
+    min_rent_amount DECIMAL(10,2),
+    starts_at TIMESTAMP WITH TIME ZONE,
+    ends_at TIMESTAMP WITH TIME ZONE,
+    usage_limit INTEGER, -- bookings across all users; unlimited when NULL
+    per_user_limit INTEGER DEFAULT 1, -- bookings per borrower; unlimited when NULL
+    category_ids UUID[], -- only items in these categories when set
+    cities TEXT[], -- only items in these cities when set
+    is_active BOOLEAN DEFAULT TRUE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT check_promo_code_value CHECK (discount_value > 0 AND (discount_type <> 'percentage' OR discount_value <= 100)),
+    CONSTRAINT check_promo_code_window CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at),
+    CONSTRAINT check_promo_code_limits CHECK ((usage_limit IS NULL OR usage_limit > 0) AND (per_user_limit IS NULL OR per_user_limit > 0))
+);
+
+CREATE TRIGGER update_promo_code_updated_at
+    BEFORE UPDATE ON promo_code
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE promo_code ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage promo codes" ON promo_code
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT ALL ON promo_code TO service_role;
+
+-- The code a booking was made with and the discount taken off its rent
+ALTER TABLE booking ADD COLUMN promo_code_id UUID REFERENCES promo_code(id) ON DELETE SET NULL;
+ALTER TABLE booking ADD COLUMN discount_amount DECIMAL(10,2) DEFAULT 0 CHECK (discount_amount >= 0);
+
+CREATE INDEX idx_booking_promo_code ON booking(promo_code_id) WHERE promo_code_id IS NOT NULL;
+
+-- Booking creation: enforce promo code usage limits
+DROP FUNCTION IF EXISTS create_booking(UUID, UUID, UUID, DATE, DATE, DECIMAL, DECIMAL, DECIMAL, DECIMAL, delivery_mode, UUID, UUID, TEXT, TIMESTAMP WITH TIME ZONE, JSONB, DECIMAL);
+
+CREATE OR REPLACE FUNCTION create_booking(
+    p_item_id UUID,
+    p_lender_user_id UUID,
+    p_borrower_user_id UUID,
+    p_start_date DATE,
+    p_end_date DATE,
+    p_daily_rate DECIMAL(10,2),
+    p_total_rent DECIMAL(10,2),
+    p_security_amount DECIMAL(10,2),
+    p_platform_fee DECIMAL(10,2),
+    p_delivery_mode delivery_mode DEFAULT 'none',
+    p_pickup_location UUID DEFAULT NULL,
+    p_delivery_location UUID DEFAULT NULL,
+    p_special_instructions TEXT DEFAULT NULL,
+    p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_price_breakdown JSONB DEFAULT NULL,
+    p_delivery_fee DECIMAL(10,2) DEFAULT 0,
+    p_promo_code_id UUID DEFAULT NULL,
+    p_discount_amount DECIMAL(10,2) DEFAULT 0
+)
+RETURNS booking AS $$
+DECLARE
+    new_booking booking;
+    promo promo_code;
+BEGIN
+    -- Serialise concurrent requests for the same item
+    PERFORM 1 FROM item WHERE id = p_item_id FOR UPDATE;
+
+    IF EXISTS (
+        SELECT 1 FROM booking
+        WHERE item_id = p_item_id
+          AND booking_status IN ('confirmed', 'in_progress')
+          AND daterange(start_date, end_date, '[]') && daterange(p_start_date, p_end_date, '[]')
+    ) OR is_item_blocked(p_item_id, p_start_date, p_end_date) THEN
+        RAISE EXCEPTION 'Item is not available for the selected dates'
+            USING ERRCODE = '23P01';
+    END IF;
+
+    -- Promo code limits are checked under a lock so concurrent bookings cannot overuse a code
+    IF p_promo_code_id IS NOT NULL THEN
+        SELECT * INTO promo FROM promo_code WHERE id = p_promo_code_id FOR UPDATE;
+
+        IF promo.usage_limit IS NOT NULL AND (
+            SELECT COUNT(*) FROM booking
+            WHERE promo_code_id = p_promo_code_id AND booking_status <> 'cancelled'
+        ) >= promo.usage_limit THEN
+            RAISE EXCEPTION 'This promo code has reached its usage limit'
+                USING ERRCODE = 'P0001';
+        END IF;
+
+        IF promo.per_user_limit IS NOT NULL AND (
+            SELECT COUNT(*) FROM booking
+            WHERE promo_code_id = p_promo_code_id AND borrower_user_id = p_borrower_user_id
+              AND booking_status <> 'cancelled'
+        ) >= promo.per_user_limit THEN
+            RAISE EXCEPTION 'You have already used this promo code'
+                USING ERRCODE = 'P0001';
+        END IF;
+    END IF;
+
+    INSERT INTO booking (
+        item_id, lender_user_id, borrower_user_id, start_date, end_date,
+        daily_rate, total_rent, security_amount, platform_fee, booking_status,
+        expires_at, delivery_mode, pickup_location, delivery_location, special_instructions,
+        price_breakdown, delivery_fee, promo_code_id, discount_amount
+    ) VALUES (
+        p_item_id, p_lender_user_id, p_borrower_user_id, p_start_date, p_end_date,
+        p_daily_rate, p_total_rent, p_security_amount, p_platform_fee, 'pending',
+        p_expires_at, p_delivery_mode, p_pickup_location, p_delivery_location, p_special_instructions,
+        p_price_breakdown, p_delivery_fee, p_promo_code_id, p_discount_amount
+    )
+    RETURNING * INTO new_booking;
+
+    RETURN new_booking;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_booking TO service_role;
@@ -0,0 +1,91 @@
+-- Migration: Booking invoices
+-- Created: GST details on user profiles and sequentially numbered invoices for completed bookings
+-- Rollback: Run rollbacks/20261019250000_rollback_create_invoices.sql
+
+-- GST registration of business users, printed on their invoices
+ALTER TABLE users ADD COLUMN gstin VARCHAR(15)
+    CHECK (gstin ~ '^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$');
+ALTER TABLE users ADD COLUMN business_name VARCHAR(255);
+ALTER TABLE users ADD COLUMN billing_address TEXT;
+
+-- Last invoice number used per financial year
+CREATE TABLE invoice_counter (
+    financial_year VARCHAR(7) PRIMARY KEY, -- e.g. 2026-27
+    last_number INTEGER NOT NULL DEFAULT 0
+);
+
+-- INVOICE Table
+CREATE TABLE invoice (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID UNIQUE NOT NULL REFERENCES booking(id) ON DELETE RESTRICT,
+    invoice_number VARCHAR(30) UNIQUE NOT NULL,
+    financial_year VARCHAR(7) NOT NULL,
+    issued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    document JSONB, -- snapshot of parties, charges and payments at issue time
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_invoice_updated_at
+    BEFORE UPDATE ON invoice
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE invoice ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Booking parties can view invoices" ON invoice
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM booking b
+            WHERE b.id = invoice.booking_id
+              AND (b.lender_user_id = auth.uid() OR b.borrower_user_id = auth.uid())
+        )
+    );
+
+CREATE POLICY "Service role can manage invoices" ON invoice
+    FOR ALL USING (auth.role() = 'service_role');
+
+ALTER TABLE invoice_counter ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage invoice counters" ON invoice_counter
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON invoice TO authenticated;
+GRANT ALL ON invoice TO service_role;
+GRANT ALL ON invoice_counter TO service_role;
+
+-- Return the invoice of a booking, numbering a new one INV/<financial year>/<sequence> on first call.
+-- The counter row lock keeps numbers gapless within an Indian financial year (April to March).
+CREATE OR REPLACE FUNCTION issue_invoice(p_booking_id UUID)
+RETURNS invoice AS $$
+DECLARE
+    issued invoice;
+    local_now TIMESTAMP := NOW() AT TIME ZONE 'Asia/Kolkata';
+    start_year INTEGER;
+    year_label VARCHAR(7);
+    next_number INTEGER;
+BEGIN
+    -- Serialise concurrent requests for the same booking
+    PERFORM 1 FROM booking WHERE id = p_booking_id FOR UPDATE;
+
+    SELECT * INTO issued FROM invoice WHERE booking_id = p_booking_id;
+    IF FOUND THEN
+        RETURN issued;
+    END IF;
+
+    start_year := EXTRACT(YEAR FROM local_now)::INTEGER - CASE WHEN EXTRACT(MONTH FROM local_now) < 4 THEN 1 ELSE 0 END;
+    year_label := start_year || '-' || LPAD(((start_year + 1) % 100)::TEXT, 2, '0');
+
+    INSERT INTO invoice_counter (financial_year, last_number)
+    VALUES (year_label, 1)
+    ON CONFLICT (financial_year) DO UPDATE SET last_number = invoice_counter.last_number + 1
+    RETURNING last_number INTO next_number;
+
+    INSERT INTO invoice (booking_id, invoice_number, financial_year)
+    VALUES (p_booking_id, 'INV/' || year_label || '/' || LPAD(next_number::TEXT, 6, '0'), year_label)
+    RETURNING * INTO issued;
+
+    RETURN issued;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION issue_invoice TO service_role;
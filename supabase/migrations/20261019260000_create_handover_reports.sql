@@ -0,0 +1,68 @@
+-- Migration: Handover condition reports
+-- Created: Pickup and return reports (checklist, notes, condition, photos) signed by both parties, referenced by deposit claims
+-- Rollback: Run rollbacks/20261019260000_rollback_create_handover_reports.sql
+
+CREATE TYPE handover_type AS ENUM ('pickup', 'return');
+
+-- HANDOVER_REPORT Table (one per booking and handover; revising a report clears the other party's sign-off)
+CREATE TABLE handover_report (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL REFERENCES booking(id) ON DELETE CASCADE,
+    handover_type handover_type NOT NULL,
+    condition item_condition NOT NULL,
+    checklist JSONB NOT NULL DEFAULT '[]', -- [{ label, ok, note }]
+    notes TEXT,
+    reported_by UUID NOT NULL REFERENCES users(id),
+    lender_signed_at TIMESTAMP WITH TIME ZONE,
+    borrower_signed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (booking_id, handover_type)
+);
+
+-- HANDOVER_PHOTO Table (photos taken at the handover)
+CREATE TABLE handover_photo (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    report_id UUID NOT NULL REFERENCES handover_report(id) ON DELETE CASCADE,
+    file_id UUID NOT NULL REFERENCES file(id),
+    uploaded_by UUID NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Damage claims point at the return report they are made against
+ALTER TABLE security_deposit ADD COLUMN IF NOT EXISTS claim_report_id UUID REFERENCES handover_report(id);
+
+CREATE INDEX idx_handover_photo_report ON handover_photo(report_id);
+
+CREATE TRIGGER update_handover_report_updated_at
+    BEFORE UPDATE ON handover_report
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE handover_report ENABLE ROW LEVEL SECURITY;
+ALTER TABLE handover_photo ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Booking parties can view handover reports" ON handover_report
+    FOR SELECT USING (
+        booking_id IN (
+            SELECT id FROM booking
+            WHERE lender_user_id = auth.uid() OR borrower_user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Booking parties can view handover photos" ON handover_photo
+    FOR SELECT USING (
+        report_id IN (
+            SELECT r.id FROM handover_report r
+            JOIN booking b ON b.id = r.booking_id
+            WHERE b.lender_user_id = auth.uid() OR b.borrower_user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Service role can manage handover reports" ON handover_report
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage handover photos" ON handover_photo
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON handover_report, handover_photo TO authenticated;
+GRANT ALL ON handover_report, handover_photo TO service_role;
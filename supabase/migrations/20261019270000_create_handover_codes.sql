@@ -0,0 +1,74 @@
+-- Migration: Handover verification codes
+-- Created: One-time codes held by one party and submitted by the other to start (pickup) or complete (return) a booking
+-- Rollback: Run rollbacks/20261019270000_rollback_create_handover_codes.sql
+
+-- HANDOVER_CODE Table (current code per booking and handover; reissuing replaces the code and resets attempts)
+CREATE TABLE handover_code (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL REFERENCES booking(id) ON DELETE CASCADE,
+    handover_type handover_type NOT NULL,
+    code VARCHAR(6) NOT NULL,
+    holder_user_id UUID NOT NULL REFERENCES users(id), -- borrower for pickup, lender for return
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    failed_attempts INTEGER NOT NULL DEFAULT 0,
+    verified_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (booking_id, handover_type)
+);
+
+CREATE TRIGGER update_handover_code_updated_at
+    BEFORE UPDATE ON handover_code
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE handover_code ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Holders can view their handover codes" ON handover_code
+    FOR SELECT USING (holder_user_id = auth.uid());
+
+CREATE POLICY "Service role can manage handover codes" ON handover_code
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON handover_code TO authenticated;
+GRANT ALL ON handover_code TO service_role;
+
+-- Check a submitted code under a row lock so concurrent guesses all count towards the attempt limit.
+-- Returns 'verified', 'invalid', 'expired', 'locked' or 'not_issued'.
+CREATE OR REPLACE FUNCTION verify_handover_code(
+    p_booking_id UUID,
+    p_handover_type handover_type,
+    p_code TEXT,
+    p_max_attempts INTEGER
+)
+RETURNS TEXT AS $$
+DECLARE
+    current_code handover_code;
+BEGIN
+    SELECT * INTO current_code
+    FROM handover_code
+    WHERE booking_id = p_booking_id AND handover_type = p_handover_type
+    FOR UPDATE;
+
+    IF NOT FOUND OR current_code.verified_at IS NOT NULL THEN
+        RETURN 'not_issued';
+    END IF;
+
+    IF current_code.failed_attempts >= p_max_attempts THEN
+        RETURN 'locked';
+    END IF;
+
+    IF current_code.expires_at <= NOW() THEN
+        RETURN 'expired';
+    END IF;
+
+    IF current_code.code <> p_code THEN
+        UPDATE handover_code SET failed_attempts = failed_attempts + 1 WHERE id = current_code.id;
+        RETURN CASE WHEN current_code.failed_attempts + 1 >= p_max_attempts THEN 'locked' ELSE 'invalid' END;
+    END IF;
+
+    UPDATE handover_code SET verified_at = NOW() WHERE id = current_code.id;
+    RETURN 'verified';
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION verify_handover_code TO service_role;
@@ -0,0 +1,18 @@
+-- Migration: Late returns
+-- Created: Overdue flag on in-progress bookings past their end date, and a per-day late fee (item rate or a share of
+--          the daily rate) collected from the security deposit, with any shortfall left outstanding
+-- Rollback: Run rollbacks/20261019280000_rollback_add_late_returns.sql
+
+-- Lender's own late fee per day; when unset the platform rate applies (LATE_FEE_RATE_PERCENT of the daily rate)
+ALTER TABLE item ADD COLUMN late_fee_per_day DECIMAL(10,2) CHECK (late_fee_per_day >= 0);
+
+ALTER TABLE booking ADD COLUMN overdue_at TIMESTAMP WITH TIME ZONE; -- first seen past its end date while in progress
+ALTER TABLE booking ADD COLUMN late_days INTEGER NOT NULL DEFAULT 0 CHECK (late_days >= 0);
+ALTER TABLE booking ADD COLUMN late_fee DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (late_fee >= 0);
+
+-- The late fee is taken from the security deposit when it is settled; what the deposit does not cover is owed
+ALTER TABLE booking ADD COLUMN late_fee_collected DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (late_fee_collected >= 0);
+ALTER TABLE booking ADD COLUMN late_fee_outstanding DECIMAL(10,2)
+    GENERATED ALWAYS AS (GREATEST(late_fee - late_fee_collected, 0)) STORED;
+
+CREATE INDEX idx_booking_in_progress_end_date ON booking(end_date) WHERE booking_status = 'in_progress';
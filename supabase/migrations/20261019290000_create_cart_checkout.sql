@@ -0,0 +1,115 @@
+-- Migration: Cart checkout
+-- Created: Borrower carts, checkouts creating several bookings in one transaction, and one payment covering a checkout
+-- Rollback: Run rollbacks/20261019290000_rollback_create_cart_checkout.sql
+
+-- CART_ITEM Table (items a borrower plans to book together; priced when the cart is read)
+CREATE TABLE cart_item (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    item_id UUID NOT NULL REFERENCES item(id) ON DELETE CASCADE,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    delivery_mode delivery_mode DEFAULT 'none',
+    pickup_location UUID REFERENCES location(id),
+    delivery_location UUID REFERENCES location(id),
+    special_instructions TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT check_cart_item_dates CHECK (end_date >= start_date)
+);
+
+-- BOOKING_CHECKOUT Table (bookings created together from a cart)
+CREATE TABLE booking_checkout (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    borrower_user_id UUID NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE booking ADD COLUMN checkout_id UUID REFERENCES booking_checkout(id);
+
+-- A checkout is paid with one gateway transaction, recorded as one payment row per booking
+ALTER TABLE payment ADD COLUMN checkout_id UUID REFERENCES booking_checkout(id);
+
+CREATE INDEX idx_cart_item_user ON cart_item(user_id, created_at);
+CREATE INDEX idx_booking_checkout ON booking(checkout_id) WHERE checkout_id IS NOT NULL;
+CREATE INDEX idx_payment_transaction ON payment(transaction_id);
+
+CREATE TRIGGER update_cart_item_updated_at
+    BEFORE UPDATE ON cart_item
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_booking_checkout_updated_at
+    BEFORE UPDATE ON booking_checkout
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE cart_item ENABLE ROW LEVEL SECURITY;
+ALTER TABLE booking_checkout ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own cart" ON cart_item
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Borrowers can view their own checkouts" ON booking_checkout
+    FOR SELECT USING (auth.uid() = borrower_user_id);
+
+CREATE POLICY "Service role can manage cart items" ON cart_item
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage checkouts" ON booking_checkout
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON cart_item, booking_checkout TO authenticated;
+GRANT ALL ON cart_item, booking_checkout TO service_role;
+
+-- Create the bookings of a checkout; each entry holds the create_booking parameters by name.
+-- Any unavailable item or exhausted promo code aborts the whole checkout.
+CREATE OR REPLACE FUNCTION create_checkout(
+    p_borrower_user_id UUID,
+    p_bookings JSONB
+)
+RETURNS SETOF booking AS $$
+DECLARE
+    new_checkout booking_checkout;
+    entry JSONB;
+    new_booking booking;
+BEGIN
+    INSERT INTO booking_checkout (borrower_user_id)
+    VALUES (p_borrower_user_id)
+    RETURNING * INTO new_checkout;
+
+    FOR entry IN SELECT * FROM jsonb_array_elements(p_bookings)
+    LOOP
+        new_booking := create_booking(
+            (entry->>'p_item_id')::UUID,
+            (entry->>'p_lender_user_id')::UUID,
+            p_borrower_user_id,
+            (entry->>'p_start_date')::DATE,
+            (entry->>'p_end_date')::DATE,
+            (entry->>'p_daily_rate')::DECIMAL,
+            (entry->>'p_total_rent')::DECIMAL,
+            (entry->>'p_security_amount')::DECIMAL,
+            (entry->>'p_platform_fee')::DECIMAL,
+            COALESCE(entry->>'p_delivery_mode', 'none')::delivery_mode,
+            (entry->>'p_pickup_location')::UUID,
+            (entry->>'p_delivery_location')::UUID,
+            entry->>'p_special_instructions',
+            (entry->>'p_expires_at')::TIMESTAMP WITH TIME ZONE,
+            entry->'p_price_breakdown',
+            COALESCE((entry->>'p_delivery_fee')::DECIMAL, 0),
+            (entry->>'p_promo_code_id')::UUID,
+            COALESCE((entry->>'p_discount_amount')::DECIMAL, 0)
+        );
+
+        UPDATE booking SET checkout_id = new_checkout.id
+        WHERE id = new_booking.id
+        RETURNING * INTO new_booking;
+
+        RETURN NEXT new_booking;
+    END LOOP;
+
+    RETURN;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_checkout TO service_role;
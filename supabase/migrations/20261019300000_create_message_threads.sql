@@ -0,0 +1,98 @@
+-- Migration: Booking message threads
+-- Created: Message threads between lender and borrower per booking and per pre-booking enquiry, with attachments and read state
+-- Rollback: Run rollbacks/20261019300000_rollback_create_message_threads.sql
+
+-- MESSAGE_THREAD Table (one per booking, or per item and enquiring borrower before a booking exists)
+CREATE TABLE message_thread (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID UNIQUE REFERENCES booking(id) ON DELETE CASCADE,
+    item_id UUID NOT NULL REFERENCES item(id) ON DELETE CASCADE,
+    lender_user_id UUID NOT NULL REFERENCES users(id),
+    borrower_user_id UUID NOT NULL REFERENCES users(id),
+    lender_last_read_at TIMESTAMP WITH TIME ZONE,
+    borrower_last_read_at TIMESTAMP WITH TIME ZONE,
+    last_message_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- MESSAGE Table (sent by either party or by support staff)
+CREATE TABLE message (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    thread_id UUID NOT NULL REFERENCES message_thread(id) ON DELETE CASCADE,
+    sender_user_id UUID NOT NULL REFERENCES users(id),
+    body TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- MESSAGE_ATTACHMENT Table (images sent with a message)
+CREATE TABLE message_attachment (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    message_id UUID NOT NULL REFERENCES message(id) ON DELETE CASCADE,
+    file_id UUID NOT NULL REFERENCES file(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_message_thread_enquiry ON message_thread(item_id, borrower_user_id) WHERE booking_id IS NULL;
+CREATE INDEX idx_message_thread_lender ON message_thread(lender_user_id, last_message_at DESC);
+CREATE INDEX idx_message_thread_borrower ON message_thread(borrower_user_id, last_message_at DESC);
+CREATE INDEX idx_message_thread_created ON message(thread_id, created_at DESC);
+CREATE INDEX idx_message_attachment_message ON message_attachment(message_id);
+
+CREATE TRIGGER update_message_thread_updated_at
+    BEFORE UPDATE ON message_thread
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE message_thread ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_attachment ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Parties can view their message threads" ON message_thread
+    FOR SELECT USING (auth.uid() = lender_user_id OR auth.uid() = borrower_user_id);
+
+CREATE POLICY "Parties can view their messages" ON message
+    FOR SELECT USING (
+        thread_id IN (
+            SELECT id FROM message_thread
+            WHERE lender_user_id = auth.uid() OR borrower_user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Parties can view their message attachments" ON message_attachment
+    FOR SELECT USING (
+        message_id IN (
+            SELECT m.id FROM message m
+            JOIN message_thread t ON t.id = m.thread_id
+            WHERE t.lender_user_id = auth.uid() OR t.borrower_user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Service role can manage message threads" ON message_thread
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage messages" ON message
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage message attachments" ON message_attachment
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON message_thread, message, message_attachment TO authenticated;
+GRANT ALL ON message_thread, message, message_attachment TO service_role;
+
+-- Unread messages per thread of a party: messages from anyone else sent after the party last read the thread.
+-- Threads without unread messages are left out.
+CREATE OR REPLACE FUNCTION count_unread_messages(p_user_id UUID)
+RETURNS TABLE (thread_id UUID, booking_id UUID, unread_count BIGINT) AS $$
+    SELECT t.id, t.booking_id, COUNT(m.id)
+    FROM message_thread t
+    JOIN message m ON m.thread_id = t.id
+    WHERE (t.lender_user_id = p_user_id OR t.borrower_user_id = p_user_id)
+      AND m.sender_user_id <> p_user_id
+      AND m.created_at > COALESCE(
+          CASE WHEN t.lender_user_id = p_user_id THEN t.lender_last_read_at ELSE t.borrower_last_read_at END,
+          '-infinity'::TIMESTAMP WITH TIME ZONE
+      )
+    GROUP BY t.id, t.booking_id;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION count_unread_messages TO service_role;
@@ -0,0 +1,48 @@
+-- Migration: Notifications
+-- Created: In-app notification inbox and a log of email, SMS and push deliveries
+-- Rollback: Run rollbacks/20261019310000_rollback_create_notifications.sql
+
+CREATE TYPE notification_channel AS ENUM ('email', 'sms', 'push');
+
+-- NOTIFICATION Table (in-app inbox; every notification is stored here, whatever other channels it goes out on)
+CREATE TABLE notification (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    notification_type VARCHAR(50) NOT NULL, -- see NotificationType
+    title VARCHAR(255) NOT NULL,
+    body TEXT NOT NULL,
+    data JSONB NOT NULL DEFAULT '{}', -- ids the client links to, e.g. bookingId
+    booking_id UUID REFERENCES booking(id) ON DELETE CASCADE,
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- NOTIFICATION_DELIVERY Table (one row per channel a notification was sent on)
+CREATE TABLE notification_delivery (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    notification_id UUID NOT NULL REFERENCES notification(id) ON DELETE CASCADE,
+    channel notification_channel NOT NULL,
+    transport VARCHAR(50) NOT NULL,
+    delivered BOOLEAN NOT NULL,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_notification_user ON notification(user_id, created_at DESC);
+CREATE INDEX idx_notification_unread ON notification(user_id) WHERE read_at IS NULL;
+CREATE INDEX idx_notification_delivery_notification ON notification_delivery(notification_id);
+
+ALTER TABLE notification ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_delivery ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications" ON notification
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage notifications" ON notification
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage notification deliveries" ON notification_delivery
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON notification TO authenticated;
+GRANT ALL ON notification, notification_delivery TO service_role;
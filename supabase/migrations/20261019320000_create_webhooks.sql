@@ -0,0 +1,62 @@
+-- Migration: Outgoing webhooks
+-- Created: Webhook subscriptions for booking, item and payment events, with a delivery log retried with backoff
+-- Rollback: Run rollbacks/20261019320000_rollback_create_webhooks.sql
+
+CREATE TYPE webhook_delivery_status AS ENUM ('pending', 'succeeded', 'failed');
+
+-- WEBHOOK_SUBSCRIPTION Table (endpoint receiving signed event payloads; managed by admins)
+CREATE TABLE webhook_subscription (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    url TEXT NOT NULL,
+    secret VARCHAR(100) NOT NULL, -- HMAC-SHA256 signing key
+    event_types TEXT[] NOT NULL, -- e.g. {booking.created,payment.completed}
+    description VARCHAR(255),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- WEBHOOK_DELIVERY Table (one event sent to one subscription; retried until it succeeds or runs out of attempts)
+CREATE TABLE webhook_delivery (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    subscription_id UUID NOT NULL REFERENCES webhook_subscription(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL, -- same for every delivery (and redelivery) of an event
+    event_type VARCHAR(50) NOT NULL,
+    payload JSONB NOT NULL,
+    delivery_status webhook_delivery_status NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    locked_until TIMESTAMP WITH TIME ZONE, -- claimed by a sender until then
+    last_attempt_at TIMESTAMP WITH TIME ZONE,
+    response_status INTEGER,
+    response_body TEXT, -- first 2000 characters
+    error TEXT,
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    redelivery_of UUID REFERENCES webhook_delivery(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_subscription_events ON webhook_subscription USING GIN (event_types) WHERE is_active = TRUE;
+CREATE INDEX idx_webhook_delivery_subscription ON webhook_delivery(subscription_id, created_at DESC);
+CREATE INDEX idx_webhook_delivery_due ON webhook_delivery(next_attempt_at) WHERE delivery_status = 'pending';
+
+CREATE TRIGGER update_webhook_subscription_updated_at
+    BEFORE UPDATE ON webhook_subscription
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_webhook_delivery_updated_at
+    BEFORE UPDATE ON webhook_delivery
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE webhook_subscription ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_delivery ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage webhook subscriptions" ON webhook_subscription
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage webhook deliveries" ON webhook_delivery
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT ALL ON webhook_subscription, webhook_delivery TO service_role;
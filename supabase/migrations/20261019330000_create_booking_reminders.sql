@@ -0,0 +1,42 @@
+-- Migration: Booking reminders and notification preferences
+-- Created: Per-user notification preferences and a log of reminders sent so each is sent once per booking
+-- Rollback: Run rollbacks/20261019330000_rollback_create_booking_reminders.sql
+
+-- NOTIFICATION_PREFERENCE Table (per-user switches; users without a row get every channel)
+CREATE TABLE notification_preference (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    email_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    sms_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    push_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    muted_types TEXT[] NOT NULL DEFAULT '{}', -- optional notification types (reminders, messages) not sent at all
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- BOOKING_REMINDER Table (claimed before a reminder is sent; the unique key makes the scheduler idempotent)
+CREATE TABLE booking_reminder (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL REFERENCES booking(id) ON DELETE CASCADE,
+    reminder_type VARCHAR(30) NOT NULL, -- pickupReminder, returnReminder or ratingPrompt
+    sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (booking_id, reminder_type)
+);
+
+CREATE TRIGGER update_notification_preference_updated_at
+    BEFORE UPDATE ON notification_preference
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE notification_preference ENABLE ROW LEVEL SECURITY;
+ALTER TABLE booking_reminder ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences" ON notification_preference
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage notification preferences" ON notification_preference
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage booking reminders" ON booking_reminder
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON notification_preference TO authenticated;
+GRANT ALL ON notification_preference, booking_reminder TO service_role;
@@ -0,0 +1,38 @@
+-- Migration: Atomic dispute creation
+-- Created: raise_dispute RPC that records a dispute, its evidence and the booking's move to disputed in one transaction
+-- Rollback: Run rollbacks/20261019340000_rollback_atomic_dispute_creation.sql
+
+-- Raises SQLSTATE 23505 (unique_violation) when the booking already has a dispute and P0001 when the booking
+-- is no longer in progress. Evidence files are uploaded by the caller beforehand and linked here.
+CREATE OR REPLACE FUNCTION raise_dispute(
+    p_booking_id UUID,
+    p_raised_by UUID,
+    p_reason TEXT,
+    p_evidence_file_ids UUID[] DEFAULT '{}'
+)
+RETURNS booking_dispute AS $$
+DECLARE
+    new_dispute booking_dispute;
+BEGIN
+    INSERT INTO booking_dispute (booking_id, raised_by, reason, dispute_status)
+    VALUES (p_booking_id, p_raised_by, p_reason, 'open')
+    RETURNING * INTO new_dispute;
+
+    UPDATE booking
+    SET booking_status = 'disputed'
+    WHERE id = p_booking_id AND booking_status = 'in_progress';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Disputes can only be raised on in-progress bookings'
+            USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO dispute_evidence (dispute_id, file_id, uploaded_by)
+    SELECT new_dispute.id, file_id, p_raised_by
+    FROM unnest(p_evidence_file_ids) AS file_id;
+
+    RETURN new_dispute;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION raise_dispute TO service_role;
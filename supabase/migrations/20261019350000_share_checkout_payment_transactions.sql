@@ -0,0 +1,15 @@
+-- Migration: Shared checkout payment transactions
+-- Created: Let the payment rows of a checkout share one gateway transaction while single payments keep a unique one
+-- Rollback: Run rollbacks/20261019350000_rollback_share_checkout_payment_transactions.sql
+
+DROP INDEX IF EXISTS idx_payment_gateway_transaction;
+
+-- Gateway callbacks resolve single-booking payments by their external transaction id
+CREATE UNIQUE INDEX idx_payment_gateway_transaction
+    ON payment(gateway, transaction_id)
+    WHERE transaction_id IS NOT NULL AND checkout_id IS NULL;
+
+-- A checkout transaction covers one payment row per booking of the checkout
+CREATE UNIQUE INDEX idx_payment_checkout_transaction
+    ON payment(gateway, transaction_id, booking_id)
+    WHERE transaction_id IS NOT NULL AND checkout_id IS NOT NULL;
@@ -0,0 +1,7 @@
+-- Rollback: Payment gateway tracking
+-- This rollback script reverses migration: 20261019100000_add_payment_gateway_tracking.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019100000
+
+DROP POLICY IF EXISTS "Lenders can view payments for their bookings" ON payment;
+DROP INDEX IF EXISTS idx_payment_gateway_transaction;
+ALTER TABLE payment DROP COLUMN IF EXISTS gateway;
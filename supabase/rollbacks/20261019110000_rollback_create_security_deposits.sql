@@ -0,0 +1,11 @@
+-- Rollback: Security deposit ledger
+-- This rollback script reverses migration: 20261019110000_create_security_deposits.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019110000
+
+DROP POLICY IF EXISTS "Service role can manage security deposits" ON security_deposit;
+DROP POLICY IF EXISTS "Booking parties can view security deposits" ON security_deposit;
+DROP TRIGGER IF EXISTS update_security_deposit_updated_at ON security_deposit;
+DROP INDEX IF EXISTS idx_security_deposit_release_due;
+DROP INDEX IF EXISTS idx_security_deposit_status;
+DROP TABLE IF EXISTS security_deposit;
+DROP TYPE IF EXISTS deposit_status;
@@ -0,0 +1,15 @@
+-- Rollback: Cancellation policies
+-- This rollback script reverses migration: 20261019120000_add_cancellation_policies.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019120000
+
+ALTER TABLE booking
+    DROP COLUMN IF EXISTS cancellation_breakdown,
+    DROP COLUMN IF EXISTS cancellation_lender_compensation,
+    DROP COLUMN IF EXISTS cancellation_refund_amount,
+    DROP COLUMN IF EXISTS cancelled_by;
+
+ALTER TABLE item
+    DROP COLUMN IF EXISTS cancellation_cutoff_days,
+    DROP COLUMN IF EXISTS cancellation_policy;
+
+DROP TYPE IF EXISTS cancellation_policy;
@@ -0,0 +1,8 @@
+-- Rollback: Booking status history
+-- This rollback script reverses migration: 20261019130000_create_booking_status_history.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019130000
+
+DROP POLICY IF EXISTS "Service role can manage status history" ON booking_status_history;
+DROP POLICY IF EXISTS "Booking parties can view status history" ON booking_status_history;
+DROP INDEX IF EXISTS idx_booking_status_history_booking;
+DROP TABLE IF EXISTS booking_status_history;
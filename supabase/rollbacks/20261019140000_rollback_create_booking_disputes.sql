@@ -0,0 +1,22 @@
+-- Rollback: Booking disputes
+-- This rollback script reverses migration: 20261019140000_create_booking_disputes.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019140000
+
+DROP POLICY IF EXISTS "Service role can manage dispute evidence" ON dispute_evidence;
+DROP POLICY IF EXISTS "Service role can manage dispute statements" ON dispute_statement;
+DROP POLICY IF EXISTS "Service role can manage disputes" ON booking_dispute;
+DROP POLICY IF EXISTS "Booking parties can view dispute evidence" ON dispute_evidence;
+DROP POLICY IF EXISTS "Booking parties can view dispute statements" ON dispute_statement;
+DROP POLICY IF EXISTS "Booking parties can view disputes" ON booking_dispute;
+DROP TRIGGER IF EXISTS update_booking_dispute_updated_at ON booking_dispute;
+DROP INDEX IF EXISTS idx_dispute_evidence_dispute;
+DROP INDEX IF EXISTS idx_dispute_statement_dispute;
+DROP INDEX IF EXISTS idx_booking_dispute_status;
+DROP TABLE IF EXISTS dispute_evidence;
+DROP TABLE IF EXISTS dispute_statement;
+DROP TABLE IF EXISTS booking_dispute;
+DROP TRIGGER IF EXISTS prevent_users_role_change ON users;
+DROP FUNCTION IF EXISTS prevent_user_role_change();
+ALTER TABLE users DROP COLUMN IF EXISTS role;
+DROP TYPE IF EXISTS dispute_status;
+DROP TYPE IF EXISTS user_role;
@@ -0,0 +1,11 @@
+-- Rollback: Booking modifications
+-- This rollback script reverses migration: 20261019150000_create_booking_modifications.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019150000
+
+DROP POLICY IF EXISTS "Service role can manage modifications" ON booking_modification;
+DROP POLICY IF EXISTS "Booking parties can view modifications" ON booking_modification;
+DROP TRIGGER IF EXISTS update_booking_modification_updated_at ON booking_modification;
+DROP INDEX IF EXISTS idx_booking_modification_pending;
+DROP INDEX IF EXISTS idx_booking_modification_booking;
+DROP TABLE IF EXISTS booking_modification;
+DROP TYPE IF EXISTS modification_status;
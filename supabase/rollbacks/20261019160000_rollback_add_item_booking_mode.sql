@@ -0,0 +1,10 @@
+-- Rollback: Item booking mode
+-- This rollback script reverses migration: 20261019160000_add_item_booking_mode.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019160000
+
+ALTER TABLE item
+    DROP COLUMN IF EXISTS instant_book_verified_only,
+    DROP COLUMN IF EXISTS instant_book_min_trust_score,
+    DROP COLUMN IF EXISTS booking_mode;
+
+DROP TYPE IF EXISTS booking_mode;
@@ -0,0 +1,6 @@
+-- Rollback: Pending booking expiry
+-- This rollback script reverses migration: 20261019170000_add_booking_expiry.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019170000
+
+DROP INDEX IF EXISTS idx_booking_pending_expiry;
+ALTER TABLE booking DROP COLUMN IF EXISTS expires_at;
@@ -0,0 +1,10 @@
+-- Rollback: Atomic booking creation
+-- This rollback script reverses migration: 20261019180000_atomic_booking_creation.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019180000
+
+DROP FUNCTION IF EXISTS create_booking(
+    UUID, UUID, UUID, DATE, DATE, DECIMAL, DECIMAL, DECIMAL, DECIMAL,
+    delivery_mode, UUID, UUID, TEXT, TIMESTAMP WITH TIME ZONE
+);
+ALTER TABLE booking DROP CONSTRAINT IF EXISTS booking_no_overlapping_active;
+-- btree_gist is left installed; other objects may depend on it
@@ -0,0 +1,5 @@
+-- Rollback: Remove calendar feeds
+-- This rollback script reverses migration: 20261019200000_create_calendar_feeds.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019200000
+
+DROP TABLE IF EXISTS calendar_feed;
@@ -0,0 +1,10 @@
+-- Rollback: Remove external calendar imports
+-- This rollback script reverses migration: 20261019210000_create_item_calendar_imports.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019210000
+
+-- Drop the dates synced from external calendars
+DELETE FROM item_blackout WHERE import_id IS NOT NULL;
+DROP INDEX IF EXISTS idx_item_blackout_import;
+ALTER TABLE item_blackout DROP COLUMN IF EXISTS import_id;
+
+DROP TABLE IF EXISTS item_calendar_import;
@@ -0,0 +1,97 @@
+-- Rollback: Remove booking quotes and delivery fees
+-- This rollback script reverses migration: 20261019230000_create_booking_quotes.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019230000
+
+-- Restore booking creation without the delivery fee
+DROP FUNCTION IF EXISTS create_booking(UUID, UUID, UUID, DATE, DATE, DECIMAL, DECIMAL, DECIMAL, DECIMAL, delivery_mode, UUID, UUID, TEXT, TIMESTAMP WITH TIME ZONE, JSONB, DECIMAL);
+
+CREATE OR REPLACE FUNCTION create_booking(
+    p_item_id UUID,
+    p_lender_user_id UUID,
+    p_borrower_user_id UUID,
+    p_start_date DATE,
+    p_end_date DATE,
+    p_daily_rate DECIMAL(10,2),
+    p_total_rent DECIMAL(10,2),
+    p_security_amount DECIMAL(10,2),
+    p_platform_fee DECIMAL(10,2),
+    p_delivery_mode delivery_mode DEFAULT 'none',
+    p_pickup_location UUID DEFAULT NULL,
+    p_delivery_location UUID DEFAULT NULL,
+    p_special_instructions TEXT DEFAULT NULL,
+    p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_price_breakdown JSONB DEFAULT NULL
+)
+RETURNS booking AS $$
+DECLARE
+    new_booking booking;
+BEGIN
+    -- Serialise concurrent requests for the same item
+    PERFORM 1 FROM item WHERE id = p_item_id FOR UPDATE;
+
+    IF EXISTS (
+        SELECT 1 FROM booking
+        WHERE item_id = p_item_id
+          AND booking_status IN ('confirmed', 'in_progress')
+          AND daterange(start_date, end_date, '[]') && daterange(p_start_date, p_end_date, '[]')
+    ) OR is_item_blocked(p_item_id, p_start_date, p_end_date) THEN
+        RAISE EXCEPTION 'Item is not available for the selected dates'
+            USING ERRCODE = '23P01';
+    END IF;
+
+    INSERT INTO booking (
+        item_id, lender_user_id, borrower_user_id, start_date, end_date,
+        daily_rate, total_rent, security_amount, platform_fee, booking_status,
+        expires_at, delivery_mode, pickup_location, delivery_location, special_instructions,
+        price_breakdown
+    ) VALUES (
+        p_item_id, p_lender_user_id, p_borrower_user_id, p_start_date, p_end_date,
+        p_daily_rate, p_total_rent, p_security_amount, p_platform_fee, 'pending',
+        p_expires_at, p_delivery_mode, p_pickup_location, p_delivery_location, p_special_instructions,
+        p_price_breakdown
+    )
+    RETURNING * INTO new_booking;
+
+    RETURN new_booking;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_booking TO service_role;
+
+DROP TABLE IF EXISTS booking_quote;
+
+-- Restore the total without the delivery fee
+DROP VIEW IF EXISTS bookings_detailed;
+
+ALTER TABLE booking DROP COLUMN total_amount;
+ALTER TABLE booking ADD COLUMN total_amount DECIMAL(10,2)
+    GENERATED ALWAYS AS (total_rent + COALESCE(security_amount, 0) + COALESCE(platform_fee, 0)) STORED;
+
+ALTER TABLE booking DROP COLUMN IF EXISTS delivery_fee;
+ALTER TABLE item DROP COLUMN IF EXISTS delivery_fee;
+
+CREATE VIEW bookings_detailed AS
+SELECT 
+    b.*,
+    lender.full_name as lender_name,
+    lender.email as lender_email,
+    lender.phone_number as lender_phone,
+    borrower.full_name as borrower_name,
+    borrower.email as borrower_email,
+    borrower.phone_number as borrower_phone,
+    i.title as item_title,
+    i.description as item_description,
+    cat.category_name,
+    pickup_loc.address_line as pickup_address,
+    pickup_loc.city as pickup_city,
+    delivery_loc.address_line as delivery_address,
+    delivery_loc.city as delivery_city
+FROM booking b
+JOIN users lender ON b.lender_user_id = lender.id
+JOIN users borrower ON b.borrower_user_id = borrower.id
+JOIN item i ON b.item_id = i.id
+JOIN categories cat ON i.category_id = cat.id
+LEFT JOIN location pickup_loc ON b.pickup_location = pickup_loc.id
+LEFT JOIN location delivery_loc ON b.delivery_location = delivery_loc.id;
+
+GRANT ALL ON bookings_detailed TO authenticated, service_role;
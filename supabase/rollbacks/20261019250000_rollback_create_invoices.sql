@@ -0,0 +1,12 @@
+-- Rollback: Remove booking invoices
+-- This rollback script reverses migration: 20261019250000_create_invoices.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019250000
+
+DROP FUNCTION IF EXISTS issue_invoice(UUID);
+
+DROP TABLE IF EXISTS invoice;
+DROP TABLE IF EXISTS invoice_counter;
+
+ALTER TABLE users DROP COLUMN IF EXISTS billing_address;
+ALTER TABLE users DROP COLUMN IF EXISTS business_name;
+ALTER TABLE users DROP COLUMN IF EXISTS gstin;
@@ -0,0 +1,14 @@
+-- Rollback: Handover condition reports
+-- This rollback script reverses migration: 20261019260000_create_handover_reports.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019260000
+
+DROP POLICY IF EXISTS "Service role can manage handover photos" ON handover_photo;
+DROP POLICY IF EXISTS "Service role can manage handover reports" ON handover_report;
+DROP POLICY IF EXISTS "Booking parties can view handover photos" ON handover_photo;
+DROP POLICY IF EXISTS "Booking parties can view handover reports" ON handover_report;
+DROP TRIGGER IF EXISTS update_handover_report_updated_at ON handover_report;
+DROP INDEX IF EXISTS idx_handover_photo_report;
+ALTER TABLE security_deposit DROP COLUMN IF EXISTS claim_report_id;
+DROP TABLE IF EXISTS handover_photo;
+DROP TABLE IF EXISTS handover_report;
+DROP TYPE IF EXISTS handover_type;
@@ -0,0 +1,9 @@
+-- Rollback: Handover verification codes
+-- This rollback script reverses migration: 20261019270000_create_handover_codes.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019270000
+
+DROP FUNCTION IF EXISTS verify_handover_code(UUID, handover_type, TEXT, INTEGER);
+DROP POLICY IF EXISTS "Service role can manage handover codes" ON handover_code;
+DROP POLICY IF EXISTS "Holders can view their handover codes" ON handover_code;
+DROP TRIGGER IF EXISTS update_handover_code_updated_at ON handover_code;
+DROP TABLE IF EXISTS handover_code;
@@ -0,0 +1,12 @@
+-- Rollback: Late returns
+-- This rollback script reverses migration: 20261019280000_add_late_returns.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019280000
+
+DROP INDEX IF EXISTS idx_booking_in_progress_end_date;
+
+ALTER TABLE booking DROP COLUMN IF EXISTS late_fee_outstanding;
+ALTER TABLE booking DROP COLUMN IF EXISTS late_fee_collected;
+ALTER TABLE booking DROP COLUMN IF EXISTS late_fee;
+ALTER TABLE booking DROP COLUMN IF EXISTS late_days;
+ALTER TABLE booking DROP COLUMN IF EXISTS overdue_at;
+ALTER TABLE item DROP COLUMN IF EXISTS late_fee_per_day;
@@ -0,0 +1,18 @@
+-- Rollback: Cart checkout
+-- This rollback script reverses migration: 20261019290000_create_cart_checkout.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019290000
+
+DROP FUNCTION IF EXISTS create_checkout(UUID, JSONB);
+DROP POLICY IF EXISTS "Service role can manage checkouts" ON booking_checkout;
+DROP POLICY IF EXISTS "Service role can manage cart items" ON cart_item;
+DROP POLICY IF EXISTS "Borrowers can view their own checkouts" ON booking_checkout;
+DROP POLICY IF EXISTS "Users can view their own cart" ON cart_item;
+DROP TRIGGER IF EXISTS update_booking_checkout_updated_at ON booking_checkout;
+DROP TRIGGER IF EXISTS update_cart_item_updated_at ON cart_item;
+DROP INDEX IF EXISTS idx_payment_transaction;
+DROP INDEX IF EXISTS idx_booking_checkout;
+DROP INDEX IF EXISTS idx_cart_item_user;
+ALTER TABLE payment DROP COLUMN IF EXISTS checkout_id;
+ALTER TABLE booking DROP COLUMN IF EXISTS checkout_id;
+DROP TABLE IF EXISTS booking_checkout;
+DROP TABLE IF EXISTS cart_item;
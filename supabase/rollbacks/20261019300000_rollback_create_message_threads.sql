@@ -0,0 +1,15 @@
+-- Rollback: Booking message threads
+-- This rollback script reverses migration: 20261019300000_create_message_threads.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019300000
+
+DROP FUNCTION IF EXISTS count_unread_messages(UUID);
+DROP POLICY IF EXISTS "Service role can manage message attachments" ON message_attachment;
+DROP POLICY IF EXISTS "Service role can manage messages" ON message;
+DROP POLICY IF EXISTS "Service role can manage message threads" ON message_thread;
+DROP POLICY IF EXISTS "Parties can view their message attachments" ON message_attachment;
+DROP POLICY IF EXISTS "Parties can view their messages" ON message;
+DROP POLICY IF EXISTS "Parties can view their message threads" ON message_thread;
+DROP TRIGGER IF EXISTS update_message_thread_updated_at ON message_thread;
+DROP TABLE IF EXISTS message_attachment;
+DROP TABLE IF EXISTS message;
+DROP TABLE IF EXISTS message_thread;
@@ -0,0 +1,10 @@
+-- Rollback: Notifications
+-- This rollback script reverses migration: 20261019310000_create_notifications.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019310000
+
+DROP POLICY IF EXISTS "Service role can manage notification deliveries" ON notification_delivery;
+DROP POLICY IF EXISTS "Service role can manage notifications" ON notification;
+DROP POLICY IF EXISTS "Users can view their own notifications" ON notification;
+DROP TABLE IF EXISTS notification_delivery;
+DROP TABLE IF EXISTS notification;
+DROP TYPE IF EXISTS notification_channel;
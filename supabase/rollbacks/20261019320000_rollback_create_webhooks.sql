@@ -0,0 +1,11 @@
+-- Rollback: Outgoing webhooks
+-- This rollback script reverses migration: 20261019320000_create_webhooks.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019320000
+
+DROP POLICY IF EXISTS "Service role can manage webhook deliveries" ON webhook_delivery;
+DROP POLICY IF EXISTS "Service role can manage webhook subscriptions" ON webhook_subscription;
+DROP TRIGGER IF EXISTS update_webhook_delivery_updated_at ON webhook_delivery;
+DROP TRIGGER IF EXISTS update_webhook_subscription_updated_at ON webhook_subscription;
+DROP TABLE IF EXISTS webhook_delivery;
+DROP TABLE IF EXISTS webhook_subscription;
+DROP TYPE IF EXISTS webhook_delivery_status;
@@ -0,0 +1,10 @@
+-- Rollback: Booking reminders and notification preferences
+-- This rollback script reverses migration: 20261019330000_create_booking_reminders.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019330000
+
+DROP POLICY IF EXISTS "Service role can manage booking reminders" ON booking_reminder;
+DROP POLICY IF EXISTS "Service role can manage notification preferences" ON notification_preference;
+DROP POLICY IF EXISTS "Users can view their own notification preferences" ON notification_preference;
+DROP TRIGGER IF EXISTS update_notification_preference_updated_at ON notification_preference;
+DROP TABLE IF EXISTS booking_reminder;
+DROP TABLE IF EXISTS notification_preference;
@@ -0,0 +1,5 @@
+-- Rollback: Atomic dispute creation
+-- This rollback script reverses migration: 20261019340000_atomic_dispute_creation.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019340000
+
+DROP FUNCTION IF EXISTS raise_dispute(UUID, UUID, TEXT, UUID[]);
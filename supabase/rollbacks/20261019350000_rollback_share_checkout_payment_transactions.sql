@@ -0,0 +1,12 @@
+-- Rollback: Shared checkout payment transactions
+-- This rollback script reverses migration: 20261019350000_share_checkout_payment_transactions.sql
+-- Usage: ./supabase/scripts/rollback.sh 20261019350000
+
+-- Fails while checkouts paid with one transaction exist; those payment rows must be removed or re-keyed first
+
+DROP INDEX IF EXISTS idx_payment_checkout_transaction;
+DROP INDEX IF EXISTS idx_payment_gateway_transaction;
+
+CREATE UNIQUE INDEX idx_payment_gateway_transaction
+    ON payment(gateway, transaction_id)
+    WHERE transaction_id IS NOT NULL;